@@ -8,7 +8,7 @@ export const mockRestaurants: ShadiRestaurant[] = [
   {
     id: "rest-1",
     slug: "al-fanar",
-    name: "Al Fanar Restaurant & Cafe",
+    name: { en: "Al Fanar Restaurant & Cafe", ar: "مطعم ومقهى الفنر" },
     image: "https://images.unsplash.com/photo-1517248135467-4c7edcad34c4?w=800",
     images: [
       "https://images.unsplash.com/photo-1517248135467-4c7edcad34c4?w=800",
@@ -23,9 +23,9 @@ export const mockRestaurants: ShadiRestaurant[] = [
     cuisine: "Emirati",
     meals: ["Breakfast", "Lunch", "Dinner"],
     atmosphere: ["Casual", "Family Friendly", "Outdoor"],
-    description: "Authentic Emirati cuisine in a traditional setting overlooking the waterfront.",
+    description: { en: "Authentic Emirati cuisine in a traditional setting overlooking the waterfront.", ar: "مأكولات إماراتية أصيلة في أجواء تراثية مطلة على الواجهة المائية." },
     emirate: "Dubai",
-    district: "Dubai Festival City",
+    district: { en: "Dubai Festival City", ar: "دبي فستيفال سيتي" },
     mapCoordinates: { lat: 25.2202, lng: 55.2767 },
     features: ["Outdoor Seating", "Valet Parking", "Family Style"],
     hasDelivery: true,
@@ -37,7 +37,7 @@ export const mockRestaurants: ShadiRestaurant[] = [
   {
     id: "rest-2",
     slug: "arabian-tea-house",
-    name: "Arabian Tea House Restaurant",
+    name: { en: "Arabian Tea House Restaurant", ar: "مطعم بيت الشاي العربي" },
     image: "https://images.unsplash.com/photo-1555396273-367ea4eb4db5?w=800",
     images: [
       "https://images.unsplash.com/photo-1555396273-367ea4eb4db5?w=800",
@@ -50,9 +50,9 @@ export const mockRestaurants: ShadiRestaurant[] = [
     cuisine: "Emirati",
     meals: ["Breakfast", "Lunch"],
     atmosphere: ["Casual", "Outdoor", "Family Friendly"],
-    description: "A charming restaurant set in a traditional wind tower house in historic Al Seef.",
+    description: { en: "A charming restaurant set in a traditional wind tower house in historic Al Seef.", ar: "مطعم ساحر في بيت تراثي ببراجيل في منطقة السيف التاريخية." },
     emirate: "Dubai",
-    district: "Al Seef",
+    district: { en: "Al Seef", ar: "السيف" },
     mapCoordinates: { lat: 25.268, lng: 55.2986 },
     features: ["Outdoor Seating", "WiFi"],
     hasDelivery: true,
@@ -64,7 +64,7 @@ export const mockRestaurants: ShadiRestaurant[] = [
   {
     id: "rest-3",
     slug: "mezlai",
-    name: "Mezlai - Emirates Palace",
+    name: { en: "Mezlai - Emirates Palace", ar: "مزلاي - قصر الإمارات" },
     image: "https://images.unsplash.com/photo-1514933651103-005eec06c04b?w=800",
     images: [
       "https://images.unsplash.com/photo-1514933651103-005eec06c04b?w=800",
@@ -78,9 +78,9 @@ export const mockRestaurants: ShadiRestaurant[] = [
     cuisine: "Emirati",
     meals: ["Lunch", "Dinner"],
     atmosphere: ["Fine Dining", "Romantic", "View"],
-    description: "Award-winning fine dining Emirati restaurant at the iconic Emirates Palace.",
+    description: { en: "Award-winning fine dining Emirati restaurant at the iconic Emirates Palace.", ar: "مطعم إماراتي فاخر حائز على جوائز في قصر الإمارات الشهير." },
     emirate: "Abu Dhabi",
-    district: "Corniche",
+    district: { en: "Corniche", ar: "الكورنيش" },
     mapCoordinates: { lat: 24.4539, lng: 54.3773 },
     features: ["Valet Parking", "WiFi", "Private Dining"],
     hasDelivery: false,
@@ -92,7 +92,7 @@ export const mockRestaurants: ShadiRestaurant[] = [
   {
     id: "rest-4",
     slug: "zuma",
-    name: "Zuma",
+    name: { en: "Zuma", ar: "زوما" },
     image: "https://images.unsplash.com/photo-1553621042-f6e147245754?w=800",
     images: [
       "https://images.unsplash.com/photo-1553621042-f6e147245754?w=800",
@@ -106,9 +106,9 @@ export const mockRestaurants: ShadiRestaurant[] = [
     cuisine: "Japanese",
     meals: ["Lunch", "Dinner"],
     atmosphere: ["Fine Dining", "Romantic"],
-    description: "Contemporary Japanese cuisine in a sophisticated setting.",
+    description: { en: "Contemporary Japanese cuisine in a sophisticated setting.", ar: "مأكولات يابانية معاصرة في أجواء راقية." },
     emirate: "Dubai",
-    district: "Downtown Dubai",
+    district: { en: "Downtown Dubai", ar: "وسط مدينة دبي" },
     mapCoordinates: { lat: 25.1958, lng: 55.2774 },
     features: ["Private Dining", "WiFi", "Valet Parking"],
     hasDelivery: false,
@@ -120,7 +120,7 @@ export const mockRestaurants: ShadiRestaurant[] = [
   {
     id: "rest-5",
     slug: "hakkasan",
-    name: "Hakkasan",
+    name: { en: "Hakkasan", ar: "هاكاسان" },
     image: "https://images.unsplash.com/photo-1552566626-52f8b828add9?w=800",
     images: [
       "https://images.unsplash.com/photo-1552566626-52f8b828add9?w=800",
@@ -134,9 +134,9 @@ export const mockRestaurants: ShadiRestaurant[] = [
     cuisine: "Chinese",
     meals: ["Lunch", "Dinner"],
     atmosphere: ["Fine Dining", "Romantic", "Live Music"],
-    description: "Contemporary Cantonese cuisine in luxurious surroundings.",
+    description: { en: "Contemporary Cantonese cuisine in luxurious surroundings.", ar: "مأكولات كانتونية معاصرة في أجواء فاخرة." },
     emirate: "Dubai",
-    district: "Downtown Dubai",
+    district: { en: "Downtown Dubai", ar: "وسط مدينة دبي" },
     mapCoordinates: { lat: 25.1942, lng: 55.2758 },
     features: ["Private Dining", "Valet Parking", "Lounge"],
     hasDelivery: false,
@@ -148,7 +148,7 @@ export const mockRestaurants: ShadiRestaurant[] = [
   {
     id: "rest-6",
     slug: "pierchic",
-    name: "Pierchic",
+    name: { en: "Pierchic", ar: "بيرشيك" },
     image: "https://images.unsplash.com/photo-1559339352-11d035aa65de?w=800",
     images: [
       "https://images.unsplash.com/photo-1559339352-11d035aa65de?w=800",
@@ -162,9 +162,9 @@ export const mockRestaurants: ShadiRestaurant[] = [
     cuisine: "Seafood",
     meals: ["Dinner"],
     atmosphere: ["Fine Dining", "Romantic", "View"],
-    description: "Overwater dining experience with stunning views of the Arabian Gulf.",
+    description: { en: "Overwater dining experience with stunning views of the Arabian Gulf.", ar: "تجربة طعام فوق الماء بإطلالات خلابة على الخليج العربي." },
     emirate: "Dubai",
-    district: "Palm Jumeirah",
+    district: { en: "Palm Jumeirah", ar: "نخلة جميرا" },
     mapCoordinates: { lat: 25.1182, lng: 55.1376 },
     features: ["Outdoor Seating", "Valet Parking", "Private Dining"],
     hasDelivery: false,
@@ -176,7 +176,7 @@ export const mockRestaurants: ShadiRestaurant[] = [
   {
     id: "rest-7",
     slug: "thiptara",
-    name: "Thiptara",
+    name: { en: "Thiptara", ar: "تيبتارا" },
     image: "https://images.unsplash.com/photo-1562565652-a0d8f0c59eb4?w=800",
     images: [
       "https://images.unsplash.com/photo-1562565652-a0d8f0c59eb4?w=800",
@@ -190,9 +190,9 @@ export const mockRestaurants: ShadiRestaurant[] = [
     cuisine: "Thai",
     meals: ["Dinner"],
     atmosphere: ["Fine Dining", "Romantic", "View"],
-    description: "Authentic Thai cuisine with breathtaking fountain views.",
+    description: { en: "Authentic Thai cuisine with breathtaking fountain views.", ar: "مأكولات تايلاندية أصيلة بإطلالات مذهلة على النافورة." },
     emirate: "Dubai",
-    district: "Downtown Dubai",
+    district: { en: "Downtown Dubai", ar: "وسط مدينة دبي" },
     mapCoordinates: { lat: 25.1972, lng: 55.2744 },
     features: ["Outdoor Seating", "Valet Parking"],
     hasDelivery: false,
@@ -204,7 +204,7 @@ export const mockRestaurants: ShadiRestaurant[] = [
   {
     id: "rest-8",
     slug: "indego-by-vineet",
-    name: "Indego by Vineet",
+    name: { en: "Indego by Vineet", ar: "إنديغو باي فينيت" },
     image: "https://images.unsplash.com/photo-1585937421612-70a008356fbe?w=800",
     images: [
       "https://images.unsplash.com/photo-1585937421612-70a008356fbe?w=800",
@@ -218,9 +218,9 @@ export const mockRestaurants: ShadiRestaurant[] = [
     cuisine: "Indian",
     meals: ["Lunch", "Dinner"],
     atmosphere: ["Fine Dining", "Romantic"],
-    description: "Michelin-starred Indian fine dining experience.",
+    description: { en: "Michelin-starred Indian fine dining experience.", ar: "تجربة طعام هندي فاخر حائزة على نجمة ميشلان." },
     emirate: "Dubai",
-    district: "Downtown Dubai",
+    district: { en: "Downtown Dubai", ar: "وسط مدينة دبي" },
     mapCoordinates: { lat: 25.1929, lng: 55.2745 },
     features: ["Private Dining", "Valet Parking"],
     hasDelivery: false,
@@ -232,7 +232,7 @@ export const mockRestaurants: ShadiRestaurant[] = [
   {
     id: "rest-9",
     slug: "zahrat",
-    name: "Zahrat Lebnan",
+    name: { en: "Zahrat Lebnan", ar: "زهرة لبنان" },
     image: "https://images.unsplash.com/photo-1551183053-bf91a1d81141?w=800",
     images: [
       "https://images.unsplash.com/photo-1551183053-bf91a1d81141?w=800",
@@ -246,9 +246,9 @@ export const mockRestaurants: ShadiRestaurant[] = [
     cuisine: "Lebanese",
     meals: ["Lunch", "Dinner"],
     atmosphere: ["Casual", "Family Friendly"],
-    description: "Authentic Lebanese cuisine with grilled meats and fresh mezzeh.",
+    description: { en: "Authentic Lebanese cuisine with grilled meats and fresh mezzeh.", ar: "مأكولات لبنانية أصيلة مع المشاوي والمازة الطازجة." },
     emirate: "Dubai",
-    district: "Karama",
+    district: { en: "Karama", ar: "الكرامة" },
     mapCoordinates: { lat: 25.2136, lng: 55.2858 },
     features: ["Outdoor Seating", "Parking", "WiFi"],
     hasDelivery: true,
@@ -260,7 +260,7 @@ export const mockRestaurants: ShadiRestaurant[] = [
   {
     id: "rest-10",
     slug: "flooka",
-    name: "Flooka Bread",
+    name: { en: "Flooka Bread", ar: "فلوكة للخبز" },
     image: "https://images.unsplash.com/photo-1504674900247-0877df9cc836?w=800",
     images: [
       "https://images.unsplash.com/photo-1504674900247-0877df9cc836?w=800",
@@ -274,9 +274,9 @@ export const mockRestaurants: ShadiRestaurant[] = [
     cuisine: "Lebanese",
     meals: ["Breakfast"],
     atmosphere: ["Casual", "Family Friendly"],
-    description: "Artisanal bakery and cafe famous for fresh manakish and Lebanese breakfast.",
+    description: { en: "Artisanal bakery and cafe famous for fresh manakish and Lebanese breakfast.", ar: "مخبز ومقهى حرفي مشهور بالمناقيش الطازجة والفطور اللبناني." },
     emirate: "Dubai",
-    district: "Jumeirah",
+    district: { en: "Jumeirah", ar: "جميرا" },
     mapCoordinates: { lat: 25.2354, lng: 55.303 },
     features: ["Outdoor Seating", "Breakfast"],
     hasDelivery: true,
@@ -288,7 +288,7 @@ export const mockRestaurants: ShadiRestaurant[] = [
   {
     id: "rest-11",
     slug: "la-parolle",
-    name: "La Parolle",
+    name: { en: "La Parolle", ar: "لا بارول" },
     image: "https://images.unsplash.com/photo-1514933651103-005eec06c04b?w=800",
     images: [
       "https://images.unsplash.com/photo-1514933651103-005eec06c04b?w=800",
@@ -302,9 +302,9 @@ export const mockRestaurants: ShadiRestaurant[] = [
     cuisine: "Italian",
     meals: ["Lunch", "Dinner"],
     atmosphere: ["Casual", "Family Friendly"],
-    description: "Authentic Italian trattoria with handmade pasta.",
+    description: { en: "Authentic Italian trattoria with handmade pasta.", ar: "مطعم إيطالي أصيل يقدم المعكرونة المصنوعة يدويًا." },
     emirate: "Sharjah",
-    district: "Al Majaz",
+    district: { en: "Al Majaz", ar: "المجاز" },
     mapCoordinates: { lat: 25.3183, lng: 55.3715 },
     features: ["Outdoor Seating", "Parking", "WiFi"],
     hasDelivery: true,
@@ -316,7 +316,7 @@ export const mockRestaurants: ShadiRestaurant[] = [
   {
     id: "rest-12",
     slug: "eataly",
-    name: "Eataly",
+    name: { en: "Eataly", ar: "إيتالي" },
     image: "https://images.unsplash.com/photo-1551183053-bf91a1d81141?w=800",
     images: [
       "https://images.unsplash.com/photo-1551183053-bf91a1d81141?w=800",
@@ -330,9 +330,9 @@ export const mockRestaurants: ShadiRestaurant[] = [
     cuisine: "Italian",
     meals: ["Breakfast", "Lunch", "Dinner"],
     atmosphere: ["Casual", "Family Friendly"],
-    description: "Italian marketplace with restaurants and retail.",
+    description: { en: "Italian marketplace with restaurants and retail.", ar: "سوق إيطالي يضم مطاعم ومتاجر." },
     emirate: "Dubai",
-    district: "Madinat Jumeirah",
+    district: { en: "Madinat Jumeirah", ar: "مدينة جميرا" },
     mapCoordinates: { lat: 25.1314, lng: 55.2367 },
     features: ["Outdoor Seating", "WiFi", "Parking"],
     hasDelivery: true,
@@ -344,7 +344,7 @@ export const mockRestaurants: ShadiRestaurant[] = [
   {
     id: "rest-13",
     slug: "operation-falafel",
-    name: "Operation Falafel",
+    name: { en: "Operation Falafel", ar: "أوبريشن فلافل" },
     image: "https://images.unsplash.com/photo-1504674900247-0877df9cc836?w=800",
     images: [
       "https://images.unsplash.com/photo-1504674900247-0877df9cc836?w=800",
@@ -358,9 +358,9 @@ export const mockRestaurants: ShadiRestaurant[] = [
     cuisine: "Arabic",
     meals: ["Lunch"],
     atmosphere: ["Casual"],
-    description: "Modern street food concept with authentic flavors.",
+    description: { en: "Modern street food concept with authentic flavors.", ar: "مفهوم عصري لأكل الشارع بنكهات أصيلة." },
     emirate: "Dubai",
-    district: "Dubai Mall",
+    district: { en: "Dubai Mall", ar: "دبي مول" },
     mapCoordinates: { lat: 25.1985, lng: 55.2796 },
     features: ["Takeaway", "Quick Service"],
     hasDelivery: true,
@@ -372,7 +372,7 @@ export const mockRestaurants: ShadiRestaurant[] = [
   {
     id: "rest-14",
     slug: "al-mallah",
-    name: "Al Mallah",
+    name: { en: "Al Mallah", ar: "الملاح" },
     image: "https://images.unsplash.com/photo-1555396273-367ea4eb4db5?w=800",
     images: [
       "https://images.unsplash.com/photo-1555396273-367ea4eb4db5?w=800",
@@ -386,9 +386,9 @@ export const mockRestaurants: ShadiRestaurant[] = [
     cuisine: "Lebanese",
     meals: ["Breakfast", "Lunch", "Dinner"],
     atmosphere: ["Casual", "Family Friendly"],
-    description: "Legendary local spot for shawarma and manakish.",
+    description: { en: "Legendary local spot for shawarma and manakish.", ar: "وجهة محلية شهيرة للشاورما والمناقيش." },
     emirate: "Dubai",
-    district: "Mamzar",
+    district: { en: "Mamzar", ar: "الممزر" },
     mapCoordinates: { lat: 25.2856, lng: 55.3678 },
     features: ["Outdoor Seating", "Takeaway", "Parking"],
     hasDelivery: true,
@@ -400,7 +400,7 @@ export const mockRestaurants: ShadiRestaurant[] = [
   {
     id: "rest-15",
     slug: "tania",
-    name: "Tania's Table",
+    name: { en: "Tania's Table", ar: "طاولة تانيا" },
     image: "https://images.unsplash.com/photo-1551183053-bf91a1d81141?w=800",
     images: [
       "https://images.unsplash.com/photo-1551183053-bf91a1d81141?w=800",
@@ -414,9 +414,9 @@ export const mockRestaurants: ShadiRestaurant[] = [
     cuisine: "International",
     meals: ["Lunch", "Dinner"],
     atmosphere: ["Casual", "Family Friendly"],
-    description: "Home-style comfort food in a cozy atmosphere.",
+    description: { en: "Home-style comfort food in a cozy atmosphere.", ar: "أطباق منزلية مريحة في أجواء دافئة." },
     emirate: "Dubai",
-    district: "Al Quoz",
+    district: { en: "Al Quoz", ar: "القوز" },
     mapCoordinates: { lat: 25.1615, lng: 55.2418 },
     features: ["Outdoor Seating", "Parking"],
     hasDelivery: false,
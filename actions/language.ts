@@ -5,10 +5,12 @@
 "use server"
 
 import { setLanguage } from "@/lib/language.server"
-import { getToggleLanguage, type Language } from "@/lib/language.types"
+import { isLanguage, type Language } from "@/lib/language.types"
 
-export async function setLanguageAction(currentLang: Language): Promise<{ language: Language }> {
-  const newLang = getToggleLanguage(currentLang)
-  await setLanguage(newLang)
-  return { language: newLang }
+export async function setLanguageAction(language: Language): Promise<{ language: Language }> {
+  if (!isLanguage(language)) {
+    throw new Error(`Unsupported language: ${String(language)}`)
+  }
+  await setLanguage(language)
+  return { language }
 }
@@ -0,0 +1,51 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   MODERATION ACTIONS - Server actions for the moderation queue
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+"use server"
+
+import { revalidatePath } from "next/cache"
+import { assignModerationItems, decideModerationItems, type DALResult } from "@/lib/dal"
+import {
+  authorizeAction,
+  PERMISSIONS,
+  type ModerationAssignInput,
+  type ModerationDecisionInput,
+} from "@/lib/security"
+import type { ModerationItem } from "@/types/moderation"
+
+/**
+ * Moderation decisions are re-authorized here; the /admin/moderation gate alone is not enough
+ */
+async function authorize(action: string): Promise<string | null> {
+  const access = await authorizeAction(PERMISSIONS.MODERATION_MANAGE, action)
+  return access.allowed ? null : (access.reason ?? "Insufficient permissions")
+}
+
+export async function decideModerationAction(
+  input: ModerationDecisionInput
+): Promise<DALResult<ModerationItem[]>> {
+  const denied = await authorize("decideModerationItems")
+  if (denied) return { data: null, error: denied }
+
+  const result = await decideModerationItems(input)
+  if (!result.error) {
+    revalidatePath("/admin/moderation")
+    // Decisions change what is public and the aggregate ratings
+    revalidatePath("/restaurants/[slug]", "page")
+    revalidatePath("/restaurants")
+    revalidatePath("/")
+  }
+  return result
+}
+
+export async function assignModerationAction(
+  input: ModerationAssignInput
+): Promise<DALResult<ModerationItem[]>> {
+  const denied = await authorize("assignModerationItems")
+  if (denied) return { data: null, error: denied }
+
+  const result = await assignModerationItems(input)
+  if (!result.error) revalidatePath("/admin/moderation")
+  return result
+}
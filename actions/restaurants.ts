@@ -0,0 +1,67 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   RESTAURANT ACTIONS - Server actions for admin restaurant management
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+"use server"
+
+import { revalidatePath } from "next/cache"
+import { createRestaurant, deleteRestaurant, updateRestaurant, type DALResult } from "@/lib/dal"
+import { authorizeAction, PERMISSIONS, type RestaurantInput } from "@/lib/security"
+import type { ShadiRestaurant } from "@/types/restaurant"
+
+// Fields the input schema omits from the canonical restaurant
+type ServerOwnedField = Exclude<keyof ShadiRestaurant, keyof RestaurantInput>
+
+/**
+ * Strip server-owned fields before handing data to the DAL.
+ * A full restaurant yields a full input and a partial one a partial input.
+ */
+function toRestaurantInput<T extends Partial<ShadiRestaurant>>(restaurant: T): Omit<T, ServerOwnedField> {
+  const { id: _id, addedDate: _addedDate, rating: _rating, reviewCount: _reviewCount, ...input } = restaurant
+  return input
+}
+
+/**
+ * Actions are public endpoints; re-check the permission instead of trusting the /admin gate
+ */
+async function authorize(action: string): Promise<string | null> {
+  const access = await authorizeAction(PERMISSIONS.RESTAURANTS_MANAGE, action)
+  return access.allowed ? null : (access.reason ?? "Insufficient permissions")
+}
+
+function revalidateRestaurantPaths() {
+  revalidatePath("/admin")
+  revalidatePath("/restaurants")
+}
+
+export async function createRestaurantAction(
+  restaurant: ShadiRestaurant
+): Promise<DALResult<ShadiRestaurant>> {
+  const denied = await authorize("createRestaurant")
+  if (denied) return { data: null, error: denied }
+
+  const result = await createRestaurant(toRestaurantInput(restaurant))
+  if (!result.error) revalidateRestaurantPaths()
+  return result
+}
+
+export async function updateRestaurantAction(
+  id: string,
+  changes: Partial<ShadiRestaurant>
+): Promise<DALResult<ShadiRestaurant>> {
+  const denied = await authorize("updateRestaurant")
+  if (denied) return { data: null, error: denied }
+
+  const result = await updateRestaurant(id, toRestaurantInput(changes))
+  if (!result.error) revalidateRestaurantPaths()
+  return result
+}
+
+export async function deleteRestaurantAction(id: string): Promise<DALResult<{ id: string }>> {
+  const denied = await authorize("deleteRestaurant")
+  if (denied) return { data: null, error: denied }
+
+  const result = await deleteRestaurant(id)
+  if (!result.error) revalidateRestaurantPaths()
+  return result
+}
@@ -0,0 +1,35 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   REVIEW ACTIONS - Server actions for restaurant reviews
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+"use server"
+
+import { revalidatePath } from "next/cache"
+import { createReview, deleteReview, updateReview, type DALResult, type ReviewUpdate } from "@/lib/dal"
+import type { ReviewInput } from "@/lib/security"
+import type { Review } from "@/types/review"
+
+// Ratings show on the detail page and drive the "top rated" sort on results
+function revalidateReviewPaths() {
+  revalidatePath("/restaurants/[slug]", "page")
+  revalidatePath("/restaurants")
+  revalidatePath("/")
+}
+
+export async function createReviewAction(input: ReviewInput): Promise<DALResult<Review>> {
+  const result = await createReview(input)
+  if (!result.error) revalidateReviewPaths()
+  return result
+}
+
+export async function updateReviewAction(id: string, changes: ReviewUpdate): Promise<DALResult<Review>> {
+  const result = await updateReview(id, changes)
+  if (!result.error) revalidateReviewPaths()
+  return result
+}
+
+export async function deleteReviewAction(id: string): Promise<DALResult<{ id: string }>> {
+  const result = await deleteReview(id)
+  if (!result.error) revalidateReviewPaths()
+  return result
+}
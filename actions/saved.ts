@@ -0,0 +1,72 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   SAVED RESTAURANT ACTIONS - Server actions for favorites and shortlists
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+"use server"
+
+import { revalidatePath } from "next/cache"
+import {
+  createShortlist,
+  deleteShortlist,
+  getSavedRestaurants,
+  mergeLocalSavedRestaurants,
+  renameShortlist,
+  setFavorite,
+  setShortlistMembership,
+  type DALResult,
+} from "@/lib/dal"
+import type { LocalSavedRestaurantsInput } from "@/lib/security"
+import type { SavedRestaurants, Shortlist } from "@/types/saved"
+
+function revalidateSavedPaths() {
+  revalidatePath("/me/lists")
+}
+
+export async function getSavedRestaurantsAction(): Promise<DALResult<SavedRestaurants>> {
+  return getSavedRestaurants()
+}
+
+export async function setFavoriteAction(
+  restaurantId: string,
+  saved: boolean
+): Promise<DALResult<{ restaurantId: string; saved: boolean }>> {
+  const result = await setFavorite(restaurantId, saved)
+  if (!result.error) revalidateSavedPaths()
+  return result
+}
+
+export async function createShortlistAction(name: string): Promise<DALResult<Shortlist>> {
+  const result = await createShortlist(name)
+  if (!result.error) revalidateSavedPaths()
+  return result
+}
+
+export async function renameShortlistAction(id: string, name: string): Promise<DALResult<Shortlist>> {
+  const result = await renameShortlist(id, name)
+  if (!result.error) revalidateSavedPaths()
+  return result
+}
+
+export async function deleteShortlistAction(id: string): Promise<DALResult<{ id: string }>> {
+  const result = await deleteShortlist(id)
+  if (!result.error) revalidateSavedPaths()
+  return result
+}
+
+export async function setShortlistMembershipAction(
+  id: string,
+  restaurantId: string,
+  included: boolean
+): Promise<DALResult<Shortlist>> {
+  const result = await setShortlistMembership(id, restaurantId, included)
+  if (!result.error) revalidateSavedPaths()
+  return result
+}
+
+export async function mergeLocalSavedRestaurantsAction(
+  local: LocalSavedRestaurantsInput
+): Promise<DALResult<SavedRestaurants>> {
+  const result = await mergeLocalSavedRestaurants(local)
+  if (!result.error) revalidateSavedPaths()
+  return result
+}
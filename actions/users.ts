@@ -0,0 +1,32 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   USER ACTIONS - Server actions for the admin user console
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+"use server"
+
+import { revalidatePath } from "next/cache"
+import { setUserDisabled, updateUserRole, type DALResult, type UserProfile } from "@/lib/dal"
+import { authorizeAction, PERMISSIONS, type Permission, type Role } from "@/lib/security"
+
+async function authorize(permission: Permission, action: string): Promise<string | null> {
+  const access = await authorizeAction(permission, action)
+  return access.allowed ? null : (access.reason ?? "Insufficient permissions")
+}
+
+export async function updateUserRoleAction(userId: string, role: Role): Promise<DALResult<UserProfile>> {
+  const denied = await authorize(PERMISSIONS.ROLES_MANAGE, "updateUserRole")
+  if (denied) return { data: null, error: denied }
+
+  const result = await updateUserRole(userId, role)
+  if (!result.error) revalidatePath("/admin/users")
+  return result
+}
+
+export async function setUserDisabledAction(userId: string, disabled: boolean): Promise<DALResult<UserProfile>> {
+  const denied = await authorize(PERMISSIONS.USERS_MANAGE, "setUserDisabled")
+  if (denied) return { data: null, error: denied }
+
+  const result = await setUserDisabled(userId, disabled)
+  if (!result.error) revalidatePath("/admin/users")
+  return result
+}
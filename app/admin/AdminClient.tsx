@@ -2,13 +2,17 @@
 
 import { memo, useState, useCallback, useMemo, useRef, useEffect } from "react"
 import { RestaurantCard } from "@/components/card"
-import { FilterSystem, type CuisineOption, type MealOption, type AtmosphereOption } from "@/components/search/FilterSystem"
+import { FilterSystem, type CuisineOption, type MealOption, type AtmosphereOption, type EmirateOption } from "@/components/search/FilterSystem"
 import { ArrowUpDown, ArrowDownUp, ArrowUp, ArrowDown } from "lucide-react"
 import { ChevronDown, X } from "lucide-react"
 import { CardCarousel } from "@/components/carousel"
-import { priceBucketValue, PRICE_BUCKETS, type PriceBucketId, type MealType, type AtmosphereType, type UAEEmirate, type ShadiRestaurant, type CuisineType } from "@/types/restaurant"
-import { useLanguage } from "@/context/LanguageProvider"
-import { useTranslations } from "@/lib/translations"
+import { CONTENT_LANGUAGES, getLocalizedText, isHostedImageUrl, MAX_RESTAURANT_IMAGES, priceBucketValue, slugify, PRICE_BUCKETS, UAE_EMIRATES, type ContentLanguage, type LocalizedText, type PriceBucketId, type MealType, type AtmosphereType, type UAEEmirate, type ShadiRestaurant, type CuisineType } from "@/types/restaurant"
+import { useFormatter, useLanguage } from "@/context/LanguageProvider"
+import { getEmirateLabel, useTranslations, type TranslationKey } from "@/lib/translations"
+import { getDirection, getLanguage } from "@/lib/i18n"
+import type { Language } from "@/lib/language.types"
+import { countPriceBuckets, DEFAULT_RESULTS_QUERY, getDistrictId, getLocationOptions } from "@/lib/results-query"
+import { createRestaurantAction, deleteRestaurantAction, updateRestaurantAction } from "@/actions/restaurants"
 
 type AdminSortOptionId =
   | "newest"
@@ -20,17 +24,27 @@ type AdminSortOptionId =
 
 // Admin sort options
 const ADMIN_SORT_OPTIONS = [
-  { id: "newest" as const, icon: ArrowUpDown, label: "Newest First" },
-  { id: "oldest" as const, icon: ArrowDownUp, label: "Oldest First" },
-  { id: "price-asc" as const, icon: ArrowUp, label: "Price: Low to High" },
-  { id: "price-desc" as const, icon: ArrowDown, label: "Price: High to Low" },
+  { id: "newest" as const, icon: ArrowUpDown, labelKey: "sortNewestFirst" as TranslationKey },
+  { id: "oldest" as const, icon: ArrowDownUp, labelKey: "sortOldestFirst" as TranslationKey },
+  { id: "price-asc" as const, icon: ArrowUp, labelKey: "sortPriceLowToHigh" as TranslationKey },
+  { id: "price-desc" as const, icon: ArrowDown, labelKey: "sortPriceHighToLow" as TranslationKey },
 ] as const
 
 // Inline Sort Button for Admin
-function AdminSortButton({ currentSort, onSortChange }: { currentSort: AdminSortOptionId; onSortChange: (id: AdminSortOptionId) => void }) {
+function AdminSortButton({
+  currentSort,
+  onSortChange,
+  locale,
+}: {
+  currentSort: AdminSortOptionId
+  onSortChange: (id: AdminSortOptionId) => void
+  locale: Language
+}) {
   const currentIndex = ADMIN_SORT_OPTIONS.findIndex(opt => opt.id === currentSort)
   const currentOption = ADMIN_SORT_OPTIONS[currentIndex >= 0 ? currentIndex : 0]
   const CurrentIcon = currentOption.icon
+  const { t } = useTranslations(locale)
+  const label = t(currentOption.labelKey)
 
   const handleClick = useCallback(() => {
     const nextIndex = (currentIndex + 1) % ADMIN_SORT_OPTIONS.length
@@ -42,8 +56,8 @@ function AdminSortButton({ currentSort, onSortChange }: { currentSort: AdminSort
       type="button"
       onClick={handleClick}
       className="p-[var(--spacing-xs)] rounded-[var(--radius-lg)] bg-[var(--color-white)] border border-[var(--fg-20)] text-[var(--fg)] hover:border-[var(--fg-30)] hover:bg-[var(--fg-5)] transition-all focus:outline-none focus:ring-2 focus:ring-[var(--color-primary)] focus:border-transparent"
-      aria-label={`Sort: ${currentOption.label}. Click to cycle through sort options.`}
-      title={currentOption.label}
+      aria-label={t("sortButtonLabel", { option: label })}
+      title={label}
     >
       <CurrentIcon className="w-[var(--icon-size-md)] h-[var(--icon-size-md)]" strokeWidth={2} />
     </button>
@@ -55,73 +69,203 @@ interface ContactInfo {
   value: string
 }
 
-const CONTACT_OPTIONS = [
-  { id: "phone", label: "Phone", icon: "📞", placeholder: "+971 50 123 4567" },
-  { id: "website", label: "Website", icon: "🌐", placeholder: "https://restaurant.com" },
-  { id: "instagram", label: "Instagram", icon: "📸", placeholder: "@restaurant" },
-  { id: "facebook", label: "Facebook", icon: "👥", placeholder: "facebook.com/restaurant" },
-  { id: "twitter", label: "X (Twitter)", icon: "𝕏", placeholder: "@restaurant" },
-  { id: "tiktok", label: "TikTok", icon: "🎵", placeholder: "@restaurant" },
-  { id: "talabat", label: "Talabat", icon: "🍔", placeholder: "Order link" },
-  { id: "noon", label: "Noon Food", icon: "🛒", placeholder: "Order link" },
-  { id: "deliveroo", label: "Deliveroo", icon: "🚴", placeholder: "Order link" },
-  { id: "careem", label: "Careem NOW", icon: "🚗", placeholder: "Order link" },
-  { id: "ubereats", label: "Uber Eats", icon: "🍕", placeholder: "Order link" },
-  { id: "zomato", label: "Zomato", icon: "🍽️", placeholder: "Order link" },
-]
+// One input value per content language; empty means "not entered"
+type LocalizedFormText = Record<ContentLanguage, string>
+
+const EMPTY_LOCALIZED: LocalizedFormText = { en: "", ar: "" }
+
+interface RestaurantFormState {
+  name: LocalizedFormText
+  emirate: UAEEmirate
+  district: LocalizedFormText
+  address: string
+  meals: MealType[]
+  cuisines: string[]
+  atmospheres: AtmosphereType[]
+  priceBucketId: PriceBucketId
+  description: LocalizedFormText
+  images: string[]
+  mainImageIndex: number
+  contacts: ContactInfo[]
+}
+
+const EMPTY_FORM: RestaurantFormState = {
+  name: EMPTY_LOCALIZED,
+  emirate: "Dubai",
+  district: EMPTY_LOCALIZED,
+  address: "",
+  meals: [],
+  cuisines: [],
+  atmospheres: [],
+  priceBucketId: 4, // Default: 50-100 AED
+  description: EMPTY_LOCALIZED,
+  images: [],
+  mainImageIndex: 0,
+  contacts: [],
+}
 
-const EMIRATES = [
-  { id: "Dubai", label: "Dubai" },
-  { id: "Abu Dhabi", label: "Abu Dhabi" },
-  { id: "Sharjah", label: "Sharjah" },
-  { id: "Ajman", label: "Ajman" },
-  { id: "Umm Al Quwain", label: "Umm Al Quwain" },
-  { id: "Ras Al Khaimah", label: "Ras Al Khaimah" },
-  { id: "Fujairah", label: "Fujairah" },
+interface ContactOption {
+  id: string
+  labelKey: TranslationKey
+  icon: string
+  placeholderKey: TranslationKey
+}
+
+const CONTACT_OPTIONS: readonly ContactOption[] = [
+  { id: "phone", labelKey: "contactPhone", icon: "📞", placeholderKey: "contactPhonePlaceholder" },
+  { id: "website", labelKey: "contactWebsite", icon: "🌐", placeholderKey: "contactWebsitePlaceholder" },
+  { id: "instagram", labelKey: "contactInstagram", icon: "📸", placeholderKey: "contactSocialPlaceholder" },
+  { id: "facebook", labelKey: "contactFacebook", icon: "👥", placeholderKey: "contactSocialPlaceholder" },
+  { id: "twitter", labelKey: "contactTwitter", icon: "𝕏", placeholderKey: "contactSocialPlaceholder" },
+  { id: "tiktok", labelKey: "contactTiktok", icon: "🎵", placeholderKey: "contactSocialPlaceholder" },
+  { id: "talabat", labelKey: "contactTalabat", icon: "🍔", placeholderKey: "contactOrderPlaceholder" },
+  { id: "noon", labelKey: "contactNoon", icon: "🛒", placeholderKey: "contactOrderPlaceholder" },
+  { id: "deliveroo", labelKey: "contactDeliveroo", icon: "🚴", placeholderKey: "contactOrderPlaceholder" },
+  { id: "careem", labelKey: "contactCareem", icon: "🚗", placeholderKey: "contactOrderPlaceholder" },
+  { id: "ubereats", labelKey: "contactUberEats", icon: "🍕", placeholderKey: "contactOrderPlaceholder" },
+  { id: "zomato", labelKey: "contactZomato", icon: "🍽️", placeholderKey: "contactOrderPlaceholder" },
 ]
 
-const MEAL_OPTIONS = [
-  { id: "Breakfast", label: "Breakfast" },
-  { id: "Lunch", label: "Lunch" },
-  { id: "Dinner", label: "Dinner" },
+interface SelectOption {
+  id: string
+  labelKey: TranslationKey
+}
+
+const MEAL_OPTIONS: readonly SelectOption[] = [
+  { id: "Breakfast", labelKey: "mealBreakfast" },
+  { id: "Lunch", labelKey: "mealLunch" },
+  { id: "Dinner", labelKey: "mealDinner" },
 ]
 
-const CUISINE_OPTIONS = [
-  { id: "emirati", label: "Emirati" },
-  { id: "arabic", label: "Arabic" },
-  { id: "lebanese", label: "Lebanese" },
-  { id: "indian", label: "Indian" },
-  { id: "pakistani", label: "Pakistani" },
-  { id: "chinese", label: "Chinese" },
-  { id: "japanese", label: "Japanese" },
-  { id: "thai", label: "Thai" },
-  { id: "italian", label: "Italian" },
-  { id: "seafood", label: "Seafood" },
-  { id: "international", label: "International" },
+const CUISINE_OPTIONS: readonly SelectOption[] = [
+  { id: "emirati", labelKey: "cuisineEmirati" },
+  { id: "arabic", labelKey: "cuisineArabic" },
+  { id: "lebanese", labelKey: "cuisineLebanese" },
+  { id: "indian", labelKey: "cuisineIndian" },
+  { id: "pakistani", labelKey: "cuisinePakistani" },
+  { id: "chinese", labelKey: "cuisineChinese" },
+  { id: "japanese", labelKey: "cuisineJapanese" },
+  { id: "thai", labelKey: "cuisineThai" },
+  { id: "italian", labelKey: "cuisineItalian" },
+  { id: "seafood", labelKey: "cuisineSeafood" },
+  { id: "international", labelKey: "cuisineInternational" },
 ]
 
-const ATMOSPHERE_OPTIONS = [
-  { id: "Romantic", label: "Romantic" },
-  { id: "Casual", label: "Casual" },
-  { id: "Fine Dining", label: "Fine Dining" },
-  { id: "Outdoor", label: "Outdoor" },
-  { id: "Family Friendly", label: "Family Friendly" },
-  { id: "Live Music", label: "Live Music" },
-  { id: "View", label: "View" },
+const ATMOSPHERE_OPTIONS: readonly SelectOption[] = [
+  { id: "Romantic", labelKey: "atmosphereRomantic" },
+  { id: "Casual", labelKey: "atmosphereCasual" },
+  { id: "Fine Dining", labelKey: "atmosphereFineDining" },
+  { id: "Outdoor", labelKey: "atmosphereOutdoor" },
+  { id: "Family Friendly", labelKey: "atmosphereFamilyFriendly" },
+  { id: "Live Music", labelKey: "atmosphereLiveMusic" },
+  { id: "View", labelKey: "atmosphereView" },
 ]
 
+/* =========================
+   Form <-> Restaurant Mapping
+========================= */
+
+function toLocalizedFormText(text: LocalizedText | undefined): LocalizedFormText {
+  return { en: text?.en ?? "", ar: text?.ar ?? "" }
+}
+
+// Blank languages are left out, so the other language is shown in their place
+function fromLocalizedFormText(text: LocalizedFormText): LocalizedText | undefined {
+  const en = text.en.trim()
+  const ar = text.ar.trim()
+  if (!en && !ar) return undefined
+  return { ...(en && { en }), ...(ar && { ar }) }
+}
+
+// Pre-populate the form from an existing restaurant (edit mode)
+function toFormState(restaurant: ShadiRestaurant): RestaurantFormState {
+  const images = restaurant.images.length > 0 ? restaurant.images : [restaurant.image].filter(Boolean)
+  const contacts: ContactInfo[] = []
+  if (restaurant.phone) contacts.push({ type: "phone", value: restaurant.phone })
+  if (restaurant.website) contacts.push({ type: "website", value: restaurant.website })
+
+  return {
+    name: toLocalizedFormText(restaurant.name),
+    emirate: restaurant.emirate ?? "Dubai",
+    district: toLocalizedFormText(restaurant.district),
+    address: restaurant.address ?? "",
+    meals: restaurant.meals ?? [],
+    cuisines: restaurant.cuisine ? [restaurant.cuisine.toLowerCase()] : [],
+    atmospheres: restaurant.atmosphere ?? [],
+    priceBucketId: restaurant.priceBucketId,
+    description: toLocalizedFormText(restaurant.description),
+    images,
+    mainImageIndex: Math.max(0, images.indexOf(restaurant.image)),
+    contacts,
+  }
+}
+
+function getContactValue(contacts: ContactInfo[], type: string): string | undefined {
+  return contacts.find((c) => c.type === type && c.value.trim())?.value.trim()
+}
+
+const DEFAULT_RESTAURANT_IMAGE = "https://images.unsplash.com/photo-1517248135467-4c7edcad34c4?w=800"
+
+// Uploads are read as data: URLs for the preview only - just hosted images are saved
+function getPersistedImages(form: RestaurantFormState): { image: string; images: string[] } {
+  const chosen = form.images[form.mainImageIndex]
+  const images = form.images.filter(isHostedImageUrl).slice(0, MAX_RESTAURANT_IMAGES)
+  const image = chosen && images.includes(chosen) ? chosen : images[0]
+  return image ? { image, images } : { image: DEFAULT_RESTAURANT_IMAGE, images: [DEFAULT_RESTAURANT_IMAGE] }
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+// Only the restaurant fields backed by a changed form field are returned
+function getChangedFields(initial: RestaurantFormState, form: RestaurantFormState): Partial<ShadiRestaurant> {
+  const changed = (key: keyof RestaurantFormState) => !isSameValue(initial[key], form[key])
+  const changes: Partial<ShadiRestaurant> = {}
+
+  if (changed("name")) changes.name = fromLocalizedFormText(form.name) ?? {}
+  if (changed("description")) changes.description = fromLocalizedFormText(form.description)
+  if (changed("address")) changes.address = form.address
+  if (changed("emirate")) changes.emirate = form.emirate
+  if (changed("district")) changes.district = fromLocalizedFormText(form.district)
+  if (changed("meals")) changes.meals = form.meals
+  if (changed("atmospheres")) changes.atmosphere = form.atmospheres
+  if (changed("cuisines")) changes.cuisine = form.cuisines[0] as CuisineType
+  if (changed("priceBucketId")) {
+    const priceBucket = PRICE_BUCKETS.find((b) => b.id === form.priceBucketId)!
+    changes.priceBucketId = form.priceBucketId
+    changes.minPrice = priceBucket.minPrice
+    changes.maxPrice = priceBucket.maxPrice
+  }
+  if (changed("images") || changed("mainImageIndex")) {
+    const { image, images } = getPersistedImages(form)
+    changes.images = images
+    changes.image = image
+  }
+  if (changed("contacts")) {
+    changes.phone = getContactValue(form.contacts, "phone")
+    changes.website = getContactValue(form.contacts, "website")
+  }
+
+  return changes
+}
+
 /* =========================
    Multi-Select Dropdown
 ========================= */
 
 interface MultiSelectDropdownProps {
   label: string
+  /** Shown while nothing is selected */
+  placeholder: string
   selected: string[]
-  options: readonly { id: string; label: string }[]
+  options: readonly SelectOption[]
   onChange: (values: string[]) => void
+  locale: Language
 }
 
-function MultiSelectDropdown({ label, selected, options, onChange }: MultiSelectDropdownProps) {
+function MultiSelectDropdown({ label, placeholder, selected, options, onChange, locale }: MultiSelectDropdownProps) {
+  const { t } = useTranslations(locale)
   const [isOpen, setIsOpen] = useState(false)
 
   const toggleOption = (value: string) => {
@@ -132,7 +276,10 @@ function MultiSelectDropdown({ label, selected, options, onChange }: MultiSelect
     }
   }
 
-  const selectedLabels = selected.map((s) => options.find((o) => o.id === s)?.label || s)
+  const selectedLabels = selected.map((s) => {
+    const option = options.find((o) => o.id === s)
+    return option ? t(option.labelKey) : s
+  })
 
   return (
     <div className="relative">
@@ -140,17 +287,17 @@ function MultiSelectDropdown({ label, selected, options, onChange }: MultiSelect
       <button
         type="button"
         onClick={() => setIsOpen(!isOpen)}
-        className="w-full px-3 py-2 border border-[var(--fg-20)] rounded-lg bg-[var(--color-white)] text-[var(--fg)] text-left flex items-center justify-between"
+        className="w-full px-3 py-2 border border-[var(--fg-20)] rounded-lg bg-[var(--color-white)] text-[var(--fg)] text-start flex items-center justify-between"
       >
         <span className="truncate">
-          {selected.length > 0 ? selectedLabels.join(", ") : `Select ${label.toLowerCase()}`}
+          {selected.length > 0 ? selectedLabels.join(", ") : placeholder}
         </span>
         <ChevronDown className={`w-4 h-4 transition-transform ${isOpen ? "rotate-180" : ""}`} strokeWidth={2} />
       </button>
       {isOpen && (
         <>
           <div className="fixed inset-0 z-10" onClick={() => setIsOpen(false)} />
-          <div className="absolute z-20 top-full left-0 right-0 mt-1 bg-[var(--color-white)] border border-[var(--fg-10)] rounded-lg shadow-lg max-h-48 overflow-y-auto">
+          <div className="absolute z-20 top-full inset-x-0 mt-1 bg-[var(--color-white)] border border-[var(--fg-10)] rounded-lg shadow-lg max-h-48 overflow-y-auto">
             {options.map((option) => (
               <label
                 key={option.id}
@@ -162,7 +309,7 @@ function MultiSelectDropdown({ label, selected, options, onChange }: MultiSelect
                   onChange={() => toggleOption(option.id)}
                   className="w-4 h-4 rounded"
                 />
-                <span className="text-sm text-[var(--fg)]">{option.label}</span>
+                <span className="text-sm text-[var(--fg)]">{t(option.labelKey)}</span>
               </label>
             ))}
           </div>
@@ -179,63 +326,93 @@ interface AdminClientProps {
 export const AdminClient = memo(function AdminClient({ initialRestaurants }: AdminClientProps) {
   const { language } = useLanguage()
   const { t } = useTranslations(language)
+  const format = useFormatter()
   const [data, setData] = useState(initialRestaurants)
   const [isAddModalOpen, setIsAddModalOpen] = useState(false)
   const [showContactMenu, setShowContactMenu] = useState(false)
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null)
   const [formError, setFormError] = useState<string | null>(null)
+  const [actionError, setActionError] = useState<string | null>(null)
+  // Optimistically added rows still carry a temporary ID the server does not know
+  const [unsavedIds, setUnsavedIds] = useState<ReadonlySet<string>>(new Set())
   const fileInputRef = useRef<HTMLInputElement>(null)
   const readersRef = useRef<FileReader[]>([])  // Track readers for cleanup
-  const [newRestaurant, setNewRestaurant] = useState<{
-    name: string
-    emirate: UAEEmirate
-    district: string
-    address: string
-    meals: MealType[]
-    cuisines: string[]
-    atmospheres: AtmosphereType[]
-    priceBucketId: PriceBucketId
-    description: string
-    images: string[]
-    mainImageIndex: number
-    contacts: ContactInfo[]
-  }>({
-    name: "",
-    emirate: "Dubai",
-    district: "",
-    address: "",
-    meals: [],
-    cuisines: [],
-    atmospheres: [],
-    priceBucketId: 4, // Default: 50-100 AED
-    description: "",
-    images: [],
-    mainImageIndex: 0,
-    contacts: [],
-  })
+  const [newRestaurant, setNewRestaurant] = useState<RestaurantFormState>(EMPTY_FORM)
+  // Edit mode: the restaurant being edited and the form snapshot it was opened with
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [initialForm, setInitialForm] = useState<RestaurantFormState>(EMPTY_FORM)
+  const [showDiscardConfirm, setShowDiscardConfirm] = useState(false)
+  // Tab for the name, district and description inputs
+  const [contentLanguage, setContentLanguage] = useState<ContentLanguage>("en")
 
   // Filters
   const [cuisine, setCuisine] = useState<CuisineOption>("all")
   const [meal, setMeal] = useState<MealOption>("all")
   const [atmosphere, setAtmosphere] = useState<AtmosphereOption>("all")
+  const [price, setPrice] = useState<PriceBucketId[]>([])
+  const [emirate, setEmirate] = useState<EmirateOption>("all")
+  const [district, setDistrict] = useState<string[]>([])
   const [sort, setSort] = useState<AdminSortOptionId>("newest")
 
   const handleDelete = useCallback((id: string) => {
     setDeleteConfirmId(id)
   }, [])
 
-  const confirmDelete = useCallback(() => {
-    if (deleteConfirmId) {
-      setData((prev) => prev.filter((r) => r.id !== deleteConfirmId))
-      setDeleteConfirmId(null)
+  const confirmDelete = useCallback(async () => {
+    if (!deleteConfirmId) return
+
+    const id = deleteConfirmId
+    const index = data.findIndex((r) => r.id === id)
+    const removed = data[index]
+    if (!removed) return
+
+    // Optimistic removal - restored at its original position if the DAL rejects it
+    setData((prev) => prev.filter((r) => r.id !== id))
+    setDeleteConfirmId(null)
+    setActionError(null)
+
+    const result = await deleteRestaurantAction(id)
+    if (result.error) {
+      setData((prev) => [...prev.slice(0, index), removed, ...prev.slice(index)])
+      setActionError(result.error)
     }
-  }, [deleteConfirmId])
+  }, [deleteConfirmId, data])
 
-  const handleEdit = useCallback((id: string) => {
-    // TODO: Implement edit functionality
-    console.log(`Edit restaurant with ID: ${id}`)
+  const isFormDirty = useMemo(() => !isSameValue(initialForm, newRestaurant), [initialForm, newRestaurant])
+
+  const openForm = useCallback((form: RestaurantFormState, id: string | null) => {
+    setNewRestaurant(form)
+    setInitialForm(form)
+    setEditingId(id)
+    setFormError(null)
+    setIsAddModalOpen(true)
+  }, [])
+
+  const closeForm = useCallback(() => {
+    setIsAddModalOpen(false)
+    setShowDiscardConfirm(false)
+    setShowContactMenu(false)
+    setEditingId(null)
+    setNewRestaurant(EMPTY_FORM)
+    setInitialForm(EMPTY_FORM)
+    setContentLanguage("en")
   }, [])
 
+  // Ask before throwing away unsaved edits
+  const handleCloseForm = useCallback(() => {
+    if (isFormDirty) {
+      setShowDiscardConfirm(true)
+      return
+    }
+    closeForm()
+  }, [isFormDirty, closeForm])
+
+  const handleEdit = useCallback((id: string) => {
+    const restaurant = data.find((r) => r.id === id)
+    if (!restaurant) return
+    openForm(toFormState(restaurant), id)
+  }, [data, openForm])
+
   const handleImageUpload = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files
     if (!files) return
@@ -311,24 +488,24 @@ export const AdminClient = memo(function AdminClient({ initialRestaurants }: Adm
 
   // Stable input change handlers to prevent re-renders
   const handleNameChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    setNewRestaurant(prev => ({ ...prev, name: e.target.value }))
-  }, [])
+    setNewRestaurant(prev => ({ ...prev, name: { ...prev.name, [contentLanguage]: e.target.value } }))
+  }, [contentLanguage])
 
   const handleEmirateChange = useCallback((e: React.ChangeEvent<HTMLSelectElement>) => {
     setNewRestaurant(prev => ({ ...prev, emirate: e.target.value as UAEEmirate }))
   }, [])
 
   const handleDistrictChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    setNewRestaurant(prev => ({ ...prev, district: e.target.value }))
-  }, [])
+    setNewRestaurant(prev => ({ ...prev, district: { ...prev.district, [contentLanguage]: e.target.value } }))
+  }, [contentLanguage])
 
   const handleAddressChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     setNewRestaurant(prev => ({ ...prev, address: e.target.value }))
   }, [])
 
   const handleDescriptionChange = useCallback((e: React.ChangeEvent<HTMLTextAreaElement>) => {
-    setNewRestaurant(prev => ({ ...prev, description: e.target.value }))
-  }, [])
+    setNewRestaurant(prev => ({ ...prev, description: { ...prev.description, [contentLanguage]: e.target.value } }))
+  }, [contentLanguage])
 
   const handleMealsChange = useCallback((values: string[]) => {
     setNewRestaurant(prev => ({ ...prev, meals: values as MealType[] }))
@@ -346,52 +523,98 @@ export const AdminClient = memo(function AdminClient({ initialRestaurants }: Adm
     setNewRestaurant(prev => ({ ...prev, priceBucketId: Number(e.target.value) as PriceBucketId }))
   }, [])
 
-  const handleAddRestaurant = useCallback(() => {
-    if (!newRestaurant.name || newRestaurant.cuisines.length === 0) {
+  const handleAddRestaurant = useCallback(async () => {
+    const name = fromLocalizedFormText(newRestaurant.name)
+    if (!name || newRestaurant.cuisines.length === 0) {
       setFormError(t("errorNameAndCuisineRequired"))
       return
     }
 
     setFormError(null)
 
-    const mainImage = newRestaurant.images[newRestaurant.mainImageIndex] || "https://images.unsplash.com/photo-1517248135467-4c7edcad34c4?w=800"
+    const { image, images } = getPersistedImages(newRestaurant)
     const priceBucket = PRICE_BUCKETS.find((b) => b.id === newRestaurant.priceBucketId)!
 
     const restaurant: ShadiRestaurant = {
-      id: `rest-${Date.now()}`,
-      slug: newRestaurant.name.toLowerCase().replace(/\s+/g, "-"),
-      name: newRestaurant.name,
+      id: crypto.randomUUID(),
+      // Slugs are Latin-only; an Arabic-only name gets a generic one. The server
+      // suffixes it when taken
+      slug: slugify(name.en ?? "") || "restaurant",
+      name,
       cuisine: newRestaurant.cuisines[0] as CuisineType, // Primary cuisine
       priceBucketId: newRestaurant.priceBucketId,
       minPrice: priceBucket.minPrice,
       maxPrice: priceBucket.maxPrice,
-      description: newRestaurant.description,
-      image: mainImage,
-      images: newRestaurant.images.length > 0 ? newRestaurant.images : [mainImage],
+      description: fromLocalizedFormText(newRestaurant.description),
+      image,
+      images,
       meals: newRestaurant.meals.length > 0 ? newRestaurant.meals : ["Breakfast", "Lunch", "Dinner"],
       atmosphere: newRestaurant.atmospheres.length > 0 ? newRestaurant.atmospheres : ["Casual"],
-      district: newRestaurant.district,
+      district: fromLocalizedFormText(newRestaurant.district),
       emirate: newRestaurant.emirate as UAEEmirate,
+      address: newRestaurant.address || undefined,
+      phone: getContactValue(newRestaurant.contacts, "phone"),
+      website: getContactValue(newRestaurant.contacts, "website"),
       addedDate: new Date().toISOString(),
     }
 
+    // Optimistic insert - swapped for the persisted row, or rolled back on error
     setData((prev) => [restaurant, ...prev])
-    setNewRestaurant({
-      name: "",
-      emirate: "Dubai",
-      district: "",
-      address: "",
-      meals: [],
-      cuisines: [],
-      atmospheres: [],
-      priceBucketId: 4,
-      description: "",
-      images: [],
-      mainImageIndex: 0,
-      contacts: [],
+    setUnsavedIds((prev) => new Set(prev).add(restaurant.id))
+    setActionError(null)
+    closeForm()
+
+    const result = await createRestaurantAction(restaurant)
+    setUnsavedIds((prev) => {
+      const next = new Set(prev)
+      next.delete(restaurant.id)
+      return next
     })
-    setIsAddModalOpen(false)
-  }, [newRestaurant])
+    if (result.error || !result.data) {
+      setData((prev) => prev.filter((r) => r.id !== restaurant.id))
+      setActionError(result.error)
+      return
+    }
+
+    // The server assigns the ID and may have suffixed the slug
+    const persisted = result.data
+    setData((prev) => prev.map((r) => (r.id === restaurant.id ? persisted : r)))
+  }, [newRestaurant, t, closeForm])
+
+  const handleSaveEdit = useCallback(async () => {
+    if (!editingId) return
+    if (!fromLocalizedFormText(newRestaurant.name) || newRestaurant.cuisines.length === 0) {
+      setFormError(t("errorNameAndCuisineRequired"))
+      return
+    }
+    // A restaurant always has a main image; an emptied gallery cannot be saved
+    if (newRestaurant.images.length === 0) {
+      setFormError(t("errorImageRequired"))
+      return
+    }
+
+    const changes = getChangedFields(initialForm, newRestaurant)
+    if (Object.keys(changes).length === 0) {
+      closeForm()
+      return
+    }
+
+    const id = editingId
+    const original = data.find((r) => r.id === id)
+    if (!original) return
+
+    // Optimistic update - the original restaurant is restored if the DAL rejects the changes
+    setData((prev) => prev.map((r) => (r.id === id ? { ...r, ...changes } : r)))
+    setFormError(null)
+    setActionError(null)
+    closeForm()
+
+    const result = await updateRestaurantAction(id, changes)
+    if (result.error) {
+      setData((prev) => prev.map((r) => (r.id === id ? original : r)))
+      setActionError(result.error)
+    }
+  }, [editingId, newRestaurant, initialForm, data, t, closeForm])
 
   // Apply filters
   const filteredData = useMemo(() => {
@@ -409,6 +632,18 @@ export const AdminClient = memo(function AdminClient({ initialRestaurants }: Adm
       results = results.filter((r) => r.atmosphere?.includes(atmosphere))
     }
 
+    if (price.length > 0) {
+      results = results.filter((r) => price.includes(r.priceBucketId))
+    }
+
+    if (emirate !== "all") {
+      results = results.filter((r) => r.emirate === emirate)
+    }
+
+    if (district.length > 0) {
+      results = results.filter((r) => district.includes(getDistrictId(r.district) ?? ""))
+    }
+
     // Sort (create new array to avoid mutation)
     const sorted = [...results].sort((a, b) => {
       switch (sort) {
@@ -425,16 +660,28 @@ export const AdminClient = memo(function AdminClient({ initialRestaurants }: Adm
           const dateD = b.addedDate ? new Date(b.addedDate).getTime() : 0
           return dateC - dateD
         case "name-asc":
-          return a.name.localeCompare(b.name)
+          return getLocalizedText(a.name, language).localeCompare(getLocalizedText(b.name, language))
         case "name-desc":
-          return b.name.localeCompare(a.name)
+          return getLocalizedText(b.name, language).localeCompare(getLocalizedText(a.name, language))
         default:
           return 0
       }
     })
 
     return sorted
-  }, [data, cuisine, meal, atmosphere, sort])
+  }, [data, cuisine, meal, atmosphere, price, emirate, district, sort, language])
+
+  const priceCounts = useMemo(
+    () => countPriceBuckets(data, { ...DEFAULT_RESULTS_QUERY, cuisine, meal, atmosphere, emirate, district }),
+    [data, cuisine, meal, atmosphere, emirate, district]
+  )
+
+  const locationOptions = useMemo(() => getLocationOptions(data), [data])
+
+  const handleEmirateFilterChange = useCallback((v: EmirateOption) => {
+    setEmirate(v)
+    setDistrict([])
+  }, [])
 
   return (
     <div className="max-w-[var(--page-max-width)] mx-auto px-[var(--page-padding-x)] py-[var(--spacing-lg)]">
@@ -443,13 +690,27 @@ export const AdminClient = memo(function AdminClient({ initialRestaurants }: Adm
           {t("adminDashboard")}
         </h1>
         <button
-          onClick={() => setIsAddModalOpen(true)}
+          onClick={() => openForm(EMPTY_FORM, null)}
           className="px-3 py-2 sm:px-4 bg-[var(--color-primary)] text-white rounded-lg text-sm font-medium hover:bg-[var(--color-primary)]/90 transition-colors"
         >
           {t("addRestaurant")}
         </button>
       </div>
 
+      {actionError && (
+        <div className="mb-[var(--spacing-md)] p-3 bg-red-50 border border-red-200 rounded-lg flex items-start justify-between gap-3">
+          <p className="text-sm text-red-800">{actionError}</p>
+          <button
+            type="button"
+            onClick={() => setActionError(null)}
+            className="text-red-800 hover:text-red-900"
+            aria-label={t("dismiss")}
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
       {/* Filters + Sort */}
       <div className="flex flex-col gap-[var(--spacing-md)] mb-[var(--spacing-lg)]">
         <FilterSystem
@@ -459,9 +720,18 @@ export const AdminClient = memo(function AdminClient({ initialRestaurants }: Adm
           onMealChange={setMeal}
           atmosphere={atmosphere}
           onAtmosphereChange={setAtmosphere}
+          price={price}
+          onPriceChange={setPrice}
+          priceCounts={priceCounts}
+          emirate={emirate}
+          onEmirateChange={handleEmirateFilterChange}
+          district={district}
+          onDistrictChange={setDistrict}
+          locationOptions={locationOptions}
+          locale={language}
         />
         <div className="flex justify-end">
-          <AdminSortButton currentSort={sort} onSortChange={setSort} />
+          <AdminSortButton currentSort={sort} onSortChange={setSort} locale={language} />
         </div>
       </div>
 
@@ -481,16 +751,18 @@ export const AdminClient = memo(function AdminClient({ initialRestaurants }: Adm
                 locale={language}
               />
 
-              <div className="absolute top-[var(--spacing-sm)] right-[var(--spacing-sm)] flex flex-col gap-[var(--spacing-xs)] opacity-0 group-hover:opacity-100 transition-opacity">
+              <div className="absolute top-[var(--spacing-sm)] end-[var(--spacing-sm)] flex flex-col gap-[var(--spacing-xs)] opacity-0 group-hover:opacity-100 transition-opacity">
                 <button
                   onClick={() => handleEdit(restaurant.id)}
-                  className="px-3 py-1 text-xs rounded bg-blue-600 text-white hover:bg-blue-700"
+                  disabled={unsavedIds.has(restaurant.id)}
+                  className="px-3 py-1 text-xs rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   {t("edit")}
                 </button>
                 <button
                   onClick={() => handleDelete(restaurant.id)}
-                  className="px-3 py-1 text-xs rounded bg-red-600 text-white hover:bg-red-700"
+                  disabled={unsavedIds.has(restaurant.id)}
+                  className="px-3 py-1 text-xs rounded bg-red-600 text-white hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   {t("delete")}
                 </button>
@@ -504,6 +776,10 @@ export const AdminClient = memo(function AdminClient({ initialRestaurants }: Adm
       {isAddModalOpen && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
           <div className="bg-[var(--card-bg)] rounded-[var(--radius-xl)] p-6 w-[700px] max-w-[95vw] max-h-[90vh] overflow-y-auto">
+            <h2 className="text-lg font-semibold text-[var(--fg)] mb-4">
+              {editingId ? t("editRestaurant") : t("addRestaurant")}
+            </h2>
+
             {formError && (
               <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
                 <p className="text-sm text-red-800">{formError}</p>
@@ -512,17 +788,17 @@ export const AdminClient = memo(function AdminClient({ initialRestaurants }: Adm
 
             {/* Image Upload Section */}
             <div className="mb-6">
-              <label className="block text-sm font-medium mb-2 text-[var(--fg)]">Restaurant Images</label>
+              <label className="block text-sm font-medium mb-2 text-[var(--fg)]">{t("restaurantImages")}</label>
 
               {/* Image Preview Carousel */}
               {newRestaurant.images.length > 0 && (
                 <div className="mb-4 aspect-[16/9] rounded-lg overflow-hidden">
                   <CardCarousel
                     images={newRestaurant.images}
-                    alt="Restaurant preview"
+                    alt={t("restaurantPreview")}
                     height="100%"
                     className="h-full"
-                    restaurantName={newRestaurant.name || "New Restaurant"}
+                    restaurantName={getLocalizedText(fromLocalizedFormText(newRestaurant.name), language) || t("newRestaurant")}
                     showIndicators={true}
                   />
                 </div>
@@ -538,16 +814,16 @@ export const AdminClient = memo(function AdminClient({ initialRestaurants }: Adm
                     }`}
                     onClick={() => handleSetMainImage(index)}
                   >
-                    <img src={img} alt={`Upload ${index + 1}`} className="w-full h-full object-cover" />
+                    <img src={img} alt={t("uploadedImage", { number: index + 1 })} className="w-full h-full object-cover" />
                     {index === newRestaurant.mainImageIndex && (
                       <div className="absolute bottom-1 left-1/2 -translate-x-1/2 bg-[var(--color-primary)] text-white text-xs px-2 py-0.5 rounded-full">
-                        Main
+                        {t("main")}
                       </div>
                     )}
                     <button
                       type="button"
                       onClick={(e) => { e.stopPropagation(); handleRemoveImage(index) }}
-                      className="absolute top-1 right-1 bg-red-500 text-white w-5 h-5 rounded-full text-xs hover:bg-red-600"
+                      className="absolute top-1 end-1 bg-red-500 text-white w-5 h-5 rounded-full text-xs hover:bg-red-600"
                     >
                       ×
                     </button>
@@ -561,7 +837,7 @@ export const AdminClient = memo(function AdminClient({ initialRestaurants }: Adm
                   <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
                   </svg>
-                  <span className="text-xs mt-1">Add Photo</span>
+                  <span className="text-xs mt-1">{t("addPhoto")}</span>
                 </button>
               </div>
               <input
@@ -574,29 +850,53 @@ export const AdminClient = memo(function AdminClient({ initialRestaurants }: Adm
               />
             </div>
 
+            {/* Content language - name, district and description are entered per language */}
+            <div className="mb-4">
+              <span className="block text-sm font-medium mb-1 text-[var(--fg)]">{t("contentLanguage")}</span>
+              <div role="tablist" aria-label={t("contentLanguage")} className="inline-flex rounded-lg border border-[var(--fg-20)] p-0.5">
+                {CONTENT_LANGUAGES.map((code) => (
+                  <button
+                    key={code}
+                    type="button"
+                    role="tab"
+                    aria-selected={code === contentLanguage}
+                    onClick={() => setContentLanguage(code)}
+                    lang={code}
+                    className={`px-3 py-1 text-sm rounded-md transition-colors ${
+                      code === contentLanguage ? "bg-[var(--color-primary)] text-white" : "text-[var(--fg-70)] hover:bg-[var(--fg-5)]"
+                    }`}
+                  >
+                    {getLanguage(code).nativeName}
+                  </button>
+                ))}
+              </div>
+            </div>
+
             {/* Restaurant Name */}
             <div className="mb-4">
-              <label className="block text-sm font-medium mb-1 text-[var(--fg)]">Restaurant Name *</label>
+              <label className="block text-sm font-medium mb-1 text-[var(--fg)]">{t("restaurantNameRequired")}</label>
               <input
                 type="text"
-                value={newRestaurant.name}
+                value={newRestaurant.name[contentLanguage]}
                 onChange={handleNameChange}
+                lang={contentLanguage}
+                dir={getDirection(contentLanguage)}
                 className="w-full px-3 py-2 border border-[var(--fg-20)] rounded-lg bg-[var(--color-white)] text-[var(--fg)]"
-                placeholder="Restaurant name"
+                placeholder={t("restaurantNamePlaceholder")}
               />
             </div>
 
             {/* Emirate */}
             <div className="mb-4">
-              <label className="block text-sm font-medium mb-1 text-[var(--fg)]">Emirate</label>
+              <label className="block text-sm font-medium mb-1 text-[var(--fg)]">{t("emirate")}</label>
               <select
                 value={newRestaurant.emirate}
                 onChange={handleEmirateChange}
                 className="w-full px-3 py-2 border border-[var(--fg-20)] rounded-lg bg-[var(--color-white)] text-[var(--fg)]"
               >
-                {EMIRATES.map((emirate) => (
-                  <option key={emirate.id} value={emirate.id}>
-                    {emirate.label}
+                {UAE_EMIRATES.map((emirate) => (
+                  <option key={emirate} value={emirate}>
+                    {getEmirateLabel(emirate, language)}
                   </option>
                 ))}
               </select>
@@ -605,36 +905,42 @@ export const AdminClient = memo(function AdminClient({ initialRestaurants }: Adm
             {/* Meal Type (Multi-select) */}
             <div className="mb-4">
               <MultiSelectDropdown
-                label="Meal Type"
+                label={t("mealType")}
+                placeholder={t("selectMealType")}
                 selected={newRestaurant.meals}
                 options={MEAL_OPTIONS}
                 onChange={handleMealsChange}
+                locale={language}
               />
             </div>
 
             {/* Cuisine (Multi-select) */}
             <div className="mb-4">
               <MultiSelectDropdown
-                label="Cuisine *"
+                label={t("cuisineRequired")}
+                placeholder={t("selectCuisine")}
                 selected={newRestaurant.cuisines}
                 options={CUISINE_OPTIONS}
                 onChange={handleCuisinesChange}
+                locale={language}
               />
             </div>
 
             {/* Atmosphere (Multi-select) */}
             <div className="mb-4">
               <MultiSelectDropdown
-                label="Atmosphere"
+                label={t("atmosphere")}
+                placeholder={t("selectAtmosphere")}
                 selected={newRestaurant.atmospheres}
                 options={ATMOSPHERE_OPTIONS}
                 onChange={handleAtmospheresChange}
+                locale={language}
               />
             </div>
 
             {/* Price Range - AED Buckets */}
             <div className="mb-4">
-              <label className="block text-sm font-medium mb-1 text-[var(--fg)]">Price Range (AED)</label>
+              <label className="block text-sm font-medium mb-1 text-[var(--fg)]">{t("priceRange")}</label>
               <select
                 value={newRestaurant.priceBucketId}
                 onChange={handlePriceBucketChange}
@@ -642,7 +948,7 @@ export const AdminClient = memo(function AdminClient({ initialRestaurants }: Adm
               >
                 {PRICE_BUCKETS.map((bucket) => (
                   <option key={bucket.id} value={bucket.id}>
-                    {bucket.labelAr}
+                    {format.priceBucket(bucket.id)}
                   </option>
                 ))}
               </select>
@@ -650,42 +956,46 @@ export const AdminClient = memo(function AdminClient({ initialRestaurants }: Adm
 
             {/* Location Details */}
             <div className="mb-4">
-              <label className="block text-sm font-medium mb-1 text-[var(--fg)]">District</label>
+              <label className="block text-sm font-medium mb-1 text-[var(--fg)]">{t("district")}</label>
               <input
                 type="text"
-                value={newRestaurant.district}
+                value={newRestaurant.district[contentLanguage]}
                 onChange={handleDistrictChange}
+                lang={contentLanguage}
+                dir={getDirection(contentLanguage)}
                 className="w-full px-3 py-2 border border-[var(--fg-20)] rounded-lg bg-[var(--color-white)] text-[var(--fg)]"
-                placeholder="e.g., Downtown, Marina"
+                placeholder={t("districtPlaceholder")}
               />
             </div>
 
             <div className="mb-4">
-              <label className="block text-sm font-medium mb-1 text-[var(--fg)]">Full Address</label>
+              <label className="block text-sm font-medium mb-1 text-[var(--fg)]">{t("fullAddress")}</label>
               <input
                 type="text"
                 value={newRestaurant.address}
                 onChange={handleAddressChange}
                 className="w-full px-3 py-2 border border-[var(--fg-20)] rounded-lg bg-[var(--color-white)] text-[var(--fg)]"
-                placeholder="Building, street, area"
+                placeholder={t("addressPlaceholder")}
               />
             </div>
 
             {/* Description */}
             <div className="mb-4">
-              <label className="block text-sm font-medium mb-1 text-[var(--fg)]">Description</label>
+              <label className="block text-sm font-medium mb-1 text-[var(--fg)]">{t("description")}</label>
               <textarea
-                value={newRestaurant.description}
+                value={newRestaurant.description[contentLanguage]}
                 onChange={handleDescriptionChange}
+                lang={contentLanguage}
+                dir={getDirection(contentLanguage)}
                 className="w-full px-3 py-2 border border-[var(--fg-20)] rounded-lg bg-[var(--color-white)] text-[var(--fg)]"
                 rows={3}
-                placeholder="Restaurant description"
+                placeholder={t("descriptionPlaceholder")}
               />
             </div>
 
             {/* Contacts Section */}
             <div className="mb-4">
-              <label className="block text-sm font-medium mb-2 text-[var(--fg)]">Contact & Social</label>
+              <label className="block text-sm font-medium mb-2 text-[var(--fg)]">{t("contactSocial")}</label>
               {newRestaurant.contacts.map((contact, index) => {
                 const contactOption = CONTACT_OPTIONS.find((c) => c.id === contact.type)
                 return (
@@ -696,7 +1006,7 @@ export const AdminClient = memo(function AdminClient({ initialRestaurants }: Adm
                       value={contact.value}
                       onChange={(e) => handleContactChange(index, e.target.value)}
                       className="flex-1 px-3 py-2 border border-[var(--fg-20)] rounded-lg bg-[var(--color-white)] text-[var(--fg)]"
-                      placeholder={contactOption?.placeholder}
+                      placeholder={contactOption && t(contactOption.placeholderKey)}
                     />
                     <button
                       type="button"
@@ -719,19 +1029,19 @@ export const AdminClient = memo(function AdminClient({ initialRestaurants }: Adm
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
                   </svg>
-                  Add Contact
+                  {t("addContact")}
                 </button>
                 {showContactMenu && (
-                  <div className="absolute top-full left-0 right-0 mt-1 bg-[var(--color-white)] border border-[var(--fg-10)] rounded-lg shadow-lg z-10 max-h-48 overflow-y-auto">
+                  <div className="absolute top-full inset-x-0 mt-1 bg-[var(--color-white)] border border-[var(--fg-10)] rounded-lg shadow-lg z-10 max-h-48 overflow-y-auto">
                     {CONTACT_OPTIONS.map((option) => (
                       <button
                         key={option.id}
                         type="button"
                         onClick={() => handleAddContact(option.id)}
-                        className="w-full px-3 py-2 text-left hover:bg-[var(--fg-5)] flex items-center gap-2 text-[var(--fg)]"
+                        className="w-full px-3 py-2 text-start hover:bg-[var(--fg-5)] flex items-center gap-2 text-[var(--fg)]"
                       >
                         <span>{option.icon}</span>
-                        <span>{option.label}</span>
+                        <span>{t(option.labelKey)}</span>
                       </button>
                     ))}
                   </div>
@@ -742,16 +1052,44 @@ export const AdminClient = memo(function AdminClient({ initialRestaurants }: Adm
             {/* Actions */}
             <div className="flex gap-3 mt-6">
               <button
-                onClick={handleAddRestaurant}
+                onClick={editingId ? handleSaveEdit : handleAddRestaurant}
                 className="flex-1 px-3 py-2 sm:px-4 bg-[var(--color-primary)] text-white rounded-lg font-medium hover:bg-[var(--color-primary)]/90"
               >
-                Add Restaurant
+                {editingId ? t("saveChanges") : t("addRestaurantButton")}
               </button>
               <button
-                onClick={() => setIsAddModalOpen(false)}
+                onClick={handleCloseForm}
                 className="flex-1 px-3 py-2 sm:px-4 bg-[var(--fg-10)] text-[var(--fg)] rounded-lg font-medium hover:bg-[var(--fg-20)]"
               >
-                Cancel
+                {t("cancel")}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Discard Changes Confirmation Modal */}
+      {showDiscardConfirm && (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50 p-4">
+          <div className="bg-[var(--card-bg)] rounded-[var(--radius-xl)] p-6 w-full max-w-md">
+            <h3 className="text-lg font-semibold text-[var(--fg)] mb-2">{t("discardChangesTitle")}</h3>
+            <p className="text-sm text-[var(--fg-70)] mb-6">
+              {t("discardChangesMessage")}
+            </p>
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={closeForm}
+                className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg font-medium hover:bg-red-700"
+              >
+                {t("discard")}
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowDiscardConfirm(false)}
+                className="flex-1 px-4 py-2 bg-[var(--fg-10)] text-[var(--fg)] rounded-lg font-medium hover:bg-[var(--fg-20)]"
+              >
+                {t("keepEditing")}
               </button>
             </div>
           </div>
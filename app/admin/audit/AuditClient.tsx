@@ -0,0 +1,210 @@
+"use client"
+
+import { Download } from "lucide-react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { memo, useCallback, type FormEvent } from "react"
+import { useFormatter, useLanguage } from "@/context/LanguageProvider"
+import { DEFAULT_AUDIT_FILTERS, serializeAuditFilters, type AuditFilters } from "@/lib/audit-query"
+import { useTranslations } from "@/lib/translations"
+import { AUDIT_ACTIONS, AUDIT_SEVERITIES, type AuditLogRecord, type AuditSeverity } from "@/types/audit"
+
+/* =========================
+   Styles
+========================= */
+
+const FIELD_CLASS =
+  "bg-white border border-[var(--fg-20)] rounded-[var(--radius-lg)] px-3 py-1.5 text-xs text-[var(--fg)] focus:outline-none focus:ring-2 focus:ring-[var(--color-primary)]"
+
+const SEVERITY_CLASSES: Record<AuditSeverity, string> = {
+  info: "bg-[var(--fg-10)] text-[var(--fg-70)]",
+  warning: "bg-[var(--color-warning)]/15 text-[var(--color-warning)]",
+  error: "bg-red-100 text-red-800",
+  critical: "bg-red-600 text-white",
+}
+
+/** Text filters read from the form; selects and dates share the same names */
+const TEXT_FIELDS = ["user", "targetType", "targetId"] as const satisfies readonly (keyof AuditFilters)[]
+
+/* =========================
+   Main Component
+========================= */
+
+interface AuditClientProps {
+  entries: AuditLogRecord[]
+  nextCursor: string | null
+  filters: AuditFilters
+  error: string | null
+}
+
+export const AuditClient = memo(function AuditClient({ entries, nextCursor, filters, error }: AuditClientProps) {
+  const { language } = useLanguage()
+  const { t } = useTranslations(language)
+  const format = useFormatter()
+  const router = useRouter()
+
+  const navigate = useCallback(
+    (next: AuditFilters) => {
+      const query = serializeAuditFilters(next)
+      router.push(query ? `/admin/audit?${query}` : "/admin/audit")
+    },
+    [router]
+  )
+
+  const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    const form = new FormData(e.currentTarget)
+    const value = (key: keyof AuditFilters) => String(form.get(key) ?? "").trim()
+
+    navigate({
+      ...DEFAULT_AUDIT_FILTERS,
+      ...Object.fromEntries(TEXT_FIELDS.map((key) => [key, value(key)])),
+      action: value("action") as AuditFilters["action"],
+      severity: value("severity") as AuditFilters["severity"],
+      from: value("from"),
+      to: value("to"),
+    })
+  }
+
+  const exportHref = (format: "csv" | "ndjson") => {
+    const query = serializeAuditFilters({ ...filters, cursor: "" })
+    return `/admin/audit/export?${query ? `${query}&` : ""}format=${format}`
+  }
+
+  return (
+    <div className="max-w-[var(--page-max-width)] mx-auto px-[var(--page-padding-x)] py-[var(--spacing-lg)]">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-[var(--spacing-lg)]">
+        <h1 className="text-[var(--font-size-2xl)] font-bold text-[var(--fg)]">{t("auditLog")}</h1>
+        <div className="flex items-center gap-2">
+          {(["csv", "ndjson"] as const).map((format) => (
+            <a
+              key={format}
+              href={exportHref(format)}
+              download
+              className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-[var(--fg-20)] bg-white text-xs font-medium text-[var(--fg)] hover:bg-[var(--fg-5)]"
+            >
+              <Download className="w-3.5 h-3.5" aria-hidden="true" />
+              {t(format === "csv" ? "auditExportCsv" : "auditExportNdjson")}
+            </a>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-[var(--spacing-md)] p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {/* Filters - keyed on the URL so the fields reset after navigation */}
+      <form
+        key={serializeAuditFilters({ ...filters, cursor: "" })}
+        onSubmit={handleSubmit}
+        className="grid grid-cols-2 md:grid-cols-4 gap-[var(--spacing-xs)] mb-[var(--spacing-md)]"
+      >
+        <select name="action" defaultValue={filters.action} aria-label={t("auditAction")} className={FIELD_CLASS}>
+          <option value="all">{t("auditAction")}: {t("assigneeAll")}</option>
+          {AUDIT_ACTIONS.map((action) => (
+            <option key={action} value={action}>
+              {action}
+            </option>
+          ))}
+        </select>
+        <select name="severity" defaultValue={filters.severity} aria-label={t("auditSeverity")} className={FIELD_CLASS}>
+          <option value="all">{t("auditSeverity")}: {t("assigneeAll")}</option>
+          {AUDIT_SEVERITIES.map((severity) => (
+            <option key={severity} value={severity}>
+              {severity}
+            </option>
+          ))}
+        </select>
+        <input name="user" defaultValue={filters.user} placeholder={t("auditUser")} aria-label={t("auditUser")} className={FIELD_CLASS} />
+        <input
+          name="targetType"
+          defaultValue={filters.targetType}
+          maxLength={50}
+          placeholder={t("auditTargetType")}
+          aria-label={t("auditTargetType")}
+          className={FIELD_CLASS}
+        />
+        <input
+          name="targetId"
+          defaultValue={filters.targetId}
+          maxLength={100}
+          placeholder={t("auditTargetId")}
+          aria-label={t("auditTargetId")}
+          className={FIELD_CLASS}
+        />
+        <label className="flex items-center gap-2 text-xs text-[var(--fg-70)]">
+          {t("auditFrom")}
+          <input type="date" name="from" defaultValue={filters.from} className={`${FIELD_CLASS} flex-1`} />
+        </label>
+        <label className="flex items-center gap-2 text-xs text-[var(--fg-70)]">
+          {t("auditTo")}
+          <input type="date" name="to" defaultValue={filters.to} className={`${FIELD_CLASS} flex-1`} />
+        </label>
+        <div className="flex items-center gap-2">
+          <button type="submit" className="flex-1 px-3 py-1.5 rounded-lg bg-[var(--color-primary)] text-white text-xs font-medium">
+            {t("auditApplyFilters")}
+          </button>
+          <button
+            type="button"
+            onClick={() => navigate(DEFAULT_AUDIT_FILTERS)}
+            className="flex-1 px-3 py-1.5 rounded-lg border border-[var(--fg-20)] bg-white text-xs font-medium text-[var(--fg)]"
+          >
+            {t("auditClearFilters")}
+          </button>
+        </div>
+      </form>
+
+      {/* Entries */}
+      {entries.length === 0 ? (
+        <p className="py-[var(--spacing-xl)] text-center text-sm text-[var(--fg-50)]">{t("auditNoEntries")}</p>
+      ) : (
+        <ul className="flex flex-col divide-y divide-[var(--fg-10)] border border-[var(--fg-10)] rounded-xl bg-white">
+          {entries.map((entry) => (
+            <li key={entry.id}>
+              <Link href={`/admin/audit/${entry.id}`} className="flex flex-wrap items-center gap-3 p-3 hover:bg-[var(--fg-5)]">
+                <span className={`px-2 py-0.5 rounded-full text-[10px] font-semibold uppercase ${SEVERITY_CLASSES[entry.severity]}`}>
+                  {entry.severity}
+                </span>
+                <span className="flex-1 min-w-[10rem] text-sm font-medium text-[var(--fg)]">
+                  {entry.action}
+                  {!entry.success && <span className="ms-2 text-xs text-red-700">({t("auditFailed")})</span>}
+                </span>
+                <span className="text-xs text-[var(--fg-50)] font-mono truncate max-w-[14rem]">
+                  {entry.target_type ? `${entry.target_type}:${entry.target_id ?? ""}` : entry.user_id}
+                </span>
+                <time dateTime={entry.timestamp} className="text-xs text-[var(--fg-50)]">
+                  {format.dateTime(entry.timestamp)}
+                </time>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Cursor pagination - older pages only; "Newest" returns to the top */}
+      {(filters.cursor || nextCursor) && (
+        <div className="flex items-center justify-center gap-3 mt-[var(--spacing-lg)] text-sm">
+          <button
+            type="button"
+            disabled={!filters.cursor}
+            onClick={() => navigate({ ...filters, cursor: "" })}
+            className="px-3 py-1.5 rounded-lg border border-[var(--fg-20)] disabled:opacity-40"
+          >
+            {t("auditNewest")}
+          </button>
+          <button
+            type="button"
+            disabled={!nextCursor}
+            onClick={() => nextCursor && navigate({ ...filters, cursor: nextCursor })}
+            className="px-3 py-1.5 rounded-lg border border-[var(--fg-20)] disabled:opacity-40"
+          >
+            {t("auditOlder")}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+})
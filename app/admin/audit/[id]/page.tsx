@@ -0,0 +1,83 @@
+import type { Metadata } from "next"
+import { ArrowLeft } from "lucide-react"
+import Link from "next/link"
+import { notFound } from "next/navigation"
+import { Suspense } from "react"
+import { withNext } from "@/lib/auth-messages"
+import { getAuditLogEntry } from "@/lib/dal"
+import { getLanguage } from "@/lib/language.server"
+import { PERMISSIONS, requirePermission } from "@/lib/security"
+import { t } from "@/lib/translations"
+
+type Props = {
+  params: Promise<{ id: string }>
+}
+
+export async function generateMetadata(): Promise<Metadata> {
+  return { title: t("auditEntry", await getLanguage()) }
+}
+
+async function AuditEntryContent({ params }: Props) {
+  const { id } = await params
+  await requirePermission(PERMISSIONS.AUDIT_VIEW, "/unauthorized", withNext("/login", `/admin/audit/${id}`))
+  const [{ data: entry }, language] = await Promise.all([getAuditLogEntry(id), getLanguage()])
+  if (!entry) notFound()
+
+  const fields: [string, string | null | undefined][] = [
+    [t("auditAction", language), entry.action],
+    [t("auditSeverity", language), entry.severity],
+    [t("auditStatus", language), t(entry.success ? "auditSucceeded" : "auditFailed", language)],
+    [t("auditTimestamp", language), entry.timestamp],
+    [t("auditUser", language), entry.user_id],
+    [t("auditTargetType", language), entry.target_type],
+    [t("auditTargetId", language), entry.target_id],
+    [t("auditIpAddress", language), entry.ip_address],
+    [t("auditUserAgent", language), entry.user_agent],
+    [t("auditError", language), entry.error_message],
+    [t("auditSequence", language), entry.seq?.toString()],
+    [t("auditHash", language), entry.hash],
+    [t("auditPrevHash", language), entry.prev_hash],
+  ]
+
+  return (
+    <div className="max-w-[var(--page-max-width)] mx-auto px-[var(--page-padding-x)] py-[var(--spacing-lg)]">
+      <Link href="/admin/audit" className="inline-flex items-center gap-1.5 text-sm text-[var(--fg-70)] mb-[var(--spacing-md)]">
+        <ArrowLeft className="w-4 h-4 rtl:rotate-180" aria-hidden="true" />
+        {t("auditBackToLog", language)}
+      </Link>
+      <h1 className="text-[var(--font-size-2xl)] font-bold text-[var(--fg)] mb-[var(--spacing-md)]">
+        {t("auditEntry", language)}
+      </h1>
+
+      <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-2 p-4 mb-[var(--spacing-md)] border border-[var(--fg-10)] rounded-xl bg-white text-sm">
+        {fields
+          .filter(([, value]) => value)
+          .map(([label, value]) => (
+            <div key={label} className="contents">
+              <dt className="text-[var(--fg-50)]">{label}</dt>
+              <dd className="text-[var(--fg)] font-mono break-all">{value}</dd>
+            </div>
+          ))}
+      </dl>
+
+      <h2 className="text-sm font-semibold text-[var(--fg)] mb-[var(--spacing-xs)]">{t("auditMetadata", language)}</h2>
+      <pre dir="ltr" className="p-4 rounded-xl bg-[var(--fg-5)] border border-[var(--fg-10)] text-xs text-[var(--fg)] overflow-x-auto">
+        {JSON.stringify(entry.metadata, null, 2)}
+      </pre>
+    </div>
+  )
+}
+
+export default function AuditEntryPage({ params }: Props) {
+  return (
+    <Suspense
+      fallback={
+        <div className="max-w-[var(--page-max-width)] mx-auto px-[var(--page-padding-x)] py-[var(--spacing-lg)]">
+          <div className="h-8 w-48 bg-[var(--fg-10)] rounded animate-pulse" />
+        </div>
+      }
+    >
+      <AuditEntryContent params={params} />
+    </Suspense>
+  )
+}
@@ -0,0 +1,38 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   AUDIT EXPORT ROUTE - Download the filtered audit log as CSV or NDJSON
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+import { NextResponse, type NextRequest } from "next/server"
+import { AUDIT_EXPORT_CONTENT_TYPES } from "@/lib/audit-export"
+import { parseAuditFilters, toAuditQuery } from "@/lib/audit-query"
+import { exportAuditLogs } from "@/lib/dal"
+import { auditExportFormatSchema, authorizeAction, PERMISSIONS } from "@/lib/security"
+
+export async function GET(request: NextRequest) {
+  const access = await authorizeAction(PERMISSIONS.AUDIT_VIEW, "exportAuditLogs")
+  if (!access.allowed) {
+    return NextResponse.json({ error: access.reason ?? "Forbidden" }, { status: 403 })
+  }
+
+  const { searchParams } = request.nextUrl
+  const format = auditExportFormatSchema.safeParse(searchParams.get("format") ?? "csv")
+  if (!format.success) {
+    return NextResponse.json({ error: "Invalid format" }, { status: 400 })
+  }
+
+  const { data, error } = await exportAuditLogs(toAuditQuery(parseAuditFilters(searchParams)), format.data)
+  if (!data) {
+    return NextResponse.json({ error }, { status: 400 })
+  }
+
+  const date = new Date().toISOString().slice(0, 10)
+  return new NextResponse(data.body, {
+    headers: {
+      "Content-Type": AUDIT_EXPORT_CONTENT_TYPES[format.data],
+      "Content-Disposition": `attachment; filename="audit-log-${date}.${format.data}"`,
+      "Cache-Control": "no-store",
+      "X-Export-Count": String(data.count),
+      "X-Export-Truncated": String(data.truncated),
+    },
+  })
+}
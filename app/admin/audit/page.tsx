@@ -0,0 +1,41 @@
+import type { Metadata } from "next"
+import { Suspense } from "react"
+import { parseAuditFilters, toAuditQuery } from "@/lib/audit-query"
+import { withNext } from "@/lib/auth-messages"
+import { getAuditLogs } from "@/lib/dal"
+import { PERMISSIONS, requirePermission } from "@/lib/security"
+import { getLanguage } from "@/lib/language.server"
+import { t } from "@/lib/translations"
+import { AuditClient } from "./AuditClient"
+
+interface Props {
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}
+
+export async function generateMetadata(): Promise<Metadata> {
+  return { title: t("auditLog", await getLanguage()) }
+}
+
+async function AuditContent({ searchParams }: Props) {
+  await requirePermission(PERMISSIONS.AUDIT_VIEW, "/unauthorized", withNext("/login", "/admin/audit"))
+  const filters = parseAuditFilters(await searchParams)
+  const { data, error } = await getAuditLogs(toAuditQuery(filters))
+
+  return (
+    <AuditClient entries={data?.entries ?? []} nextCursor={data?.nextCursor ?? null} filters={filters} error={error} />
+  )
+}
+
+export default function AuditPage({ searchParams }: Props) {
+  return (
+    <Suspense
+      fallback={
+        <div className="max-w-[var(--page-max-width)] mx-auto px-[var(--page-padding-x)] py-[var(--spacing-lg)]">
+          <div className="h-8 w-48 bg-[var(--fg-10)] rounded animate-pulse" />
+        </div>
+      }
+    >
+      <AuditContent searchParams={searchParams} />
+    </Suspense>
+  )
+}
@@ -0,0 +1,391 @@
+"use client"
+
+import { Clock, X } from "lucide-react"
+import { useRouter } from "next/navigation"
+import { memo, useCallback, useEffect, useMemo, useState, useTransition } from "react"
+import { assignModerationAction, decideModerationAction } from "@/actions/moderation"
+import { RatingStars } from "@/components/reviews"
+import { useLanguage } from "@/context/LanguageProvider"
+import { serializeModerationFilters, type ModerationFilters } from "@/lib/moderation-query"
+import { useTranslations, type TranslationKey } from "@/lib/translations"
+import {
+  getSlaRemainingMs,
+  MODERATION_REASON_CODES,
+  MODERATION_STATUSES,
+  type ModerationDecision,
+  type ModerationItem,
+  type ModerationReasonCode,
+  type ModerationStatus,
+} from "@/types/moderation"
+
+/* =========================
+   Labels
+========================= */
+
+const STATUS_LABELS: Record<ModerationStatus, TranslationKey> = {
+  pending: "statusPending",
+  approved: "statusApproved",
+  rejected: "statusRejected",
+  hidden: "statusHidden",
+}
+
+const REASON_LABELS: Record<ModerationReasonCode, TranslationKey> = {
+  spam: "reasonSpam",
+  offensive: "reasonOffensive",
+  off_topic: "reasonOffTopic",
+  personal_info: "reasonPersonalInfo",
+  conflict_of_interest: "reasonConflictOfInterest",
+  other: "reasonOther",
+}
+
+const ASSIGNEE_LABELS: Record<ModerationFilters["assignee"], TranslationKey> = {
+  all: "assigneeAll",
+  me: "assigneeMe",
+  unassigned: "assigneeUnassigned",
+}
+
+const DECISION_STYLES: Record<ModerationDecision, string> = {
+  approve: "bg-[var(--color-success)] text-white",
+  reject: "bg-red-600 text-white",
+  hide: "bg-[var(--fg-70)] text-white",
+}
+
+// SLA countdown granularity
+const TICK_MS = 60 * 1000
+
+function formatDuration(ms: number): string {
+  const minutes = Math.floor(Math.abs(ms) / 60000)
+  const hours = Math.floor(minutes / 60)
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`
+}
+
+/* =========================
+   SLA Badge
+========================= */
+
+function SlaBadge({ item, now, label }: { item: ModerationItem; now: number; label: (key: TranslationKey) => string }) {
+  const remaining = getSlaRemainingMs(item, now)
+  if (remaining === null) return null
+
+  const overdue = remaining < 0
+  return (
+    <span
+      className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium ${
+        overdue ? "bg-red-50 text-red-700" : "bg-[var(--color-warning)]/10 text-[var(--color-warning)]"
+      }`}
+    >
+      <Clock className="w-3 h-3" aria-hidden="true" />
+      {label(overdue ? "slaOverdue" : "slaDueIn")} {formatDuration(remaining)}
+    </span>
+  )
+}
+
+/* =========================
+   Main Component
+========================= */
+
+interface ModerationClientProps {
+  items: ModerationItem[]
+  total: number
+  pageSize: number
+  filters: ModerationFilters
+  error: string | null
+  currentUserId: string | null
+}
+
+export const ModerationClient = memo(function ModerationClient({
+  items,
+  total,
+  pageSize,
+  filters,
+  error,
+  currentUserId,
+}: ModerationClientProps) {
+  const { language } = useLanguage()
+  const { t } = useTranslations(language)
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [reasonCode, setReasonCode] = useState<ModerationReasonCode | "">("")
+  const [note, setNote] = useState("")
+  const [actionError, setActionError] = useState<string | null>(null)
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), TICK_MS)
+    return () => clearInterval(timer)
+  }, [])
+
+  const pageCount = Math.max(1, Math.ceil(total / pageSize))
+  const allSelected = items.length > 0 && selected.size === items.length
+
+  const navigate = useCallback(
+    (patch: Partial<ModerationFilters>) => {
+      const query = serializeModerationFilters({ ...filters, page: 1, ...patch })
+      // Selection never outlives the page it was made on
+      setSelected(new Set())
+      router.push(query ? `/admin/moderation?${query}` : "/admin/moderation")
+    },
+    [filters, router]
+  )
+
+  const toggle = useCallback((id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }, [])
+
+  const toggleAll = useCallback(() => {
+    setSelected(allSelected ? new Set() : new Set(items.map((item) => item.id)))
+  }, [allSelected, items])
+
+  const run = useCallback(
+    (action: () => Promise<{ error: string | null }>) => {
+      setActionError(null)
+      startTransition(async () => {
+        const result = await action()
+        if (result.error) {
+          setActionError(result.error)
+          return
+        }
+        setSelected(new Set())
+        router.refresh()
+      })
+    },
+    [router]
+  )
+
+  const decide = useCallback(
+    (ids: string[], decision: ModerationDecision) =>
+      run(() =>
+        decideModerationAction({
+          ids,
+          decision,
+          reasonCode: reasonCode || undefined,
+          note: note.trim() || undefined,
+        })
+      ),
+    [run, reasonCode, note]
+  )
+
+  const assign = useCallback(
+    (ids: string[], assigneeId: string | null) => run(() => assignModerationAction({ ids, assigneeId })),
+    [run]
+  )
+
+  const selectedIds = useMemo(() => [...selected], [selected])
+
+  const decisionButtons = (ids: string[]) =>
+    (["approve", "reject", "hide"] as const).map((decision) => (
+      <button
+        key={decision}
+        type="button"
+        disabled={isPending || ids.length === 0 || (decision !== "approve" && !reasonCode)}
+        onClick={() => decide(ids, decision)}
+        title={decision !== "approve" && !reasonCode ? t("moderationReason") : undefined}
+        className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-opacity hover:opacity-90 disabled:opacity-40 disabled:cursor-not-allowed ${DECISION_STYLES[decision]}`}
+      >
+        {t(decision)}
+      </button>
+    ))
+
+  return (
+    <div className="max-w-[var(--page-max-width)] mx-auto px-[var(--page-padding-x)] py-[var(--spacing-lg)]">
+      <div className="flex items-center justify-between mb-[var(--spacing-lg)]">
+        <h1 className="text-[var(--font-size-2xl)] font-bold text-[var(--fg)]">{t("moderationQueue")}</h1>
+        <span className="text-sm text-[var(--fg-50)]">{total}</span>
+      </div>
+
+      {(error || actionError) && (
+        <div className="mb-[var(--spacing-md)] p-3 bg-red-50 border border-red-200 rounded-lg flex items-start justify-between gap-3">
+          <p className="text-sm text-red-800">{actionError ?? error}</p>
+          {actionError && (
+            <button
+              type="button"
+              onClick={() => setActionError(null)}
+              className="text-red-800 hover:text-red-900"
+              aria-label={t("dismiss")}
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-[var(--spacing-xs)] mb-[var(--spacing-md)]">
+        <div role="tablist" className="flex items-center gap-[var(--spacing-xs)] overflow-x-auto scrollbar-hide">
+          {MODERATION_STATUSES.map((status) => (
+            <button
+              key={status}
+              type="button"
+              role="tab"
+              aria-selected={filters.status === status}
+              onClick={() => navigate({ status })}
+              className={`flex-shrink-0 px-3 py-1.5 rounded-full border text-xs font-medium transition-all ${
+                filters.status === status
+                  ? "bg-[var(--color-primary)]/10 text-[var(--color-primary)] border-current"
+                  : "bg-white border-[var(--fg-20)] text-[var(--fg)] hover:border-[var(--fg-30)]"
+              }`}
+            >
+              {t(STATUS_LABELS[status])}
+            </button>
+          ))}
+        </div>
+        <select
+          value={filters.assignee}
+          onChange={(e) => navigate({ assignee: e.target.value as ModerationFilters["assignee"] })}
+          className="ms-auto appearance-none bg-white border border-[var(--fg-20)] rounded-[var(--radius-lg)] px-3 py-1.5 text-xs font-medium text-[var(--fg)] focus:outline-none focus:ring-2 focus:ring-[var(--color-primary)]"
+        >
+          {(Object.keys(ASSIGNEE_LABELS) as ModerationFilters["assignee"][]).map((assignee) => (
+            <option key={assignee} value={assignee}>
+              {t(ASSIGNEE_LABELS[assignee])}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Decision panel - reason and note apply to single and bulk decisions */}
+      <div className="sticky top-0 z-10 flex flex-wrap items-center gap-[var(--spacing-xs)] p-3 mb-[var(--spacing-md)] rounded-xl bg-[var(--fg-5)] border border-[var(--fg-10)]">
+        <label className="flex items-center gap-2 text-xs font-medium text-[var(--fg)]">
+          <input type="checkbox" checked={allSelected} onChange={toggleAll} disabled={items.length === 0} />
+          {t("selectAll")}
+        </label>
+        <select
+          value={reasonCode}
+          onChange={(e) => setReasonCode(e.target.value as ModerationReasonCode | "")}
+          aria-label={t("moderationReason")}
+          className="bg-white border border-[var(--fg-20)] rounded-[var(--radius-lg)] px-2 py-1.5 text-xs text-[var(--fg)]"
+        >
+          <option value="">{t("moderationReason")}</option>
+          {MODERATION_REASON_CODES.map((code) => (
+            <option key={code} value={code}>
+              {t(REASON_LABELS[code])}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder={t("moderationNote")}
+          maxLength={500}
+          className="flex-1 min-w-[10rem] bg-white border border-[var(--fg-20)] rounded-[var(--radius-lg)] px-2 py-1.5 text-xs text-[var(--fg)]"
+        />
+        {selected.size > 0 && (
+          <div className="flex flex-wrap items-center gap-[var(--spacing-xs)] w-full">
+            <span className="text-xs text-[var(--fg-70)]">
+              {selected.size} {t("selectedCount")}
+            </span>
+            {decisionButtons(selectedIds)}
+            {currentUserId && (
+              <button
+                type="button"
+                disabled={isPending}
+                onClick={() => assign(selectedIds, currentUserId)}
+                className="px-3 py-1.5 rounded-lg border border-[var(--fg-20)] bg-white text-xs font-medium text-[var(--fg)] disabled:opacity-40"
+              >
+                {t("assignToMe")}
+              </button>
+            )}
+            <button
+              type="button"
+              disabled={isPending}
+              onClick={() => assign(selectedIds, null)}
+              className="px-3 py-1.5 rounded-lg border border-[var(--fg-20)] bg-white text-xs font-medium text-[var(--fg)] disabled:opacity-40"
+            >
+              {t("unassign")}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Queue */}
+      {items.length === 0 ? (
+        <div className="text-center py-[var(--spacing-5xl)]">
+          <p className="text-[var(--font-size-lg)] text-[var(--fg-70)]">{error ? null : t("moderationEmpty")}</p>
+        </div>
+      ) : (
+        <ul className="space-y-[var(--spacing-sm)]">
+          {items.map((item) => (
+            <li
+              key={item.id}
+              className={`flex gap-3 p-4 rounded-xl border transition-colors ${
+                selected.has(item.id) ? "border-[var(--color-primary)] bg-[var(--color-primary)]/5" : "border-[var(--fg-10)] bg-white"
+              }`}
+            >
+              <input
+                type="checkbox"
+                checked={selected.has(item.id)}
+                onChange={() => toggle(item.id)}
+                aria-label={item.preview.title}
+                className="mt-1"
+              />
+              <div className="flex-1 min-w-0 space-y-1">
+                <div className="flex flex-wrap items-center gap-2 text-xs text-[var(--fg-50)]">
+                  <span className="px-2 py-0.5 rounded-full bg-[var(--fg-10)] text-[var(--fg-70)] font-medium">{item.contentType}</span>
+                  {item.preview.context && <span>{item.preview.context}</span>}
+                  {item.preview.rating !== undefined && <RatingStars rating={item.preview.rating} />}
+                  <SlaBadge item={item} now={now} label={t} />
+                  {item.status !== "pending" && (
+                    <span className="font-medium text-[var(--fg-70)]">
+                      {t(STATUS_LABELS[item.status])}
+                      {item.reasonCode && ` · ${t(REASON_LABELS[item.reasonCode])}`}
+                    </span>
+                  )}
+                  {item.assignedTo && (
+                    <span>{t(item.assignedTo === currentUserId ? "assignedToYou" : "assignedToOther")}</span>
+                  )}
+                </div>
+                <p className="text-sm font-semibold text-[var(--fg)]">{item.preview.title}</p>
+                <p className="text-sm text-[var(--fg-70)] line-clamp-3 whitespace-pre-line">{item.preview.body}</p>
+                {item.note && <p className="text-xs text-[var(--fg-50)] italic">{item.note}</p>}
+                <div className="flex flex-wrap items-center gap-[var(--spacing-xs)] pt-1">
+                  {decisionButtons([item.id])}
+                  {currentUserId && item.assignedTo !== currentUserId && (
+                    <button
+                      type="button"
+                      disabled={isPending}
+                      onClick={() => assign([item.id], currentUserId)}
+                      className="px-3 py-1.5 text-xs font-medium text-[var(--color-primary)] hover:underline disabled:opacity-40"
+                    >
+                      {t("assignToMe")}
+                    </button>
+                  )}
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Pagination */}
+      {pageCount > 1 && (
+        <div className="flex items-center justify-center gap-3 mt-[var(--spacing-lg)] text-sm">
+          <button
+            type="button"
+            disabled={filters.page <= 1}
+            onClick={() => navigate({ page: filters.page - 1 })}
+            className="px-3 py-1.5 rounded-lg border border-[var(--fg-20)] disabled:opacity-40"
+          >
+            {t("previousPage")}
+          </button>
+          <span className="text-[var(--fg-70)]">
+            {filters.page} / {pageCount}
+          </span>
+          <button
+            type="button"
+            disabled={filters.page >= pageCount}
+            onClick={() => navigate({ page: filters.page + 1 })}
+            className="px-3 py-1.5 rounded-lg border border-[var(--fg-20)] disabled:opacity-40"
+          >
+            {t("nextPage")}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+})
@@ -0,0 +1,60 @@
+import type { Metadata } from "next"
+import { Suspense } from "react"
+import { getModerationQueue } from "@/lib/dal"
+import { parseModerationFilters } from "@/lib/moderation-query"
+import { withNext } from "@/lib/auth-messages"
+import { PERMISSIONS, requirePermission } from "@/lib/security"
+import { getLanguage } from "@/lib/language.server"
+import { t } from "@/lib/translations"
+import { ModerationClient } from "./ModerationClient"
+
+interface Props {
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}
+
+export async function generateMetadata(): Promise<Metadata> {
+  return { title: t("navModeration", await getLanguage()) }
+}
+
+const PAGE_SIZE = 20
+
+// PPR-compatible: the queue is per-user, so it renders behind a Suspense boundary
+async function ModerationContent({ searchParams }: Props) {
+  const user = await requirePermission(
+    PERMISSIONS.MODERATION_MANAGE,
+    "/unauthorized",
+    withNext("/login", "/admin/moderation")
+  )
+  const filters = parseModerationFilters(await searchParams)
+  const { data: items, error, count } = await getModerationQueue({
+    status: filters.status,
+    assignee: filters.assignee === "all" ? undefined : filters.assignee,
+    page: filters.page,
+    limit: PAGE_SIZE,
+  })
+
+  return (
+    <ModerationClient
+      items={items ?? []}
+      total={count ?? 0}
+      pageSize={PAGE_SIZE}
+      filters={filters}
+      error={error}
+      currentUserId={user.id}
+    />
+  )
+}
+
+export default function ModerationPage({ searchParams }: Props) {
+  return (
+    <Suspense
+      fallback={
+        <div className="max-w-[var(--page-max-width)] mx-auto px-[var(--page-padding-x)] py-[var(--spacing-lg)]">
+          <div className="h-8 w-48 bg-[var(--fg-10)] rounded animate-pulse" />
+        </div>
+      }
+    >
+      <ModerationContent searchParams={searchParams} />
+    </Suspense>
+  )
+}
@@ -1,13 +1,13 @@
 import { AdminClient } from "./AdminClient";
-import { mockRestaurants } from "@/__mock__/restaurants";
-import type { ShadiRestaurant } from "@/types/restaurant";
-
-// Next.js 15+: Use fetch with revalidate for PPR caching
-export const revalidate = 600 // 10 minutes
+import { getRestaurants } from "@/lib/dal";
+import { withNext } from "@/lib/auth-messages";
+import { PERMISSIONS, requirePermission } from "@/lib/security";
 
+// Gated per request, so the page cannot be statically cached
 export default async function AdminPage() {
-  // Use mock data for now until Supabase is configured
-  const restaurants = [...mockRestaurants] as ShadiRestaurant[];
+  await requirePermission(PERMISSIONS.RESTAURANTS_MANAGE, "/unauthorized", withNext("/login", "/admin"));
+
+  const { data: restaurants } = await getRestaurants({ page: 1, limit: 100 });
 
-  return <AdminClient initialRestaurants={restaurants} />;
+  return <AdminClient initialRestaurants={restaurants ?? []} />;
 }
@@ -0,0 +1,274 @@
+"use client"
+
+import { Search, X } from "lucide-react"
+import { useRouter } from "next/navigation"
+import { memo, useCallback, useState, useTransition } from "react"
+import { setUserDisabledAction, updateUserRoleAction } from "@/actions/users"
+import { useFormatter, useLanguage } from "@/context/LanguageProvider"
+import { serializeUserFilters, type UserFilters } from "@/lib/admin-users-query"
+import type { UserProfile } from "@/lib/dal"
+import { ROLES, type Role } from "@/lib/security/permissions"
+import { useTranslations, type TranslationKey } from "@/lib/translations"
+
+/* =========================
+   Labels
+========================= */
+
+const ROLE_LABELS: Record<Role, TranslationKey> = {
+  user: "roleUser",
+  moderator: "roleModerator",
+  admin: "roleAdmin",
+}
+
+const STATUS_LABELS: Record<UserFilters["status"], TranslationKey> = {
+  all: "assigneeAll",
+  active: "accountActive",
+  disabled: "accountDisabled",
+}
+
+/** A change waiting for the admin to confirm it */
+type PendingChange =
+  | { kind: "role"; user: UserProfile; role: Role }
+  | { kind: "status"; user: UserProfile; disabled: boolean }
+
+/* =========================
+   Main Component
+========================= */
+
+interface UsersClientProps {
+  users: UserProfile[]
+  total: number
+  pageSize: number
+  filters: UserFilters
+  error: string | null
+  currentUserId: string
+}
+
+export const UsersClient = memo(function UsersClient({
+  users,
+  total,
+  pageSize,
+  filters,
+  error,
+  currentUserId,
+}: UsersClientProps) {
+  const { language } = useLanguage()
+  const { t } = useTranslations(language)
+  const format = useFormatter()
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+  const [search, setSearch] = useState(filters.q)
+  const [pending, setPending] = useState<PendingChange | null>(null)
+  const [actionError, setActionError] = useState<string | null>(null)
+
+  const pageCount = Math.max(1, Math.ceil(total / pageSize))
+
+  const navigate = useCallback(
+    (patch: Partial<UserFilters>) => {
+      const query = serializeUserFilters({ ...filters, page: 1, ...patch })
+      setPending(null)
+      router.push(query ? `/admin/users?${query}` : "/admin/users")
+    },
+    [filters, router]
+  )
+
+  const confirm = useCallback(() => {
+    if (!pending) return
+    const change = pending
+    setActionError(null)
+    startTransition(async () => {
+      const result =
+        change.kind === "role"
+          ? await updateUserRoleAction(change.user.id, change.role)
+          : await setUserDisabledAction(change.user.id, change.disabled)
+      if (result.error) {
+        setActionError(result.error)
+        return
+      }
+      setPending(null)
+      router.refresh()
+    })
+  }, [pending, router])
+
+  const describe = (change: PendingChange) => {
+    const who = change.user.display_name || change.user.email
+    if (change.kind === "role") {
+      return `${t("confirmRoleChange")} ${who}: ${t(ROLE_LABELS[change.user.role])} → ${t(ROLE_LABELS[change.role])}`
+    }
+    return `${t(change.disabled ? "confirmDisableUser" : "confirmEnableUser")} ${who}`
+  }
+
+  return (
+    <div className="max-w-[var(--page-max-width)] mx-auto px-[var(--page-padding-x)] py-[var(--spacing-lg)]">
+      <div className="flex items-center justify-between mb-[var(--spacing-lg)]">
+        <h1 className="text-[var(--font-size-2xl)] font-bold text-[var(--fg)]">{t("userManagement")}</h1>
+        <span className="text-sm text-[var(--fg-50)]">{total}</span>
+      </div>
+
+      {(error || actionError) && (
+        <div className="mb-[var(--spacing-md)] p-3 bg-red-50 border border-red-200 rounded-lg flex items-start justify-between gap-3">
+          <p className="text-sm text-red-800">{actionError ?? error}</p>
+          {actionError && (
+            <button
+              type="button"
+              onClick={() => setActionError(null)}
+              className="text-red-800 hover:text-red-900"
+              aria-label={t("dismiss")}
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-[var(--spacing-xs)] mb-[var(--spacing-md)]">
+        <form
+          onSubmit={(e) => {
+            e.preventDefault()
+            navigate({ q: search.trim() })
+          }}
+          className="relative flex-1 min-w-[12rem]"
+        >
+          <Search className="absolute start-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-[var(--fg-50)]" aria-hidden="true" />
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            maxLength={100}
+            placeholder={t("searchUsers")}
+            aria-label={t("searchUsers")}
+            className="w-full bg-white border border-[var(--fg-20)] rounded-[var(--radius-lg)] ps-8 pe-3 py-1.5 text-sm text-[var(--fg)] focus:outline-none focus:ring-2 focus:ring-[var(--color-primary)]"
+          />
+        </form>
+        <select
+          value={filters.role}
+          onChange={(e) => navigate({ role: e.target.value as UserFilters["role"] })}
+          aria-label={t("userRole")}
+          className="appearance-none bg-white border border-[var(--fg-20)] rounded-[var(--radius-lg)] px-3 py-1.5 text-xs font-medium text-[var(--fg)] focus:outline-none focus:ring-2 focus:ring-[var(--color-primary)]"
+        >
+          <option value="all">{t("assigneeAll")}</option>
+          {ROLES.map((role) => (
+            <option key={role} value={role}>
+              {t(ROLE_LABELS[role])}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filters.status}
+          onChange={(e) => navigate({ status: e.target.value as UserFilters["status"] })}
+          aria-label={t("accountStatus")}
+          className="appearance-none bg-white border border-[var(--fg-20)] rounded-[var(--radius-lg)] px-3 py-1.5 text-xs font-medium text-[var(--fg)] focus:outline-none focus:ring-2 focus:ring-[var(--color-primary)]"
+        >
+          {(Object.keys(STATUS_LABELS) as UserFilters["status"][]).map((status) => (
+            <option key={status} value={status}>
+              {t(STATUS_LABELS[status])}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Confirmation - nothing changes until the admin confirms */}
+      {pending && (
+        <div
+          role="alertdialog"
+          aria-label={t("confirmChange")}
+          className="sticky top-0 z-10 flex flex-wrap items-center gap-[var(--spacing-xs)] p-3 mb-[var(--spacing-md)] rounded-xl bg-[var(--color-warning)]/10 border border-[var(--color-warning)]/30"
+        >
+          <p className="flex-1 text-sm text-[var(--fg)]">{describe(pending)}</p>
+          <button
+            type="button"
+            disabled={isPending}
+            onClick={confirm}
+            className="px-3 py-1.5 rounded-lg bg-[var(--color-primary)] text-white text-xs font-medium disabled:opacity-40"
+          >
+            {t("confirmChange")}
+          </button>
+          <button
+            type="button"
+            disabled={isPending}
+            onClick={() => setPending(null)}
+            className="px-3 py-1.5 rounded-lg border border-[var(--fg-20)] bg-white text-xs font-medium text-[var(--fg)] disabled:opacity-40"
+          >
+            {t("cancel")}
+          </button>
+        </div>
+      )}
+
+      {/* Users */}
+      {users.length === 0 ? (
+        <p className="py-[var(--spacing-xl)] text-center text-sm text-[var(--fg-50)]">{t("noUsersFound")}</p>
+      ) : (
+        <ul className="flex flex-col divide-y divide-[var(--fg-10)] border border-[var(--fg-10)] rounded-xl bg-white">
+          {users.map((user) => {
+            const isSelf = user.id === currentUserId
+            const isDisabled = Boolean(user.disabled_at)
+            return (
+              <li key={user.id} className={`flex flex-wrap items-center gap-3 p-3 ${isDisabled ? "opacity-60" : ""}`}>
+                <div className="flex-1 min-w-[12rem]">
+                  <p className="text-sm font-semibold text-[var(--fg)]">
+                    {user.display_name || user.email}
+                    {isSelf && <span className="ms-2 text-xs font-normal text-[var(--fg-50)]">({t("you")})</span>}
+                  </p>
+                  {user.display_name && <p className="text-xs text-[var(--fg-50)]">{user.email}</p>}
+                  <p className="text-xs text-[var(--fg-50)]">
+                    {t("memberSince")} {format.date(user.created_at)}
+                    {isDisabled && ` · ${t("accountDisabled")}`}
+                  </p>
+                </div>
+                <select
+                  value={user.role}
+                  disabled={isSelf || isPending}
+                  onChange={(e) => setPending({ kind: "role", user, role: e.target.value as Role })}
+                  aria-label={t("userRole")}
+                  className="appearance-none bg-white border border-[var(--fg-20)] rounded-[var(--radius-lg)] px-3 py-1.5 text-xs font-medium text-[var(--fg)] disabled:opacity-40"
+                >
+                  {ROLES.map((role) => (
+                    <option key={role} value={role}>
+                      {t(ROLE_LABELS[role])}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  disabled={isSelf || isPending}
+                  onClick={() => setPending({ kind: "status", user, disabled: !isDisabled })}
+                  className={`px-3 py-1.5 rounded-lg text-xs font-medium disabled:opacity-40 ${
+                    isDisabled ? "bg-[var(--color-success)] text-white" : "bg-red-600 text-white"
+                  }`}
+                >
+                  {t(isDisabled ? "enableUser" : "disableUser")}
+                </button>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+
+      {/* Pagination */}
+      {pageCount > 1 && (
+        <div className="flex items-center justify-center gap-3 mt-[var(--spacing-lg)] text-sm">
+          <button
+            type="button"
+            disabled={filters.page <= 1}
+            onClick={() => navigate({ page: filters.page - 1 })}
+            className="px-3 py-1.5 rounded-lg border border-[var(--fg-20)] disabled:opacity-40"
+          >
+            {t("previousPage")}
+          </button>
+          <span className="text-[var(--fg-70)]">
+            {filters.page} / {pageCount}
+          </span>
+          <button
+            type="button"
+            disabled={filters.page >= pageCount}
+            onClick={() => navigate({ page: filters.page + 1 })}
+            className="px-3 py-1.5 rounded-lg border border-[var(--fg-20)] disabled:opacity-40"
+          >
+            {t("nextPage")}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+})
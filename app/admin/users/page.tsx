@@ -0,0 +1,56 @@
+import type { Metadata } from "next"
+import { Suspense } from "react"
+import { getAllUsers } from "@/lib/dal"
+import { parseUserFilters } from "@/lib/admin-users-query"
+import { withNext } from "@/lib/auth-messages"
+import { PERMISSIONS, requirePermission } from "@/lib/security"
+import { getLanguage } from "@/lib/language.server"
+import { t } from "@/lib/translations"
+import { UsersClient } from "./UsersClient"
+
+interface Props {
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}
+
+export async function generateMetadata(): Promise<Metadata> {
+  return { title: t("navUsers", await getLanguage()) }
+}
+
+const PAGE_SIZE = 25
+
+async function UsersContent({ searchParams }: Props) {
+  const admin = await requirePermission(PERMISSIONS.USERS_MANAGE, "/unauthorized", withNext("/login", "/admin/users"))
+  const filters = parseUserFilters(await searchParams)
+  const { data: users, error, count } = await getAllUsers({
+    search: filters.q || undefined,
+    role: filters.role === "all" ? undefined : filters.role,
+    status: filters.status === "all" ? undefined : filters.status,
+    page: filters.page,
+    limit: PAGE_SIZE,
+  })
+
+  return (
+    <UsersClient
+      users={users ?? []}
+      total={count ?? 0}
+      pageSize={PAGE_SIZE}
+      filters={filters}
+      error={error}
+      currentUserId={admin.id}
+    />
+  )
+}
+
+export default function UsersPage({ searchParams }: Props) {
+  return (
+    <Suspense
+      fallback={
+        <div className="max-w-[var(--page-max-width)] mx-auto px-[var(--page-padding-x)] py-[var(--spacing-lg)]">
+          <div className="h-8 w-48 bg-[var(--fg-10)] rounded animate-pulse" />
+        </div>
+      }
+    >
+      <UsersContent searchParams={searchParams} />
+    </Suspense>
+  )
+}
@@ -1,26 +1,33 @@
 /* ═══════════════════════════════════════════════════════════════════════════════
-   LANGUAGE API ROUTE - Handle language toggle requests
+   LANGUAGE API ROUTE - Persist the language and digit style chosen in the picker
    ═══════════════════════════════════════════════════════════════════════════════ */
 
 import { NextRequest, NextResponse } from "next/server"
-import { setLanguage } from "@/lib/language.server"
-import { getToggleLanguage, type Language } from "@/lib/language.types"
+import { isDigitStyle } from "@/lib/format"
+import { setDigitStyle, setLanguage } from "@/lib/language.server"
+import { isLanguage } from "@/lib/language.types"
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { currentLanguage } = body as { currentLanguage: Language }
+    const { language, digits } = body as { language?: unknown; digits?: unknown }
 
-    if (currentLanguage !== "ar" && currentLanguage !== "en") {
+    if (language === undefined && digits === undefined) {
+      return NextResponse.json({ error: "Nothing to update" }, { status: 400 })
+    }
+    if (language !== undefined && !isLanguage(language)) {
       return NextResponse.json({ error: "Invalid language" }, { status: 400 })
     }
+    if (digits !== undefined && !isDigitStyle(digits)) {
+      return NextResponse.json({ error: "Invalid digit style" }, { status: 400 })
+    }
 
-    const newLanguage = getToggleLanguage(currentLanguage)
-    await setLanguage(newLanguage)
+    if (language !== undefined) await setLanguage(language)
+    if (digits !== undefined) await setDigitStyle(digits)
 
-    return NextResponse.json({ language: newLanguage })
+    return NextResponse.json({ language, digits })
   } catch (error) {
-    console.error("Language toggle error:", error)
+    console.error("Language change error:", error)
     return NextResponse.json({ error: "Internal server error" }, { status: 500 })
   }
 }
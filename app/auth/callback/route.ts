@@ -0,0 +1,14 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   AUTH CALLBACK ROUTE - Finish Supabase sign-in and continue to `next`
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+import type { NextRequest } from "next/server"
+import { handleOAuthCallback } from "@/lib/supabase/auth"
+
+/**
+ * Landing point for OAuth sign-in, email confirmation and password recovery links
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl
+  await handleOAuthCallback(searchParams.get("code"), searchParams.get("next"))
+}
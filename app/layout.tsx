@@ -3,13 +3,18 @@ import { Inter } from "next/font/google"
 import "@/styles/globals.css"
 import { Providers } from "@/components/layout/Providers"
 import { AppHeader } from "@/components/layout/Header"
-import { getLanguage } from "@/lib/language.server"
+import { getDirection } from "@/lib/i18n"
+import { getDigitStyle, getLanguage } from "@/lib/language.server"
+import { verifySession } from "@/lib/security"
+import { t } from "@/lib/translations"
 
 const inter = Inter({ subsets: ["latin"] })
 
-export const metadata: Metadata = {
-  title: "Shadi Recommendations",
-  description: "Restaurant recommendations in UAE",
+export async function generateMetadata(): Promise<Metadata> {
+  return {
+    title: "Shadi Recommendations", // i18n-ignore: brand name
+    description: t("siteDescription", await getLanguage()),
+  }
 }
 
 export const viewport: Viewport = {
@@ -20,11 +25,14 @@ export const viewport: Viewport = {
 
 export default async function RootLayout({ children }: { children: React.ReactNode }) {
   const language = await getLanguage()
+  const digits = await getDigitStyle()
+  const user = await verifySession().catch(() => null)
+  const session = { userId: user?.id ?? null, permissions: user?.permissions ?? [] }
 
   return (
-    <html lang={language} dir="ltr" suppressHydrationWarning>
+    <html lang={language} dir={getDirection(language)} suppressHydrationWarning>
       <body className={inter.className}>
-        <Providers initialLanguage={language}>
+        <Providers initialLanguage={language} initialDigits={digits} session={session}>
           <AppHeader />
           <main className="min-h-[var(--layout-min-height)] pt-[var(--header-total-height)] px-[var(--spacing-xs)] sm:px-[var(--page-padding-x)]">
             {children}
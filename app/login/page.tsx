@@ -0,0 +1,27 @@
+import type { Metadata } from "next"
+import { redirect } from "next/navigation"
+import { LoginForm } from "@/components/auth"
+import { getSafeRedirect } from "@/lib/auth-messages"
+import { getCurrentUser } from "@/lib/dal"
+import { getLanguage } from "@/lib/language.server"
+import { t } from "@/lib/translations"
+
+interface Props {
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}
+
+export async function generateMetadata(): Promise<Metadata> {
+  return { title: t("signIn", await getLanguage()) }
+}
+
+export default async function LoginPage({ searchParams }: Props) {
+  const { next, error } = await searchParams
+  const target = getSafeRedirect(next)
+
+  // Already signed in: carry on to wherever the user was headed
+  if (await getCurrentUser().catch(() => null)) {
+    redirect(target)
+  }
+
+  return <LoginForm next={target} error={typeof error === "string" ? error : undefined} />
+}
@@ -0,0 +1,196 @@
+"use client"
+
+import { Pencil, Trash2 } from "lucide-react"
+import { memo, useCallback, useMemo, useState } from "react"
+import { RestaurantCard } from "@/components/card"
+import { CardGrid } from "@/components/cards"
+import { useLanguage } from "@/context/LanguageProvider"
+import { useSavedRestaurants } from "@/context/SavedRestaurantsProvider"
+import { withNext } from "@/lib/auth-messages"
+import type { Language } from "@/lib/language.types"
+import { useTranslations } from "@/lib/translations"
+import type { ShadiRestaurant } from "@/types/restaurant"
+import type { Shortlist } from "@/types/saved"
+
+interface MeListsClientProps {
+  restaurants: ShadiRestaurant[]
+}
+
+/* =========================
+   Restaurant Grid
+========================= */
+
+const SavedGrid = memo(function SavedGrid({
+  restaurants,
+  language,
+  emptyLabel,
+}: {
+  restaurants: ShadiRestaurant[]
+  language: Language
+  emptyLabel: string
+}) {
+  if (restaurants.length === 0) {
+    return <p className="text-sm text-[var(--fg-50)]">{emptyLabel}</p>
+  }
+
+  return (
+    <CardGrid viewMode="grid-3">
+      {restaurants.map((r) => (
+        <RestaurantCard key={r.id} {...r} variant="detailed" href={`/restaurants/${r.slug}`} locale={language} />
+      ))}
+    </CardGrid>
+  )
+})
+
+/* =========================
+   Shortlist Section
+========================= */
+
+const ShortlistSection = memo(function ShortlistSection({
+  shortlist,
+  restaurants,
+  language,
+}: {
+  shortlist: Shortlist
+  restaurants: ShadiRestaurant[]
+  language: Language
+}) {
+  const { t } = useTranslations(language)
+  const { renameShortlist, deleteShortlist } = useSavedRestaurants()
+  const [isEditing, setIsEditing] = useState(false)
+  const [name, setName] = useState(shortlist.name)
+
+  const handleRename = useCallback(
+    async (e: React.FormEvent) => {
+      e.preventDefault()
+      setIsEditing(false)
+      if (name.trim() && name.trim() !== shortlist.name) {
+        await renameShortlist(shortlist.id, name)
+      }
+    },
+    [name, shortlist.id, shortlist.name, renameShortlist]
+  )
+
+  const handleDelete = useCallback(() => {
+    if (confirm(t("confirmDeleteList"))) void deleteShortlist(shortlist.id)
+  }, [shortlist.id, deleteShortlist, t])
+
+  return (
+    <section className="flex flex-col gap-[var(--spacing-sm)]">
+      <div className="flex items-center gap-2">
+        {isEditing ? (
+          <form onSubmit={handleRename} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={60}
+              aria-label={t("renameList")}
+              className="px-2 py-1 rounded-md border border-[var(--fg-10)] bg-transparent text-[var(--fg)]"
+            />
+            <button type="submit" className="px-2 py-1 rounded-md bg-[var(--color-primary)] text-white text-sm">
+              {t("saveReview")}
+            </button>
+          </form>
+        ) : (
+          <h2 className="text-lg font-semibold text-[var(--fg)]">{shortlist.name}</h2>
+        )}
+        <span className="text-xs text-[var(--fg-50)]">({restaurants.length})</span>
+        <button
+          type="button"
+          onClick={() => {
+            setName(shortlist.name)
+            setIsEditing((editing) => !editing)
+          }}
+          aria-label={t("renameList")}
+          className="p-1.5 rounded-md text-[var(--fg-50)] hover:bg-[var(--fg-5)]"
+        >
+          <Pencil className="w-4 h-4" strokeWidth={1.5} />
+        </button>
+        <button
+          type="button"
+          onClick={handleDelete}
+          aria-label={t("deleteList")}
+          className="p-1.5 rounded-md text-[var(--fg-50)] hover:bg-[var(--fg-5)]"
+        >
+          <Trash2 className="w-4 h-4" strokeWidth={1.5} />
+        </button>
+      </div>
+      <SavedGrid restaurants={restaurants} language={language} emptyLabel={t("emptyList")} />
+    </section>
+  )
+})
+
+/* =========================
+   Page
+========================= */
+
+export function MeListsClient({ restaurants }: MeListsClientProps) {
+  const { language } = useLanguage()
+  const { t } = useTranslations(language)
+  const { favorites, shortlists, isSignedIn, error, createShortlist } = useSavedRestaurants()
+  const [newName, setNewName] = useState("")
+
+  const byId = useMemo(() => new Map(restaurants.map((r) => [r.id, r])), [restaurants])
+  const resolve = useCallback(
+    (ids: readonly string[]) => ids.flatMap((id) => byId.get(id) ?? []),
+    [byId]
+  )
+
+  const handleCreate = useCallback(
+    async (e: React.FormEvent) => {
+      e.preventDefault()
+      if (await createShortlist(newName)) setNewName("")
+    },
+    [newName, createShortlist]
+  )
+
+  return (
+    <div className="max-w-[var(--page-max-width)] mx-auto px-[var(--page-padding-x)] py-[var(--spacing-lg)] flex flex-col gap-[var(--spacing-xl)]">
+      <h1 className="text-2xl font-bold text-[var(--fg)]">{t("myLists")}</h1>
+
+      {!isSignedIn && (
+        <div className="flex flex-wrap items-center justify-between gap-2 p-3 rounded-[var(--radius-lg)] bg-[var(--fg-5)] text-sm text-[var(--fg-70)]">
+          <span>{t("savedOnDevice")}</span>
+          <a href={withNext("/login", "/me/lists")} className="font-medium text-[var(--color-primary)]">
+            {t("signIn")}
+          </a>
+        </div>
+      )}
+
+      {error && (
+        <p role="alert" className="text-sm text-[var(--color-error)]">
+          {error}
+        </p>
+      )}
+
+      <section className="flex flex-col gap-[var(--spacing-sm)]">
+        <h2 className="text-lg font-semibold text-[var(--fg)]">{t("favorites")}</h2>
+        <SavedGrid restaurants={resolve(favorites)} language={language} emptyLabel={t("noFavoritesYet")} />
+      </section>
+
+      <form onSubmit={handleCreate} className="flex gap-2 max-w-md">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          maxLength={60}
+          placeholder={t("newListPlaceholder")}
+          aria-label={t("newList")}
+          className="flex-1 min-w-0 px-3 py-2 rounded-md border border-[var(--fg-10)] bg-transparent text-[var(--fg)]"
+        />
+        <button type="submit" disabled={!newName.trim()} className="px-3 py-2 rounded-md bg-[var(--color-primary)] text-white disabled:opacity-50">
+          {t("createList")}
+        </button>
+      </form>
+
+      {shortlists.length === 0 ? (
+        <p className="text-sm text-[var(--fg-50)]">{t("noListsYet")}</p>
+      ) : (
+        shortlists.map((list) => (
+          <ShortlistSection key={list.id} shortlist={list} restaurants={resolve(list.restaurantIds)} language={language} />
+        ))
+      )}
+    </div>
+  )
+}
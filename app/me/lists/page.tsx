@@ -0,0 +1,17 @@
+import type { Metadata } from "next"
+import { getRestaurants } from "@/lib/dal"
+import { getLanguage } from "@/lib/language.server"
+import { t } from "@/lib/translations"
+import { MeListsClient } from "./MeListsClient"
+
+export async function generateMetadata(): Promise<Metadata> {
+  return { title: t("myLists", await getLanguage()) }
+}
+
+export default async function MeListsPage() {
+  // Saved ids live in the client provider (account or device), so the page
+  // only supplies the catalogue they are resolved against
+  const { data } = await getRestaurants({ page: 1, limit: 100 })
+
+  return <MeListsClient restaurants={data ?? []} />
+}
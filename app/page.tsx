@@ -4,10 +4,14 @@ import { Results, RestaurantsPageSkeleton } from "./restaurants/Results"
 // PPR: Prerender static shell, stream dynamic content
 export const experimental_ppr = true
 
-export default function HomePage() {
+interface Props {
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}
+
+export default function HomePage({ searchParams }: Props) {
   return (
     <Suspense fallback={<RestaurantsPageSkeleton />}>
-      <Results />
+      <Results searchParams={searchParams} />
     </Suspense>
   )
 }
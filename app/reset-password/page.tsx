@@ -0,0 +1,23 @@
+import type { Metadata } from "next"
+import { NewPasswordForm, RequestResetForm } from "@/components/auth"
+import { getSafeRedirect } from "@/lib/auth-messages"
+import { getCurrentUser } from "@/lib/dal"
+import { getLanguage } from "@/lib/language.server"
+import { t } from "@/lib/translations"
+
+interface Props {
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}
+
+export async function generateMetadata(): Promise<Metadata> {
+  return { title: t("resetPasswordTitle", await getLanguage()) }
+}
+
+export default async function ResetPasswordPage({ searchParams }: Props) {
+  const target = getSafeRedirect((await searchParams).next)
+
+  // The emailed recovery link signs the user in via /auth/callback before landing here
+  const user = await getCurrentUser().catch(() => null)
+
+  return user ? <NewPasswordForm next={target} /> : <RequestResetForm next={target} />
+}
@@ -1,14 +1,23 @@
-import { mockRestaurants } from "@/__mock__/restaurants"
+import { getRestaurants } from "@/lib/dal"
+import { getLocationOptions, parseResultsQuery, withKnownDistricts } from "@/lib/results-query"
 import { ResultsClient } from "./ResultsClient"
 
 // Next.js 15+: Use fetch with revalidate for PPR caching
 export const revalidate = 600 // 10 minutes
 
-export async function Results() {
-  // Simulate data fetching with cache - don't use Object.freeze
-  const initialData = [...mockRestaurants]
+interface ResultsProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}
+
+export async function Results({ searchParams }: ResultsProps) {
+  const [{ data }, params] = await Promise.all([
+    getRestaurants({ page: 1, limit: 100 }),
+    searchParams,
+  ])
+  const initialData = data ?? []
+  const initialQuery = withKnownDistricts(parseResultsQuery(params), getLocationOptions(initialData))
 
-  return <ResultsClient initialData={initialData} />
+  return <ResultsClient initialData={initialData} initialQuery={initialQuery} />
 }
 
 export { RestaurantsPageSkeleton } from "./ResultsClient"
@@ -1,43 +1,73 @@
 "use client"
 
 import { memo, useCallback, useEffect, useMemo, useState, useRef } from "react"
-import { List, Square, Columns2, Columns3, Columns4, ArrowUpDown, ArrowDownUp, ArrowUp, ArrowDown } from "lucide-react"
+import { List, Square, Columns2, Columns3, Columns4, ArrowUpDown, ArrowDownUp, ArrowUp, ArrowDown, LocateFixed, Map as MapIcon, Star } from "lucide-react"
 import { RestaurantCard } from "@/components/card"
 import { CardGrid, type ViewMode } from "@/components/cards"
-import { FilterSystem, type CuisineOption, type MealOption, type AtmosphereOption } from "@/components/search/FilterSystem"
-import { priceBucketValue, type ShadiRestaurant } from "@/types/restaurant"
+import { RestaurantMap } from "@/components/map"
+import { isWithinBounds, type MapBounds } from "@/lib/map"
+import {
+  FilterSystem,
+  type CuisineOption,
+  type MealOption,
+  type AtmosphereOption,
+  type EmirateOption,
+} from "@/components/search/FilterSystem"
+import { SearchBox } from "@/components/search/SearchBox"
+import { NearbyFilter, type LocationStatus } from "@/components/search/NearbyFilter"
+import { getCurrentLocation, type Coordinates } from "@/lib/distance"
+import { useTranslations, type TranslationKey } from "@/lib/translations"
+import type { Language } from "@/lib/language.types"
+import type { PriceBucketId, ShadiRestaurant, UAEEmirate } from "@/types/restaurant"
 import { useLanguage } from "@/context/LanguageProvider"
-
-export type SortOptionId =
-  | "newest"
-  | "oldest"
-  | "price-asc"
-  | "price-desc"
-  | "name-asc"
-  | "name-desc"
+import {
+  applyResultsQuery,
+  countPriceBuckets,
+  distanceFrom,
+  getLocationOptions,
+  parseResultsQuery,
+  resolveOrigin,
+  serializeResultsQuery,
+  withKnownDistricts,
+  type RadiusKm,
+  type ResultsQuery,
+  type SortOptionId,
+} from "@/lib/results-query"
+
+export type { SortOptionId }
 
 interface ResultsClientProps {
   initialData: ShadiRestaurant[]
+  /** Query decoded from the request URL, so the server renders the filtered list */
+  initialQuery: ResultsQuery
 }
 
+// View changes replace the current history entry; filter and sort changes push one
+type HistoryMode = "push" | "replace"
+
 // Sort options configuration
 const SORT_OPTIONS = [
-  { id: "newest" as const, icon: ArrowUpDown, label: "Newest First" },
-  { id: "oldest" as const, icon: ArrowDownUp, label: "Oldest First" },
-  { id: "price-asc" as const, icon: ArrowUp, label: "Price: Low to High" },
-  { id: "price-desc" as const, icon: ArrowDown, label: "Price: High to Low" },
+  { id: "newest" as const, icon: ArrowUpDown, labelKey: "sortNewestFirst" as TranslationKey },
+  { id: "oldest" as const, icon: ArrowDownUp, labelKey: "sortOldestFirst" as TranslationKey },
+  { id: "price-asc" as const, icon: ArrowUp, labelKey: "sortPriceLowToHigh" as TranslationKey },
+  { id: "price-desc" as const, icon: ArrowDown, labelKey: "sortPriceHighToLow" as TranslationKey },
+  { id: "nearest" as const, icon: LocateFixed, labelKey: "sortNearestFirst" as TranslationKey },
+  { id: "top-rated" as const, icon: Star, labelKey: "sortTopRated" as TranslationKey },
 ] as const
 
+type SortOption = (typeof SORT_OPTIONS)[number]
+
 // View options configuration
 // Mobile: list, grid-1, grid-2
 // Tablet: list, grid-2, grid-3
 // Desktop: list, grid-2, grid-3, grid-4
 const ALL_VIEW_OPTIONS = [
-  { id: "list" as const, icon: List, label: "List View", minBreakpoint: "mobile" as const, maxBreakpoint: undefined as Breakpoint | undefined },
-  { id: "grid-1" as const, icon: Square, label: "1 Column", minBreakpoint: "mobile" as const, maxBreakpoint: "mobile" as Breakpoint | undefined },
-  { id: "grid-2" as const, icon: Columns2, label: "2 Columns", minBreakpoint: "mobile" as const, maxBreakpoint: undefined as Breakpoint | undefined },
-  { id: "grid-3" as const, icon: Columns3, label: "3 Columns", minBreakpoint: "tablet" as const, maxBreakpoint: undefined as Breakpoint | undefined },
-  { id: "grid-4" as const, icon: Columns4, label: "4 Columns", minBreakpoint: "desktop" as const, maxBreakpoint: undefined as Breakpoint | undefined },
+  { id: "list" as const, icon: List, labelKey: "viewListView" as TranslationKey, minBreakpoint: "mobile" as const, maxBreakpoint: undefined as Breakpoint | undefined },
+  { id: "grid-1" as const, icon: Square, labelKey: "view1Column" as TranslationKey, minBreakpoint: "mobile" as const, maxBreakpoint: "mobile" as Breakpoint | undefined },
+  { id: "grid-2" as const, icon: Columns2, labelKey: "view2Columns" as TranslationKey, minBreakpoint: "mobile" as const, maxBreakpoint: undefined as Breakpoint | undefined },
+  { id: "grid-3" as const, icon: Columns3, labelKey: "view3Columns" as TranslationKey, minBreakpoint: "tablet" as const, maxBreakpoint: undefined as Breakpoint | undefined },
+  { id: "grid-4" as const, icon: Columns4, labelKey: "view4Columns" as TranslationKey, minBreakpoint: "desktop" as const, maxBreakpoint: undefined as Breakpoint | undefined },
+  { id: "map" as const, icon: MapIcon, labelKey: "viewMap" as TranslationKey, minBreakpoint: "mobile" as const, maxBreakpoint: undefined as Breakpoint | undefined },
 ] as const
 
 // Breakpoint definitions matching Tailwind's default breakpoints
@@ -73,23 +103,35 @@ function getVisibleOptions(breakpoint: Breakpoint) {
 }
 
 // Inline Sort Button Component
-function SortButton({ currentSort, onSortChange }: { currentSort: SortOptionId; onSortChange: (id: SortOptionId) => void }) {
-  const currentIndex = SORT_OPTIONS.findIndex(opt => opt.id === currentSort)
-  const currentOption = SORT_OPTIONS[currentIndex >= 0 ? currentIndex : 0]
+function SortButton({
+  currentSort,
+  onSortChange,
+  options,
+  locale,
+}: {
+  currentSort: SortOptionId
+  onSortChange: (id: SortOptionId) => void
+  options: readonly SortOption[]
+  locale: Language
+}) {
+  const currentIndex = options.findIndex(opt => opt.id === currentSort)
+  const currentOption = options[currentIndex >= 0 ? currentIndex : 0]
   const CurrentIcon = currentOption.icon
+  const { t } = useTranslations(locale)
+  const label = t(currentOption.labelKey)
 
   const handleClick = useCallback(() => {
-    const nextIndex = (currentIndex + 1) % SORT_OPTIONS.length
-    onSortChange(SORT_OPTIONS[nextIndex].id)
-  }, [currentIndex, onSortChange])
+    const nextIndex = (currentIndex + 1) % options.length
+    onSortChange(options[nextIndex].id)
+  }, [currentIndex, options, onSortChange])
 
   return (
     <button
       type="button"
       onClick={handleClick}
       className="p-[var(--spacing-xs)] rounded-[var(--radius-lg)] bg-[var(--color-white)] border border-[var(--fg-20)] text-[var(--fg)] hover:border-[var(--fg-30)] hover:bg-[var(--fg-5)] transition-all focus:outline-none focus:ring-2 focus:ring-[var(--color-primary)] focus:border-transparent"
-      aria-label={`Sort: ${currentOption.label}. Click to cycle through sort options.`}
-      title={currentOption.label}
+      aria-label={t("sortButtonLabel", { option: label })}
+      title={label}
     >
       <CurrentIcon className="w-[var(--icon-size-md)] h-[var(--icon-size-md)]" strokeWidth={2} />
     </button>
@@ -97,7 +139,15 @@ function SortButton({ currentSort, onSortChange }: { currentSort: SortOptionId;
 }
 
 // Inline View Mode Button Component - Fixed to prevent infinite loops
-function ViewModeButton({ currentView, onViewChange }: { currentView: ViewMode; onViewChange: (view: ViewMode) => void }) {
+function ViewModeButton({
+  currentView,
+  onViewChange,
+  locale,
+}: {
+  currentView: ViewMode
+  onViewChange: (view: ViewMode) => void
+  locale: Language
+}) {
   const [breakpoint, setBreakpoint] = useState<Breakpoint>(() => getBreakpoint())
   const [visibleOptions, setVisibleOptions] = useState(() => getVisibleOptions(getBreakpoint()))
 
@@ -139,6 +189,8 @@ function ViewModeButton({ currentView, onViewChange }: { currentView: ViewMode;
   const currentIndex = visibleOptions.findIndex(opt => opt.id === currentView)
   const currentOption = visibleOptions[currentIndex >= 0 ? currentIndex : 0]
   const CurrentIcon = currentOption.icon
+  const { t } = useTranslations(locale)
+  const label = t(currentOption.labelKey)
 
   const handleClick = useCallback(() => {
     const nextIndex = (currentIndex + 1) % visibleOptions.length
@@ -153,83 +205,169 @@ function ViewModeButton({ currentView, onViewChange }: { currentView: ViewMode;
       type="button"
       onClick={handleClick}
       className="p-[var(--spacing-xs)] rounded-[var(--radius-lg)] bg-[var(--color-white)] border border-[var(--fg-20)] text-[var(--fg)] hover:border-[var(--fg-30)] hover:bg-[var(--fg-5)] transition-all focus:outline-none focus:ring-2 focus:ring-[var(--color-primary)] focus:border-transparent"
-      aria-label={`View: ${currentOption.label}. Click to cycle through view options.`}
-      title={currentOption.label}
+      aria-label={t("viewButtonLabel", { option: label })}
+      title={label}
     >
       <CurrentIcon className="w-[var(--icon-size-md)] h-[var(--icon-size-md)]" strokeWidth={2} />
     </button>
   )
 }
 
-export const ResultsClient = memo(function ResultsClient({ initialData }: ResultsClientProps) {
+export const ResultsClient = memo(function ResultsClient({ initialData, initialQuery }: ResultsClientProps) {
   const { language } = useLanguage()
-  // Local state only - no URL sync to prevent navigation issues
-  const [cuisine, setCuisine] = useState<CuisineOption>("all")
-  const [meal, setMeal] = useState<MealOption>("all")
-  const [atmosphere, setAtmosphere] = useState<AtmosphereOption>("all")
-  const [sort, setSort] = useState<SortOptionId>("newest")
-  const [viewMode, setViewMode] = useState<ViewMode>("grid-2")
+  const { t, tPlural } = useTranslations(language)
+  // URL is written with the History API so filter changes never trigger a server round trip
+  const [query, setQuery] = useState<ResultsQuery>(initialQuery)
+  const historyModeRef = useRef<HistoryMode>("push")
+  const { q, cuisine, meal, atmosphere, price, emirate, district, sort, view: viewMode } = query
+  const locationOptions = useMemo(() => getLocationOptions(initialData ?? []), [initialData])
+  const { near } = query
+
+  /* ===== Geolocation ===== */
+  const [userLocation, setUserLocation] = useState<Coordinates | null>(null)
+  const [locationStatus, setLocationStatus] = useState<LocationStatus>("idle")
+  const origin = useMemo(() => resolveOrigin(query, userLocation), [query, userLocation])
+
+  // Resolve the device location whenever the URL asks for it (toggle, initial load, back/forward)
+  useEffect(() => {
+    if (near !== "me" || userLocation || locationStatus !== "idle") return
+
+    setLocationStatus("locating")
+    getCurrentLocation()
+      .then((location) => {
+        setUserLocation(location)
+        setLocationStatus("idle")
+      })
+      .catch(() => setLocationStatus("denied"))
+  }, [near, userLocation, locationStatus])
+
+  // "Nearest first" is only offered once there is something to measure from
+  const sortOptions = useMemo(() => SORT_OPTIONS.filter((opt) => opt.id !== "nearest" || origin), [origin])
+
+  const updateQuery = useCallback((patch: Partial<ResultsQuery>, mode: HistoryMode = "push") => {
+    historyModeRef.current = mode
+    setQuery((prev) => ({ ...prev, ...patch }))
+  }, [])
+
+  /* ===== URL Sync ===== */
+  useEffect(() => {
+    const search = serializeResultsQuery(query).toString()
+    if (search === window.location.search.replace(/^\?/, "")) return
+
+    const url = search ? `${window.location.pathname}?${search}` : window.location.pathname
+    if (historyModeRef.current === "replace") {
+      window.history.replaceState(window.history.state, "", url)
+    } else {
+      window.history.pushState(window.history.state, "", url)
+    }
+  }, [query])
+
+  // Restore state when navigating back/forward between filtered views
+  useEffect(() => {
+    const handlePopState = () => {
+      setQuery(withKnownDistricts(parseResultsQuery(new URLSearchParams(window.location.search)), locationOptions))
+    }
+
+    window.addEventListener("popstate", handlePopState)
+    return () => window.removeEventListener("popstate", handlePopState)
+  }, [locationOptions])
 
   const filteredRestaurants = useMemo(() => {
     // Handle undefined or null initialData
     if (!initialData || !Array.isArray(initialData)) return []
 
-    let results = [...initialData]
-
-    // Filter by meal
-    if (meal !== "all") {
-      results = results.filter((r) => r.meals?.includes(meal))
-    }
+    return applyResultsQuery(initialData, query, userLocation)
+  }, [query, initialData, userLocation])
 
-    // Filter by cuisine
-    if (cuisine !== "all") {
-      results = results.filter((r) => r.cuisine?.toLowerCase() === cuisine.toLowerCase())
-    }
+  const priceCounts = useMemo(
+    () => countPriceBuckets(initialData ?? [], query, userLocation),
+    [query, initialData, userLocation]
+  )
 
-    // Filter by atmosphere
-    if (atmosphere !== "all") {
-      results = results.filter((r) => r.atmosphere?.includes(atmosphere))
+  // Typing refines the current view rather than creating a history entry per keystroke
+  const handleSearchChange = useCallback((v: string) => updateQuery({ q: v || undefined }, "replace"), [updateQuery])
+  const handleCuisineChange = useCallback((v: CuisineOption) => updateQuery({ cuisine: v }), [updateQuery])
+  const handleMealChange = useCallback((v: MealOption) => updateQuery({ meal: v }), [updateQuery])
+  const handleAtmosphereChange = useCallback((v: AtmosphereOption) => updateQuery({ atmosphere: v }), [updateQuery])
+  const handlePriceChange = useCallback((v: PriceBucketId[]) => updateQuery({ price: v }), [updateQuery])
+  const handleEmirateChange = useCallback((v: EmirateOption) => updateQuery({ emirate: v, district: [] }), [updateQuery])
+  const handleDistrictChange = useCallback((v: string[]) => updateQuery({ district: v }), [updateQuery])
+  const handleNearMe = useCallback(() => {
+    if (near === "me") {
+      updateQuery({ near: undefined, radius: undefined, sort: sort === "nearest" ? "newest" : sort })
+      return
     }
+    // Retry after an earlier denial - the user may have changed the permission
+    setLocationStatus((status) => (status === "denied" ? "idle" : status))
+    updateQuery({ near: "me", sort: "nearest" })
+  }, [near, sort, updateQuery])
+  const handleNearEmirate = useCallback((v: UAEEmirate | undefined) => {
+    updateQuery(v ? { near: v, sort: "nearest" } : { near: undefined, radius: undefined, sort: sort === "nearest" ? "newest" : sort })
+  }, [sort, updateQuery])
+  const handleRadiusChange = useCallback((v: RadiusKm | undefined) => updateQuery({ radius: v }), [updateQuery])
+  const handleSortChange = useCallback((v: SortOptionId) => updateQuery({ sort: v }), [updateQuery])
+  const handleViewChange = useCallback((v: ViewMode) => updateQuery({ view: v }, "replace"), [updateQuery])
+
+  const cardVariant = viewMode === "list" || viewMode === "map" ? "list" : "detailed"
+
+  /* ===== Map ===== */
+  const [mapBounds, setMapBounds] = useState<MapBounds | null>(null)
+
+  // In map view the list follows the visible area
+  const listedRestaurants = useMemo(() => {
+    if (viewMode !== "map" || !mapBounds) return filteredRestaurants
+    return filteredRestaurants.filter((r) => r.mapCoordinates && isWithinBounds(r.mapCoordinates, mapBounds))
+  }, [viewMode, mapBounds, filteredRestaurants])
+
+  const renderCard = useCallback(
+    (r: ShadiRestaurant, variant: "list" | "detailed") => (
+      <RestaurantCard
+        key={r.id}
+        id={r.id}
+        name={r.name}
+        image={r.image}
+        images={r.images}
+        priceBucketId={r.priceBucketId}
+        cuisine={r.cuisine}
+        description={r.description}
+        emirate={r.emirate}
+        district={r.district}
+        address={r.address}
+        mapCoordinates={r.mapCoordinates}
+        features={r.features}
+        meals={r.meals}
+        atmosphere={r.atmosphere}
+        minPrice={r.minPrice}
+        maxPrice={r.maxPrice}
+        hasDelivery={r.hasDelivery}
+        isHotelRestaurant={r.isHotelRestaurant}
+        phone={r.phone}
+        website={r.website}
+        addedDate={r.addedDate}
+        slug={r.slug}
+        variant={variant}
+        href={`/restaurants/${r.slug}`}
+        locale={language}
+        highlight={q}
+        distanceKm={origin ? (distanceFrom(r, origin) ?? undefined) : undefined}
+      />
+    ),
+    [language, q, origin]
+  )
 
-    // Sort (create new array to avoid mutation)
-    const sorted = [...results].sort((a, b) => {
-      switch (sort) {
-        case "price-desc":
-          return priceBucketValue(b.priceBucketId) - priceBucketValue(a.priceBucketId)
-        case "price-asc":
-          return priceBucketValue(a.priceBucketId) - priceBucketValue(b.priceBucketId)
-        case "newest":
-          const dateA = a.addedDate ? new Date(a.addedDate).getTime() : 0
-          const dateB = b.addedDate ? new Date(b.addedDate).getTime() : 0
-          return dateB - dateA
-        case "oldest":
-          const dateC = a.addedDate ? new Date(a.addedDate).getTime() : 0
-          const dateD = b.addedDate ? new Date(b.addedDate).getTime() : 0
-          return dateC - dateD
-        case "name-asc":
-          return a.name.localeCompare(b.name)
-        case "name-desc":
-          return b.name.localeCompare(a.name)
-        default:
-          return 0
-      }
-    })
-
-    return sorted
-  }, [cuisine, meal, atmosphere, sort, initialData])
-
-  const handleCuisineChange = useCallback((v: CuisineOption) => setCuisine(v), [])
-  const handleMealChange = useCallback((v: MealOption) => setMeal(v), [])
-  const handleAtmosphereChange = useCallback((v: AtmosphereOption) => setAtmosphere(v), [])
-  const handleSortChange = useCallback((v: SortOptionId) => setSort(v), [])
-  const handleViewChange = useCallback((v: ViewMode) => setViewMode(v), [])
-
-  const cardVariant = viewMode === "list" ? "list" : "detailed"
+  const renderPreview = useCallback((r: ShadiRestaurant) => renderCard(r, "list"), [renderCard])
 
   return (
     <>
       <div className="w-full sm:max-w-[var(--page-max-width)] mx-auto px-[var(--space-1)] sm:px-[var(--page-padding-x)] mt-[var(--spacing-md)]">
         <div className="space-y-[var(--spacing-lg)]">
+          <SearchBox
+            value={q}
+            onSearch={handleSearchChange}
+            placeholder={t("searchPlaceholder")}
+            clearLabel={t("clearSearch")}
+          />
+
           <FilterSystem
             cuisine={cuisine}
             onCuisineChange={handleCuisineChange}
@@ -237,21 +375,44 @@ export const ResultsClient = memo(function ResultsClient({ initialData }: Result
             onMealChange={handleMealChange}
             atmosphere={atmosphere}
             onAtmosphereChange={handleAtmosphereChange}
+            price={price}
+            onPriceChange={handlePriceChange}
+            priceCounts={priceCounts}
+            emirate={emirate}
+            onEmirateChange={handleEmirateChange}
+            district={district}
+            onDistrictChange={handleDistrictChange}
+            locationOptions={locationOptions}
+            locale={language}
+          />
+
+          <NearbyFilter
+            near={near}
+            radius={query.radius}
+            hasOrigin={origin !== null}
+            locationStatus={locationStatus}
+            onNearMe={handleNearMe}
+            onNearEmirate={handleNearEmirate}
+            onRadiusChange={handleRadiusChange}
+            locale={language}
           />
 
           <div className="flex flex-wrap items-center justify-between gap-[var(--spacing-xs)]">
             <span className="text-[var(--font-size-xs)] text-[var(--fg)]/60">
-              <strong>{filteredRestaurants.length}</strong> restaurants
+              {tPlural("restaurantCount", filteredRestaurants.length)}
             </span>
 
             <div className="flex items-center gap-[var(--spacing-sm)] flex-wrap">
               <ViewModeButton
                 currentView={viewMode}
                 onViewChange={handleViewChange}
+                locale={language}
               />
               <SortButton
                 currentSort={sort}
                 onSortChange={handleSortChange}
+                options={sortOptions}
+                locale={language}
               />
             </div>
           </div>
@@ -259,37 +420,17 @@ export const ResultsClient = memo(function ResultsClient({ initialData }: Result
       </div>
 
       <div className="w-full sm:max-w-[var(--page-max-width)] mx-auto px-[var(--space-1)] sm:px-[var(--page-padding-x)] mt-[var(--spacing-lg)]">
+        {viewMode === "map" && (
+          <RestaurantMap
+            restaurants={filteredRestaurants}
+            renderPreview={renderPreview}
+            onBoundsChange={setMapBounds}
+            locale={language}
+            className="mb-[var(--spacing-lg)]"
+          />
+        )}
         <CardGrid viewMode={viewMode}>
-          {filteredRestaurants.map((r) => (
-            <RestaurantCard
-              key={r.id}
-              id={r.id}
-              name={r.name}
-              image={r.image}
-              images={r.images}
-              priceBucketId={r.priceBucketId}
-              cuisine={r.cuisine}
-              description={r.description}
-              emirate={r.emirate}
-              district={r.district}
-              address={r.address}
-              mapCoordinates={r.mapCoordinates}
-              features={r.features}
-              meals={r.meals}
-              atmosphere={r.atmosphere}
-              minPrice={r.minPrice}
-              maxPrice={r.maxPrice}
-              hasDelivery={r.hasDelivery}
-              isHotelRestaurant={r.isHotelRestaurant}
-              phone={r.phone}
-              website={r.website}
-              addedDate={r.addedDate}
-              slug={r.slug}
-              variant={cardVariant}
-              href={`/restaurants/${r.slug}`}
-              locale={language}
-            />
-          ))}
+          {listedRestaurants.map((r) => renderCard(r, cardVariant))}
         </CardGrid>
       </div>
     </>
@@ -1,5 +1,9 @@
-import { mockRestaurants } from "@/__mock__/restaurants"
+import type { Metadata } from "next"
+import { getCurrentUser, getMyReview, getRestaurantBySlug, getReviews } from "@/lib/dal"
 import RestaurantDetailClient from "@/features/restaurant/RestaurantDetailClient"
+import { getLanguage } from "@/lib/language.server"
+import { t } from "@/lib/translations"
+import { getLocalizedText } from "@/types/restaurant"
 import { notFound } from "next/navigation"
 import { Suspense } from "react"
 
@@ -7,26 +11,43 @@ type Props = {
   params: Promise<{ slug: string }>
 }
 
-async function getRestaurantBySlug(slug: string) {
-  // In production, this would fetch from the database
-  // For now, we'll search the mock data
-  return mockRestaurants.find((r) => r.slug === slug)
-}
-
-export async function generateMetadata({ params }: Props) {
+// Name and description in the visitor's language, with the same fallback as the page
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
   const { slug } = await params
-  const restaurant = await getRestaurantBySlug(slug)
-  if (!restaurant) return { title: "Restaurant Not Found" }
-  return { title: restaurant.name }
+  const [{ data: restaurant }, language] = await Promise.all([getRestaurantBySlug(slug), getLanguage()])
+  if (!restaurant) return { title: t("restaurantNotFound", language) }
+
+  const title = getLocalizedText(restaurant.name, language)
+  const description = getLocalizedText(restaurant.description, language) || undefined
+  return {
+    title,
+    description,
+    openGraph: { title, description, locale: `${language}_AE` },
+  }
 }
 
 // PPR-compatible: Server component that accesses params
 async function RestaurantPageContent({ params }: Props) {
   const { slug } = await params
-  const restaurant = await getRestaurantBySlug(slug)
+  const { data: restaurant } = await getRestaurantBySlug(slug)
   if (!restaurant) notFound()
 
-  return <RestaurantDetailClient restaurant={restaurant} />
+  const [{ data: reviews }, user] = await Promise.all([
+    getReviews(restaurant.id),
+    // Anonymous visitors (or no auth backend) can still read reviews
+    getCurrentUser().catch(() => null),
+  ])
+  // Shown to its author while it waits for moderation
+  const { data: ownReview } = user ? await getMyReview(restaurant.id) : { data: null }
+
+  return (
+    <RestaurantDetailClient
+      restaurant={restaurant}
+      reviews={reviews ?? []}
+      ownReview={ownReview}
+      viewer={user ? { id: user.id, role: user.role } : null}
+    />
+  )
 }
 
 // PPR-compatible: Wrapper with Suspense boundary
@@ -59,11 +80,7 @@ function RestaurantDetailSkeleton() {
         {/* Info cards skeleton */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-[var(--spacing-md)]" aria-hidden="true">
           {Array.from({ length: 6 }, (_, i) => `skeleton-info-${i}`).map((key) => (
-            <div
-              key={key}
-              className="h-24 bg-[var(--fg-10)] rounded-[var(--radius-lg)] animate-pulse"
-              aria-label={`Loading info card ${key.split("-")[2]}`}
-            />
+            <div key={key} className="h-24 bg-[var(--fg-10)] rounded-[var(--radius-lg)] animate-pulse" />
           ))}
         </div>
       </div>
@@ -4,10 +4,14 @@ import { Results, RestaurantsPageSkeleton } from "./Results"
 // PPR: Prerender static shell, stream dynamic content
 export const experimental_ppr = true
 
-export default function RestaurantsPage() {
+interface Props {
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}
+
+export default function RestaurantsPage({ searchParams }: Props) {
   return (
     <Suspense fallback={<RestaurantsPageSkeleton />}>
-      <Results />
+      <Results searchParams={searchParams} />
     </Suspense>
   )
 }
@@ -0,0 +1,25 @@
+import type { Metadata } from "next"
+import { redirect } from "next/navigation"
+import { SignupForm } from "@/components/auth"
+import { getSafeRedirect } from "@/lib/auth-messages"
+import { getCurrentUser } from "@/lib/dal"
+import { getLanguage } from "@/lib/language.server"
+import { t } from "@/lib/translations"
+
+interface Props {
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}
+
+export async function generateMetadata(): Promise<Metadata> {
+  return { title: t("signUp", await getLanguage()) }
+}
+
+export default async function SignupPage({ searchParams }: Props) {
+  const target = getSafeRedirect((await searchParams).next)
+
+  if (await getCurrentUser().catch(() => null)) {
+    redirect(target)
+  }
+
+  return <SignupForm next={target} />
+}
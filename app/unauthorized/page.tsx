@@ -0,0 +1,27 @@
+import type { Metadata } from "next"
+import { ShieldX } from "lucide-react"
+import { getLanguage } from "@/lib/language.server"
+import { t } from "@/lib/translations"
+
+export async function generateMetadata(): Promise<Metadata> {
+  return { title: t("forbiddenTitle", await getLanguage()), robots: { index: false } }
+}
+
+/**
+ * 403 - where requirePermission sends signed-in users who lack a permission
+ */
+export default async function UnauthorizedPage() {
+  const language = await getLanguage()
+
+  return (
+    <div className="max-w-md mx-auto px-[var(--page-padding-x)] py-[var(--spacing-xl)] flex flex-col items-center gap-[var(--spacing-md)] text-center">
+      <ShieldX className="w-12 h-12 text-[var(--fg-30)]" strokeWidth={1.5} aria-hidden="true" />
+      <p className="text-sm font-medium text-[var(--fg-50)]">403</p>
+      <h1 className="text-2xl font-bold text-[var(--fg)]">{t("forbiddenTitle", language)}</h1>
+      <p className="text-[var(--fg-70)]">{t("forbiddenMessage", language)}</p>
+      <a href="/" className="px-4 py-2.5 rounded-lg bg-[var(--color-primary)] text-white font-medium">
+        {t("backHome", language)}
+      </a>
+    </div>
+  )
+}
@@ -0,0 +1,78 @@
+"use client"
+
+import type { ReactNode } from "react"
+import { useLanguage } from "@/context/LanguageProvider"
+import { getAuthMessageKey } from "@/lib/auth-messages"
+import type { AuthResult } from "@/lib/supabase/auth"
+import { t, type TranslationKey } from "@/lib/translations"
+
+/* =========================
+   Layout
+========================= */
+
+export function AuthShell({ title, children }: { title: TranslationKey; children: ReactNode }) {
+  const { language } = useLanguage()
+
+  return (
+    <div className="max-w-sm mx-auto px-[var(--page-padding-x)] py-[var(--spacing-xl)] flex flex-col gap-[var(--spacing-md)]">
+      <h1 className="text-2xl font-bold text-[var(--fg)]">{t(title, language)}</h1>
+      {children}
+    </div>
+  )
+}
+
+/* =========================
+   Fields
+========================= */
+
+export const AUTH_INPUT_CLASS =
+  "w-full px-3 py-2 border border-[var(--fg-20)] rounded-lg bg-[var(--color-white)] text-[var(--fg)] focus:outline-none focus:ring-2 focus:ring-[var(--color-primary)] focus:border-transparent"
+
+export const AUTH_SUBMIT_CLASS =
+  "w-full px-4 py-2.5 rounded-lg bg-[var(--color-primary)] text-white font-medium disabled:opacity-50"
+
+export function AuthField({
+  label,
+  name,
+  type,
+  autoComplete,
+  required = true,
+  minLength,
+}: {
+  label: TranslationKey
+  name: string
+  type: "email" | "password" | "text"
+  autoComplete: string
+  required?: boolean
+  minLength?: number
+}) {
+  const { language } = useLanguage()
+
+  return (
+    <label className="flex flex-col gap-1 text-sm text-[var(--fg-70)]">
+      {t(label, language)}
+      <input name={name} type={type} autoComplete={autoComplete} required={required} minLength={minLength} className={AUTH_INPUT_CLASS} />
+    </label>
+  )
+}
+
+/* =========================
+   Result Message
+========================= */
+
+/**
+ * Localized message for an AuthResult; the server's English text is never shown
+ */
+export function AuthMessage({ result }: { result: Pick<AuthResult, "success" | "code"> | null }) {
+  const { language } = useLanguage()
+  if (!result) return null
+
+  return (
+    <p
+      role={result.success ? "status" : "alert"}
+      className={`p-3 rounded-lg text-sm ${result.success ? "bg-green-50 border border-green-200 text-green-800" : "bg-red-50 border border-red-200 text-red-700"}`}
+    >
+      {t(getAuthMessageKey(result.code), language)}
+    </p>
+  )
+}
@@ -0,0 +1,21 @@
+"use client"
+
+import { useLanguage } from "@/context/LanguageProvider"
+import { signInWithGoogle } from "@/lib/supabase/auth"
+import { t } from "@/lib/translations"
+
+export function GoogleSignInButton({ next }: { next: string }) {
+  const { language } = useLanguage()
+
+  return (
+    <form action={signInWithGoogle}>
+      <input type="hidden" name="next" value={next} />
+      <button
+        type="submit"
+        className="w-full px-4 py-2.5 rounded-lg border border-[var(--fg-20)] bg-[var(--color-white)] text-[var(--fg)] font-medium hover:bg-[var(--fg-5)]"
+      >
+        {t("continueWithGoogle", language)}
+      </button>
+    </form>
+  )
+}
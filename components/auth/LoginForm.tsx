@@ -0,0 +1,51 @@
+"use client"
+
+import { useActionState } from "react"
+import { useLanguage } from "@/context/LanguageProvider"
+import { toAuthCode, withNext } from "@/lib/auth-messages"
+import { signIn } from "@/lib/supabase/auth"
+import { useTranslations } from "@/lib/translations"
+import { AUTH_SUBMIT_CLASS, AuthField, AuthMessage, AuthShell } from "./AuthShell"
+import { GoogleSignInButton } from "./GoogleSignInButton"
+
+interface LoginFormProps {
+  /** Where to return after signing in */
+  next: string
+  /** `?error=` from a failed redirect, e.g. the OAuth callback */
+  error?: string
+}
+
+export function LoginForm({ next, error }: LoginFormProps) {
+  const { language } = useLanguage()
+  const { t } = useTranslations(language)
+  const [state, formAction, isPending] = useActionState(signIn, null)
+  const redirectError = toAuthCode(error)
+
+  return (
+    <AuthShell title="signInTitle">
+      <AuthMessage result={state ?? (redirectError ? { success: false, code: redirectError } : null)} />
+
+      <form action={formAction} className="flex flex-col gap-[var(--spacing-sm)]">
+        <input type="hidden" name="next" value={next} />
+        <AuthField label="email" name="email" type="email" autoComplete="email" />
+        <AuthField label="password" name="password" type="password" autoComplete="current-password" />
+        <a href={withNext("/reset-password", next)} className="self-end text-xs text-[var(--color-primary)]">
+          {t("forgotPassword")}
+        </a>
+        <button type="submit" disabled={isPending} className={AUTH_SUBMIT_CLASS}>
+          {t("signIn")}
+        </button>
+      </form>
+
+      <div className="text-center text-xs text-[var(--fg-50)]">{t("or")}</div>
+      <GoogleSignInButton next={next} />
+
+      <p className="text-sm text-[var(--fg-70)]">
+        {t("noAccount")}{" "}
+        <a href={withNext("/signup", next)} className="font-medium text-[var(--color-primary)]">
+          {t("signUp")}
+        </a>
+      </p>
+    </AuthShell>
+  )
+}
@@ -0,0 +1,70 @@
+"use client"
+
+import { useActionState } from "react"
+import { useLanguage } from "@/context/LanguageProvider"
+import { MIN_PASSWORD_LENGTH, withNext } from "@/lib/auth-messages"
+import { requestPasswordReset, updatePassword } from "@/lib/supabase/auth"
+import { useTranslations } from "@/lib/translations"
+import { AUTH_SUBMIT_CLASS, AuthField, AuthMessage, AuthShell } from "./AuthShell"
+
+/* =========================
+   Request Link
+========================= */
+
+export function RequestResetForm({ next }: { next: string }) {
+  const { language } = useLanguage()
+  const { t } = useTranslations(language)
+  const [state, formAction, isPending] = useActionState(requestPasswordReset, null)
+
+  return (
+    <AuthShell title="resetPasswordTitle">
+      <AuthMessage result={state} />
+
+      {!state?.success && (
+        <form action={formAction} className="flex flex-col gap-[var(--spacing-sm)]">
+          <AuthField label="email" name="email" type="email" autoComplete="email" />
+          <button type="submit" disabled={isPending} className={AUTH_SUBMIT_CLASS}>
+            {t("sendResetLink")}
+          </button>
+        </form>
+      )}
+
+      <a href={withNext("/login", next)} className="text-sm font-medium text-[var(--color-primary)]">
+        {t("backToSignIn")}
+      </a>
+    </AuthShell>
+  )
+}
+
+/* =========================
+   New Password
+========================= */
+
+/**
+ * Shown once the recovery link has signed the user in
+ */
+export function NewPasswordForm({ next }: { next: string }) {
+  const { language } = useLanguage()
+  const { t } = useTranslations(language)
+  const [state, formAction, isPending] = useActionState(updatePassword, null)
+
+  return (
+    <AuthShell title="newPasswordTitle">
+      <AuthMessage result={state} />
+
+      {state?.success ? (
+        <a href={next} className={`${AUTH_SUBMIT_CLASS} text-center`}>
+          {t("main")}
+        </a>
+      ) : (
+        <form action={formAction} className="flex flex-col gap-[var(--spacing-sm)]">
+          <AuthField label="password" name="password" type="password" autoComplete="new-password" minLength={MIN_PASSWORD_LENGTH} />
+          <AuthField label="confirmPassword" name="confirmPassword" type="password" autoComplete="new-password" minLength={MIN_PASSWORD_LENGTH} />
+          <button type="submit" disabled={isPending} className={AUTH_SUBMIT_CLASS}>
+            {t("updatePassword")}
+          </button>
+        </form>
+      )}
+    </AuthShell>
+  )
+}
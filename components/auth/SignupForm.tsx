@@ -0,0 +1,45 @@
+"use client"
+
+import { useActionState } from "react"
+import { useLanguage } from "@/context/LanguageProvider"
+import { MIN_PASSWORD_LENGTH, withNext } from "@/lib/auth-messages"
+import { signUp } from "@/lib/supabase/auth"
+import { useTranslations } from "@/lib/translations"
+import { AUTH_SUBMIT_CLASS, AuthField, AuthMessage, AuthShell } from "./AuthShell"
+import { GoogleSignInButton } from "./GoogleSignInButton"
+
+export function SignupForm({ next }: { next: string }) {
+  const { language } = useLanguage()
+  const { t } = useTranslations(language)
+  const [state, formAction, isPending] = useActionState(signUp, null)
+
+  return (
+    <AuthShell title="signUpTitle">
+      <AuthMessage result={state} />
+
+      {!state?.success && (
+        <>
+          <form action={formAction} className="flex flex-col gap-[var(--spacing-sm)]">
+            <input type="hidden" name="next" value={next} />
+            <AuthField label="fullName" name="name" type="text" autoComplete="name" required={false} />
+            <AuthField label="email" name="email" type="email" autoComplete="email" />
+            <AuthField label="password" name="password" type="password" autoComplete="new-password" minLength={MIN_PASSWORD_LENGTH} />
+            <button type="submit" disabled={isPending} className={AUTH_SUBMIT_CLASS}>
+              {t("signUp")}
+            </button>
+          </form>
+
+          <div className="text-center text-xs text-[var(--fg-50)]">{t("or")}</div>
+          <GoogleSignInButton next={next} />
+        </>
+      )}
+
+      <p className="text-sm text-[var(--fg-70)]">
+        {t("haveAccount")}{" "}
+        <a href={withNext("/login", next)} className="font-medium text-[var(--color-primary)]">
+          {t("signIn")}
+        </a>
+      </p>
+    </AuthShell>
+  )
+}
@@ -0,0 +1,3 @@
+export { LoginForm } from "./LoginForm"
+export { SignupForm } from "./SignupForm"
+export { RequestResetForm, NewPasswordForm } from "./ResetPasswordForm"
@@ -46,7 +46,7 @@ export const BaseCard = memo(function BaseCard({
   const Wrapper = href ? "a" : onClick ? "button" : "div"
   const wrapperProps = useMemo<Record<string, unknown>>(() => {
     if (href) return { href, className: "block min-w-0" }
-    if (onClick) return { type: "button" as const, onClick, className: "w-full text-left" }
+    if (onClick) return { type: "button" as const, onClick, className: "w-full text-start" }
     return { className: "min-w-0" }
   }, [href, onClick])
 
@@ -1,4 +1,5 @@
-import type { ShadiRestaurant } from "@/types/restaurant"
+import { getLocalizedText, type ShadiRestaurant } from "@/types/restaurant"
+import type { Language } from "@/lib/language.types"
 import { memo } from "react"
 import { BaseCard, type CardVariant } from "./BaseCard"
 import { DetailedVariant, ListVariant } from "./variants"
@@ -16,42 +17,67 @@ export const RestaurantCard = memo(function RestaurantCard({
   mapCoordinates,
   features,
   name,
+  rating,
+  reviewCount,
+  addedDate,
   variant = "detailed",
   href,
   locale = "ar",
+  highlight,
+  distanceKm,
 }: ShadiRestaurant & {
   variant?: CardVariant
   href?: string
-  locale?: "en" | "ar"
+  locale?: Language
+  /** Search query whose matches are highlighted */
+  highlight?: string
+  /** Distance from the user's chosen origin */
+  distanceKm?: number
 }) {
-  const location = emirate || district ? { emirate, district, address, mapCoordinates } : undefined
+  const title = getLocalizedText(name, locale)
+  const location =
+    emirate || district
+      ? { emirate, district: getLocalizedText(district, locale) || undefined, address, mapCoordinates }
+      : undefined
 
   return (
     <BaseCard variant={variant} type="restaurant">
       {variant === "detailed" && (
         <DetailedVariant
           images={images}
-          alt={name}
-          title={name}
+          alt={title}
+          title={title}
           category={cuisine}
           priceBucketId={priceBucketId}
           locale={locale}
           location={location}
           features={features}
           href={href}
+          highlight={highlight}
+          distanceKm={distanceKm}
+          rating={rating}
+          reviewCount={reviewCount}
+          addedDate={addedDate}
+          restaurantId={id}
         />
       )}
       {variant === "list" && (
         <ListVariant
           images={images}
-          alt={name}
-          title={name}
-          description={description}
+          alt={title}
+          title={title}
+          description={getLocalizedText(description, locale) || undefined}
           cuisine={cuisine}
           priceBucketId={priceBucketId}
           locale={locale}
           location={location}
           href={href}
+          highlight={highlight}
+          distanceKm={distanceKm}
+          rating={rating}
+          reviewCount={reviewCount}
+          addedDate={addedDate}
+          restaurantId={id}
         />
       )}
     </BaseCard>
@@ -20,7 +20,7 @@ export type {
   MapCoordinates,
 } from "@/types/restaurant"
 
-export { getPriceLabel, priceBucketValue } from "@/types/restaurant"
+export { priceBucketValue } from "@/types/restaurant"
 
 // Variants (pure UI components)
 export * from "./variants"
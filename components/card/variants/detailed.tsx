@@ -1,7 +1,12 @@
 import { CardCarousel } from "@/components/carousel"
 import { MapPin } from "lucide-react"
 import type { PriceBucketId, MapCoordinates, UAEEmirate } from "@/types/restaurant"
-import { getPriceLabel } from "@/types/restaurant"
+import { Highlight } from "@/components/search/Highlight"
+import { useFormatter } from "@/context/LanguageProvider"
+import { getEmirateLabel } from "@/lib/translations"
+import { RatingBadge } from "@/components/reviews/RatingStars"
+import { FavoriteButton } from "@/components/saved/FavoriteButton"
+import type { Language } from "@/lib/language.types"
 import { memo } from "react"
 
 export interface DetailedVariantProps {
@@ -10,7 +15,7 @@ export interface DetailedVariantProps {
   title: string
   category?: string
   priceBucketId?: PriceBucketId
-  locale?: "en" | "ar"
+  locale?: Language
   location?: {
     emirate?: UAEEmirate
     district?: string
@@ -19,6 +24,14 @@ export interface DetailedVariantProps {
   }
   features?: string[]
   href?: string
+  highlight?: string
+  distanceKm?: number
+  rating?: number
+  reviewCount?: number
+  /** ISO timestamp, shown as "Added 3 days ago" */
+  addedDate?: string
+  /** Shows a favorite toggle over the image when set */
+  restaurantId?: string
 }
 
 export const DetailedVariant = memo(function DetailedVariant({
@@ -31,35 +44,57 @@ export const DetailedVariant = memo(function DetailedVariant({
   location,
   features = [],
   href,
+  highlight,
+  distanceKm,
+  rating,
+  reviewCount,
+  addedDate,
+  restaurantId,
 }: DetailedVariantProps) {
-  const locationStr = location ? [location.district, location.emirate].filter(Boolean).join(", ") : undefined
+  const format = useFormatter(locale)
+  const locationStr = location
+    ? [location.district, location.emirate && getEmirateLabel(location.emirate, locale)].filter(Boolean).join(", ")
+    : undefined
 
   const content = (
     <div className="flex flex-col h-auto group min-w-0">
       <div className="relative aspect-[4/3] rounded-[var(--radius-xl)] overflow-hidden">
         <CardCarousel images={images || []} alt={alt} height="100%" className="h-full" restaurantName={title} showIndicators={true} />
+        {restaurantId && <FavoriteButton restaurantId={restaurantId} className="absolute top-2 end-2 z-50" />}
         {category && (
-          <span className="absolute top-2 left-2 z-50 inline-block px-2 py-1 rounded-md bg-black/60 backdrop-blur-md text-white text-xs font-semibold shadow-sm pointer-events-none">
+          <span className="absolute top-2 start-2 z-50 inline-block px-2 py-1 rounded-md bg-black/60 backdrop-blur-md text-white text-xs font-semibold shadow-sm pointer-events-none">
             {category}
           </span>
         )}
       </div>
 
       <div className="mt-[var(--spacing-sm)] flex flex-col justify-start pt-1">
-        <h3 className="text-[var(--font-size-sm)] font-[var(--font-weight-semibold)] text-[var(--fg)] line-clamp-1 leading-tight">{title}</h3>
+        <h3 className="text-[var(--font-size-sm)] font-[var(--font-weight-semibold)] text-[var(--fg)] line-clamp-1 leading-tight">
+          <Highlight text={title} query={highlight} />
+        </h3>
 
         {locationStr && (
           <div className="flex items-center gap-1.5 text-sm text-[var(--fg-50)] mt-[var(--spacing-xs)]">
             <MapPin className="w-4 h-4 text-[var(--color-primary)] flex-shrink-0" aria-hidden="true" strokeWidth={1.5} />
-            <span className="line-clamp-1 leading-tight">{locationStr}</span>
+            <span className="line-clamp-1 leading-tight"><Highlight text={locationStr} query={highlight} /></span>
+            {distanceKm !== undefined && (
+              <span className="flex-shrink-0 text-xs text-[var(--fg-70)]">· {format.distance(distanceKm)}</span>
+            )}
           </div>
         )}
 
-        {priceBucketId && (
+        {Boolean(priceBucketId || reviewCount) && (
           <div className="flex items-center gap-1.5 mt-[var(--spacing-xs)]">
-            <span className="inline-block px-3 py-1 rounded-full bg-[var(--color-primary)]/8 text-[var(--color-primary)] text-xs font-medium">{getPriceLabel(priceBucketId, locale)}</span>
+            {priceBucketId && <span className="inline-block px-3 py-1 rounded-full bg-[var(--color-primary)]/8 text-[var(--color-primary)] text-xs font-medium">{format.priceBucket(priceBucketId)}</span>}
+            <RatingBadge rating={rating} reviewCount={reviewCount} />
           </div>
         )}
+
+        {addedDate && (
+          <p className="text-xs text-[var(--fg-50)] mt-[var(--spacing-xs)]" suppressHydrationWarning>
+            {format.addedDate(addedDate)}
+          </p>
+        )}
       </div>
     </div>
   )
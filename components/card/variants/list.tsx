@@ -1,7 +1,13 @@
 import { CardCarousel } from "@/components/carousel"
 import { MapPin } from "lucide-react"
 import type { PriceBucketId, MapCoordinates, UAEEmirate } from "@/types/restaurant"
-import { getPriceLabel } from "@/types/restaurant"
+import { Highlight } from "@/components/search/Highlight"
+import { useFormatter } from "@/context/LanguageProvider"
+import { getEmirateLabel } from "@/lib/translations"
+import { RatingBadge } from "@/components/reviews/RatingStars"
+import { FavoriteButton } from "@/components/saved/FavoriteButton"
+import { findMatchRanges } from "@/lib/search"
+import type { Language } from "@/lib/language.types"
 import { memo } from "react"
 
 export interface ListVariantProps {
@@ -12,7 +18,7 @@ export interface ListVariantProps {
   cuisine?: string
   category?: string
   priceBucketId?: PriceBucketId
-  locale?: "en" | "ar"
+  locale?: Language
   location?: {
     emirate?: UAEEmirate
     district?: string
@@ -20,46 +26,85 @@ export interface ListVariantProps {
     mapCoordinates?: MapCoordinates
   }
   href?: string
+  highlight?: string
+  distanceKm?: number
+  rating?: number
+  reviewCount?: number
+  /** ISO timestamp, shown as "Added 3 days ago" */
+  addedDate?: string
+  /** Shows a favorite toggle over the image when set */
+  restaurantId?: string
 }
 
 export const ListVariant = memo(function ListVariant({
   images,
   alt,
   title,
+  description,
   cuisine,
   category,
   priceBucketId,
   locale = "ar",
   location,
   href,
+  highlight,
+  distanceKm,
+  rating,
+  reviewCount,
+  addedDate,
+  restaurantId,
 }: ListVariantProps) {
   const mainCategory = cuisine || category
-  const locationStr = location ? [location.district, location.emirate].filter(Boolean).join(", ") : undefined
+  const format = useFormatter(locale)
+  const locationStr = location
+    ? [location.district, location.emirate && getEmirateLabel(location.emirate, locale)].filter(Boolean).join(", ")
+    : undefined
+  // Surface the description only when it explains why the card matched a search
+  const showDescription = Boolean(highlight && description && findMatchRanges(description, highlight).length > 0)
 
   const content = (
     <div className="flex bg-[var(--card-bg)] rounded-[var(--radius-xl)] hover:shadow-[var(--shadow-lg)] transition-all cursor-pointer group overflow-hidden">
       <div className="relative w-[var(--card-list-image-width)] lg:w-[var(--card-list-image-width-desktop)] flex-shrink-0 overflow-hidden rounded-[var(--radius-xl)] bg-[var(--fg-10)]">
         <CardCarousel images={images || []} alt={alt} height="100%" className="h-full" restaurantName={title} showIndicators={true} />
+        {restaurantId && <FavoriteButton restaurantId={restaurantId} className="absolute top-2 end-2 z-50" />}
       </div>
 
       <div className="flex-1 min-w-0 flex flex-col justify-center gap-[var(--card-gap-sm)] p-[var(--card-gap-md)]">
-        <h3 className="text-[var(--card-title-base)] font-[var(--font-weight-semibold)] text-[var(--fg)] line-clamp-1 leading-tight">{title}</h3>
+        <h3 className="text-[var(--card-title-base)] font-[var(--font-weight-semibold)] text-[var(--fg)] line-clamp-1 leading-tight">
+          <Highlight text={title} query={highlight} />
+        </h3>
 
         {locationStr && (
           <div className="flex items-center gap-1.5 text-sm text-[var(--fg-50)]">
             <MapPin className="w-4 h-4 text-[var(--color-primary)] flex-shrink-0" strokeWidth={1.5} />
-            <span className="line-clamp-1 leading-tight">{locationStr}</span>
+            <span className="line-clamp-1 leading-tight"><Highlight text={locationStr} query={highlight} /></span>
+            {distanceKm !== undefined && (
+              <span className="flex-shrink-0 text-xs text-[var(--fg-70)]">· {format.distance(distanceKm)}</span>
+            )}
           </div>
         )}
 
+        {showDescription && (
+          <p className="text-xs text-[var(--fg-50)] line-clamp-2 leading-snug">
+            <Highlight text={description ?? ""} query={highlight} />
+          </p>
+        )}
+
         <div className="flex items-center gap-1.5">
           {mainCategory && (
             <span className="inline-block px-3 py-1 rounded-full bg-[var(--color-primary)]/8 text-[var(--color-primary)] text-xs font-medium line-clamp-1">
               {mainCategory}
             </span>
           )}
-          {priceBucketId && <span className="inline-block px-3 py-1 rounded-full bg-[var(--color-primary)]/8 text-[var(--color-primary)] text-xs font-medium">{getPriceLabel(priceBucketId, locale)}</span>}
+          {priceBucketId && <span className="inline-block px-3 py-1 rounded-full bg-[var(--color-primary)]/8 text-[var(--color-primary)] text-xs font-medium">{format.priceBucket(priceBucketId)}</span>}
+          <RatingBadge rating={rating} reviewCount={reviewCount} />
         </div>
+
+        {addedDate && (
+          <p className="text-xs text-[var(--fg-50)]" suppressHydrationWarning>
+            {format.addedDate(addedDate)}
+          </p>
+        )}
       </div>
     </div>
   )
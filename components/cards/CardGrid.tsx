@@ -1,6 +1,8 @@
 import { cn } from "@/lib/utils"
 
-export type ViewMode = "list" | "grid-1" | "grid-2" | "grid-3" | "grid-4"
+export const VIEW_MODES = ["list", "grid-1", "grid-2", "grid-3", "grid-4", "map"] as const
+
+export type ViewMode = (typeof VIEW_MODES)[number]
 
 export function CardGrid({
   children,
@@ -11,8 +13,8 @@ export function CardGrid({
   viewMode?: ViewMode
   className?: string
 }) {
-  // For list view, return a simple flex column layout
-  if (viewMode === "list") {
+  // For list view (and the list under the map), return a simple flex column layout
+  if (viewMode === "list" || viewMode === "map") {
     return (
       <div className={cn("flex flex-col gap-[var(--spacing-md)] w-full", className)}>
         {children}
@@ -24,7 +26,7 @@ export function CardGrid({
   // Mobile: grid-1 (1 col), grid-2 (2 cols)
   // Tablet: grid-2 (2 cols), grid-3 (3 cols), grid-4 (2 cols)
   // Desktop: grid-2 (2 cols), grid-3 (3 cols), grid-4 (4 cols)
-  const gridClasses: Record<Exclude<ViewMode, "list">, string> = {
+  const gridClasses: Record<Exclude<ViewMode, "list" | "map">, string> = {
     "grid-1": "grid grid-cols-1 gap-[var(--spacing-sm)]",
     "grid-2": "grid grid-cols-2 gap-[var(--spacing-xs)] sm:gap-[var(--spacing-md)]",
     "grid-3": "grid grid-cols-2 sm:grid-cols-3 gap-[var(--spacing-sm)]",
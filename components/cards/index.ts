@@ -1 +1 @@
-export { CardGrid, type ViewMode } from "./CardGrid"
+export { CardGrid, VIEW_MODES, type ViewMode } from "./CardGrid"
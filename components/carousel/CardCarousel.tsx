@@ -6,6 +6,8 @@
 "use client"
 
 import { OptimizedImage } from "@/components/images"
+import { useLanguage } from "@/context/LanguageProvider"
+import { t } from "@/lib/translations"
 import useEmblaCarousel from "embla-carousel-react"
 import { memo, useCallback, useEffect, useMemo, useState } from "react"
 
@@ -46,7 +48,10 @@ function CardCarouselComponent({
   blurHash: fallbackBlurHash,
   onSlideChange,
 }: CardCarouselProps) {
+  const { language, dir } = useLanguage()
+  // Embla reads the swipe direction from options, not from the dir attribute
   const [emblaRef, emblaApi] = useEmblaCarousel({
+    direction: dir,
     align: "start",
     loop: false,
     skipSnaps: false,
@@ -145,7 +150,7 @@ function CardCarouselComponent({
               type="button"
               onClick={() => emblaApi?.scrollTo(index)}
               className="transition-all duration-[var(--duration-normal)] ease-[var(--ease-out-quart)]"
-              aria-label={`Go to slide ${index + 1}`}
+              aria-label={t("goToSlide", language, { number: index + 1 })}
             >
               <span
                 className={`block ${
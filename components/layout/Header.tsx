@@ -1,5 +1,5 @@
 /* ═══════════════════════════════════════════════════════════════════════════════
-   APP HEADER - Simple header with logo, menu button, and language toggle
+   APP HEADER - Simple header with logo, menu button, and language picker
    ═══════════════════════════════════════════════════════════════════════════════ */
 
 "use client"
@@ -8,7 +8,9 @@ import { Menu } from "lucide-react"
 import { BackButton } from "@/components/navigation/BackButton"
 import { useNavigation } from "@/components/navigation/NavigationProvider"
 import { useLanguage } from "@/context/LanguageProvider"
+import { useTranslations } from "@/lib/translations"
 import { memo, useCallback, useEffect, useMemo, useRef, useState } from "react"
+import { LanguagePicker } from "./LanguagePicker"
 import SideMenu from "./SideMenu"
 
 /* ─────────────────────────────────────────────────────────────────────────
@@ -19,7 +21,8 @@ const SCROLL_GLASS_THRESHOLD = 20
 
 function AppHeaderComponent() {
   const { activePanel, openMenu, closeAll, showBackButton } = useNavigation()
-  const { buttonLabel, toggleLanguage } = useLanguage()
+  const { language } = useLanguage()
+  const { t } = useTranslations(language)
   const [visible, setVisible] = useState(true)
   const [isScrolled, setIsScrolled] = useState(false)
   const lastScrollY = useRef(0)
@@ -99,14 +102,16 @@ function AppHeaderComponent() {
       <nav
         onClick={showHeaderClick ? handleHeaderClick : undefined}
         className={headerClasses}
-        aria-label="Navigation"
+        aria-label={t("navigation")}
       >
         <div className="flex justify-between items-center">
           {/* Left side - Back button + Branding */}
           <div className="flex items-center gap-[var(--spacing-md)]">
             {showBackButton && <BackButton className="flex-shrink-0" />}
             <a href="/" className="flex items-center gap-[var(--header-logo-gap)] group">
+              {/* i18n-ignore: brand name */}
               <img src="/LOGO/logo.svg" alt="Shadi" className={logoClasses} />
+              {/* i18n-ignore: brand name */}
               <span className="font-black text-[var(--font-size-xl)] tracking-tighter uppercase hidden sm:block self-center">
                 Shadi<span className="text-primary italic">.</span>
               </span>
@@ -115,23 +120,13 @@ function AppHeaderComponent() {
 
           {/* Actions */}
           <div className="flex items-center gap-[var(--header-actions-gap)]">
-            {/* Language Toggle Button */}
-            <button
-              type="button"
-              onClick={toggleLanguage}
-              className="transition-all active:scale-95 group relative p-[var(--spacing-sm)] touch-target"
-              aria-label="Toggle language"
-            >
-              <span className="h-[var(--icon-size-lg)] w-[var(--icon-size-lg)] text-[var(--fg)] flex items-center justify-center font-semibold">
-                {buttonLabel}
-              </span>
-            </button>
+            <LanguagePicker />
 
             <button
               type="button"
               onClick={handleMenuClick}
               className="transition-all active:scale-95 group relative p-[var(--spacing-sm)] touch-target"
-              aria-label="Open menu"
+              aria-label={t("openMenu")}
             >
               <Menu className="h-[var(--icon-size-lg)] w-[var(--icon-size-lg)] text-[var(--fg)]" />
             </button>
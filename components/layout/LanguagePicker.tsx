@@ -0,0 +1,103 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   LANGUAGE PICKER - Header menu listing every supported language and digit style
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+"use client"
+
+import { Check, Languages } from "lucide-react"
+import { useLanguage } from "@/context/LanguageProvider"
+import { LANGUAGES } from "@/lib/i18n"
+import type { Language } from "@/lib/language.types"
+import { useTranslations } from "@/lib/translations"
+import { memo, useCallback, useEffect, useRef, useState } from "react"
+
+function LanguagePickerComponent() {
+  const { language, setLanguage, digits, setDigits } = useLanguage()
+  const { t } = useTranslations(language)
+  const [isOpen, setIsOpen] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  /* ─────────────────────────────────────────────────────────────────────────
+     Close on Escape or a click outside while the menu is open
+     ───────────────────────────────────────────────────────────────────────── */
+  useEffect(() => {
+    if (!isOpen) return
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setIsOpen(false)
+    }
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false)
+    }
+    document.addEventListener("keydown", handleKeyDown)
+    document.addEventListener("pointerdown", handlePointerDown)
+    return () => {
+      document.removeEventListener("keydown", handleKeyDown)
+      document.removeEventListener("pointerdown", handlePointerDown)
+    }
+  }, [isOpen])
+
+  const handleSelect = useCallback(
+    (code: Language) => {
+      setIsOpen(false)
+      void setLanguage(code)
+    },
+    [setLanguage]
+  )
+
+  const handleToggleDigits = useCallback(() => {
+    setIsOpen(false)
+    void setDigits(digits === "arab" ? "latn" : "arab")
+  }, [digits, setDigits])
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        className="transition-all active:scale-95 group relative p-[var(--spacing-sm)] touch-target"
+        aria-label={t("chooseLanguage")}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        <Languages className="h-[var(--icon-size-lg)] w-[var(--icon-size-lg)] text-[var(--fg)]" aria-hidden="true" />
+      </button>
+
+      {isOpen && (
+        <div
+          role="menu"
+          aria-label={t("chooseLanguage")}
+          className="absolute z-20 top-full end-0 mt-1 min-w-40 py-1 bg-[var(--color-white)] border border-[var(--fg-10)] rounded-lg shadow-lg"
+        >
+          {LANGUAGES.map((option) => (
+            <button
+              key={option.code}
+              type="button"
+              role="menuitemradio"
+              aria-checked={option.code === language}
+              onClick={() => handleSelect(option.code)}
+              lang={option.code}
+              dir={option.dir}
+              className="w-full flex items-center justify-between gap-3 px-3 py-2 text-sm text-start text-[var(--fg)] hover:bg-[var(--fg-5)]"
+            >
+              <span>{option.nativeName}</span>
+              {option.code === language && <Check className="w-4 h-4 text-primary" aria-hidden="true" />}
+            </button>
+          ))}
+          <hr className="my-1 border-t border-[var(--fg-10)]" />
+          <button
+            type="button"
+            role="menuitemcheckbox"
+            aria-checked={digits === "arab"}
+            onClick={handleToggleDigits}
+            className="w-full flex items-center justify-between gap-3 px-3 py-2 text-sm text-start text-[var(--fg)] hover:bg-[var(--fg-5)]"
+          >
+            <span>{t("arabicDigits")}</span>
+            {digits === "arab" && <Check className="w-4 h-4 text-primary" aria-hidden="true" />}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export const LanguagePicker = memo(LanguagePickerComponent)
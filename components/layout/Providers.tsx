@@ -2,17 +2,27 @@
 
 import { NavigationProvider } from "@/components/navigation/NavigationProvider"
 import { LanguageProvider } from "@/context/LanguageProvider"
+import { SavedRestaurantsProvider } from "@/context/SavedRestaurantsProvider"
+import { SessionProvider, type ClientSession } from "@/context/SessionProvider"
+import type { DigitStyle } from "@/lib/format"
 import type { Language } from "@/lib/language.types"
 
 interface ProvidersProps {
   children: React.ReactNode
   initialLanguage: Language
+  initialDigits: DigitStyle
+  /** Signed-in user and permissions, resolved on the server */
+  session: ClientSession
 }
 
-export function Providers({ children, initialLanguage }: ProvidersProps) {
+export function Providers({ children, initialLanguage, initialDigits, session }: ProvidersProps) {
   return (
-    <LanguageProvider initialLanguage={initialLanguage}>
-      <NavigationProvider>{children}</NavigationProvider>
+    <LanguageProvider initialLanguage={initialLanguage} initialDigits={initialDigits}>
+      <SessionProvider session={session}>
+        <SavedRestaurantsProvider userId={session.userId}>
+          <NavigationProvider>{children}</NavigationProvider>
+        </SavedRestaurantsProvider>
+      </SessionProvider>
     </LanguageProvider>
   )
 }
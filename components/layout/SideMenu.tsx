@@ -5,15 +5,36 @@
 "use client"
 
 import type { PanelProps } from "@/components/types"
-import { useCallback, useEffect } from "react"
+import { useLanguage } from "@/context/LanguageProvider"
+import { useSession } from "@/context/SessionProvider"
+import { PERMISSIONS, type Permission } from "@/lib/security/permissions"
+import { useTranslations, type TranslationKey } from "@/lib/translations"
+import { useCallback, useEffect, useMemo } from "react"
 
-const NAV_ITEMS = [
-  { id: "home", label: "Discover", href: "/" },
-  { id: "restaurants", label: "Restaurants", href: "/restaurants" },
-  { id: "admin", label: "Admin", href: "/admin" },
-] as const
+interface NavItem {
+  id: string
+  labelKey: TranslationKey
+  href: string
+  /** Hidden unless the signed-in user holds this permission */
+  permission?: Permission
+}
+
+const NAV_ITEMS: readonly NavItem[] = [
+  { id: "home", labelKey: "navDiscover", href: "/" },
+  { id: "restaurants", labelKey: "navRestaurants", href: "/restaurants" },
+  { id: "lists", labelKey: "myLists", href: "/me/lists" },
+  { id: "admin", labelKey: "navAdmin", href: "/admin", permission: PERMISSIONS.RESTAURANTS_MANAGE },
+  { id: "moderation", labelKey: "navModeration", href: "/admin/moderation", permission: PERMISSIONS.MODERATION_MANAGE },
+  { id: "users", labelKey: "navUsers", href: "/admin/users", permission: PERMISSIONS.USERS_MANAGE },
+  { id: "audit", labelKey: "auditLog", href: "/admin/audit", permission: PERMISSIONS.AUDIT_VIEW },
+]
 
 export default function SideMenu({ isOpen, onClose }: PanelProps) {
+  const { can } = useSession()
+  const { language } = useLanguage()
+  const { t } = useTranslations(language)
+  const navItems = useMemo(() => NAV_ITEMS.filter((item) => !item.permission || can(item.permission)), [can])
+
   const handleBackdropKeyDown = useCallback(
     (e: React.KeyboardEvent) => {
       if (e.key === "Escape") {
@@ -47,11 +68,11 @@ export default function SideMenu({ isOpen, onClose }: PanelProps) {
       />
 
       <div
-        className="fixed top-[var(--header-offset-top)] right-0 w-[var(--side-menu-width)] h-[calc(100vh-var(--header-offset-top))] z-[var(--z-side-menu)] glass rounded-l-[var(--panel-radius)] shadow-[var(--shadow-2xl)] p-[var(--spacing-md)] animate-in slide-in-from-right duration-[var(--duration-slow)] var(--ease-out-quart)"
+        className="fixed top-[var(--header-offset-top)] end-0 w-[var(--side-menu-width)] h-[calc(100vh-var(--header-offset-top))] z-[var(--z-side-menu)] glass rounded-s-[var(--panel-radius)] shadow-[var(--shadow-2xl)] p-[var(--spacing-md)] slide-in-from-end"
       >
         <div className="flex flex-col h-full">
           <nav className="flex-1 space-y-[var(--spacing-xs)]">
-            {NAV_ITEMS.map((item) => (
+            {navItems.map((item) => (
               <a
                 key={item.id}
                 href={item.href}
@@ -59,9 +80,9 @@ export default function SideMenu({ isOpen, onClose }: PanelProps) {
                 className="group relative w-full flex items-center gap-[var(--spacing-xl)] px-[var(--spacing-sm)] py-[var(--spacing-sm)] rounded-[var(--radius-md)] text-[var(--font-size-sm)] transition-all duration-[var(--duration-fast)] hover:bg-[var(--fg-5)] touch-target"
               >
                 <span className="text-[var(--fg)] group-hover:text-primary font-medium transition-colors duration-[var(--duration-fast)] leading-tight">
-                  {item.label}
+                  {t(item.labelKey)}
                 </span>
-                <div className="absolute right-0 top-1/2 -translate-y-1/2 h-0 w-[var(--indicator-width)] rounded-l-full bg-[var(--fg)] opacity-[var(--opacity-hidden)] group-hover:opacity-[var(--opacity-full)] group-hover:h-[calc(100%-var(--spacing-sm)-var(--spacing-sm))] transition-all duration-[var(--duration-fast)]" />
+                <div className="absolute end-0 top-1/2 -translate-y-1/2 h-0 w-[var(--indicator-width)] rounded-s-full bg-[var(--fg)] opacity-[var(--opacity-hidden)] group-hover:opacity-[var(--opacity-full)] group-hover:h-[calc(100%-var(--spacing-sm)-var(--spacing-sm))] transition-all duration-[var(--duration-fast)]" />
               </a>
             ))}
           </nav>
@@ -0,0 +1,296 @@
+"use client"
+
+import { Minus, Plus, X } from "lucide-react"
+import { memo, useCallback, useEffect, useMemo, useRef, useState } from "react"
+import {
+  accumulateWheelZoom,
+  clusterMarkers,
+  fitBounds,
+  getTileConfig,
+  getVisibleBounds,
+  MAP_MAX_ZOOM,
+  MAP_MIN_ZOOM,
+  MAP_TILE_SIZE,
+  project,
+  tileUrl,
+  unproject,
+  type MapBounds,
+  type MapViewport,
+} from "@/lib/map"
+import type { Language } from "@/lib/language.types"
+import { t, tPlural } from "@/lib/translations"
+import { getLocalizedText, type MapCoordinates, type ShadiRestaurant } from "@/types/restaurant"
+
+/* =========================
+   Types
+========================= */
+
+type MappableRestaurant = ShadiRestaurant & { mapCoordinates: MapCoordinates }
+
+interface RestaurantMapProps {
+  restaurants: readonly ShadiRestaurant[]
+  /** Compact card shown when a marker is tapped */
+  renderPreview: (restaurant: ShadiRestaurant) => React.ReactNode
+  /** Called with the geographic bounds whenever the visible area changes */
+  onBoundsChange?: (bounds: MapBounds) => void
+  className?: string
+  locale?: Language
+}
+
+function hasCoordinates(restaurant: ShadiRestaurant): restaurant is MappableRestaurant {
+  return restaurant.mapCoordinates !== undefined
+}
+
+const getPosition = (restaurant: MappableRestaurant) => restaurant.mapCoordinates
+
+const clampZoom = (zoom: number) => Math.max(MAP_MIN_ZOOM, Math.min(MAP_MAX_ZOOM, zoom))
+
+/* =========================
+   Tile Layer
+========================= */
+
+function TileLayer({ viewport, width, height }: { viewport: MapViewport; width: number; height: number }) {
+  const { urlTemplate } = getTileConfig()
+  const center = project(viewport.center, viewport.zoom)
+  const left = center.x - width / 2
+  const top = center.y - height / 2
+  const tileCount = 2 ** viewport.zoom
+
+  // Static fallback: no network access (offline mode and tests)
+  if (!urlTemplate) {
+    return (
+      <div
+        data-testid="map-offline"
+        className="absolute inset-0 bg-[var(--fg-5)]"
+        style={{
+          backgroundImage:
+            "linear-gradient(var(--fg-10) 1px, transparent 1px), linear-gradient(90deg, var(--fg-10) 1px, transparent 1px)",
+          backgroundSize: `${MAP_TILE_SIZE / 4}px ${MAP_TILE_SIZE / 4}px`,
+          backgroundPosition: `${-left % (MAP_TILE_SIZE / 4)}px ${-top % (MAP_TILE_SIZE / 4)}px`,
+        }}
+      />
+    )
+  }
+
+  const tiles: React.ReactNode[] = []
+  for (let x = Math.floor(left / MAP_TILE_SIZE); x <= Math.floor((left + width) / MAP_TILE_SIZE); x++) {
+    for (let y = Math.floor(top / MAP_TILE_SIZE); y <= Math.floor((top + height) / MAP_TILE_SIZE); y++) {
+      if (y < 0 || y >= tileCount) continue
+      const wrappedX = ((x % tileCount) + tileCount) % tileCount
+
+      tiles.push(
+        // Plain img: tiles are fixed-size and must not go through the image optimizer
+        <img
+          key={`${viewport.zoom}/${x}/${y}`}
+          src={tileUrl(urlTemplate, viewport.zoom, wrappedX, y)}
+          alt=""
+          draggable={false}
+          className="absolute select-none"
+          style={{
+            width: MAP_TILE_SIZE,
+            height: MAP_TILE_SIZE,
+            left: x * MAP_TILE_SIZE - left,
+            top: y * MAP_TILE_SIZE - top,
+          }}
+        />
+      )
+    }
+  }
+
+  return <div className="absolute inset-0 bg-[var(--fg-5)]">{tiles}</div>
+}
+
+/* =========================
+   Main Component
+========================= */
+
+export const RestaurantMap = memo(function RestaurantMap({
+  restaurants,
+  renderPreview,
+  onBoundsChange,
+  className = "",
+  locale = "ar",
+}: RestaurantMapProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [size, setSize] = useState({ width: 0, height: 0 })
+  const [viewport, setViewport] = useState<MapViewport | null>(null)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const dragRef = useRef<{ x: number; y: number } | null>(null)
+
+  const mappable = useMemo(() => restaurants.filter(hasCoordinates), [restaurants])
+  const { attribution } = getTileConfig()
+
+  /* ===== Size ===== */
+  useEffect(() => {
+    const element = containerRef.current
+    if (!element) return
+
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height })
+    })
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [])
+
+  // Refit whenever the filtered list changes, so the map always frames the results
+  useEffect(() => {
+    if (size.width === 0) return
+    setViewport(fitBounds(mappable.map(getPosition), size.width, size.height))
+    setSelectedId(null)
+  }, [mappable, size.width, size.height])
+
+  // Report visible bounds so the list below the map can follow it
+  useEffect(() => {
+    if (!viewport || size.width === 0) return
+    onBoundsChange?.(getVisibleBounds(viewport, size.width, size.height))
+  }, [viewport, size.width, size.height, onBoundsChange])
+
+  /* ===== Interaction ===== */
+  const zoomTo = useCallback((zoom: number, center?: MapCoordinates) => {
+    setViewport((prev) =>
+      prev ? { center: center ?? prev.center, zoom: clampZoom(zoom) } : prev
+    )
+  }, [])
+
+  const handlePointerDown = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    if ((e.target as HTMLElement).closest("button, a")) return
+    dragRef.current = { x: e.clientX, y: e.clientY }
+    e.currentTarget.setPointerCapture(e.pointerId)
+  }, [])
+
+  const handlePointerMove = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    const start = dragRef.current
+    if (!start) return
+    const dx = e.clientX - start.x
+    const dy = e.clientY - start.y
+    dragRef.current = { x: e.clientX, y: e.clientY }
+
+    setViewport((prev) => {
+      if (!prev) return prev
+      const center = project(prev.center, prev.zoom)
+      return { ...prev, center: unproject({ x: center.x - dx, y: center.y - dy }, prev.zoom) }
+    })
+  }, [])
+
+  const handlePointerUp = useCallback(() => {
+    dragRef.current = null
+  }, [])
+
+  // Native listener: React's onWheel is passive, so it cannot stop the page scrolling
+  useEffect(() => {
+    const element = containerRef.current
+    if (!element) return
+
+    let carried = 0
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault()
+      const { steps, remainder } = accumulateWheelZoom(carried, e.deltaY, e.deltaMode)
+      carried = remainder
+      if (steps !== 0) {
+        setViewport((prev) => (prev ? { ...prev, zoom: clampZoom(prev.zoom + steps) } : prev))
+      }
+    }
+
+    element.addEventListener("wheel", handleWheel, { passive: false })
+    return () => element.removeEventListener("wheel", handleWheel)
+  }, [])
+
+  /* ===== Markers ===== */
+  const clusters = useMemo(
+    () => (viewport ? clusterMarkers(mappable, getPosition, viewport.zoom) : []),
+    [mappable, viewport]
+  )
+  const selected = mappable.find((r) => r.id === selectedId)
+
+  const origin = viewport ? project(viewport.center, viewport.zoom) : { x: 0, y: 0 }
+  const toScreen = (position: MapCoordinates) => {
+    const point = project(position, viewport?.zoom ?? 0)
+    return { left: point.x - origin.x + size.width / 2, top: point.y - origin.y + size.height / 2 }
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative w-full h-[70vh] min-h-[320px] overflow-hidden rounded-[var(--radius-xl)] touch-none cursor-grab active:cursor-grabbing ${className}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      {viewport && (
+        <>
+          <TileLayer viewport={viewport} width={size.width} height={size.height} />
+
+          {clusters.map((cluster) => {
+            const { left, top } = toScreen(cluster.position)
+            const isCluster = cluster.items.length > 1
+            const restaurant = cluster.items[0]
+
+            return (
+              <button
+                key={cluster.id}
+                type="button"
+                onClick={() =>
+                  // Items sharing a spot never separate, so at max zoom a cluster previews its first item
+                  isCluster && viewport.zoom < MAP_MAX_ZOOM
+                    ? zoomTo(viewport.zoom + 2, cluster.position)
+                    : setSelectedId(restaurant.id)
+                }
+                aria-label={
+                  isCluster
+                    ? tPlural("restaurantCount", cluster.items.length, locale)
+                    : getLocalizedText(restaurant.name, locale)
+                }
+                className={`absolute -translate-x-1/2 -translate-y-1/2 flex items-center justify-center rounded-full border-2 border-white shadow-[var(--shadow-lg)] text-white text-xs font-semibold transition-transform hover:scale-110 ${
+                  isCluster ? "w-10 h-10 bg-[var(--color-primary)]" : "w-6 h-6 bg-[var(--color-secondary)]"
+                } ${restaurant.id === selectedId ? "ring-2 ring-[var(--fg)]" : ""}`}
+                style={{ left, top }}
+              >
+                {isCluster ? cluster.items.length : null}
+              </button>
+            )
+          })}
+
+          <div className="absolute top-[var(--spacing-sm)] end-[var(--spacing-sm)] flex flex-col gap-1">
+            <button
+              type="button"
+              onClick={() => zoomTo(viewport.zoom + 1)}
+              aria-label={t("zoomIn", locale)}
+              className="p-2 rounded-[var(--radius-lg)] bg-[var(--color-white)] shadow-[var(--shadow-lg)] text-[var(--fg)] hover:bg-[var(--fg-5)]"
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+            <button
+              type="button"
+              onClick={() => zoomTo(viewport.zoom - 1)}
+              aria-label={t("zoomOut", locale)}
+              className="p-2 rounded-[var(--radius-lg)] bg-[var(--color-white)] shadow-[var(--shadow-lg)] text-[var(--fg)] hover:bg-[var(--fg-5)]"
+            >
+              <Minus className="w-4 h-4" />
+            </button>
+          </div>
+
+          {selected && (
+            <div className="absolute bottom-[var(--spacing-sm)] inset-x-[var(--spacing-sm)] max-w-md mx-auto">
+              <button
+                type="button"
+                onClick={() => setSelectedId(null)}
+                aria-label={t("closePreview", locale)}
+                className="absolute -top-3 -end-3 z-10 p-1 rounded-full bg-[var(--color-white)] shadow-[var(--shadow-lg)] text-[var(--fg)]"
+              >
+                <X className="w-4 h-4" />
+              </button>
+              <div className="shadow-[var(--shadow-lg)] rounded-[var(--radius-xl)]">{renderPreview(selected)}</div>
+            </div>
+          )}
+
+          {attribution && (
+            <span className="absolute bottom-0 start-0 px-1 bg-white/70 text-[10px] text-[var(--fg-70)] pointer-events-none">
+              {attribution}
+            </span>
+          )}
+        </>
+      )}
+    </div>
+  )
+})
@@ -0,0 +1 @@
+export { RestaurantMap } from "./RestaurantMap"
@@ -8,6 +8,8 @@
 "use client"
 
 import { ChevronLeft } from "lucide-react"
+import { useLanguage } from "@/context/LanguageProvider"
+import { t } from "@/lib/translations"
 import { cn } from "@/lib/utils"
 import { useRouter } from "next/navigation"
 import { type ButtonHTMLAttributes, forwardRef } from "react"
@@ -15,6 +17,7 @@ import { type ButtonHTMLAttributes, forwardRef } from "react"
 export const BackButton = forwardRef<HTMLButtonElement, ButtonHTMLAttributes<HTMLButtonElement>>(
   ({ className, ...props }, ref) => {
     const router = useRouter()
+    const { language } = useLanguage()
 
     return (
       <button
@@ -33,10 +36,10 @@ export const BackButton = forwardRef<HTMLButtonElement, ButtonHTMLAttributes<HTM
           "transition-all",
           className
         )}
-        aria-label="Go back"
+        aria-label={t("goBack", language)}
         {...props}
       >
-        <ChevronLeft className="w-[var(--icon-size-md)] h-[var(--icon-size-md)]" />
+        <ChevronLeft className="w-[var(--icon-size-md)] h-[var(--icon-size-md)] rtl:rotate-180" />
       </button>
     )
   }
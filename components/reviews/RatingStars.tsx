@@ -0,0 +1,51 @@
+import { Star } from "lucide-react"
+import { useFormatter } from "@/context/LanguageProvider"
+
+const STARS = [1, 2, 3, 4, 5] as const
+
+interface RatingStarsProps {
+  /** Average or single rating, 0–5 */
+  rating: number
+  className?: string
+}
+
+/**
+ * Read-only star row; partial averages round to the nearest whole star
+ */
+export function RatingStars({ rating, className = "" }: RatingStarsProps) {
+  const filled = Math.round(rating)
+
+  return (
+    <span className={`inline-flex items-center gap-0.5 ${className}`} role="img" aria-label={`${rating} / 5`}>
+      {STARS.map((star) => (
+        <Star
+          key={star}
+          className={`w-3.5 h-3.5 ${star <= filled ? "fill-[var(--color-warning)] text-[var(--color-warning)]" : "text-[var(--fg-20)]"}`}
+          strokeWidth={1.5}
+          aria-hidden="true"
+        />
+      ))}
+    </span>
+  )
+}
+
+interface RatingBadgeProps {
+  rating?: number
+  reviewCount?: number
+}
+
+/**
+ * Compact "★ 4.3 (12)" summary for cards; renders nothing for unrated restaurants
+ */
+export function RatingBadge({ rating, reviewCount }: RatingBadgeProps) {
+  const format = useFormatter()
+  if (rating === undefined || !reviewCount) return null
+
+  return (
+    <span className="inline-flex items-center gap-1 text-xs font-medium text-[var(--fg-70)]">
+      <Star className="w-3.5 h-3.5 fill-[var(--color-warning)] text-[var(--color-warning)]" strokeWidth={1.5} aria-hidden="true" />
+      {format.rating(rating)}
+      <span className="text-[var(--fg-50)]">({format.number(reviewCount)})</span>
+    </span>
+  )
+}
@@ -0,0 +1,331 @@
+"use client"
+
+import { Star } from "lucide-react"
+import { usePathname, useRouter } from "next/navigation"
+import { useCallback, useState, useTransition } from "react"
+import { createReviewAction, deleteReviewAction, updateReviewAction } from "@/actions/reviews"
+import { useFormatter } from "@/context/LanguageProvider"
+import { withNext } from "@/lib/auth-messages"
+import type { Language } from "@/lib/language.types"
+import { t, tPlural } from "@/lib/translations"
+import type { Review } from "@/types/review"
+import { RatingStars } from "./RatingStars"
+
+/* =========================
+   Types
+========================= */
+
+export interface ReviewViewer {
+  id: string
+  role: "user" | "admin" | "moderator"
+}
+
+interface ReviewSectionProps {
+  restaurantId: string
+  /** Approved reviews */
+  reviews: readonly Review[]
+  /** The viewer's own review, whatever its moderation status */
+  ownReview: Review | null
+  rating?: number
+  reviewCount?: number
+  /** Signed-in user, or null for anonymous visitors */
+  viewer: ReviewViewer | null
+  locale: Language
+}
+
+interface ReviewDraft {
+  rating: number
+  title: string
+  content: string
+}
+
+const EMPTY_DRAFT: ReviewDraft = { rating: 0, title: "", content: "" }
+
+/* =========================
+   Rating Input
+========================= */
+
+function RatingInput({ value, onChange, label }: { value: number; onChange: (v: number) => void; label: string }) {
+  return (
+    <div role="radiogroup" aria-label={label} className="flex items-center gap-1">
+      {[1, 2, 3, 4, 5].map((star) => (
+        <button
+          key={star}
+          type="button"
+          role="radio"
+          aria-checked={value === star}
+          aria-label={`${star} / 5`}
+          onClick={() => onChange(star)}
+          className="p-0.5"
+        >
+          <Star
+            className={`w-6 h-6 ${star <= value ? "fill-[var(--color-warning)] text-[var(--color-warning)]" : "text-[var(--fg-20)]"}`}
+            strokeWidth={1.5}
+          />
+        </button>
+      ))}
+    </div>
+  )
+}
+
+/* =========================
+   Review Form
+========================= */
+
+function ReviewForm({
+  initial,
+  submitLabel,
+  pending,
+  onSubmit,
+  onCancel,
+  locale,
+}: {
+  initial: ReviewDraft
+  submitLabel: string
+  pending: boolean
+  onSubmit: (draft: ReviewDraft) => void
+  onCancel?: () => void
+  locale: Language
+}) {
+  const [draft, setDraft] = useState(initial)
+  const isValid = draft.rating > 0 && draft.title.trim() !== "" && draft.content.trim() !== ""
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault()
+        if (isValid) onSubmit(draft)
+      }}
+      className="space-y-[var(--spacing-sm)] p-4 rounded-xl bg-[var(--fg-5)]"
+    >
+      <RatingInput
+        value={draft.rating}
+        onChange={(rating) => setDraft((prev) => ({ ...prev, rating }))}
+        label={t("reviewRating", locale)}
+      />
+      <input
+        type="text"
+        value={draft.title}
+        onChange={(e) => setDraft((prev) => ({ ...prev, title: e.target.value }))}
+        placeholder={t("reviewTitle", locale)}
+        maxLength={100}
+        className="w-full px-3 py-2 rounded-[var(--radius-lg)] border border-[var(--fg-20)] bg-white text-sm text-[var(--fg)] focus:outline-none focus:ring-2 focus:ring-[var(--color-primary)]"
+      />
+      <textarea
+        value={draft.content}
+        onChange={(e) => setDraft((prev) => ({ ...prev, content: e.target.value }))}
+        placeholder={t("reviewContent", locale)}
+        maxLength={2000}
+        rows={4}
+        className="w-full px-3 py-2 rounded-[var(--radius-lg)] border border-[var(--fg-20)] bg-white text-sm text-[var(--fg)] focus:outline-none focus:ring-2 focus:ring-[var(--color-primary)]"
+      />
+      <div className="flex items-center gap-2">
+        <button
+          type="submit"
+          disabled={!isValid || pending}
+          className="px-4 py-2 rounded-[var(--radius-lg)] bg-[var(--color-primary)] text-white text-sm font-medium disabled:opacity-50"
+        >
+          {submitLabel}
+        </button>
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="px-4 py-2 text-sm text-[var(--fg-70)] hover:text-[var(--fg)]">
+            {t("cancel", locale)}
+          </button>
+        )}
+      </div>
+    </form>
+  )
+}
+
+/* =========================
+   Main Component
+========================= */
+
+export function ReviewSection({
+  restaurantId,
+  reviews,
+  ownReview,
+  rating,
+  reviewCount,
+  viewer,
+  locale,
+}: ReviewSectionProps) {
+  const router = useRouter()
+  const pathname = usePathname()
+  const format = useFormatter(locale)
+  const [isPending, startTransition] = useTransition()
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // Unpublished reviews are only visible to their author
+  const visibleReviews = ownReview && ownReview.status !== "approved" ? [ownReview, ...reviews] : reviews
+  const canModerate = viewer?.role === "admin" || viewer?.role === "moderator"
+
+  // Every mutation re-fetches the server-rendered list and aggregate
+  const run = useCallback(
+    (action: () => Promise<{ error: string | null }>, onSuccess?: () => void) => {
+      setError(null)
+      startTransition(async () => {
+        const result = await action()
+        if (result.error) {
+          setError(result.error)
+          return
+        }
+        onSuccess?.()
+        router.refresh()
+      })
+    },
+    [router]
+  )
+
+  const handleCreate = useCallback(
+    (draft: ReviewDraft) => run(() => createReviewAction({ restaurantId, ...draft })),
+    [restaurantId, run]
+  )
+
+  const handleUpdate = useCallback(
+    (id: string, draft: ReviewDraft) => run(() => updateReviewAction(id, draft), () => setEditingId(null)),
+    [run]
+  )
+
+  const handleDelete = useCallback(
+    (id: string) => run(() => deleteReviewAction(id), () => setDeleteConfirmId(null)),
+    [run]
+  )
+
+  return (
+    <section
+      aria-labelledby="reviews-heading"
+      className="max-w-[var(--page-max-width)] mx-auto px-[var(--page-padding-x)] py-8 border-t border-[var(--fg-10)]"
+    >
+      <div className="flex items-center gap-3 mb-4">
+        <h2 id="reviews-heading" className="text-lg font-semibold text-[var(--fg)]">
+          {t("reviews", locale)}
+        </h2>
+        {rating !== undefined && reviewCount ? (
+          <span className="flex items-center gap-1.5 text-sm text-[var(--fg-70)]">
+            <RatingStars rating={rating} />
+            <span className="font-medium">{format.rating(rating)}</span>
+            <span className="text-[var(--fg-50)]">({tPlural("reviewCount", reviewCount, locale)})</span>
+          </span>
+        ) : null}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {/* Compose - one review per user, so the form disappears once they have one */}
+      <div className="mb-6">
+        {!viewer ? (
+          <a href={withNext("/login", pathname)} className="text-sm font-medium text-[var(--color-primary)]">
+            {t("signInToReview", locale)}
+          </a>
+        ) : !ownReview ? (
+          <>
+            <h3 className="text-sm font-medium text-[var(--fg)] mb-2">{t("writeReview", locale)}</h3>
+            <ReviewForm
+              key={reviews.length}
+              initial={EMPTY_DRAFT}
+              submitLabel={t("submitReview", locale)}
+              pending={isPending}
+              onSubmit={handleCreate}
+              locale={locale}
+            />
+          </>
+        ) : null}
+      </div>
+
+      {visibleReviews.length === 0 ? (
+        <p className="text-sm text-[var(--fg-50)]">{t("noReviewsYet", locale)}</p>
+      ) : (
+        <ul className="space-y-4">
+          {visibleReviews.map((review) => {
+            const isOwn = review.userId === viewer?.id
+            const canEdit = isOwn || canModerate
+
+            if (editingId === review.id) {
+              return (
+                <li key={review.id}>
+                  <h3 className="text-sm font-medium text-[var(--fg)] mb-2">{t("editReview", locale)}</h3>
+                  <ReviewForm
+                    initial={{ rating: review.rating, title: review.title, content: review.content }}
+                    submitLabel={t("saveReview", locale)}
+                    pending={isPending}
+                    onSubmit={(draft) => handleUpdate(review.id, draft)}
+                    onCancel={() => setEditingId(null)}
+                    locale={locale}
+                  />
+                </li>
+              )
+            }
+
+            return (
+              <li key={review.id} className="p-4 rounded-xl bg-[var(--fg-5)]">
+                <div className="flex items-center justify-between gap-3 mb-1">
+                  <RatingStars rating={review.rating} />
+                  <span className="text-xs text-[var(--fg-40)]">
+                    {review.authorName || t("anonymousReviewer", locale)} ·{" "}
+                    {format.date(review.createdAt)}
+                  </span>
+                </div>
+                {review.status !== "approved" && (
+                  <span className="inline-block mb-1 px-2 py-0.5 rounded-full bg-[var(--color-warning)]/10 text-[var(--color-warning)] text-xs font-medium">
+                    {t(review.status === "pending" ? "reviewPending" : "reviewNotPublished", locale)}
+                  </span>
+                )}
+                <p className="text-sm font-semibold text-[var(--fg)]">{review.title}</p>
+                <p className="text-sm text-[var(--fg-70)] leading-relaxed whitespace-pre-line">{review.content}</p>
+
+                {canEdit && (
+                  <div className="flex items-center gap-3 mt-2 text-xs">
+                    {deleteConfirmId === review.id ? (
+                      <>
+                        <span className="text-[var(--fg-70)]">{t("confirmDeleteReview", locale)}</span>
+                        <button
+                          type="button"
+                          disabled={isPending}
+                          onClick={() => handleDelete(review.id)}
+                          className="font-medium text-red-700 hover:text-red-800 disabled:opacity-50"
+                        >
+                          {t("deleteReview", locale)}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setDeleteConfirmId(null)}
+                          className="text-[var(--fg-50)] hover:text-[var(--fg)]"
+                        >
+                          {t("cancel", locale)}
+                        </button>
+                      </>
+                    ) : (
+                      <>
+                        <button
+                          type="button"
+                          onClick={() => setEditingId(review.id)}
+                          className="font-medium text-[var(--color-primary)] hover:underline"
+                        >
+                          {t("editReview", locale)}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setDeleteConfirmId(review.id)}
+                          className="text-[var(--fg-50)] hover:text-red-700"
+                        >
+                          {t("deleteReview", locale)}
+                        </button>
+                      </>
+                    )}
+                  </div>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </section>
+  )
+}
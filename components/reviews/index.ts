@@ -0,0 +1,2 @@
+export { RatingStars, RatingBadge } from "./RatingStars"
+export { ReviewSection, type ReviewViewer } from "./ReviewSection"
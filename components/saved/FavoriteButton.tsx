@@ -0,0 +1,47 @@
+"use client"
+
+import { Heart } from "lucide-react"
+import { useCallback } from "react"
+import { useLanguage } from "@/context/LanguageProvider"
+import { useSavedRestaurants } from "@/context/SavedRestaurantsProvider"
+import { t } from "@/lib/translations"
+
+interface FavoriteButtonProps {
+  restaurantId: string
+  /** "overlay" sits on top of card images; "plain" sits on the page background */
+  tone?: "overlay" | "plain"
+  className?: string
+}
+
+const TONE_CLASSES = {
+  overlay: "bg-black/40 backdrop-blur-md text-white",
+  plain: "bg-[var(--fg-5)] text-[var(--fg)] hover:bg-[var(--fg-10)]",
+} as const
+
+export function FavoriteButton({ restaurantId, tone = "overlay", className = "" }: FavoriteButtonProps) {
+  const { language } = useLanguage()
+  const { isFavorite, toggleFavorite } = useSavedRestaurants()
+  const active = isFavorite(restaurantId)
+
+  const handleClick = useCallback(
+    (e: React.MouseEvent) => {
+      // Cards are wrapped in links; the heart must not navigate
+      e.preventDefault()
+      e.stopPropagation()
+      void toggleFavorite(restaurantId)
+    },
+    [restaurantId, toggleFavorite]
+  )
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      aria-pressed={active}
+      aria-label={t(active ? "removeFromFavorites" : "addToFavorites", language)}
+      className={`flex items-center justify-center w-8 h-8 rounded-full ${TONE_CLASSES[tone]} transition-transform active:scale-90 ${className}`}
+    >
+      <Heart className={`w-4 h-4 ${active ? "fill-[var(--color-primary)] text-[var(--color-primary)]" : ""}`} strokeWidth={2} />
+    </button>
+  )
+}
@@ -0,0 +1,83 @@
+"use client"
+
+import { ListPlus } from "lucide-react"
+import { useCallback, useState } from "react"
+import { useLanguage } from "@/context/LanguageProvider"
+import { useSavedRestaurants } from "@/context/SavedRestaurantsProvider"
+import { t } from "@/lib/translations"
+
+interface ShortlistPickerProps {
+  restaurantId: string
+}
+
+export function ShortlistPicker({ restaurantId }: ShortlistPickerProps) {
+  const { language } = useLanguage()
+  const { shortlists, createShortlist, toggleInShortlist, error } = useSavedRestaurants()
+  const [isOpen, setIsOpen] = useState(false)
+  const [name, setName] = useState("")
+
+  const handleCreate = useCallback(
+    async (e: React.FormEvent) => {
+      e.preventDefault()
+      const shortlist = await createShortlist(name)
+      if (!shortlist) return
+      setName("")
+      await toggleInShortlist(shortlist.id, restaurantId)
+    },
+    [name, restaurantId, createShortlist, toggleInShortlist]
+  )
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        aria-expanded={isOpen}
+        className="flex items-center gap-1.5 px-3 py-1.5 rounded-full border border-[var(--fg-10)] text-sm text-[var(--fg)] hover:bg-[var(--fg-5)]"
+      >
+        <ListPlus className="w-4 h-4" strokeWidth={1.5} />
+        {t("saveToList", language)}
+      </button>
+
+      {isOpen && (
+        <div className="absolute z-50 mt-2 w-64 p-3 rounded-[var(--radius-lg)] bg-[var(--bg)] shadow-[var(--shadow-lg)] border border-[var(--fg-10)]">
+          {shortlists.length === 0 ? (
+            <p className="text-xs text-[var(--fg-50)] mb-2">{t("noListsYet", language)}</p>
+          ) : (
+            <ul className="flex flex-col gap-1 mb-2 max-h-48 overflow-y-auto">
+              {shortlists.map((list) => (
+                <li key={list.id}>
+                  <label className="flex items-center gap-2 text-sm text-[var(--fg)] cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={list.restaurantIds.includes(restaurantId)}
+                      onChange={() => void toggleInShortlist(list.id, restaurantId)}
+                    />
+                    <span className="line-clamp-1">{list.name}</span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <form onSubmit={handleCreate} className="flex gap-2">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={60}
+              placeholder={t("newListPlaceholder", language)}
+              aria-label={t("newList", language)}
+              className="flex-1 min-w-0 px-2 py-1 rounded-md border border-[var(--fg-10)] bg-transparent text-sm text-[var(--fg)]"
+            />
+            <button type="submit" disabled={!name.trim()} className="px-2 py-1 rounded-md bg-[var(--color-primary)] text-white text-sm disabled:opacity-50">
+              {t("createList", language)}
+            </button>
+          </form>
+
+          {error && <p role="alert" className="mt-2 text-xs text-[var(--color-error)]">{error}</p>}
+        </div>
+      )}
+    </div>
+  )
+}
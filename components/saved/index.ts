@@ -0,0 +1,2 @@
+export { FavoriteButton } from "./FavoriteButton"
+export { ShortlistPicker } from "./ShortlistPicker"
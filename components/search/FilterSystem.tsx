@@ -2,7 +2,11 @@
 
 import { X } from "lucide-react"
 import { useMemo, useCallback } from "react"
-import type { MealType, AtmosphereType } from "@/types/restaurant"
+import { PRICE_BUCKETS, getLocalizedText, type MealType, type AtmosphereType, type PriceBucketId, type UAEEmirate } from "@/types/restaurant"
+import { useFormatter } from "@/context/LanguageProvider"
+import type { Language } from "@/lib/language.types"
+import type { LocationOption } from "@/lib/results-query"
+import { getEmirateLabel, t, type TranslationKey } from "@/lib/translations"
 
 /* =========================
    Types
@@ -24,43 +28,59 @@ export type CuisineOption =
 
 export type MealOption = "all" | MealType
 export type AtmosphereOption = "all" | AtmosphereType
+export type EmirateOption = "all" | UAEEmirate
 
 /* =========================
    Static Options
 ========================= */
 
-const CUISINES = [
-  { id: "all", label: "Cuisine" },
-  { id: "emirati", label: "Emirati" },
-  { id: "arabic", label: "Arabic" },
-  { id: "lebanese", label: "Lebanese" },
-  { id: "indian", label: "Indian" },
-  { id: "pakistani", label: "Pakistani" },
-  { id: "chinese", label: "Chinese" },
-  { id: "japanese", label: "Japanese" },
-  { id: "thai", label: "Thai" },
-  { id: "italian", label: "Italian" },
-  { id: "seafood", label: "Seafood" },
-  { id: "international", label: "International" },
-] as const
-
-const MEALS = [
-  { id: "all", label: "Meal" },
-  { id: "Breakfast", label: "Breakfast" },
-  { id: "Lunch", label: "Lunch" },
-  { id: "Dinner", label: "Dinner" },
-] as const
-
-const ATMOSPHERES = [
-  { id: "all", label: "Atmosphere" },
-  { id: "Romantic", label: "Romantic" },
-  { id: "Casual", label: "Casual" },
-  { id: "Fine Dining", label: "Fine Dining" },
-  { id: "Outdoor", label: "Outdoor" },
-  { id: "Family Friendly", label: "Family Friendly" },
-  { id: "Live Music", label: "Live Music" },
-  { id: "View", label: "View" },
-] as const
+interface StaticOption<T extends string> {
+  id: T
+  labelKey: TranslationKey
+}
+
+const CUISINES: readonly StaticOption<CuisineOption>[] = [
+  { id: "all", labelKey: "cuisine" },
+  { id: "emirati", labelKey: "cuisineEmirati" },
+  { id: "arabic", labelKey: "cuisineArabic" },
+  { id: "lebanese", labelKey: "cuisineLebanese" },
+  { id: "indian", labelKey: "cuisineIndian" },
+  { id: "pakistani", labelKey: "cuisinePakistani" },
+  { id: "chinese", labelKey: "cuisineChinese" },
+  { id: "japanese", labelKey: "cuisineJapanese" },
+  { id: "thai", labelKey: "cuisineThai" },
+  { id: "italian", labelKey: "cuisineItalian" },
+  { id: "seafood", labelKey: "cuisineSeafood" },
+  { id: "international", labelKey: "cuisineInternational" },
+]
+
+const MEALS: readonly StaticOption<MealOption>[] = [
+  { id: "all", labelKey: "meal" },
+  { id: "Breakfast", labelKey: "mealBreakfast" },
+  { id: "Lunch", labelKey: "mealLunch" },
+  { id: "Dinner", labelKey: "mealDinner" },
+]
+
+const ATMOSPHERES: readonly StaticOption<AtmosphereOption>[] = [
+  { id: "all", labelKey: "atmosphere" },
+  { id: "Romantic", labelKey: "atmosphereRomantic" },
+  { id: "Casual", labelKey: "atmosphereCasual" },
+  { id: "Fine Dining", labelKey: "atmosphereFineDining" },
+  { id: "Outdoor", labelKey: "atmosphereOutdoor" },
+  { id: "Family Friendly", labelKey: "atmosphereFamilyFriendly" },
+  { id: "Live Music", labelKey: "atmosphereLiveMusic" },
+  { id: "View", labelKey: "atmosphereView" },
+]
+
+function translateOptions<T extends string>(options: readonly StaticOption<T>[], locale: Language) {
+  return options.map((option) => ({ id: option.id, label: t(option.labelKey, locale) }))
+}
+
+/** Label of the selected option, for its active-filter badge */
+function optionLabel<T extends string>(options: readonly StaticOption<T>[], id: T, locale: Language): string {
+  const option = options.find((o) => o.id === id)
+  return option ? t(option.labelKey, locale) : id
+}
 
 /* =========================
    Dropdown Component
@@ -92,10 +112,73 @@ function Dropdown({ label, value, onChange, options }: DropdownProps) {
 }
 
 /* =========================
-   Active Badge Component
+   Filter Colors
 ========================= */
 
-type FilterType = "cuisine" | "meal" | "atmosphere"
+type FilterType = "cuisine" | "meal" | "atmosphere" | "price" | "location"
+
+const FILTER_COLORS: Record<FilterType, string> = {
+  cuisine: "bg-[var(--color-primary)]/10 text-[var(--color-primary)]",
+  meal: "bg-[var(--color-secondary)]/10 text-[var(--color-secondary)]",
+  atmosphere: "bg-[var(--color-success)]/10 text-[var(--color-success)]",
+  price: "bg-[var(--color-warning)]/10 text-[var(--color-warning)]",
+  location: "bg-[var(--fg-10)] text-[var(--fg-70)]",
+}
+
+/* =========================
+   Toggle Chips Component
+========================= */
+
+interface ToggleChipOption<T extends string | number> {
+  id: T
+  label: string
+  /** Shown next to the label; options with no matches are disabled */
+  count?: number
+}
+
+interface ToggleChipsProps<T extends string | number> {
+  label: string
+  options: readonly ToggleChipOption<T>[]
+  selected: readonly T[]
+  onToggle: (id: T) => void
+  type: FilterType
+}
+
+function ToggleChips<T extends string | number>({ label, options, selected, onToggle, type }: ToggleChipsProps<T>) {
+  return (
+    <div
+      role="group"
+      aria-label={label}
+      className="flex items-center gap-[var(--spacing-xs)] overflow-x-auto pb-[var(--spacing-xs)] scrollbar-hide"
+    >
+      {options.map((option) => {
+        const isSelected = selected.includes(option.id)
+
+        return (
+          <button
+            key={option.id}
+            type="button"
+            onClick={() => onToggle(option.id)}
+            aria-pressed={isSelected}
+            disabled={!isSelected && option.count === 0}
+            className={`flex-shrink-0 px-3 py-1.5 rounded-full border text-xs font-medium transition-all disabled:opacity-40 disabled:cursor-not-allowed ${
+              isSelected
+                ? `${FILTER_COLORS[type]} border-current`
+                : "bg-white border-[var(--fg-20)] text-[var(--fg)] hover:border-[var(--fg-30)]"
+            }`}
+          >
+            {option.label}
+            {option.count !== undefined && <span className="ms-1 opacity-60">({option.count})</span>}
+          </button>
+        )
+      })}
+    </div>
+  )
+}
+
+/* =========================
+   Active Badge Component
+========================= */
 
 function ActiveBadge({
   label,
@@ -106,19 +189,13 @@ function ActiveBadge({
   onRemove: () => void
   type: FilterType
 }) {
-  const colors = {
-    cuisine: "bg-[var(--color-primary)]/10 text-[var(--color-primary)]",
-    meal: "bg-[var(--color-secondary)]/10 text-[var(--color-secondary)]",
-    atmosphere: "bg-[var(--color-success)]/10 text-[var(--color-success)]",
-  }
-
   return (
     <button
       onClick={onRemove}
-      className={`flex-shrink-0 flex items-center gap-1.5 px-3 py-1.5 rounded-full ${colors[type]} text-xs font-medium hover:opacity-80 transition-opacity`}
+      className={`flex-shrink-0 flex items-center gap-1.5 ps-3 pe-2 py-1.5 rounded-full ${FILTER_COLORS[type]} text-xs font-medium hover:opacity-80 transition-opacity`}
     >
       {label}
-      <X className="w-3 h-3" />
+      <X className="w-3 h-3" aria-hidden="true" />
     </button>
   )
 }
@@ -134,6 +211,18 @@ interface FilterSystemProps {
   onMealChange: (v: MealOption) => void
   atmosphere: AtmosphereOption
   onAtmosphereChange: (v: AtmosphereOption) => void
+  price: PriceBucketId[]
+  onPriceChange: (v: PriceBucketId[]) => void
+  /** Matching restaurants per price bucket under the other active filters */
+  priceCounts: Record<PriceBucketId, number>
+  emirate: EmirateOption
+  /** Expected to clear the district selection, which belongs to the previous emirate */
+  onEmirateChange: (v: EmirateOption) => void
+  district: string[]
+  onDistrictChange: (v: string[]) => void
+  /** Emirates and districts present in the dataset */
+  locationOptions: readonly LocationOption[]
+  locale?: Language
 }
 
 export function FilterSystem({
@@ -143,50 +232,138 @@ export function FilterSystem({
   onMealChange,
   atmosphere,
   onAtmosphereChange,
+  price,
+  onPriceChange,
+  priceCounts,
+  emirate,
+  onEmirateChange,
+  district,
+  onDistrictChange,
+  locationOptions,
+  locale = "ar",
 }: FilterSystemProps) {
   // Stable remove callbacks
   const handleRemoveCuisine = useCallback(() => onCuisineChange("all"), [onCuisineChange])
   const handleRemoveMeal = useCallback(() => onMealChange("all"), [onMealChange])
   const handleRemoveAtmosphere = useCallback(() => onAtmosphereChange("all"), [onAtmosphereChange])
+  const handleTogglePrice = useCallback(
+    (id: PriceBucketId) =>
+      onPriceChange(price.includes(id) ? price.filter((p) => p !== id) : [...price, id].sort((a, b) => a - b)),
+    [price, onPriceChange]
+  )
+  const handleRemoveEmirate = useCallback(() => onEmirateChange("all"), [onEmirateChange])
+  const handleToggleDistrict = useCallback(
+    (id: string) => onDistrictChange(district.includes(id) ? district.filter((d) => d !== id) : [...district, id]),
+    [district, onDistrictChange]
+  )
+
+  const format = useFormatter(locale)
+  const cuisineOptions = useMemo(() => translateOptions(CUISINES, locale), [locale])
+  const mealOptions = useMemo(() => translateOptions(MEALS, locale), [locale])
+  const atmosphereOptions = useMemo(() => translateOptions(ATMOSPHERES, locale), [locale])
+
+  const priceOptions = useMemo(
+    () => PRICE_BUCKETS.map((bucket) => ({ id: bucket.id, label: format.priceBucket(bucket.id), count: priceCounts[bucket.id] })),
+    [priceCounts, format]
+  )
+
+  const emirateOptions = useMemo(
+    () => [
+      { id: "all", label: t("emirate", locale) },
+      ...locationOptions.map((option) => ({ id: option.emirate, label: getEmirateLabel(option.emirate, locale) })),
+    ],
+    [locationOptions, locale]
+  )
+
+  // Cascade: districts are offered only for the selected emirate
+  const districtOptions = useMemo(
+    () =>
+      locationOptions
+        .find((option) => option.emirate === emirate)
+        ?.districts.map((d) => ({ id: d.id, label: getLocalizedText(d.name, locale) })) ?? [],
+    [locationOptions, emirate, locale]
+  )
+
+  // Selected districts may come from a link, so look their names up across all emirates
+  const districtLabels = useMemo(
+    () =>
+      new Map(
+        locationOptions.flatMap((option) => option.districts.map((d) => [d.id, getLocalizedText(d.name, locale)] as const))
+      ),
+    [locationOptions, locale]
+  )
 
   // Memoize activeFilters to prevent recreation on every render
   const activeFilters = useMemo(() => [
-    cuisine !== "all" ? { label: cuisine, remove: handleRemoveCuisine, type: "cuisine" as FilterType } : null,
-    meal !== "all" ? { label: meal, remove: handleRemoveMeal, type: "meal" as FilterType } : null,
-    atmosphere !== "all" ? { label: atmosphere, remove: handleRemoveAtmosphere, type: "atmosphere" as FilterType } : null,
-  ].filter(Boolean), [cuisine, meal, atmosphere, handleRemoveCuisine, handleRemoveMeal, handleRemoveAtmosphere])
+    cuisine !== "all" ? { label: optionLabel(CUISINES, cuisine, locale), remove: handleRemoveCuisine, type: "cuisine" as FilterType } : null,
+    meal !== "all" ? { label: optionLabel(MEALS, meal, locale), remove: handleRemoveMeal, type: "meal" as FilterType } : null,
+    atmosphere !== "all" ? { label: optionLabel(ATMOSPHERES, atmosphere, locale), remove: handleRemoveAtmosphere, type: "atmosphere" as FilterType } : null,
+    ...price.map((id) => ({ label: format.priceBucket(id), remove: () => handleTogglePrice(id), type: "price" as FilterType })),
+    emirate !== "all" ? { label: getEmirateLabel(emirate, locale), remove: handleRemoveEmirate, type: "location" as FilterType } : null,
+    ...district.map((d) => ({ label: districtLabels.get(d) ?? d, remove: () => handleToggleDistrict(d), type: "location" as FilterType })),
+  ].filter(Boolean), [cuisine, meal, atmosphere, price, emirate, district, districtLabels, locale, format, handleRemoveCuisine, handleRemoveMeal, handleRemoveAtmosphere, handleTogglePrice, handleRemoveEmirate, handleToggleDistrict])
 
   return (
     <div className="space-y-[var(--spacing-md)]">
       {/* Dropdowns - always horizontal */}
       <div className="flex justify-center gap-[var(--spacing-xs)]">
         <Dropdown
-          label="Meal"
+          label={t("meal", locale)}
           value={meal}
           onChange={(v) => onMealChange(v as MealOption)}
-          options={MEALS}
+          options={mealOptions}
         />
         <Dropdown
-          label="Cuisine"
+          label={t("cuisine", locale)}
           value={cuisine}
           onChange={(v) => onCuisineChange(v as CuisineOption)}
-          options={CUISINES}
+          options={cuisineOptions}
         />
         <Dropdown
-          label="Atmosphere"
+          label={t("atmosphere", locale)}
           value={atmosphere}
           onChange={(v) => onAtmosphereChange(v as AtmosphereOption)}
-          options={ATMOSPHERES}
+          options={atmosphereOptions}
         />
       </div>
 
+      {/* Price buckets - multi-select with live counts */}
+      <ToggleChips
+        label={t("priceFilter", locale)}
+        options={priceOptions}
+        selected={price}
+        onToggle={handleTogglePrice}
+        type="price"
+      />
+
+      {/* Location - emirate, then multi-select districts within it */}
+      <div className="space-y-[var(--spacing-xs)]">
+        <div className="flex">
+          <Dropdown
+            label={t("emirate", locale)}
+            value={emirate}
+            onChange={(v) => onEmirateChange(v as EmirateOption)}
+            options={emirateOptions}
+          />
+        </div>
+        {districtOptions.length > 0 && (
+          <ToggleChips
+            label={t("district", locale)}
+            options={districtOptions}
+            selected={district}
+            onToggle={handleToggleDistrict}
+            type="location"
+          />
+        )}
+      </div>
+
       {/* Active Filters - scrollable in one line */}
       {activeFilters.length > 0 && (
         <div className="flex items-center gap-[var(--spacing-xs)] overflow-x-auto pb-[var(--spacing-xs)] scrollbar-hide">
-          <span className="text-xs text-[var(--fg-50)] flex-shrink-0">Active filters:</span>
+          <span className="text-xs text-[var(--fg-50)] flex-shrink-0">{t("activeFilters", locale)}</span>
           {activeFilters.map((filter) => (
             <ActiveBadge
-              key={filter!.label}
+              key={`${filter!.type}-${filter!.label}`}
               label={filter!.label}
               onRemove={filter!.remove}
               type={filter!.type}
@@ -0,0 +1,29 @@
+import { findMatchRanges } from "@/lib/search"
+
+interface HighlightProps {
+  text: string
+  query?: string
+}
+
+/**
+ * Render text with the parts matching a search query marked
+ */
+export function Highlight({ text, query }: HighlightProps) {
+  const ranges = query ? findMatchRanges(text, query) : []
+  if (ranges.length === 0) return <>{text}</>
+
+  const parts: React.ReactNode[] = []
+  let cursor = 0
+  for (const [start, end] of ranges) {
+    if (start > cursor) parts.push(text.slice(cursor, start))
+    parts.push(
+      <mark key={start} className="bg-[var(--color-primary)]/15 text-inherit rounded-sm">
+        {text.slice(start, end)}
+      </mark>
+    )
+    cursor = end
+  }
+  if (cursor < text.length) parts.push(text.slice(cursor))
+
+  return <>{parts}</>
+}
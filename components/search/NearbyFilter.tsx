@@ -0,0 +1,107 @@
+"use client"
+
+import { LocateFixed } from "lucide-react"
+import { UAE_EMIRATES, type UAEEmirate } from "@/types/restaurant"
+import { RADIUS_OPTIONS_KM, type RadiusKm, type ResultsQuery } from "@/lib/results-query"
+import type { Language } from "@/lib/language.types"
+import { getEmirateLabel, t } from "@/lib/translations"
+
+/* =========================
+   Types
+========================= */
+
+export type LocationStatus = "idle" | "locating" | "denied"
+
+interface NearbyFilterProps {
+  near: ResultsQuery["near"]
+  radius: ResultsQuery["radius"]
+  /** Whether an origin is known (device location resolved or emirate chosen) */
+  hasOrigin: boolean
+  locationStatus: LocationStatus
+  onNearMe: () => void
+  onNearEmirate: (emirate: UAEEmirate | undefined) => void
+  onRadiusChange: (radius: RadiusKm | undefined) => void
+  locale?: Language
+}
+
+/* =========================
+   Main Component
+========================= */
+
+export function NearbyFilter({
+  near,
+  radius,
+  hasOrigin,
+  locationStatus,
+  onNearMe,
+  onNearEmirate,
+  onRadiusChange,
+  locale = "ar",
+}: NearbyFilterProps) {
+  const isNearMe = near === "me"
+  // Offer emirate centers once the device location is unavailable or already bypassed
+  const showAreaPicker = locationStatus === "denied" || (near !== undefined && near !== "me")
+
+  return (
+    <div className="space-y-[var(--spacing-xs)]">
+      <div className="flex items-center gap-[var(--spacing-xs)] overflow-x-auto pb-[var(--spacing-xs)] scrollbar-hide">
+        <button
+          type="button"
+          onClick={onNearMe}
+          aria-pressed={isNearMe}
+          className={`flex-shrink-0 flex items-center gap-1.5 px-3 py-1.5 rounded-full border text-xs font-medium transition-all ${
+            isNearMe
+              ? "bg-[var(--color-primary)]/10 border-current text-[var(--color-primary)]"
+              : "bg-white border-[var(--fg-20)] text-[var(--fg)] hover:border-[var(--fg-30)]"
+          }`}
+        >
+          <LocateFixed className="w-3.5 h-3.5" aria-hidden="true" />
+          {locationStatus === "locating" ? t("locatingYou", locale) : t("nearMe", locale)}
+        </button>
+
+        {hasOrigin && (
+          <div role="group" aria-label={t("distanceFilter", locale)} className="flex items-center gap-[var(--spacing-xs)]">
+            {RADIUS_OPTIONS_KM.map((km) => (
+              <button
+                key={km}
+                type="button"
+                onClick={() => onRadiusChange(radius === km ? undefined : km)}
+                aria-pressed={radius === km}
+                className={`flex-shrink-0 px-3 py-1.5 rounded-full border text-xs font-medium transition-all ${
+                  radius === km
+                    ? "bg-[var(--color-primary)]/10 border-current text-[var(--color-primary)]"
+                    : "bg-white border-[var(--fg-20)] text-[var(--fg)] hover:border-[var(--fg-30)]"
+                }`}
+              >
+                {km} {t("kilometers", locale)}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {showAreaPicker && (
+        <div className="flex flex-wrap items-center gap-[var(--spacing-xs)]">
+          {locationStatus === "denied" && isNearMe && (
+            <p role="status" className="text-xs text-[var(--fg-50)]">
+              {t("locationDenied", locale)}
+            </p>
+          )}
+          <select
+            value={near && near !== "me" ? near : ""}
+            onChange={(e) => onNearEmirate((e.target.value || undefined) as UAEEmirate | undefined)}
+            aria-label={t("chooseArea", locale)}
+            className="appearance-none bg-white border border-[var(--fg-20)] rounded-[var(--radius-lg)] px-[var(--spacing-sm)] py-[var(--spacing-xs)] text-xs font-medium text-[var(--fg)] cursor-pointer transition-all hover:border-[var(--fg-30)] focus:outline-none focus:ring-2 focus:ring-[var(--color-primary)] focus:border-transparent"
+          >
+            <option value="">{t("chooseArea", locale)}</option>
+            {UAE_EMIRATES.map((emirate) => (
+              <option key={emirate} value={emirate}>
+                {getEmirateLabel(emirate, locale)}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+    </div>
+  )
+}
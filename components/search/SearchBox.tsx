@@ -0,0 +1,69 @@
+"use client"
+
+import { Search, X } from "lucide-react"
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { debounce } from "@/lib/utils"
+
+const SEARCH_DEBOUNCE_MS = 300
+
+interface SearchBoxProps {
+  value?: string
+  onSearch: (value: string) => void
+  placeholder: string
+  clearLabel: string
+}
+
+export function SearchBox({ value = "", onSearch, placeholder, clearLabel }: SearchBoxProps) {
+  const [input, setInput] = useState(value)
+
+  const debouncedSearch = useMemo(
+    () => debounce((next: string) => onSearch(next.trim()), SEARCH_DEBOUNCE_MS),
+    [onSearch]
+  )
+
+  // Follow external changes (back/forward navigation) without clobbering what is being typed
+  useEffect(() => {
+    setInput((prev) => (prev.trim() === value ? prev : value))
+  }, [value])
+
+  const handleChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    setInput(e.target.value)
+    debouncedSearch(e.target.value)
+  }, [debouncedSearch])
+
+  const handleClear = useCallback(() => {
+    setInput("")
+    onSearch("")
+    // Supersede any pending keystroke so it cannot restore the old query
+    debouncedSearch("")
+  }, [onSearch, debouncedSearch])
+
+  return (
+    <div className="relative">
+      <Search
+        className="absolute start-[var(--spacing-sm)] top-1/2 -translate-y-1/2 w-[var(--icon-size-md)] h-[var(--icon-size-md)] text-[var(--fg-50)] pointer-events-none"
+        aria-hidden="true"
+      />
+      <input
+        type="search"
+        dir="auto"
+        value={input}
+        onChange={handleChange}
+        placeholder={placeholder}
+        aria-label={placeholder}
+        maxLength={200}
+        className="w-full bg-white border border-[var(--fg-20)] rounded-[var(--radius-lg)] ps-10 pe-10 py-[var(--spacing-xs)] text-sm text-[var(--fg)] transition-all hover:border-[var(--fg-30)] focus:outline-none focus:ring-2 focus:ring-[var(--color-primary)] focus:border-transparent [&::-webkit-search-cancel-button]:hidden"
+      />
+      {input && (
+        <button
+          type="button"
+          onClick={handleClear}
+          className="absolute end-[var(--spacing-xs)] top-1/2 -translate-y-1/2 p-1 rounded-full text-[var(--fg-50)] hover:text-[var(--fg)] hover:bg-[var(--fg-5)] transition-colors"
+          aria-label={clearLabel}
+        >
+          <X className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  )
+}
@@ -3,4 +3,8 @@ export type {
   CuisineOption,
   MealOption,
   AtmosphereOption,
+  EmirateOption,
 } from "./FilterSystem"
+export { SearchBox } from "./SearchBox"
+export { Highlight } from "./Highlight"
+export { NearbyFilter, type LocationStatus } from "./NearbyFilter"
@@ -5,17 +5,19 @@
 "use client"
 
 import { createContext, useContext, useState, useCallback, useEffect, useMemo, useRef, type ReactNode } from "react"
-import {
-  DEFAULT_LANGUAGE,
-  getLanguageButtonLabel,
-  getToggleLanguage,
-  type Language,
-} from "@/lib/language.types"
+import { createFormatter, DEFAULT_DIGIT_STYLE, type DigitStyle, type Formatter } from "@/lib/format"
+import { getDirection } from "@/lib/i18n"
+import { DEFAULT_LANGUAGE, type Language } from "@/lib/language.types"
 
 interface LanguageContextValue {
   language: Language
-  buttonLabel: string
-  toggleLanguage: () => Promise<void>
+  /** Text direction of the active language */
+  dir: "ltr" | "rtl"
+  /** Persist the language and switch to it without a reload */
+  setLanguage: (language: Language) => Promise<void>
+  /** Latin or Arabic-Indic digits in formatted numbers and dates */
+  digits: DigitStyle
+  setDigits: (digits: DigitStyle) => Promise<void>
 }
 
 const LanguageContext = createContext<LanguageContextValue | undefined>(undefined)
@@ -23,10 +25,12 @@ const LanguageContext = createContext<LanguageContextValue | undefined>(undefine
 interface LanguageProviderProps {
   children: ReactNode
   initialLanguage: Language
+  initialDigits?: DigitStyle
 }
 
-export function LanguageProvider({ children, initialLanguage }: LanguageProviderProps) {
-  const [language, setLanguage] = useState<Language>(initialLanguage)
+export function LanguageProvider({ children, initialLanguage, initialDigits = DEFAULT_DIGIT_STYLE }: LanguageProviderProps) {
+  const [language, setCurrentLanguage] = useState<Language>(initialLanguage)
+  const [digits, setCurrentDigits] = useState<DigitStyle>(initialDigits)
   const languageRef = useRef(language)
 
   // Keep ref in sync with state
@@ -34,36 +38,54 @@ export function LanguageProvider({ children, initialLanguage }: LanguageProvider
     languageRef.current = language
   }, [language])
 
-  const toggleLanguage = useCallback(async () => {
-    const currentLanguage = languageRef.current
-    const nextLanguage = getToggleLanguage(currentLanguage)
+  const setLanguage = useCallback(async (nextLanguage: Language) => {
+    if (nextLanguage === languageRef.current) return
 
     try {
       const response = await fetch("/api/language", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ currentLanguage }),
+        body: JSON.stringify({ language: nextLanguage }),
       })
 
       if (response.ok) {
         const { language: newLang } = await response.json()
-        setLanguage(newLang)
-        // Update HTML lang attribute without reload
+        setCurrentLanguage(newLang)
+        // Update HTML lang and dir attributes without reload
         document.documentElement.lang = newLang
+        document.documentElement.dir = getDirection(newLang)
       }
     } catch (error) {
-      console.error("Failed to toggle language:", error)
+      console.error("Failed to change language:", error)
     }
   }, []) // No dependencies - uses ref instead
 
+  const setDigits = useCallback(async (nextDigits: DigitStyle) => {
+    try {
+      const response = await fetch("/api/language", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ digits: nextDigits }),
+      })
+
+      if (response.ok) {
+        setCurrentDigits(nextDigits)
+      }
+    } catch (error) {
+      console.error("Failed to change digit style:", error)
+    }
+  }, [])
+
   // Memoize context value to prevent unnecessary re-renders
   const value = useMemo<LanguageContextValue>(
     () => ({
       language,
-      buttonLabel: getLanguageButtonLabel(language),
-      toggleLanguage,
+      dir: getDirection(language),
+      setLanguage,
+      digits,
+      setDigits,
     }),
-    [language, toggleLanguage]
+    [language, setLanguage, digits, setDigits]
   )
 
   return <LanguageContext.Provider value={value}>{children}</LanguageContext.Provider>
@@ -74,9 +96,21 @@ export function useLanguage() {
   if (!context) {
     return {
       language: DEFAULT_LANGUAGE,
-      buttonLabel: getLanguageButtonLabel(DEFAULT_LANGUAGE),
-      toggleLanguage: async () => {},
+      dir: getDirection(DEFAULT_LANGUAGE),
+      setLanguage: async () => {},
+      digits: DEFAULT_DIGIT_STYLE,
+      setDigits: async () => {},
     }
   }
   return context
 }
+
+/**
+ * Formatters for the active language and digit style; components that take a
+ * `locale` prop pass it to override the language
+ */
+export function useFormatter(locale?: Language): Formatter {
+  const { language, digits } = useLanguage()
+  const active = locale ?? language
+  return useMemo(() => createFormatter({ language: active, digits }), [active, digits])
+}
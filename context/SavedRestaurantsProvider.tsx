@@ -0,0 +1,255 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   SAVED RESTAURANTS PROVIDER - Favorites and shortlists state
+
+   Signed-in users are backed by the DAL; anonymous users by localStorage,
+   which is merged into the account the first time they sign in.
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+"use client"
+
+import { createContext, useContext, useState, useCallback, useEffect, useMemo, useRef, type ReactNode } from "react"
+import {
+  createShortlistAction,
+  deleteShortlistAction,
+  getSavedRestaurantsAction,
+  mergeLocalSavedRestaurantsAction,
+  renameShortlistAction,
+  setFavoriteAction,
+  setShortlistMembershipAction,
+} from "@/actions/saved"
+import {
+  clearStoredSaved,
+  getStoredSaved,
+  hasStoredContent,
+  LOCAL_SHORTLIST_PREFIX,
+  setStoredSaved,
+} from "@/lib/saved-storage"
+import { EMPTY_SAVED_RESTAURANTS, type SavedRestaurants, type Shortlist } from "@/types/saved"
+
+interface SavedRestaurantsContextValue {
+  favorites: readonly string[]
+  shortlists: readonly Shortlist[]
+  /** False while saved data lives only on this device */
+  isSignedIn: boolean
+  error: string | null
+  isFavorite: (restaurantId: string) => boolean
+  toggleFavorite: (restaurantId: string) => Promise<void>
+  createShortlist: (name: string) => Promise<Shortlist | null>
+  renameShortlist: (id: string, name: string) => Promise<void>
+  deleteShortlist: (id: string) => Promise<void>
+  toggleInShortlist: (id: string, restaurantId: string) => Promise<void>
+  clearError: () => void
+}
+
+const SavedRestaurantsContext = createContext<SavedRestaurantsContextValue | undefined>(undefined)
+
+interface SavedRestaurantsProviderProps {
+  children: ReactNode
+  /** Signed-in user, resolved on the server; null for anonymous visitors */
+  userId: string | null
+}
+
+function replaceShortlist(saved: SavedRestaurants, shortlist: Shortlist): SavedRestaurants {
+  return { ...saved, shortlists: saved.shortlists.map((s) => (s.id === shortlist.id ? shortlist : s)) }
+}
+
+function toggleId(ids: readonly string[], id: string): string[] {
+  return ids.includes(id) ? ids.filter((i) => i !== id) : [...ids, id]
+}
+
+export function SavedRestaurantsProvider({ children, userId }: SavedRestaurantsProviderProps) {
+  const [saved, setSaved] = useState<SavedRestaurants>(EMPTY_SAVED_RESTAURANTS)
+  const [error, setError] = useState<string | null>(null)
+  const savedRef = useRef(saved)
+  const isSignedIn = userId !== null
+
+  // Keep ref in sync with state
+  useEffect(() => {
+    savedRef.current = saved
+  }, [saved])
+
+  // Load on mount and whenever the user signs in or out
+  useEffect(() => {
+    let cancelled = false
+    const local = getStoredSaved()
+
+    if (!userId) {
+      setSaved(local)
+      return
+    }
+
+    const load = hasStoredContent(local)
+      ? mergeLocalSavedRestaurantsAction({
+          favorites: local.favorites,
+          shortlists: local.shortlists.map(({ name, restaurantIds }) => ({ name, restaurantIds })),
+        })
+      : getSavedRestaurantsAction()
+
+    load.then((result) => {
+      if (cancelled) return
+      if (result.error || !result.data) {
+        setError(result.error)
+        return
+      }
+      if (hasStoredContent(local)) clearStoredSaved()
+      setSaved(result.data)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [userId])
+
+  // Anonymous changes persist on the device
+  useEffect(() => {
+    if (!isSignedIn) setStoredSaved(saved)
+  }, [saved, isSignedIn])
+
+  /**
+   * Apply a change immediately, then confirm it with the server.
+   * Rolled back if the server rejects it; anonymous changes need no confirmation.
+   */
+  const update = useCallback(
+    async <T,>(
+      change: (prev: SavedRestaurants) => SavedRestaurants,
+      remote?: () => Promise<{ data: T | null; error: string | null }>,
+      confirm?: (prev: SavedRestaurants, data: T) => SavedRestaurants
+    ) => {
+      const previous = savedRef.current
+      setError(null)
+      setSaved(change)
+
+      if (!isSignedIn || !remote) return
+
+      const result = await remote()
+      if (result.error || result.data === null) {
+        setSaved(previous)
+        setError(result.error)
+        return
+      }
+      if (confirm) setSaved((prev) => confirm(prev, result.data as T))
+    },
+    [isSignedIn]
+  )
+
+  const toggleFavorite = useCallback(
+    (restaurantId: string) => {
+      const saving = !savedRef.current.favorites.includes(restaurantId)
+      return update(
+        (prev) => ({ ...prev, favorites: toggleId(prev.favorites, restaurantId) }),
+        () => setFavoriteAction(restaurantId, saving)
+      )
+    },
+    [update]
+  )
+
+  const createShortlist = useCallback(
+    async (name: string): Promise<Shortlist | null> => {
+      const trimmed = name.trim()
+      if (!trimmed) return null
+      setError(null)
+
+      if (!isSignedIn) {
+        const now = new Date().toISOString()
+        const shortlist: Shortlist = {
+          id: `${LOCAL_SHORTLIST_PREFIX}${crypto.randomUUID()}`,
+          name: trimmed,
+          restaurantIds: [],
+          createdAt: now,
+          updatedAt: now,
+        }
+        setSaved((prev) => ({ ...prev, shortlists: [...prev.shortlists, shortlist] }))
+        return shortlist
+      }
+
+      const result = await createShortlistAction(trimmed)
+      if (result.error || !result.data) {
+        setError(result.error)
+        return null
+      }
+      const shortlist = result.data
+      setSaved((prev) => ({ ...prev, shortlists: [...prev.shortlists, shortlist] }))
+      return shortlist
+    },
+    [isSignedIn]
+  )
+
+  const renameShortlist = useCallback(
+    (id: string, name: string) =>
+      update(
+        (prev) => ({ ...prev, shortlists: prev.shortlists.map((s) => (s.id === id ? { ...s, name: name.trim() } : s)) }),
+        () => renameShortlistAction(id, name),
+        replaceShortlist
+      ),
+    [update]
+  )
+
+  const deleteShortlist = useCallback(
+    (id: string) =>
+      update(
+        (prev) => ({ ...prev, shortlists: prev.shortlists.filter((s) => s.id !== id) }),
+        () => deleteShortlistAction(id)
+      ),
+    [update]
+  )
+
+  const toggleInShortlist = useCallback(
+    (id: string, restaurantId: string) => {
+      const list = savedRef.current.shortlists.find((s) => s.id === id)
+      const including = !list?.restaurantIds.includes(restaurantId)
+      return update(
+        (prev) => ({
+          ...prev,
+          shortlists: prev.shortlists.map((s) =>
+            s.id === id ? { ...s, restaurantIds: toggleId(s.restaurantIds, restaurantId) } : s
+          ),
+        }),
+        () => setShortlistMembershipAction(id, restaurantId, including),
+        replaceShortlist
+      )
+    },
+    [update]
+  )
+
+  const clearError = useCallback(() => setError(null), [])
+
+  // Memoize context value to prevent unnecessary re-renders
+  const value = useMemo<SavedRestaurantsContextValue>(
+    () => ({
+      favorites: saved.favorites,
+      shortlists: saved.shortlists,
+      isSignedIn,
+      error,
+      isFavorite: (restaurantId) => saved.favorites.includes(restaurantId),
+      toggleFavorite,
+      createShortlist,
+      renameShortlist,
+      deleteShortlist,
+      toggleInShortlist,
+      clearError,
+    }),
+    [saved, isSignedIn, error, toggleFavorite, createShortlist, renameShortlist, deleteShortlist, toggleInShortlist, clearError]
+  )
+
+  return <SavedRestaurantsContext.Provider value={value}>{children}</SavedRestaurantsContext.Provider>
+}
+
+/** Read-only fallback for components rendered outside the provider */
+const NO_SAVED_RESTAURANTS: SavedRestaurantsContextValue = {
+  favorites: [],
+  shortlists: [],
+  isSignedIn: false,
+  error: null,
+  isFavorite: () => false,
+  toggleFavorite: async () => {},
+  createShortlist: async () => null,
+  renameShortlist: async () => {},
+  deleteShortlist: async () => {},
+  toggleInShortlist: async () => {},
+  clearError: () => {},
+}
+
+export function useSavedRestaurants() {
+  const context = useContext(SavedRestaurantsContext)
+  return context ?? NO_SAVED_RESTAURANTS
+}
@@ -0,0 +1,46 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   SESSION PROVIDER - Signed-in user and permissions for client UI
+
+   Resolved on the server per request. Only used to hide UI the user cannot
+   use; every page and action still verifies on the server.
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+"use client"
+
+import { createContext, useContext, useMemo, type ReactNode } from "react"
+import type { Permission } from "@/lib/security/permissions"
+
+export interface ClientSession {
+  userId: string | null
+  permissions: readonly Permission[]
+}
+
+interface SessionContextValue extends ClientSession {
+  can: (permission: Permission) => boolean
+}
+
+const ANONYMOUS_SESSION: ClientSession = { userId: null, permissions: [] }
+
+const SessionContext = createContext<SessionContextValue | undefined>(undefined)
+
+interface SessionProviderProps {
+  children: ReactNode
+  session: ClientSession
+}
+
+export function SessionProvider({ children, session }: SessionProviderProps) {
+  const value = useMemo<SessionContextValue>(
+    () => ({ ...session, can: (permission) => session.permissions.includes(permission) }),
+    [session]
+  )
+
+  return <SessionContext.Provider value={value}>{children}</SessionContext.Provider>
+}
+
+export function useSession() {
+  const context = useContext(SessionContext)
+  if (!context) {
+    return { ...ANONYMOUS_SESSION, can: () => false } satisfies SessionContextValue
+  }
+  return context
+}
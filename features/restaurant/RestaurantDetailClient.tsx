@@ -6,19 +6,31 @@
 
 import { MapPin } from "lucide-react"
 import { useNavigation } from "@/components/navigation/NavigationProvider"
-import { getPriceLabel } from "@/types/restaurant"
+import { getLocalizedText } from "@/types/restaurant"
 import type { ShadiRestaurant } from "@/types/restaurant"
+import type { Review } from "@/types/review"
+import { ReviewSection, type ReviewViewer } from "@/components/reviews"
+import { FavoriteButton, ShortlistPicker } from "@/components/saved"
 import { CardCarousel } from "@/components/carousel"
 import { memo, useCallback, useEffect } from "react"
-import { useLanguage } from "@/context/LanguageProvider"
+import { useFormatter, useLanguage } from "@/context/LanguageProvider"
+import { getEmirateLabel, useTranslations } from "@/lib/translations"
 
 interface RestaurantDetailClientProps {
   restaurant: ShadiRestaurant
+  reviews: Review[]
+  ownReview: Review | null
+  viewer: ReviewViewer | null
 }
 
-function RestaurantDetailClient({ restaurant }: RestaurantDetailClientProps) {
+function RestaurantDetailClient({ restaurant, reviews, ownReview, viewer }: RestaurantDetailClientProps) {
   const { language } = useLanguage()
+  const { t } = useTranslations(language)
+  const format = useFormatter()
   const { showBackButtonInHeader, hideBackButton } = useNavigation()
+  const name = getLocalizedText(restaurant.name, language)
+  const district = getLocalizedText(restaurant.district, language)
+  const description = getLocalizedText(restaurant.description, language)
 
   useEffect(() => {
     showBackButtonInHeader()
@@ -32,24 +44,39 @@ function RestaurantDetailClient({ restaurant }: RestaurantDetailClientProps) {
       <main className="w-full">
         {/* Hero Image Carousel */}
         <div className="relative w-full aspect-[16/9] md:aspect-[21/9] bg-[var(--fg-5)] mx-auto px-[var(--page-padding-x)] max-w-[var(--page-max-width)] mt-[var(--spacing-md)] rounded-[var(--radius-xl)] overflow-hidden">
-          <CardCarousel images={restaurant.images} alt={restaurant.name} height="100%" className="h-full" restaurantName={restaurant.name} showIndicators={true} />
+          <CardCarousel images={restaurant.images} alt={name} height="100%" className="h-full" restaurantName={name} showIndicators={true} />
         </div>
 
         {/* Restaurant Info - Full width, left-aligned text */}
         <div className="max-w-[var(--page-max-width)] mx-auto px-[var(--page-padding-x)] py-8">
-          <h1 className="text-3xl md:text-4xl font-bold text-[var(--fg)] mb-4">
-            {restaurant.name}
-          </h1>
+          <div className="flex flex-wrap items-start justify-between gap-3 mb-4">
+            <h1 className="text-3xl md:text-4xl font-bold text-[var(--fg)]">
+              {name}
+            </h1>
+            <div className="flex items-center gap-2">
+              <FavoriteButton restaurantId={restaurant.id} tone="plain" />
+              <ShortlistPicker restaurantId={restaurant.id} />
+            </div>
+          </div>
 
           <div className="flex flex-wrap items-center gap-4 text-sm text-[var(--fg-50)] mb-4">
-            {(restaurant.district || restaurant.emirate) && (
+            {(district || restaurant.emirate) && (
               <div className="flex items-center gap-1.5">
                 <MapPin className="w-4 h-4 text-[var(--color-primary)]" strokeWidth={1.5} />
-                <span>{[restaurant.district, restaurant.emirate].filter(Boolean).join(", ")}</span>
+                <span>
+                  {[district, restaurant.emirate && getEmirateLabel(restaurant.emirate, language)]
+                    .filter(Boolean)
+                    .join(", ")}
+                </span>
               </div>
             )}
-            {restaurant.priceBucketId && <span>{getPriceLabel(restaurant.priceBucketId, language)}</span>}
+            {restaurant.priceBucketId && <span>{format.priceBucket(restaurant.priceBucketId)}</span>}
             {restaurant.cuisine && <span>{restaurant.cuisine}</span>}
+            {restaurant.addedDate && (
+              <time dateTime={restaurant.addedDate} title={format.date(restaurant.addedDate)} suppressHydrationWarning>
+                {format.addedDate(restaurant.addedDate)}
+              </time>
+            )}
           </div>
 
           {restaurant.features && restaurant.features.length > 0 && (
@@ -67,51 +94,61 @@ function RestaurantDetailClient({ restaurant }: RestaurantDetailClientProps) {
         </div>
 
         {/* Description */}
-        {restaurant.description && (
+        {description && (
           <div className="max-w-[var(--page-max-width)] mx-auto px-[var(--page-padding-x)] py-4">
-            <p className="text-[var(--fg-50)] leading-relaxed">{restaurant.description}</p>
+            <p className="text-[var(--fg-50)] leading-relaxed">{description}</p>
           </div>
         )}
 
         {/* Contact Info */}
         <div className="max-w-[var(--page-max-width)] mx-auto px-[var(--page-padding-x)] py-8 border-t border-[var(--fg-10)]">
-          <h2 className="text-lg font-semibold text-[var(--fg)] mb-4">Contact</h2>
+          <h2 className="text-lg font-semibold text-[var(--fg)] mb-4">{t("contactInfo")}</h2>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             {restaurant.phone && (
               <div className="p-4 rounded-xl bg-[var(--fg-5)]">
-                <p className="text-xs text-[var(--fg-40)] mb-1">Phone</p>
+                <p className="text-xs text-[var(--fg-40)] mb-1">{t("contactPhone")}</p>
                 <p className="text-sm font-medium text-[var(--fg)]">{restaurant.phone}</p>
               </div>
             )}
             {restaurant.website && (
               <div className="p-4 rounded-xl bg-[var(--fg-5)]">
-                <p className="text-xs text-[var(--fg-40)] mb-1">Website</p>
+                <p className="text-xs text-[var(--fg-40)] mb-1">{t("contactWebsite")}</p>
                 <a
                   href={restaurant.website}
                   target="_blank"
                   rel="noopener noreferrer"
                   className="text-sm font-medium text-[var(--color-primary)] hover:underline"
                 >
-                  Visit Website
+                  {t("visitWebsite")}
                 </a>
               </div>
             )}
             {restaurant.address && (
               <div className="p-4 rounded-xl bg-[var(--fg-5)] md:col-span-2">
-                <p className="text-xs text-[var(--fg-40)] mb-1">Address</p>
+                <p className="text-xs text-[var(--fg-40)] mb-1">{t("address")}</p>
                 <p className="text-sm font-medium text-[var(--fg)]">{restaurant.address}</p>
               </div>
             )}
           </div>
         </div>
 
+        {/* Reviews */}
+        <ReviewSection
+          restaurantId={restaurant.id}
+          reviews={reviews}
+          ownReview={ownReview}
+          rating={restaurant.rating}
+          reviewCount={restaurant.reviewCount}
+          viewer={viewer}
+          locale={language}
+        />
+
         {/* Footer */}
         <footer className="text-center py-12 border-t border-[var(--fg-10)] mt-12">
           <div className="flex flex-col items-center gap-3">
+            {/* i18n-ignore: brand name */}
             <img src="/LOGO/logo.svg" alt="Shadi" className="h-8 opacity-40" />
-            <p className="text-xs font-bold uppercase tracking-wider text-[var(--fg-30)]">
-              Your Gateway to Great Food
-            </p>
+            <p className="text-xs font-bold uppercase tracking-wider text-[var(--fg-30)]">{t("tagline")}</p>
           </div>
         </footer>
       </main>
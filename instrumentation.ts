@@ -0,0 +1,11 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   INSTRUMENTATION - Runs once when a Next.js server process starts
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+export async function register() {
+  // Audit delivery uses the filesystem and process signals - Node.js only
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { auditLog } = await import("@/lib/security/audit")
+    await auditLog.start()
+  }
+}
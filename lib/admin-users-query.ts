@@ -0,0 +1,43 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   ADMIN USERS QUERY - URL search params for /admin/users
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+import { z } from "zod"
+import { ROLES } from "@/lib/security/permissions"
+
+export const userFiltersSchema = z.object({
+  q: z.string().trim().max(100).catch(""),
+  role: z.enum(["all", ...ROLES]).catch("all"),
+  status: z.enum(["all", "active", "disabled"]).catch("all"),
+  page: z.coerce.number().int().min(1).catch(1),
+})
+
+export type UserFilters = z.infer<typeof userFiltersSchema>
+
+export const DEFAULT_USER_FILTERS: UserFilters = { q: "", role: "all", status: "all", page: 1 }
+
+type SearchParamsInput = URLSearchParams | Record<string, string | string[] | undefined>
+
+/**
+ * Parse filters from search params; unknown values fall back to the defaults
+ */
+export function parseUserFilters(params: SearchParamsInput): UserFilters {
+  const get = (key: keyof UserFilters) => {
+    if (params instanceof URLSearchParams) return params.get(key) ?? undefined
+    const value = params[key]
+    return Array.isArray(value) ? value[0] : value
+  }
+
+  return userFiltersSchema.parse({ q: get("q"), role: get("role"), status: get("status"), page: get("page") })
+}
+
+/**
+ * Serialize filters, omitting defaults to keep URLs short
+ */
+export function serializeUserFilters(filters: UserFilters): string {
+  const params = new URLSearchParams()
+  for (const key of Object.keys(DEFAULT_USER_FILTERS) as (keyof UserFilters)[]) {
+    if (filters[key] !== DEFAULT_USER_FILTERS[key]) params.set(key, String(filters[key]))
+  }
+  return params.toString()
+}
@@ -0,0 +1,57 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   AUDIT EXPORT - Serialize audit entries as CSV or NDJSON
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+import type { AuditExportFormat } from "@/lib/security"
+import type { AuditLogRecord } from "@/types/audit"
+
+export const AUDIT_EXPORT_CONTENT_TYPES: Record<AuditExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  ndjson: "application/x-ndjson; charset=utf-8",
+}
+
+const CSV_COLUMNS = [
+  "id",
+  "timestamp",
+  "action",
+  "severity",
+  "user_id",
+  "target_type",
+  "target_id",
+  "ip_address",
+  "user_agent",
+  "success",
+  "error_message",
+  "metadata",
+  "seq",
+  "content_hash",
+  "prev_hash",
+  "hash",
+] as const satisfies readonly (keyof AuditLogRecord)[]
+
+/**
+ * Quote a CSV field (RFC 4180). Cells starting with a formula character are
+ * prefixed with a quote so spreadsheets do not evaluate them.
+ */
+function toCsvField(value: unknown): string {
+  if (value === null || value === undefined) return ""
+  let text = typeof value === "object" ? JSON.stringify(value) : String(value)
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toAuditCsv(entries: readonly AuditLogRecord[]): string {
+  const lines = [CSV_COLUMNS.join(",")]
+  for (const entry of entries) {
+    lines.push(CSV_COLUMNS.map((column) => toCsvField(entry[column])).join(","))
+  }
+  return `${lines.join("\r\n")}\r\n`
+}
+
+export function toAuditNdjson(entries: readonly AuditLogRecord[]): string {
+  return entries.map((entry) => `${JSON.stringify(entry)}\n`).join("")
+}
+
+export function formatAuditExport(entries: readonly AuditLogRecord[], format: AuditExportFormat): string {
+  return format === "csv" ? toAuditCsv(entries) : toAuditNdjson(entries)
+}
@@ -0,0 +1,79 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   AUDIT QUERY - URL search params for /admin/audit
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+import { z } from "zod"
+import type { AuditQueryInput } from "@/lib/security"
+import { AUDIT_ACTIONS, AUDIT_SEVERITIES } from "@/types/audit"
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+export const auditFiltersSchema = z.object({
+  action: z.enum(["all", ...AUDIT_ACTIONS]).catch("all"),
+  severity: z.enum(["all", ...AUDIT_SEVERITIES]).catch("all"),
+  user: z.uuid().catch(""),
+  targetType: z.string().trim().max(50).catch(""),
+  targetId: z.string().trim().max(100).catch(""),
+  /** Calendar days (YYYY-MM-DD, UTC); both ends are inclusive */
+  from: z.string().regex(DATE_PATTERN).catch(""),
+  to: z.string().regex(DATE_PATTERN).catch(""),
+  cursor: z.string().max(200).catch(""),
+})
+
+export type AuditFilters = z.infer<typeof auditFiltersSchema>
+
+export const DEFAULT_AUDIT_FILTERS: AuditFilters = {
+  action: "all",
+  severity: "all",
+  user: "",
+  targetType: "",
+  targetId: "",
+  from: "",
+  to: "",
+  cursor: "",
+}
+
+type SearchParamsInput = URLSearchParams | Record<string, string | string[] | undefined>
+
+/**
+ * Parse filters from search params; unknown values fall back to the defaults
+ */
+export function parseAuditFilters(params: SearchParamsInput): AuditFilters {
+  const get = (key: keyof AuditFilters) => {
+    if (params instanceof URLSearchParams) return params.get(key) ?? undefined
+    const value = params[key]
+    return Array.isArray(value) ? value[0] : value
+  }
+
+  const input = Object.fromEntries(
+    (Object.keys(DEFAULT_AUDIT_FILTERS) as (keyof AuditFilters)[]).map((key) => [key, get(key)])
+  )
+  return auditFiltersSchema.parse(input)
+}
+
+/**
+ * Serialize filters, omitting defaults to keep URLs short
+ */
+export function serializeAuditFilters(filters: AuditFilters): string {
+  const params = new URLSearchParams()
+  for (const key of Object.keys(DEFAULT_AUDIT_FILTERS) as (keyof AuditFilters)[]) {
+    if (filters[key] !== DEFAULT_AUDIT_FILTERS[key]) params.set(key, filters[key])
+  }
+  return params.toString()
+}
+
+/**
+ * Map URL filters to the DAL query; day bounds widen to the whole UTC day
+ */
+export function toAuditQuery(filters: AuditFilters): Partial<AuditQueryInput> {
+  return {
+    action: filters.action === "all" ? undefined : filters.action,
+    severity: filters.severity === "all" ? undefined : filters.severity,
+    userId: filters.user || undefined,
+    targetType: filters.targetType || undefined,
+    targetId: filters.targetId || undefined,
+    from: filters.from ? `${filters.from}T00:00:00.000Z` : undefined,
+    to: filters.to ? `${filters.to}T23:59:59.999Z` : undefined,
+    cursor: filters.cursor || undefined,
+  }
+}
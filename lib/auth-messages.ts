@@ -0,0 +1,85 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   AUTH MESSAGES - AuthResult codes, localized messages and redirect-back
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+import type { TranslationKey } from "@/lib/translations"
+
+export const AUTH_CODES = [
+  // Errors
+  "MISSING_FIELDS",
+  "PASSWORD_TOO_SHORT",
+  "PASSWORD_MISMATCH",
+  "NETWORK_ERROR",
+  "TIMEOUT_ERROR",
+  "INVALID_CREDENTIALS",
+  "USER_NOT_FOUND",
+  "EMAIL_ALREADY_EXISTS",
+  "WEAK_PASSWORD",
+  "SERVER_ERROR",
+  "RATE_LIMITED",
+  "OAUTH_ERROR",
+  "UNKNOWN_ERROR",
+  // Outcomes that need a message rather than a redirect
+  "CONFIRM_EMAIL",
+  "RESET_EMAIL_SENT",
+  "PASSWORD_UPDATED",
+] as const
+
+export type AuthCode = (typeof AUTH_CODES)[number]
+
+const AUTH_MESSAGES: Record<AuthCode, TranslationKey> = {
+  MISSING_FIELDS: "authMissingFields",
+  PASSWORD_TOO_SHORT: "authPasswordTooShort",
+  PASSWORD_MISMATCH: "authPasswordMismatch",
+  NETWORK_ERROR: "authNetworkError",
+  TIMEOUT_ERROR: "authTimeoutError",
+  INVALID_CREDENTIALS: "authInvalidCredentials",
+  USER_NOT_FOUND: "authUserNotFound",
+  EMAIL_ALREADY_EXISTS: "authEmailAlreadyExists",
+  WEAK_PASSWORD: "authWeakPassword",
+  SERVER_ERROR: "authServerError",
+  RATE_LIMITED: "authRateLimited",
+  OAUTH_ERROR: "authOAuthError",
+  UNKNOWN_ERROR: "authUnknownError",
+  CONFIRM_EMAIL: "authConfirmEmail",
+  RESET_EMAIL_SENT: "authResetEmailSent",
+  PASSWORD_UPDATED: "authPasswordUpdated",
+}
+
+/** Minimum length enforced by signUp and updatePassword */
+export const MIN_PASSWORD_LENGTH = 6
+
+/**
+ * Translation key for an AuthResult code; unknown or missing codes get the generic message
+ */
+export function getAuthMessageKey(code: string | undefined): TranslationKey {
+  return AUTH_MESSAGES[code as AuthCode] ?? AUTH_MESSAGES.UNKNOWN_ERROR
+}
+
+/**
+ * Map the `?error=` values used by auth redirects (e.g. "oauth_error") to a code
+ */
+export function toAuthCode(error: string | undefined): AuthCode | undefined {
+  if (!error) return undefined
+  const code = error.toUpperCase()
+  return (AUTH_CODES as readonly string[]).includes(code) ? (code as AuthCode) : "UNKNOWN_ERROR"
+}
+
+/**
+ * Where to go after signing in. Only same-origin paths are allowed so the
+ * `next` parameter cannot be used as an open redirect.
+ */
+export function getSafeRedirect(next: unknown, fallback = "/"): string {
+  if (typeof next !== "string" || !next.startsWith("/") || next.startsWith("//") || next.includes("\\")) {
+    return fallback
+  }
+  return next
+}
+
+/**
+ * Build an auth page URL that carries the redirect target along
+ */
+export function withNext(path: string, next: string | undefined): string {
+  const target = getSafeRedirect(next, "")
+  return target && target !== "/" ? `${path}?next=${encodeURIComponent(target)}` : path
+}
@@ -0,0 +1,91 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * AUDIT LOG REPOSITORY - Read side of the audit trail
+ *
+ * Entries are written by the AuditLogger (lib/security/audit.ts); this
+ * repository only reads them for the admin viewer and exports. Pages are
+ * keyed by a (timestamp, id) cursor so new entries never shift a page.
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import type { AuditAction, AuditLogRecord, AuditSeverity } from "@/types/audit"
+import { InMemoryAuditLogRepository } from "./memory-audit-repository"
+import { getDataSource } from "./restaurant-repository"
+import { SupabaseAuditLogRepository } from "./supabase-audit-repository"
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** Position after the last entry of a page (entries are newest first) */
+export interface AuditCursor {
+    timestamp: string
+    id: string
+}
+
+export interface AuditLogQuery {
+    action?: AuditAction
+    severity?: AuditSeverity
+    userId?: string
+    targetType?: string
+    targetId?: string
+    /** Inclusive ISO lower bound */
+    from?: string
+    /** Inclusive ISO upper bound */
+    to?: string
+    after?: AuditCursor
+    limit: number
+}
+
+export interface AuditLogPage {
+    data: AuditLogRecord[]
+    /** Null on the last page */
+    nextCursor: AuditCursor | null
+}
+
+/**
+ * Storage contract for reading audit entries.
+ * Lookups resolve to null when nothing matches; storage failures throw.
+ */
+export interface AuditLogRepository {
+    list(query: AuditLogQuery): Promise<AuditLogPage>
+    findById(id: string): Promise<AuditLogRecord | null>
+}
+
+// ─── Cursor Encoding ─────────────────────────────────────────────────────────
+
+/**
+ * Opaque URL-safe cursor - callers pass it back unchanged
+ */
+export function encodeAuditCursor(cursor: AuditCursor): string {
+    return Buffer.from(`${cursor.timestamp}|${cursor.id}`).toString("base64url")
+}
+
+/**
+ * Decode a cursor; malformed values resolve to null rather than throwing
+ */
+export function decodeAuditCursor(value: string): AuditCursor | null {
+    const [timestamp, id, ...rest] = Buffer.from(value, "base64url").toString("utf8").split("|")
+    if (!timestamp || !id || rest.length > 0 || Number.isNaN(Date.parse(timestamp))) return null
+    return { timestamp, id }
+}
+
+/**
+ * Newest-first ordering shared by every implementation
+ */
+export function compareAuditEntries(a: AuditCursor, b: AuditCursor): number {
+    return b.timestamp.localeCompare(a.timestamp) || b.id.localeCompare(a.id)
+}
+
+// ─── Data Source Selection ───────────────────────────────────────────────────
+
+let repository: AuditLogRepository | null = null
+
+/**
+ * Get the audit log repository for the configured data source
+ */
+export function getAuditLogRepository(): AuditLogRepository {
+    if (!repository) {
+        repository =
+            getDataSource() === "supabase" ? new SupabaseAuditLogRepository() : new InMemoryAuditLogRepository()
+    }
+    return repository
+}
@@ -15,8 +15,90 @@
 
 import { cache } from "react"
 import { createClient } from "@/lib/supabase/server"
-import { validateInput, uuid, paginationSchema } from "@/lib/security"
-import type { PaginationParams } from "@/lib/security"
+import {
+    validateInput,
+    uuid,
+    paginationSchema,
+    restaurantInputSchema,
+    reviewSchema,
+    moderationQuerySchema,
+    moderationDecisionSchema,
+    moderationAssignSchema,
+    shortlistNameSchema,
+    localSavedRestaurantsSchema,
+    safeValidateInput,
+    userQuerySchema,
+    userRoleSchema,
+    auditQuerySchema,
+    auditExportFormatSchema,
+    auditLog,
+    canAccessResource,
+} from "@/lib/security"
+import type {
+    PaginationParams,
+    RestaurantInput,
+    ReviewInput,
+    ModerationQueryInput,
+    ModerationDecisionInput,
+    ModerationAssignInput,
+    LocalSavedRestaurantsInput,
+    Role,
+    UserQueryInput,
+    AuditQueryInput,
+    AuditExportFormat,
+} from "@/lib/security"
+import { formatAuditExport } from "@/lib/audit-export"
+import type { AuditLogRecord } from "@/types/audit"
+import {
+    DECISION_STATUS,
+    getModerationDueAt,
+    type ModerationContentType,
+    type ModerationItem,
+    type ModerationStatus,
+} from "@/types/moderation"
+import { getLocalizedText, uniqueSlug, type LocalizedText, type ShadiRestaurant } from "@/types/restaurant"
+import type { Review } from "@/types/review"
+import type { SavedRestaurants, Shortlist } from "@/types/saved"
+import { getModerationRepository, type ModerationQuery, type NewModerationItem } from "./moderation-repository"
+import { getRestaurantRepository } from "./restaurant-repository"
+import { getReviewRepository, type ReviewUpdate } from "./review-repository"
+import { getSavedRestaurantRepository, type ShortlistRecord } from "./saved-repository"
+import { getUserRepository, type UserProfile, type UserProfileUpdate } from "./user-repository"
+import {
+    decodeAuditCursor,
+    encodeAuditCursor,
+    getAuditLogRepository,
+    type AuditLogQuery,
+} from "./audit-repository"
+
+export type { RestaurantRow, RestaurantRowInput } from "./mappers"
+export type {
+    DataSource,
+    RestaurantPage,
+    RestaurantQuery,
+    RestaurantRepository,
+} from "./restaurant-repository"
+export type { ReviewRow, ReviewRowInput } from "./mappers"
+export type { NewReview, ReviewPage, ReviewQuery, ReviewRepository, ReviewUpdate } from "./review-repository"
+export type { ModerationItemRow, ShortlistRow } from "./mappers"
+export type {
+    ModerationItemUpdate,
+    ModerationPage,
+    ModerationQuery,
+    ModerationRepository,
+    NewModerationItem,
+} from "./moderation-repository"
+export type { SavedRestaurantRepository, ShortlistRecord } from "./saved-repository"
+export type { AuditLogRow } from "./mappers"
+export type { AuditCursor, AuditLogPage, AuditLogQuery, AuditLogRepository } from "./audit-repository"
+export type {
+    UserPage,
+    UserProfile,
+    UserProfileUpdate,
+    UserQuery,
+    UserRepository,
+    UserStatus,
+} from "./user-repository"
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
@@ -26,28 +108,6 @@ export interface DALResult<T> {
     count?: number
 }
 
-export interface Restaurant {
-    id: string
-    name: string
-    description: string | null
-    cuisine_type: string | null
-    location: string | null
-    rating: number | null
-    price_range: number | null
-    image_url: string | null
-    created_at: string
-    updated_at: string
-}
-
-export interface UserProfile {
-    id: string
-    email: string
-    display_name: string | null
-    avatar_url: string | null
-    role: "user" | "admin" | "moderator"
-    created_at: string
-}
-
 // ─── Authorization Helpers ───────────────────────────────────────────────────
 
 /**
@@ -67,11 +127,9 @@ export const getCurrentUser = cache(async (): Promise<UserProfile | null> => {
     }
 
     // Fetch user profile with role
-    const { data: profile } = await supabase
-        .from("profiles")
-        .select("id, email, display_name, avatar_url, role, created_at")
-        .eq("id", user.id)
-        .single()
+    const profile = await getUserRepository()
+        .findById(user.id)
+        .catch(() => null)
 
     if (!profile) {
         // Return basic user info if no profile exists
@@ -82,17 +140,22 @@ export const getCurrentUser = cache(async (): Promise<UserProfile | null> => {
             avatar_url: null,
             role: "user",
             created_at: user.created_at,
+            disabled_at: null,
         }
     }
 
-    return profile as UserProfile
+    if (profile.disabled_at) {
+        return null
+    }
+
+    return profile
 })
 
 /**
  * Verify user has required role
  */
 async function requireRole(
-    allowedRoles: Array<"user" | "admin" | "moderator">
+    allowedRoles: Role[]
 ): Promise<UserProfile> {
     const user = await getCurrentUser()
 
@@ -114,6 +177,13 @@ async function requireAuth(): Promise<UserProfile> {
     return requireRole(["user", "admin", "moderator"])
 }
 
+/**
+ * Verify user can work the moderation queue
+ */
+async function requireModerator(): Promise<UserProfile> {
+    return requireRole(["admin", "moderator"])
+}
+
 /**
  * Verify user is admin
  */
@@ -123,110 +193,865 @@ async function requireAdmin(): Promise<UserProfile> {
 
 // ─── Restaurant Operations ───────────────────────────────────────────────────
 
+/**
+ * Attach aggregate rating and review count.
+ * Ratings are supplementary - if they cannot be loaded, restaurants are returned without them.
+ */
+async function withRatings(restaurants: ShadiRestaurant[]): Promise<ShadiRestaurant[]> {
+    if (restaurants.length === 0) return restaurants
+
+    try {
+        const summaries = await getReviewRepository().summarize(restaurants.map((r) => r.id))
+        const byRestaurant = new Map(summaries.map((s) => [s.restaurantId, s]))
+
+        return restaurants.map((restaurant) => {
+            const summary = byRestaurant.get(restaurant.id)
+            return summary ? { ...restaurant, rating: summary.average, reviewCount: summary.count } : restaurant
+        })
+    } catch (err) {
+        console.error("[DAL] withRatings exception:", err)
+        return restaurants
+    }
+}
+
 /**
  * Get all restaurants with optional filtering
  */
 export async function getRestaurants(
     params: PaginationParams & {
         cuisine?: string
-        location?: string
-        minRating?: number
+        emirate?: string
+        district?: string
     } = { page: 1, limit: 20 }
-): Promise<DALResult<Restaurant[]>> {
+): Promise<DALResult<ShadiRestaurant[]>> {
     try {
         const { page, limit } = validateInput(paginationSchema, params)
-        const offset = (page - 1) * limit
 
-        const supabase = await createClient()
+        const { data, count } = await getRestaurantRepository().list({
+            offset: (page - 1) * limit,
+            limit,
+            cuisine: params.cuisine,
+            emirate: params.emirate,
+            district: params.district,
+        })
+
+        return { data: await withRatings(data), error: null, count }
+    } catch (err) {
+        console.error("[DAL] getRestaurants exception:", err)
+        return { data: null, error: "Failed to fetch restaurants" }
+    }
+}
 
-        let query = supabase
-            .from("restaurants")
-            .select("*", { count: "exact" })
-            .order("created_at", { ascending: false })
-            .range(offset, offset + limit - 1)
+/**
+ * Get a single restaurant by ID
+ */
+export async function getRestaurantById(id: string): Promise<DALResult<ShadiRestaurant>> {
+    try {
+        // Validate ID format
+        validateInput(uuid, id)
+    } catch {
+        return { data: null, error: "Invalid restaurant ID" }
+    }
 
-        // Apply filters safely
-        if (params.cuisine) {
-            query = query.ilike("cuisine_type", `%${params.cuisine}%`)
+    try {
+        const restaurant = await getRestaurantRepository().findById(id)
+        if (!restaurant) {
+            return { data: null, error: "Restaurant not found" }
         }
-        if (params.location) {
-            query = query.ilike("location", `%${params.location}%`)
+
+        const [rated] = await withRatings([restaurant])
+        return { data: rated, error: null }
+    } catch (err) {
+        console.error("[DAL] getRestaurantById exception:", err)
+        return { data: null, error: "Failed to fetch restaurant" }
+    }
+}
+
+/**
+ * Get a single restaurant by its URL slug
+ */
+export async function getRestaurantBySlug(slug: string): Promise<DALResult<ShadiRestaurant>> {
+    try {
+        validateInput(restaurantInputSchema.shape.slug, slug)
+    } catch {
+        return { data: null, error: "Invalid restaurant slug" }
+    }
+
+    try {
+        const restaurant = await getRestaurantRepository().findBySlug(slug)
+        if (!restaurant) {
+            return { data: null, error: "Restaurant not found" }
         }
-        if (params.minRating !== undefined) {
-            query = query.gte("rating", params.minRating)
+
+        const [rated] = await withRatings([restaurant])
+        return { data: rated, error: null }
+    } catch (err) {
+        console.error("[DAL] getRestaurantBySlug exception:", err)
+        return { data: null, error: "Failed to fetch restaurant" }
+    }
+}
+
+/**
+ * Create a restaurant (admin only)
+ */
+export async function createRestaurant(input: RestaurantInput): Promise<DALResult<ShadiRestaurant>> {
+    let admin: UserProfile
+    let values: RestaurantInput
+    try {
+        admin = await requireAdmin()
+        values = validateInput(restaurantInputSchema, input)
+    } catch (err) {
+        const message = err instanceof Error ? err.message : "An error occurred"
+        return { data: null, error: message }
+    }
+
+    try {
+        const repository = getRestaurantRepository()
+
+        // The admin list only holds one page, so a free slug is picked here
+        const slug = uniqueSlug(values.slug, await repository.findSlugsStartingWith(values.slug))
+        const restaurant = await repository.create({ ...values, slug })
+        await auditLog.dataModification("data_create", admin.id, "restaurant", restaurant.id, values)
+
+        return { data: restaurant, error: null }
+    } catch (err) {
+        console.error("[DAL] createRestaurant exception:", err)
+        return { data: null, error: "Failed to create restaurant" }
+    }
+}
+
+/**
+ * Update a restaurant (admin only)
+ */
+export async function updateRestaurant(
+    id: string,
+    updates: Partial<RestaurantInput>
+): Promise<DALResult<ShadiRestaurant>> {
+    let admin: UserProfile
+    let values: Partial<RestaurantInput>
+    try {
+        admin = await requireAdmin()
+        validateInput(uuid, id)
+        values = validateInput(restaurantInputSchema.partial(), updates)
+    } catch (err) {
+        const message = err instanceof Error ? err.message : "An error occurred"
+        return { data: null, error: message }
+    }
+
+    if (Object.keys(values).length === 0) {
+        return { data: null, error: "No changes to save" }
+    }
+
+    try {
+        const restaurant = await getRestaurantRepository().update(id, values)
+        if (!restaurant) {
+            return { data: null, error: "Restaurant not found" }
         }
 
-        const { data, error, count } = await query
+        await auditLog.dataModification("data_update", admin.id, "restaurant", id, values)
+
+        return { data: restaurant, error: null }
+    } catch (err) {
+        console.error("[DAL] updateRestaurant exception:", err)
+        return { data: null, error: "Failed to update restaurant" }
+    }
+}
+
+/**
+ * Delete a restaurant (admin only)
+ */
+export async function deleteRestaurant(id: string): Promise<DALResult<{ id: string }>> {
+    let admin: UserProfile
+    try {
+        admin = await requireAdmin()
+        validateInput(uuid, id)
+    } catch (err) {
+        const message = err instanceof Error ? err.message : "An error occurred"
+        return { data: null, error: message }
+    }
 
-        if (error) {
-            console.error("[DAL] getRestaurants error:", error.message)
-            return { data: null, error: "Failed to fetch restaurants" }
+    try {
+        const deleted = await getRestaurantRepository().delete(id)
+        if (!deleted) {
+            return { data: null, error: "Restaurant not found" }
         }
 
-        return { data: data as Restaurant[], error: null, count: count ?? 0 }
+        await auditLog.dataModification("data_delete", admin.id, "restaurant", id)
+
+        return { data: { id }, error: null }
     } catch (err) {
-        console.error("[DAL] getRestaurants exception:", err)
-        return { data: null, error: "An error occurred" }
+        console.error("[DAL] deleteRestaurant exception:", err)
+        return { data: null, error: "Failed to delete restaurant" }
     }
 }
 
+// ─── Review Operations ───────────────────────────────────────────────────────
+
+const reviewUpdateSchema = reviewSchema.pick({ rating: true, title: true, content: true }).partial()
+
 /**
- * Get a single restaurant by ID
+ * Queue snapshot of a review, so moderators see what was submitted.
+ * The restaurant is named in English (Arabic when it has no English name).
+ */
+function reviewPreview(review: Review, restaurantName?: LocalizedText): NewModerationItem["preview"] {
+    const context = getLocalizedText(restaurantName, "en") || undefined
+    return { title: review.title, body: review.content, rating: review.rating, context }
+}
+
+/**
+ * Put a review (back) in the moderation queue
+ */
+async function enqueueReview(review: Review, restaurantName?: LocalizedText): Promise<void> {
+    await getModerationRepository().enqueue({
+        contentType: "review",
+        contentId: review.id,
+        submittedBy: review.userId,
+        preview: reviewPreview(review, restaurantName),
+        dueAt: getModerationDueAt("review"),
+    })
+}
+
+/**
+ * List approved reviews for a restaurant, newest first (public)
  */
-export async function getRestaurantById(id: string): Promise<DALResult<Restaurant>> {
+export async function getReviews(
+    restaurantId: string,
+    params: PaginationParams = { page: 1, limit: 20 }
+): Promise<DALResult<Review[]>> {
+    try {
+        validateInput(uuid, restaurantId)
+    } catch {
+        return { data: null, error: "Invalid restaurant ID" }
+    }
+
+    let page: number
+    let limit: number
+    try {
+        ;({ page, limit } = validateInput(paginationSchema, params))
+    } catch {
+        return { data: null, error: "Invalid pagination parameters" }
+    }
+
+    try {
+        const { data, count } = await getReviewRepository().listByRestaurant({
+            restaurantId,
+            status: "approved",
+            offset: (page - 1) * limit,
+            limit,
+        })
+
+        return { data, error: null, count }
+    } catch (err) {
+        console.error("[DAL] getReviews exception:", err)
+        return { data: null, error: "Failed to fetch reviews" }
+    }
+}
+
+/**
+ * The current user's review of a restaurant, whatever its moderation status
+ */
+export async function getMyReview(restaurantId: string): Promise<DALResult<Review>> {
+    let user: UserProfile
+    try {
+        user = await requireAuth()
+        validateInput(uuid, restaurantId)
+    } catch (err) {
+        const message = err instanceof Error ? err.message : "An error occurred"
+        return { data: null, error: message }
+    }
+
+    try {
+        const review = await getReviewRepository().findByAuthor(restaurantId, user.id)
+        return { data: review, error: null }
+    } catch (err) {
+        console.error("[DAL] getMyReview exception:", err)
+        return { data: null, error: "Failed to fetch review" }
+    }
+}
+
+/**
+ * Create a review as the current user (one review per restaurant).
+ * New reviews stay private until approved in the moderation queue.
+ */
+export async function createReview(input: ReviewInput): Promise<DALResult<Review>> {
+    let user: UserProfile
+    let values: ReviewInput
+    try {
+        user = await requireAuth()
+        values = validateInput(reviewSchema, input)
+    } catch (err) {
+        const message = err instanceof Error ? err.message : "An error occurred"
+        return { data: null, error: message }
+    }
+
+    try {
+        const restaurant = await getRestaurantRepository().findById(values.restaurantId)
+        if (!restaurant) {
+            return { data: null, error: "Restaurant not found" }
+        }
+
+        const repository = getReviewRepository()
+        if (await repository.findByAuthor(values.restaurantId, user.id)) {
+            return { data: null, error: "You have already reviewed this restaurant" }
+        }
+
+        const review = await repository.create({
+            ...values,
+            userId: user.id,
+            authorName: user.display_name ?? undefined,
+        })
+        await enqueueReview(review, restaurant.name)
+        await auditLog.dataModification("data_create", user.id, "review", review.id, values)
+
+        return { data: review, error: null }
+    } catch (err) {
+        console.error("[DAL] createReview exception:", err)
+        return { data: null, error: "Failed to create review" }
+    }
+}
+
+/**
+ * Update a review (author, or moderator/admin for any review).
+ * An author's edit sends the review back to the moderation queue.
+ */
+export async function updateReview(id: string, updates: ReviewUpdate): Promise<DALResult<Review>> {
+    let userId: string | undefined
+    let values: ReviewUpdate
+    try {
+        validateInput(uuid, id)
+        values = validateInput(reviewUpdateSchema, updates)
+
+        const access = await canAccessResource("reviews", id, "update")
+        if (!access.allowed) {
+            return { data: null, error: access.reason ?? "Access denied" }
+        }
+        userId = access.user?.id
+    } catch (err) {
+        const message = err instanceof Error ? err.message : "An error occurred"
+        return { data: null, error: message }
+    }
+
+    if (Object.keys(values).length === 0) {
+        return { data: null, error: "No changes to save" }
+    }
+
+    try {
+        const repository = getReviewRepository()
+        const existing = await repository.findById(id)
+        if (!existing) {
+            return { data: null, error: "Review not found" }
+        }
+
+        // Re-queue in the same write so the edited text is never live as approved
+        const isAuthor = existing.userId === userId
+        const review = await repository.update(id, values, isAuthor ? "pending" : undefined)
+        if (!review) {
+            return { data: null, error: "Review not found" }
+        }
+
+        if (isAuthor) {
+            const restaurant = await getRestaurantRepository().findById(review.restaurantId)
+            await enqueueReview(review, restaurant?.name)
+        }
+
+        await auditLog.dataModification("data_update", userId ?? null, "review", id, values)
+
+        return { data: review, error: null }
+    } catch (err) {
+        console.error("[DAL] updateReview exception:", err)
+        return { data: null, error: "Failed to update review" }
+    }
+}
+
+/**
+ * Delete a review (author, or moderator/admin for any review)
+ */
+export async function deleteReview(id: string): Promise<DALResult<{ id: string }>> {
+    let userId: string | undefined
     try {
-        // Validate ID format
         validateInput(uuid, id)
 
-        const supabase = await createClient()
+        const access = await canAccessResource("reviews", id, "delete")
+        if (!access.allowed) {
+            return { data: null, error: access.reason ?? "Access denied" }
+        }
+        userId = access.user?.id
+    } catch (err) {
+        const message = err instanceof Error ? err.message : "An error occurred"
+        return { data: null, error: message }
+    }
+
+    try {
+        const deleted = await getReviewRepository().delete(id)
+        if (!deleted) {
+            return { data: null, error: "Review not found" }
+        }
+
+        await getModerationRepository().removeByContent("review", id)
 
-        const { data, error } = await supabase.from("restaurants").select("*").eq("id", id).single()
+        await auditLog.dataModification("data_delete", userId ?? null, "review", id)
 
-        if (error) {
-            if (error.code === "PGRST116") {
-                return { data: null, error: "Restaurant not found" }
+        return { data: { id }, error: null }
+    } catch (err) {
+        console.error("[DAL] deleteReview exception:", err)
+        return { data: null, error: "Failed to delete review" }
+    }
+}
+
+// ─── Moderation Operations ───────────────────────────────────────────────────
+
+/**
+ * Mirror a decision onto the moderated content.
+ * Every content type that enqueues items registers here.
+ */
+const MODERATION_TARGETS: Record<
+    ModerationContentType,
+    (contentId: string, status: ModerationStatus) => Promise<boolean>
+> = {
+    review: (contentId, status) => getReviewRepository().setStatus(contentId, status),
+}
+
+/**
+ * List the moderation queue, most urgent first (moderators and admins)
+ */
+export async function getModerationQueue(
+    params: Partial<ModerationQueryInput> = {}
+): Promise<DALResult<ModerationItem[]>> {
+    let moderator: UserProfile
+    let filters: ModerationQueryInput
+    try {
+        moderator = await requireModerator()
+        filters = validateInput(moderationQuerySchema, params)
+    } catch (err) {
+        const message = err instanceof Error ? err.message : "An error occurred"
+        return { data: null, error: message }
+    }
+
+    try {
+        const query: ModerationQuery = {
+            offset: (filters.page - 1) * filters.limit,
+            limit: filters.limit,
+            status: filters.status,
+            contentType: filters.contentType,
+        }
+        if (filters.assignee === "me") query.assignedTo = moderator.id
+        if (filters.assignee === "unassigned") query.assignedTo = null
+
+        const { data, count } = await getModerationRepository().list(query)
+
+        return { data, error: null, count }
+    } catch (err) {
+        console.error("[DAL] getModerationQueue exception:", err)
+        return { data: null, error: "Failed to fetch moderation queue" }
+    }
+}
+
+/**
+ * Approve, reject or hide one or more items (moderators and admins).
+ * Each decision is applied to its content and audited separately.
+ */
+export async function decideModerationItems(
+    input: ModerationDecisionInput
+): Promise<DALResult<ModerationItem[]>> {
+    let moderator: UserProfile
+    let decision: ModerationDecisionInput
+    try {
+        moderator = await requireModerator()
+
+        const result = safeValidateInput(moderationDecisionSchema, input)
+        if (!result.success) {
+            return { data: null, error: result.error.issues[0]?.message ?? "Invalid decision" }
+        }
+        decision = result.data
+    } catch (err) {
+        const message = err instanceof Error ? err.message : "An error occurred"
+        return { data: null, error: message }
+    }
+
+    try {
+        const repository = getModerationRepository()
+        const status = DECISION_STATUS[decision.decision]
+        const decided: ModerationItem[] = []
+
+        for (const id of decision.ids) {
+            const item = await repository.findById(id)
+            if (!item) continue
+
+            const applied = await MODERATION_TARGETS[item.contentType](item.contentId, status)
+            if (!applied) {
+                // The content was deleted after it was queued
+                await repository.removeByContent(item.contentType, item.contentId)
+                continue
             }
-            console.error("[DAL] getRestaurantById error:", error.message)
-            return { data: null, error: "Failed to fetch restaurant" }
+
+            const updated = await repository.update(id, {
+                status,
+                reasonCode: decision.decision === "approve" ? null : decision.reasonCode,
+                note: decision.note ?? null,
+                decidedBy: moderator.id,
+                decidedAt: new Date().toISOString(),
+            })
+            if (!updated) continue
+
+            await auditLog.dataModification("data_update", moderator.id, "moderation_item", id, {
+                decision: decision.decision,
+                reasonCode: updated.reasonCode,
+                note: updated.note,
+                contentType: item.contentType,
+                contentId: item.contentId,
+                previousStatus: item.status,
+            })
+            decided.push(updated)
+        }
+
+        if (decided.length === 0) {
+            return { data: null, error: "Moderation item not found" }
         }
 
-        return { data: data as Restaurant, error: null }
+        return { data: decided, error: null, count: decided.length }
     } catch (err) {
-        console.error("[DAL] getRestaurantById exception:", err)
-        return { data: null, error: "Invalid restaurant ID" }
+        console.error("[DAL] decideModerationItems exception:", err)
+        return { data: null, error: "Failed to apply moderation decision" }
     }
 }
 
-// ─── User Profile Operations ─────────────────────────────────────────────────
+/**
+ * Assign items to a moderator, or unassign with null (moderators and admins)
+ */
+export async function assignModerationItems(
+    input: ModerationAssignInput
+): Promise<DALResult<ModerationItem[]>> {
+    let moderator: UserProfile
+    let assignment: ModerationAssignInput
+    try {
+        moderator = await requireModerator()
+        assignment = validateInput(moderationAssignSchema, input)
+    } catch (err) {
+        const message = err instanceof Error ? err.message : "An error occurred"
+        return { data: null, error: message }
+    }
+
+    try {
+        const repository = getModerationRepository()
+        const assigned: ModerationItem[] = []
+
+        for (const id of assignment.ids) {
+            const updated = await repository.update(id, { assignedTo: assignment.assigneeId })
+            if (!updated) continue
+
+            await auditLog.dataModification("data_update", moderator.id, "moderation_item", id, {
+                assignedTo: assignment.assigneeId,
+            })
+            assigned.push(updated)
+        }
+
+        if (assigned.length === 0) {
+            return { data: null, error: "Moderation item not found" }
+        }
+
+        return { data: assigned, error: null, count: assigned.length }
+    } catch (err) {
+        console.error("[DAL] assignModerationItems exception:", err)
+        return { data: null, error: "Failed to assign moderation items" }
+    }
+}
+
+// ─── Saved Restaurant Operations ─────────────────────────────────────────────
 
 /**
- * Get user profile by ID (requires authentication)
+ * A shortlist owned by the user. Other users' lists resolve to null,
+ * so their existence is not revealed.
  */
-export async function getUserProfile(userId: string): Promise<DALResult<UserProfile>> {
+async function findOwnShortlist(userId: string, id: string): Promise<ShortlistRecord | null> {
+    const shortlist = await getSavedRestaurantRepository().findShortlist(id)
+    return shortlist?.userId === userId ? shortlist : null
+}
+
+/**
+ * The current user's favorites and shortlists
+ */
+export async function getSavedRestaurants(): Promise<DALResult<SavedRestaurants>> {
+    let user: UserProfile
     try {
-        await requireAuth()
-        validateInput(uuid, userId)
+        user = await requireAuth()
+    } catch (err) {
+        const message = err instanceof Error ? err.message : "An error occurred"
+        return { data: null, error: message }
+    }
+
+    try {
+        const repository = getSavedRestaurantRepository()
+        const [favorites, shortlists] = await Promise.all([
+            repository.getFavorites(user.id),
+            repository.listShortlists(user.id),
+        ])
+
+        return { data: { favorites, shortlists }, error: null }
+    } catch (err) {
+        console.error("[DAL] getSavedRestaurants exception:", err)
+        return { data: null, error: "Failed to fetch saved restaurants" }
+    }
+}
+
+/**
+ * Add or remove a favorite for the current user
+ */
+export async function setFavorite(
+    restaurantId: string,
+    saved: boolean
+): Promise<DALResult<{ restaurantId: string; saved: boolean }>> {
+    let user: UserProfile
+    try {
+        user = await requireAuth()
+        validateInput(uuid, restaurantId)
+    } catch (err) {
+        const message = err instanceof Error ? err.message : "An error occurred"
+        return { data: null, error: message }
+    }
+
+    try {
+        if (saved && !(await getRestaurantRepository().findById(restaurantId))) {
+            return { data: null, error: "Restaurant not found" }
+        }
+
+        await getSavedRestaurantRepository().setFavorite(user.id, restaurantId, saved)
+        await auditLog.dataModification(saved ? "data_create" : "data_delete", user.id, "favorite", restaurantId)
+
+        return { data: { restaurantId, saved }, error: null }
+    } catch (err) {
+        console.error("[DAL] setFavorite exception:", err)
+        return { data: null, error: "Failed to update favorites" }
+    }
+}
 
-        const supabase = await createClient()
+/**
+ * Create a named shortlist for the current user (names are unique per user)
+ */
+export async function createShortlist(name: string): Promise<DALResult<Shortlist>> {
+    let user: UserProfile
+    let listName: string
+    try {
+        user = await requireAuth()
+        listName = validateInput(shortlistNameSchema, name.trim())
+    } catch (err) {
+        const message = err instanceof Error ? err.message : "An error occurred"
+        return { data: null, error: message }
+    }
+
+    try {
+        const repository = getSavedRestaurantRepository()
+        const existing = await repository.listShortlists(user.id)
+        if (existing.some((s) => s.name.toLowerCase() === listName.toLowerCase())) {
+            return { data: null, error: "You already have a list with this name" }
+        }
+
+        const shortlist = await repository.createShortlist(user.id, listName)
+        await auditLog.dataModification("data_create", user.id, "shortlist", shortlist.id, { name: listName })
+
+        return { data: shortlist, error: null }
+    } catch (err) {
+        console.error("[DAL] createShortlist exception:", err)
+        return { data: null, error: "Failed to create list" }
+    }
+}
+
+/**
+ * Rename one of the current user's shortlists
+ */
+export async function renameShortlist(id: string, name: string): Promise<DALResult<Shortlist>> {
+    let user: UserProfile
+    let listName: string
+    try {
+        user = await requireAuth()
+        validateInput(uuid, id)
+        listName = validateInput(shortlistNameSchema, name.trim())
+    } catch (err) {
+        const message = err instanceof Error ? err.message : "An error occurred"
+        return { data: null, error: message }
+    }
 
-        const { data, error } = await supabase
-            .from("profiles")
-            .select("id, email, display_name, avatar_url, role, created_at")
-            .eq("id", userId)
-            .single()
+    try {
+        if (!(await findOwnShortlist(user.id, id))) {
+            return { data: null, error: "List not found" }
+        }
+
+        const repository = getSavedRestaurantRepository()
+        const existing = await repository.listShortlists(user.id)
+        if (existing.some((s) => s.id !== id && s.name.toLowerCase() === listName.toLowerCase())) {
+            return { data: null, error: "You already have a list with this name" }
+        }
 
-        if (error) {
-            if (error.code === "PGRST116") {
-                return { data: null, error: "User not found" }
+        const shortlist = await repository.renameShortlist(id, listName)
+        if (!shortlist) {
+            return { data: null, error: "List not found" }
+        }
+
+        await auditLog.dataModification("data_update", user.id, "shortlist", id, { name: listName })
+
+        return { data: shortlist, error: null }
+    } catch (err) {
+        console.error("[DAL] renameShortlist exception:", err)
+        return { data: null, error: "Failed to rename list" }
+    }
+}
+
+/**
+ * Delete one of the current user's shortlists
+ */
+export async function deleteShortlist(id: string): Promise<DALResult<{ id: string }>> {
+    let user: UserProfile
+    try {
+        user = await requireAuth()
+        validateInput(uuid, id)
+    } catch (err) {
+        const message = err instanceof Error ? err.message : "An error occurred"
+        return { data: null, error: message }
+    }
+
+    try {
+        if (!(await findOwnShortlist(user.id, id))) {
+            return { data: null, error: "List not found" }
+        }
+
+        await getSavedRestaurantRepository().deleteShortlist(id)
+        await auditLog.dataModification("data_delete", user.id, "shortlist", id)
+
+        return { data: { id }, error: null }
+    } catch (err) {
+        console.error("[DAL] deleteShortlist exception:", err)
+        return { data: null, error: "Failed to delete list" }
+    }
+}
+
+/**
+ * Add a restaurant to, or remove it from, one of the current user's shortlists
+ */
+export async function setShortlistMembership(
+    id: string,
+    restaurantId: string,
+    included: boolean
+): Promise<DALResult<Shortlist>> {
+    let user: UserProfile
+    try {
+        user = await requireAuth()
+        validateInput(uuid, id)
+        validateInput(uuid, restaurantId)
+    } catch (err) {
+        const message = err instanceof Error ? err.message : "An error occurred"
+        return { data: null, error: message }
+    }
+
+    try {
+        if (!(await findOwnShortlist(user.id, id))) {
+            return { data: null, error: "List not found" }
+        }
+        if (included && !(await getRestaurantRepository().findById(restaurantId))) {
+            return { data: null, error: "Restaurant not found" }
+        }
+
+        const shortlist = await getSavedRestaurantRepository().setShortlistMembership(id, restaurantId, included)
+        if (!shortlist) {
+            return { data: null, error: "List not found" }
+        }
+
+        await auditLog.dataModification("data_update", user.id, "shortlist", id, { restaurantId, included })
+
+        return { data: shortlist, error: null }
+    } catch (err) {
+        console.error("[DAL] setShortlistMembership exception:", err)
+        return { data: null, error: "Failed to update list" }
+    }
+}
+
+/**
+ * Merge favorites and shortlists saved on a device before sign-in into the
+ * account. Shortlists are matched by name; restaurants that no longer exist
+ * are dropped.
+ */
+export async function mergeLocalSavedRestaurants(
+    input: LocalSavedRestaurantsInput
+): Promise<DALResult<SavedRestaurants>> {
+    let user: UserProfile
+    let local: LocalSavedRestaurantsInput
+    try {
+        user = await requireAuth()
+        local = validateInput(localSavedRestaurantsSchema, input)
+    } catch (err) {
+        const message = err instanceof Error ? err.message : "An error occurred"
+        return { data: null, error: message }
+    }
+
+    try {
+        const restaurants = getRestaurantRepository()
+        const repository = getSavedRestaurantRepository()
+
+        const referenced = new Set([...local.favorites, ...local.shortlists.flatMap((s) => s.restaurantIds)])
+        const known = new Set<string>()
+        for (const restaurantId of referenced) {
+            if (await restaurants.findById(restaurantId)) known.add(restaurantId)
+        }
+
+        const favorites = new Set(await repository.getFavorites(user.id))
+        for (const restaurantId of local.favorites) {
+            if (known.has(restaurantId) && !favorites.has(restaurantId)) {
+                await repository.setFavorite(user.id, restaurantId, true)
+            }
+        }
+
+        const shortlists = await repository.listShortlists(user.id)
+        for (const localList of local.shortlists) {
+            const name = localList.name.trim()
+            const target =
+                shortlists.find((s) => s.name.toLowerCase() === name.toLowerCase()) ??
+                (await repository.createShortlist(user.id, name))
+
+            for (const restaurantId of localList.restaurantIds) {
+                if (known.has(restaurantId)) await repository.setShortlistMembership(target.id, restaurantId, true)
             }
-            return { data: null, error: "Failed to fetch user" }
+            if (!shortlists.includes(target)) shortlists.push(target)
         }
 
-        return { data: data as UserProfile, error: null }
+        await auditLog.dataModification("data_update", user.id, "saved_restaurants", user.id, {
+            merged: { favorites: local.favorites.length, shortlists: local.shortlists.length },
+        })
+
+        const [mergedFavorites, mergedShortlists] = await Promise.all([
+            repository.getFavorites(user.id),
+            repository.listShortlists(user.id),
+        ])
+
+        return { data: { favorites: mergedFavorites, shortlists: mergedShortlists }, error: null }
+    } catch (err) {
+        console.error("[DAL] mergeLocalSavedRestaurants exception:", err)
+        return { data: null, error: "Failed to merge saved restaurants" }
+    }
+}
+
+// ─── User Profile Operations ─────────────────────────────────────────────────
+
+/**
+ * Get user profile by ID (requires authentication)
+ */
+export async function getUserProfile(userId: string): Promise<DALResult<UserProfile>> {
+    try {
+        await requireAuth()
+        validateInput(uuid, userId)
     } catch (err) {
         const message = err instanceof Error ? err.message : "An error occurred"
         return { data: null, error: message }
     }
+
+    try {
+        const profile = await getUserRepository().findById(userId)
+        if (!profile) {
+            return { data: null, error: "User not found" }
+        }
+
+        return { data: profile, error: null }
+    } catch (err) {
+        console.error("[DAL] getUserProfile exception:", err)
+        return { data: null, error: "Failed to fetch user" }
+    }
 }
 
 /**
@@ -244,11 +1069,14 @@ export async function updateUserProfile(
         if (currentUser.id !== userId && currentUser.role !== "admin") {
             return { data: null, error: "Cannot update another user's profile" }
         }
+    } catch (err) {
+        const message = err instanceof Error ? err.message : "An error occurred"
+        return { data: null, error: message }
+    }
 
-        const supabase = await createClient()
-
+    try {
         // Sanitize updates - only allow specific fields
-        const safeUpdates: Record<string, string | null> = {}
+        const safeUpdates: UserProfileUpdate = {}
         if (updates.display_name !== undefined) {
             safeUpdates.display_name = updates.display_name
         }
@@ -256,22 +1084,15 @@ export async function updateUserProfile(
             safeUpdates.avatar_url = updates.avatar_url
         }
 
-        const { data, error } = await supabase
-            .from("profiles")
-            .update(safeUpdates)
-            .eq("id", userId)
-            .select("id, email, display_name, avatar_url, role, created_at")
-            .single()
-
-        if (error) {
-            console.error("[DAL] updateUserProfile error:", error.message)
-            return { data: null, error: "Failed to update profile" }
+        const profile = await getUserRepository().updateProfile(userId, safeUpdates)
+        if (!profile) {
+            return { data: null, error: "User not found" }
         }
 
-        return { data: data as UserProfile, error: null }
+        return { data: profile, error: null }
     } catch (err) {
-        const message = err instanceof Error ? err.message : "An error occurred"
-        return { data: null, error: message }
+        console.error("[DAL] updateUserProfile exception:", err)
+        return { data: null, error: "Failed to update profile" }
     }
 }
 
@@ -279,70 +1100,249 @@ export async function updateUserProfile(
 
 /**
  * Get all users (admin only)
+ * Searchable by email or display name, filterable by role and account status
  */
 export async function getAllUsers(
-    params: PaginationParams = { page: 1, limit: 20 }
+    params: Partial<UserQueryInput> = { page: 1, limit: 20 }
 ): Promise<DALResult<UserProfile[]>> {
+    let query: UserQueryInput
     try {
         await requireAdmin()
-        const { page, limit } = validateInput(paginationSchema, params)
-        const offset = (page - 1) * limit
-
-        const supabase = await createClient()
-
-        const { data, error, count } = await supabase
-            .from("profiles")
-            .select("id, email, display_name, avatar_url, role, created_at", { count: "exact" })
-            .order("created_at", { ascending: false })
-            .range(offset, offset + limit - 1)
-
-        if (error) {
-            console.error("[DAL] getAllUsers error:", error.message)
-            return { data: null, error: "Failed to fetch users" }
-        }
-
-        return { data: data as UserProfile[], error: null, count: count ?? 0 }
+        query = validateInput(userQuerySchema, params)
     } catch (err) {
         const message = err instanceof Error ? err.message : "An error occurred"
         return { data: null, error: message }
     }
+
+    try {
+        const { data, count } = await getUserRepository().list({
+            offset: (query.page - 1) * query.limit,
+            limit: query.limit,
+            search: query.search,
+            role: query.role,
+            status: query.status,
+        })
+
+        return { data, error: null, count }
+    } catch (err) {
+        console.error("[DAL] getAllUsers exception:", err)
+        return { data: null, error: "Failed to fetch users" }
+    }
 }
 
 /**
  * Update user role (admin only)
  */
-export async function updateUserRole(
-    userId: string,
-    newRole: "user" | "admin" | "moderator"
-): Promise<DALResult<UserProfile>> {
+export async function updateUserRole(userId: string, newRole: Role): Promise<DALResult<UserProfile>> {
+    let admin: UserProfile
     try {
-        const admin = await requireAdmin()
+        admin = await requireAdmin()
         validateInput(uuid, userId)
+        validateInput(userRoleSchema, newRole)
 
         // Prevent admin from demoting themselves
         if (admin.id === userId && newRole !== "admin") {
             return { data: null, error: "Cannot change your own admin role" }
         }
+    } catch (err) {
+        const message = err instanceof Error ? err.message : "An error occurred"
+        return { data: null, error: message }
+    }
 
-        const supabase = await createClient()
+    try {
+        const repository = getUserRepository()
 
-        const { data, error } = await supabase
-            .from("profiles")
-            .update({ role: newRole })
-            .eq("id", userId)
-            .select("id, email, display_name, avatar_url, role, created_at")
-            .single()
+        const before = await repository.findById(userId)
+        if (!before) {
+            return { data: null, error: "User not found" }
+        }
 
-        if (error) {
-            console.error("[DAL] updateUserRole error:", error.message)
-            return { data: null, error: "Failed to update user role" }
+        const profile = await repository.updateRole(userId, newRole)
+        if (!profile) {
+            return { data: null, error: "User not found" }
         }
 
-        // TODO: Log this action to audit_logs table
+        await auditLog.adminAction("admin_role_change", admin.id, userId, {
+            from: before.role,
+            to: newRole,
+        })
+
+        return { data: profile, error: null }
+    } catch (err) {
+        console.error("[DAL] updateUserRole exception:", err)
+        return { data: null, error: "Failed to update user role" }
+    }
+}
+
+/**
+ * Disable or re-enable an account (admin only)
+ * Disabled users keep their data but are treated as signed out.
+ */
+export async function setUserDisabled(userId: string, disabled: boolean): Promise<DALResult<UserProfile>> {
+    let admin: UserProfile
+    try {
+        admin = await requireAdmin()
+        validateInput(uuid, userId)
 
-        return { data: data as UserProfile, error: null }
+        if (admin.id === userId && disabled) {
+            return { data: null, error: "Cannot disable your own account" }
+        }
     } catch (err) {
         const message = err instanceof Error ? err.message : "An error occurred"
         return { data: null, error: message }
     }
+
+    try {
+        const profile = await getUserRepository().setDisabled(userId, disabled ? admin.id : null)
+        if (!profile) {
+            return { data: null, error: "User not found" }
+        }
+
+        await auditLog.adminAction(disabled ? "admin_user_disable" : "admin_user_enable", admin.id, userId)
+
+        return { data: profile, error: null }
+    } catch (err) {
+        console.error("[DAL] setUserDisabled exception:", err)
+        return { data: null, error: "Failed to update account status" }
+    }
+}
+
+// ─── Audit Log Operations ────────────────────────────────────────────────────
+
+export interface AuditLogPageResult {
+    entries: AuditLogRecord[]
+    /** Pass back as `cursor` for the next (older) page; null on the last page */
+    nextCursor: string | null
+}
+
+export interface AuditLogExport {
+    body: string
+    count: number
+    /** True when more entries matched than AUDIT_EXPORT_LIMIT allows */
+    truncated: boolean
+}
+
+const AUDIT_EXPORT_LIMIT = 10_000
+const AUDIT_EXPORT_BATCH = 500
+
+/**
+ * Map validated filters to a repository query; a malformed cursor is a validation error
+ */
+function toAuditLogQuery(filters: AuditQueryInput): AuditLogQuery {
+    const { cursor, ...query } = filters
+    if (!cursor) return query
+
+    const after = decodeAuditCursor(cursor)
+    if (!after) throw new Error("Invalid cursor")
+    return { ...query, after }
+}
+
+/**
+ * Get one page of audit entries, newest first (admin only)
+ */
+export async function getAuditLogs(params: Partial<AuditQueryInput> = {}): Promise<DALResult<AuditLogPageResult>> {
+    let query: AuditLogQuery
+    try {
+        await requireAdmin()
+        query = toAuditLogQuery(validateInput(auditQuerySchema, params))
+    } catch (err) {
+        const message = err instanceof Error ? err.message : "An error occurred"
+        return { data: null, error: message }
+    }
+
+    try {
+        const { data, nextCursor } = await getAuditLogRepository().list(query)
+
+        return {
+            data: { entries: data, nextCursor: nextCursor ? encodeAuditCursor(nextCursor) : null },
+            error: null,
+        }
+    } catch (err) {
+        console.error("[DAL] getAuditLogs exception:", err)
+        return { data: null, error: "Failed to fetch audit logs" }
+    }
+}
+
+/**
+ * Get a single audit entry (admin only)
+ */
+export async function getAuditLogEntry(id: string): Promise<DALResult<AuditLogRecord>> {
+    try {
+        await requireAdmin()
+        validateInput(uuid, id)
+    } catch (err) {
+        const message = err instanceof Error ? err.message : "An error occurred"
+        return { data: null, error: message }
+    }
+
+    try {
+        const entry = await getAuditLogRepository().findById(id)
+        if (!entry) {
+            return { data: null, error: "Audit entry not found" }
+        }
+
+        return { data: entry, error: null }
+    } catch (err) {
+        console.error("[DAL] getAuditLogEntry exception:", err)
+        return { data: null, error: "Failed to fetch audit entry" }
+    }
+}
+
+/**
+ * Export every entry matching the filters as CSV or NDJSON (admin only).
+ * Exporting the audit trail is itself audited as `data_export`.
+ */
+export async function exportAuditLogs(
+    params: Partial<AuditQueryInput>,
+    format: AuditExportFormat
+): Promise<DALResult<AuditLogExport>> {
+    let admin: UserProfile
+    let filters: Omit<AuditQueryInput, "cursor" | "limit">
+    try {
+        admin = await requireAdmin()
+        validateInput(auditExportFormatSchema, format)
+        // Exports always start from the newest match, whatever page the viewer was on
+        const { cursor: _cursor, limit: _limit, ...input } = validateInput(auditQuerySchema, params)
+        filters = input
+    } catch (err) {
+        const message = err instanceof Error ? err.message : "An error occurred"
+        return { data: null, error: message }
+    }
+
+    try {
+        const repository = getAuditLogRepository()
+        let query: AuditLogQuery = { ...filters, limit: AUDIT_EXPORT_BATCH }
+        const entries: AuditLogRecord[] = []
+        let truncated = false
+
+        for (;;) {
+            const page = await repository.list(query)
+            entries.push(...page.data)
+
+            if (!page.nextCursor) break
+            if (entries.length >= AUDIT_EXPORT_LIMIT) {
+                truncated = true
+                break
+            }
+            query = { ...query, after: page.nextCursor }
+        }
+
+        const exported = entries.slice(0, AUDIT_EXPORT_LIMIT)
+
+        await auditLog.userAction("data_export", admin.id, {
+            resource: "audit_logs",
+            format,
+            filters,
+            count: exported.length,
+            truncated,
+        })
+
+        return {
+            data: { body: formatAuditExport(exported, format), count: exported.length, truncated },
+            error: null,
+        }
+    } catch (err) {
+        console.error("[DAL] exportAuditLogs exception:", err)
+        return { data: null, error: "Failed to export audit logs" }
+    }
 }
@@ -0,0 +1,326 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * DAL MAPPERS - Database rows <-> domain models
+ *
+ * The database stores snake_case columns; the UI works with the camelCase
+ * models defined in `@/types`. Every row read or written by the DAL passes
+ * through these mappers so components never see the database shape.
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import type { RestaurantInput } from "@/lib/security"
+import type { AuditLogRecord } from "@/types/audit"
+import { restaurantSchema, type LocalizedText, type ShadiRestaurant } from "@/types/restaurant"
+import { moderationItemSchema, type ModerationItem } from "@/types/moderation"
+import { reviewRecordSchema, type Review } from "@/types/review"
+import type { Shortlist } from "@/types/saved"
+import type { ModerationItemUpdate, NewModerationItem } from "./moderation-repository"
+import type { NewReview, ReviewUpdate } from "./review-repository"
+
+// ─── Row Types ───────────────────────────────────────────────────────────────
+
+/**
+ * Text columns come in pairs: the original column holds English and the
+ * `_ar` column Arabic (security/migrations/008_bilingual_content.sql)
+ */
+export interface RestaurantRow {
+    id: string
+    slug: string
+    name: string | null
+    name_ar: string | null
+    image: string
+    images: string[]
+    price_bucket_id: number
+    min_price: number
+    max_price: number | null
+    cuisine: string
+    description: string | null
+    description_ar: string | null
+    meals: string[] | null
+    atmosphere: string[] | null
+    emirate: string | null
+    district: string | null
+    district_ar: string | null
+    address: string | null
+    latitude: number | null
+    longitude: number | null
+    features: string[] | null
+    is_hotel_restaurant: boolean | null
+    has_delivery: boolean | null
+    phone: string | null
+    website: string | null
+    created_at: string
+    updated_at: string
+}
+
+/** Columns the application may write - ids and timestamps are owned by the database */
+export type RestaurantRowInput = Omit<RestaurantRow, "id" | "created_at" | "updated_at">
+
+export interface ReviewRow {
+    id: string
+    restaurant_id: string
+    user_id: string
+    author_name: string | null
+    rating: number
+    title: string
+    content: string
+    status: string
+    created_at: string
+    updated_at: string
+}
+
+export type ReviewRowInput = Omit<ReviewRow, "id" | "status" | "created_at" | "updated_at">
+
+export interface ModerationItemRow {
+    id: string
+    content_type: string
+    content_id: string
+    status: string
+    submitted_by: string
+    preview: ModerationItem["preview"]
+    reason_code: string | null
+    note: string | null
+    assigned_to: string | null
+    decided_by: string | null
+    decided_at: string | null
+    created_at: string
+    due_at: string
+}
+
+export interface ShortlistRow {
+    id: string
+    user_id: string
+    name: string
+    created_at: string
+    updated_at: string
+    shortlist_items: { restaurant_id: string; added_at: string }[] | null
+}
+
+export interface AuditLogRow {
+    id: string
+    timestamp: string
+    action: string
+    severity: string
+    user_id: string | null
+    target_id: string | null
+    target_type: string | null
+    ip_address: string | null
+    user_agent: string | null
+    /** Older writers stored metadata as a JSON string inside the JSONB column */
+    metadata: Record<string, unknown> | string | null
+    success: boolean
+    error_message: string | null
+    /** Null on rows written before the hash chain migration */
+    seq: number | null
+    content_hash: string | null
+    prev_hash: string | null
+    hash: string | null
+}
+
+// ─── Restaurant Mappers ──────────────────────────────────────────────────────
+
+function toLocalizedText(en: string | null, ar: string | null): LocalizedText | undefined {
+    if (en === null && ar === null) return undefined
+    return { en: en ?? undefined, ar: ar ?? undefined }
+}
+
+/**
+ * Map a database row to the domain model.
+ * The result is validated against the canonical schema so bad rows fail loudly.
+ */
+export function toRestaurant(row: RestaurantRow): ShadiRestaurant {
+    const hasCoordinates = row.latitude !== null && row.longitude !== null
+
+    return restaurantSchema.parse({
+        id: row.id,
+        slug: row.slug,
+        name: toLocalizedText(row.name, row.name_ar) ?? {},
+        image: row.image,
+        images: row.images ?? [],
+        priceBucketId: row.price_bucket_id,
+        minPrice: row.min_price,
+        maxPrice: row.max_price,
+        cuisine: row.cuisine,
+        description: toLocalizedText(row.description, row.description_ar),
+        meals: row.meals ?? undefined,
+        atmosphere: row.atmosphere ?? undefined,
+        emirate: row.emirate ?? undefined,
+        district: toLocalizedText(row.district, row.district_ar),
+        address: row.address ?? undefined,
+        mapCoordinates: hasCoordinates ? { lat: row.latitude, lng: row.longitude } : undefined,
+        features: row.features ?? undefined,
+        isHotelRestaurant: row.is_hotel_restaurant ?? undefined,
+        hasDelivery: row.has_delivery ?? undefined,
+        phone: row.phone ?? undefined,
+        website: row.website ?? undefined,
+        addedDate: new Date(row.created_at).toISOString(),
+    })
+}
+
+/**
+ * Map domain fields to database columns.
+ * Only keys present on the input are written, so partial updates stay partial.
+ */
+export function toRestaurantRow(input: Partial<RestaurantInput>): Partial<RestaurantRowInput> {
+    const row: Partial<RestaurantRowInput> = {}
+
+    if ("slug" in input) row.slug = input.slug
+    if ("name" in input) {
+        row.name = input.name?.en ?? null
+        row.name_ar = input.name?.ar ?? null
+    }
+    if ("image" in input) row.image = input.image
+    if ("images" in input) row.images = input.images
+    if ("priceBucketId" in input) row.price_bucket_id = input.priceBucketId
+    if ("minPrice" in input) row.min_price = input.minPrice
+    if ("maxPrice" in input) row.max_price = input.maxPrice
+    if ("cuisine" in input) row.cuisine = input.cuisine
+    if ("description" in input) {
+        row.description = input.description?.en ?? null
+        row.description_ar = input.description?.ar ?? null
+    }
+    if ("meals" in input) row.meals = input.meals ?? null
+    if ("atmosphere" in input) row.atmosphere = input.atmosphere ?? null
+    if ("emirate" in input) row.emirate = input.emirate ?? null
+    if ("district" in input) {
+        row.district = input.district?.en ?? null
+        row.district_ar = input.district?.ar ?? null
+    }
+    if ("address" in input) row.address = input.address ?? null
+    if ("mapCoordinates" in input) {
+        row.latitude = input.mapCoordinates?.lat ?? null
+        row.longitude = input.mapCoordinates?.lng ?? null
+    }
+    if ("features" in input) row.features = input.features ?? null
+    if ("isHotelRestaurant" in input) row.is_hotel_restaurant = input.isHotelRestaurant ?? null
+    if ("hasDelivery" in input) row.has_delivery = input.hasDelivery ?? null
+    if ("phone" in input) row.phone = input.phone ?? null
+    if ("website" in input) row.website = input.website ?? null
+
+    return row
+}
+
+// ─── Review Mappers ──────────────────────────────────────────────────────────
+
+export function toReview(row: ReviewRow): Review {
+    return reviewRecordSchema.parse({
+        id: row.id,
+        restaurantId: row.restaurant_id,
+        userId: row.user_id,
+        authorName: row.author_name ?? undefined,
+        rating: row.rating,
+        title: row.title,
+        content: row.content,
+        status: row.status,
+        createdAt: new Date(row.created_at).toISOString(),
+        updatedAt: new Date(row.updated_at).toISOString(),
+    })
+}
+
+/**
+ * Map review fields to database columns (partial-safe, like toRestaurantRow)
+ */
+export function toReviewRow(input: Partial<NewReview> | ReviewUpdate): Partial<ReviewRowInput> {
+    const row: Partial<ReviewRowInput> = {}
+
+    if ("restaurantId" in input) row.restaurant_id = input.restaurantId
+    if ("userId" in input) row.user_id = input.userId
+    if ("authorName" in input) row.author_name = input.authorName ?? null
+    if ("rating" in input) row.rating = input.rating
+    if ("title" in input) row.title = input.title
+    if ("content" in input) row.content = input.content
+
+    return row
+}
+
+// ─── Moderation Mappers ──────────────────────────────────────────────────────
+
+export function toModerationItem(row: ModerationItemRow): ModerationItem {
+    return moderationItemSchema.parse({
+        id: row.id,
+        contentType: row.content_type,
+        contentId: row.content_id,
+        status: row.status,
+        submittedBy: row.submitted_by,
+        preview: row.preview,
+        reasonCode: row.reason_code ?? undefined,
+        note: row.note ?? undefined,
+        assignedTo: row.assigned_to ?? undefined,
+        decidedBy: row.decided_by ?? undefined,
+        decidedAt: row.decided_at ? new Date(row.decided_at).toISOString() : undefined,
+        createdAt: new Date(row.created_at).toISOString(),
+        dueAt: new Date(row.due_at).toISOString(),
+    })
+}
+
+/**
+ * Map moderation fields to database columns (partial-safe; null clears a column)
+ */
+export function toModerationItemRow(
+    input: Partial<NewModerationItem> | ModerationItemUpdate
+): Partial<Omit<ModerationItemRow, "id" | "created_at">> {
+    const row: Partial<Omit<ModerationItemRow, "id" | "created_at">> = {}
+
+    if ("contentType" in input) row.content_type = input.contentType
+    if ("contentId" in input) row.content_id = input.contentId
+    if ("submittedBy" in input) row.submitted_by = input.submittedBy
+    if ("preview" in input) row.preview = input.preview
+    if ("dueAt" in input) row.due_at = input.dueAt
+    if ("status" in input) row.status = input.status
+    if ("reasonCode" in input) row.reason_code = input.reasonCode ?? null
+    if ("note" in input) row.note = input.note ?? null
+    if ("assignedTo" in input) row.assigned_to = input.assignedTo ?? null
+    if ("decidedBy" in input) row.decided_by = input.decidedBy ?? null
+    if ("decidedAt" in input) row.decided_at = input.decidedAt ?? null
+
+    return row
+}
+
+// ─── Saved Restaurant Mappers ────────────────────────────────────────────────
+
+export function toShortlist(row: ShortlistRow): Shortlist {
+    return {
+        id: row.id,
+        name: row.name,
+        restaurantIds: [...(row.shortlist_items ?? [])]
+            .sort((a, b) => a.added_at.localeCompare(b.added_at))
+            .map((item) => item.restaurant_id),
+        createdAt: new Date(row.created_at).toISOString(),
+        updatedAt: new Date(row.updated_at).toISOString(),
+    }
+}
+
+// ─── Audit Log Mappers ───────────────────────────────────────────────────────
+
+function parseAuditMetadata(metadata: AuditLogRow["metadata"]): Record<string, unknown> {
+    if (typeof metadata !== "string") return metadata ?? {}
+    try {
+        const parsed: unknown = JSON.parse(metadata)
+        return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+            ? (parsed as Record<string, unknown>)
+            : { value: parsed }
+    } catch {
+        return { raw: metadata }
+    }
+}
+
+export function toAuditLogRecord(row: AuditLogRow): AuditLogRecord {
+    return {
+        id: row.id,
+        timestamp: new Date(row.timestamp).toISOString(),
+        action: row.action as AuditLogRecord["action"],
+        severity: row.severity as AuditLogRecord["severity"],
+        user_id: row.user_id,
+        target_id: row.target_id,
+        target_type: row.target_type,
+        ip_address: row.ip_address,
+        user_agent: row.user_agent,
+        metadata: parseAuditMetadata(row.metadata),
+        success: row.success,
+        error_message: row.error_message,
+        content_hash: row.content_hash ?? undefined,
+        seq: row.seq,
+        prev_hash: row.prev_hash,
+        hash: row.hash,
+    }
+}
@@ -0,0 +1,46 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * IN-MEMORY AUDIT LOG REPOSITORY
+ *
+ * Seedable audit store for local development and tests.
+ * The AuditLogger does not write here; it starts with whatever it is seeded with.
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import type { AuditLogRecord } from "@/types/audit"
+import { compareAuditEntries, type AuditLogPage, type AuditLogQuery, type AuditLogRepository } from "./audit-repository"
+
+export class InMemoryAuditLogRepository implements AuditLogRepository {
+    private entries: AuditLogRecord[]
+
+    constructor(seed: readonly AuditLogRecord[] = []) {
+        this.entries = seed.map((entry) => structuredClone(entry)).sort(compareAuditEntries)
+    }
+
+    async list(query: AuditLogQuery): Promise<AuditLogPage> {
+        const matches = this.entries.filter(
+            (e) =>
+                (!query.action || e.action === query.action) &&
+                (!query.severity || e.severity === query.severity) &&
+                (!query.userId || e.user_id === query.userId) &&
+                (!query.targetType || e.target_type === query.targetType) &&
+                (!query.targetId || e.target_id === query.targetId) &&
+                (!query.from || e.timestamp >= query.from) &&
+                (!query.to || e.timestamp <= query.to) &&
+                (!query.after || compareAuditEntries(query.after, e) < 0)
+        )
+
+        const page = matches.slice(0, query.limit)
+        const last = page.at(-1)
+
+        return {
+            data: page.map((e) => structuredClone(e)),
+            nextCursor: matches.length > query.limit && last ? { timestamp: last.timestamp, id: last.id } : null,
+        }
+    }
+
+    async findById(id: string): Promise<AuditLogRecord | null> {
+        const entry = this.entries.find((e) => e.id === id)
+        return entry ? structuredClone(entry) : null
+    }
+}
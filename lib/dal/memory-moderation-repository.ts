@@ -0,0 +1,93 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * IN-MEMORY MODERATION REPOSITORY
+ *
+ * Process-local moderation queue for local development and tests.
+ * Starts empty; changes are lost on restart.
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import type { ModerationContentType, ModerationItem } from "@/types/moderation"
+import type {
+    ModerationItemUpdate,
+    ModerationPage,
+    ModerationQuery,
+    ModerationRepository,
+    NewModerationItem,
+} from "./moderation-repository"
+
+/**
+ * Apply an update, treating null as "remove the field"
+ */
+function applyUpdate(item: ModerationItem, updates: ModerationItemUpdate): ModerationItem {
+    const next: Record<string, unknown> = { ...item }
+    for (const [key, value] of Object.entries(updates)) {
+        if (value === null) delete next[key]
+        else if (value !== undefined) next[key] = value
+    }
+    return next as ModerationItem
+}
+
+export class InMemoryModerationRepository implements ModerationRepository {
+    private items: ModerationItem[]
+
+    constructor(seed: readonly ModerationItem[] = []) {
+        this.items = seed.map((item) => structuredClone(item))
+    }
+
+    async list(query: ModerationQuery): Promise<ModerationPage> {
+        const matches = this.items
+            .filter((item) => !query.status || item.status === query.status)
+            .filter((item) => !query.contentType || item.contentType === query.contentType)
+            .filter((item) => query.assignedTo === undefined || (item.assignedTo ?? null) === query.assignedTo)
+            .sort((a, b) => a.dueAt.localeCompare(b.dueAt))
+
+        return {
+            data: matches.slice(query.offset, query.offset + query.limit).map((item) => structuredClone(item)),
+            count: matches.length,
+        }
+    }
+
+    async findById(id: string): Promise<ModerationItem | null> {
+        const item = this.items.find((i) => i.id === id)
+        return item ? structuredClone(item) : null
+    }
+
+    async findByContent(contentType: ModerationContentType, contentId: string): Promise<ModerationItem | null> {
+        const item = this.items.find((i) => i.contentType === contentType && i.contentId === contentId)
+        return item ? structuredClone(item) : null
+    }
+
+    async enqueue(input: NewModerationItem): Promise<ModerationItem> {
+        const index = this.items.findIndex(
+            (i) => i.contentType === input.contentType && i.contentId === input.contentId
+        )
+
+        const item: ModerationItem = {
+            ...structuredClone(input),
+            id: index === -1 ? crypto.randomUUID() : this.items[index].id,
+            status: "pending",
+            createdAt: new Date().toISOString(),
+        }
+
+        if (index === -1) this.items.push(item)
+        else this.items[index] = item
+
+        return structuredClone(item)
+    }
+
+    async update(id: string, updates: ModerationItemUpdate): Promise<ModerationItem | null> {
+        const index = this.items.findIndex((i) => i.id === id)
+        if (index === -1) return null
+
+        this.items[index] = applyUpdate(this.items[index], structuredClone(updates))
+
+        return structuredClone(this.items[index])
+    }
+
+    async removeByContent(contentType: ModerationContentType, contentId: string): Promise<boolean> {
+        const before = this.items.length
+        this.items = this.items.filter((i) => !(i.contentType === contentType && i.contentId === contentId))
+        return this.items.length < before
+    }
+}
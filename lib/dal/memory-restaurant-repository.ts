@@ -0,0 +1,107 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * IN-MEMORY RESTAURANT REPOSITORY
+ *
+ * Process-local store seeded from __mock__/restaurants.ts. Used for local
+ * development, tests and previews without a Supabase project.
+ * Changes are lost on restart.
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import { createHash } from "node:crypto"
+import { mockRestaurants } from "@/__mock__/restaurants"
+import type { RestaurantInput } from "@/lib/security"
+import type { ShadiRestaurant } from "@/types/restaurant"
+import type { RestaurantPage, RestaurantQuery, RestaurantRepository } from "./restaurant-repository"
+
+// Fixed namespace for slug-derived IDs; changing it orphans saved favorites and reviews
+const RESTAURANT_ID_NAMESPACE = "6f1c2a4e-8d3b-4f5a-9c7e-2b1d0e3f4a5c"
+
+/**
+ * UUIDv5 (RFC 9562) of the slug. Favorites, shortlists and reviews point at
+ * restaurant IDs, so they must survive restarts and hot reloads.
+ */
+function restaurantIdFor(slug: string): string {
+    const namespace = Buffer.from(RESTAURANT_ID_NAMESPACE.replace(/-/g, ""), "hex")
+    const bytes = createHash("sha1").update(namespace).update(slug).digest().subarray(0, 16)
+    bytes[6] = (bytes[6] & 0x0f) | 0x50
+    bytes[8] = (bytes[8] & 0x3f) | 0x80
+
+    const hex = bytes.toString("hex")
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`
+}
+
+export class InMemoryRestaurantRepository implements RestaurantRepository {
+    private restaurants: ShadiRestaurant[]
+
+    /**
+     * Seed records get UUIDs derived from their slug so they satisfy the same
+     * ID validation as database rows and keep that ID across restarts.
+     */
+    constructor(seed: readonly ShadiRestaurant[] = mockRestaurants) {
+        this.restaurants = seed.map((restaurant) => ({
+            ...structuredClone(restaurant),
+            id: restaurantIdFor(restaurant.slug),
+        }))
+    }
+
+    async list(query: RestaurantQuery): Promise<RestaurantPage> {
+        const district = query.district?.toLowerCase()
+
+        const matches = this.restaurants
+            .filter((r) => !query.cuisine || r.cuisine.toLowerCase() === query.cuisine.toLowerCase())
+            .filter((r) => !query.emirate || r.emirate === query.emirate)
+            .filter((r) => !district || [r.district?.en, r.district?.ar].some((name) => name?.toLowerCase().includes(district)))
+            .sort((a, b) => (b.addedDate ?? "").localeCompare(a.addedDate ?? ""))
+
+        return {
+            data: matches.slice(query.offset, query.offset + query.limit).map((r) => structuredClone(r)),
+            count: matches.length,
+        }
+    }
+
+    async findById(id: string): Promise<ShadiRestaurant | null> {
+        const restaurant = this.restaurants.find((r) => r.id === id)
+        return restaurant ? structuredClone(restaurant) : null
+    }
+
+    async findBySlug(slug: string): Promise<ShadiRestaurant | null> {
+        const restaurant = this.restaurants.find((r) => r.slug === slug)
+        return restaurant ? structuredClone(restaurant) : null
+    }
+
+    async findSlugsStartingWith(prefix: string): Promise<string[]> {
+        return this.restaurants.filter((r) => r.slug.startsWith(prefix)).map((r) => r.slug)
+    }
+
+    async create(input: RestaurantInput): Promise<ShadiRestaurant> {
+        if (this.restaurants.some((r) => r.slug === input.slug)) {
+            throw new Error(`Duplicate slug: ${input.slug}`)
+        }
+
+        const restaurant: ShadiRestaurant = {
+            ...structuredClone(input),
+            id: restaurantIdFor(input.slug),
+            addedDate: new Date().toISOString(),
+        }
+        this.restaurants.push(restaurant)
+
+        return structuredClone(restaurant)
+    }
+
+    async update(id: string, updates: Partial<RestaurantInput>): Promise<ShadiRestaurant | null> {
+        const index = this.restaurants.findIndex((r) => r.id === id)
+        if (index === -1) return null
+
+        const restaurant = { ...this.restaurants[index], ...structuredClone(updates) }
+        this.restaurants[index] = restaurant
+
+        return structuredClone(restaurant)
+    }
+
+    async delete(id: string): Promise<boolean> {
+        const before = this.restaurants.length
+        this.restaurants = this.restaurants.filter((r) => r.id !== id)
+        return this.restaurants.length < before
+    }
+}
@@ -0,0 +1,100 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * IN-MEMORY REVIEW REPOSITORY
+ *
+ * Process-local review store for local development and tests.
+ * Starts empty; changes are lost on restart.
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import type { ModerationStatus } from "@/types/moderation"
+import { roundRating, type RatingSummary, type Review } from "@/types/review"
+import type { NewReview, ReviewPage, ReviewQuery, ReviewRepository, ReviewUpdate } from "./review-repository"
+
+export class InMemoryReviewRepository implements ReviewRepository {
+    private reviews: Review[]
+
+    constructor(seed: readonly Review[] = []) {
+        this.reviews = seed.map((review) => structuredClone(review))
+    }
+
+    async listByRestaurant(query: ReviewQuery): Promise<ReviewPage> {
+        const matches = this.reviews
+            .filter((r) => r.restaurantId === query.restaurantId && (!query.status || r.status === query.status))
+            .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+
+        return {
+            data: matches.slice(query.offset, query.offset + query.limit).map((r) => structuredClone(r)),
+            count: matches.length,
+        }
+    }
+
+    async findById(id: string): Promise<Review | null> {
+        const review = this.reviews.find((r) => r.id === id)
+        return review ? structuredClone(review) : null
+    }
+
+    async findByAuthor(restaurantId: string, userId: string): Promise<Review | null> {
+        const review = this.reviews.find((r) => r.restaurantId === restaurantId && r.userId === userId)
+        return review ? structuredClone(review) : null
+    }
+
+    async create(input: NewReview): Promise<Review> {
+        if (await this.findByAuthor(input.restaurantId, input.userId)) {
+            throw new Error(`Duplicate review for restaurant ${input.restaurantId}`)
+        }
+
+        const now = new Date().toISOString()
+        const review: Review = {
+            ...structuredClone(input),
+            id: crypto.randomUUID(),
+            status: "pending",
+            createdAt: now,
+            updatedAt: now,
+        }
+        this.reviews.push(review)
+
+        return structuredClone(review)
+    }
+
+    async update(id: string, updates: ReviewUpdate, status?: ModerationStatus): Promise<Review | null> {
+        const index = this.reviews.findIndex((r) => r.id === id)
+        if (index === -1) return null
+
+        const review = {
+            ...this.reviews[index],
+            ...structuredClone(updates),
+            ...(status && { status }),
+            updatedAt: new Date().toISOString(),
+        }
+        this.reviews[index] = review
+
+        return structuredClone(review)
+    }
+
+    async setStatus(id: string, status: ModerationStatus): Promise<boolean> {
+        const review = this.reviews.find((r) => r.id === id)
+        if (!review) return false
+
+        review.status = status
+        return true
+    }
+
+    async delete(id: string): Promise<boolean> {
+        const before = this.reviews.length
+        this.reviews = this.reviews.filter((r) => r.id !== id)
+        return this.reviews.length < before
+    }
+
+    async summarize(restaurantIds: readonly string[]): Promise<RatingSummary[]> {
+        return restaurantIds.flatMap((restaurantId) => {
+            const ratings = this.reviews
+                .filter((r) => r.restaurantId === restaurantId && r.status === "approved")
+                .map((r) => r.rating)
+            if (ratings.length === 0) return []
+
+            const average = ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length
+            return [{ restaurantId, average: roundRating(average), count: ratings.length }]
+        })
+    }
+}
@@ -0,0 +1,86 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * IN-MEMORY SAVED RESTAURANT REPOSITORY
+ *
+ * Process-local favorites and shortlists for local development and tests.
+ * Starts empty; changes are lost on restart.
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import type { Shortlist } from "@/types/saved"
+import type { SavedRestaurantRepository, ShortlistRecord } from "./saved-repository"
+
+function toShortlist({ userId: _userId, ...shortlist }: ShortlistRecord): Shortlist {
+    return structuredClone(shortlist)
+}
+
+export class InMemorySavedRestaurantRepository implements SavedRestaurantRepository {
+    private favorites = new Map<string, string[]>()
+    private shortlists: ShortlistRecord[] = []
+
+    async getFavorites(userId: string): Promise<string[]> {
+        return [...(this.favorites.get(userId) ?? [])]
+    }
+
+    async setFavorite(userId: string, restaurantId: string, saved: boolean): Promise<void> {
+        const current = (this.favorites.get(userId) ?? []).filter((id) => id !== restaurantId)
+        this.favorites.set(userId, saved ? [...current, restaurantId] : current)
+    }
+
+    async listShortlists(userId: string): Promise<Shortlist[]> {
+        return this.shortlists
+            .filter((s) => s.userId === userId)
+            .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+            .map(toShortlist)
+    }
+
+    async findShortlist(id: string): Promise<ShortlistRecord | null> {
+        const shortlist = this.shortlists.find((s) => s.id === id)
+        return shortlist ? structuredClone(shortlist) : null
+    }
+
+    async createShortlist(userId: string, name: string): Promise<Shortlist> {
+        const now = new Date().toISOString()
+        const shortlist: ShortlistRecord = {
+            id: crypto.randomUUID(),
+            userId,
+            name,
+            restaurantIds: [],
+            createdAt: now,
+            updatedAt: now,
+        }
+        this.shortlists.push(shortlist)
+
+        return toShortlist(shortlist)
+    }
+
+    async renameShortlist(id: string, name: string): Promise<Shortlist | null> {
+        return this.modify(id, (shortlist) => {
+            shortlist.name = name
+        })
+    }
+
+    async deleteShortlist(id: string): Promise<boolean> {
+        const before = this.shortlists.length
+        this.shortlists = this.shortlists.filter((s) => s.id !== id)
+        return this.shortlists.length < before
+    }
+
+    async setShortlistMembership(id: string, restaurantId: string, included: boolean): Promise<Shortlist | null> {
+        return this.modify(id, (shortlist) => {
+            const has = shortlist.restaurantIds.includes(restaurantId)
+            if (included && !has) shortlist.restaurantIds.push(restaurantId)
+            if (!included && has) shortlist.restaurantIds = shortlist.restaurantIds.filter((r) => r !== restaurantId)
+        })
+    }
+
+    private modify(id: string, change: (shortlist: ShortlistRecord) => void): Shortlist | null {
+        const shortlist = this.shortlists.find((s) => s.id === id)
+        if (!shortlist) return null
+
+        change(shortlist)
+        shortlist.updatedAt = new Date().toISOString()
+
+        return toShortlist(shortlist)
+    }
+}
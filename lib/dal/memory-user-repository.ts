@@ -0,0 +1,74 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * IN-MEMORY USER REPOSITORY
+ *
+ * Process-local profiles for local development and tests.
+ * Starts with whatever it is seeded with; changes are lost on restart.
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import type { Role } from "@/lib/security"
+import {
+    sanitizeUserSearch,
+    type UserPage,
+    type UserProfile,
+    type UserProfileUpdate,
+    type UserQuery,
+    type UserRepository,
+} from "./user-repository"
+
+function matchesSearch(user: UserProfile, term: string): boolean {
+    const needle = term.toLowerCase()
+    return user.email.toLowerCase().includes(needle) || (user.display_name?.toLowerCase().includes(needle) ?? false)
+}
+
+export class InMemoryUserRepository implements UserRepository {
+    private users: UserProfile[]
+
+    constructor(seed: readonly UserProfile[] = []) {
+        this.users = seed.map((user) => structuredClone(user))
+    }
+
+    async list(query: UserQuery): Promise<UserPage> {
+        const term = query.search ? sanitizeUserSearch(query.search) : ""
+
+        const matches = this.users
+            .filter(
+                (u) =>
+                    (!term || matchesSearch(u, term)) &&
+                    (!query.role || u.role === query.role) &&
+                    (!query.status || (query.status === "disabled") === (u.disabled_at !== null))
+            )
+            .sort((a, b) => b.created_at.localeCompare(a.created_at))
+
+        return {
+            data: matches.slice(query.offset, query.offset + query.limit).map((u) => structuredClone(u)),
+            count: matches.length,
+        }
+    }
+
+    async findById(id: string): Promise<UserProfile | null> {
+        const user = this.users.find((u) => u.id === id)
+        return user ? structuredClone(user) : null
+    }
+
+    async updateProfile(id: string, updates: UserProfileUpdate): Promise<UserProfile | null> {
+        return this.apply(id, updates)
+    }
+
+    async updateRole(id: string, role: Role): Promise<UserProfile | null> {
+        return this.apply(id, { role })
+    }
+
+    async setDisabled(id: string, disabledBy: string | null): Promise<UserProfile | null> {
+        return this.apply(id, { disabled_at: disabledBy ? new Date().toISOString() : null })
+    }
+
+    private apply(id: string, changes: Partial<UserProfile>): UserProfile | null {
+        const user = this.users.find((u) => u.id === id)
+        if (!user) return null
+
+        Object.assign(user, changes)
+        return structuredClone(user)
+    }
+}
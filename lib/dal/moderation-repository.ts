@@ -0,0 +1,80 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * MODERATION REPOSITORY - Pluggable storage for the moderation queue
+ *
+ * Storage only, like the restaurant and review repositories: authorization,
+ * validation, applying decisions to content and audit logging live in the DAL.
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import type {
+    ModerationContentType,
+    ModerationItem,
+    ModerationReasonCode,
+    ModerationStatus,
+} from "@/types/moderation"
+import { InMemoryModerationRepository } from "./memory-moderation-repository"
+import { getDataSource } from "./restaurant-repository"
+import { SupabaseModerationRepository } from "./supabase-moderation-repository"
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface ModerationQuery {
+    offset: number
+    limit: number
+    status?: ModerationStatus
+    contentType?: ModerationContentType
+    /** A user ID, or null for unassigned items */
+    assignedTo?: string | null
+}
+
+export interface ModerationPage {
+    data: ModerationItem[]
+    count: number
+}
+
+export type NewModerationItem = Pick<ModerationItem, "contentType" | "contentId" | "submittedBy" | "preview" | "dueAt">
+
+/** null clears an optional field (e.g. unassigning an item) */
+export interface ModerationItemUpdate {
+    status?: ModerationStatus
+    reasonCode?: ModerationReasonCode | null
+    note?: string | null
+    assignedTo?: string | null
+    decidedBy?: string | null
+    decidedAt?: string | null
+}
+
+/**
+ * Storage contract for moderation items.
+ * Lookups resolve to null when nothing matches; storage failures throw.
+ * Queue order is most urgent first (earliest SLA deadline).
+ */
+export interface ModerationRepository {
+    list(query: ModerationQuery): Promise<ModerationPage>
+    findById(id: string): Promise<ModerationItem | null>
+    findByContent(contentType: ModerationContentType, contentId: string): Promise<ModerationItem | null>
+    /**
+     * Queue content for review. Content that is already queued is reopened
+     * (pending, unassigned, fresh preview and deadline) rather than duplicated.
+     */
+    enqueue(item: NewModerationItem): Promise<ModerationItem>
+    update(id: string, updates: ModerationItemUpdate): Promise<ModerationItem | null>
+    /** Drop the item for content that no longer exists */
+    removeByContent(contentType: ModerationContentType, contentId: string): Promise<boolean>
+}
+
+// ─── Data Source Selection ───────────────────────────────────────────────────
+
+let repository: ModerationRepository | null = null
+
+/**
+ * Get the moderation repository for the configured data source
+ */
+export function getModerationRepository(): ModerationRepository {
+    if (!repository) {
+        repository =
+            getDataSource() === "supabase" ? new SupabaseModerationRepository() : new InMemoryModerationRepository()
+    }
+    return repository
+}
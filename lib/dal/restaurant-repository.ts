@@ -0,0 +1,77 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * RESTAURANT REPOSITORY - Pluggable storage behind the DAL
+ *
+ * Repositories only store and retrieve restaurants. Authorization, validation
+ * and audit logging stay in the DAL, so every data source gets them for free.
+ *
+ * Data source selection (DATA_SOURCE env):
+ * - "supabase": Supabase `restaurants` table
+ * - "memory":   In-process store seeded from __mock__/restaurants.ts
+ * Defaults to Supabase when it is configured, otherwise to memory.
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import type { RestaurantInput } from "@/lib/security"
+import type { ShadiRestaurant } from "@/types/restaurant"
+import { InMemoryRestaurantRepository } from "./memory-restaurant-repository"
+import { SupabaseRestaurantRepository } from "./supabase-restaurant-repository"
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface RestaurantQuery {
+    offset: number
+    limit: number
+    cuisine?: string
+    emirate?: string
+    /** Substring of the English or Arabic district name */
+    district?: string
+}
+
+export interface RestaurantPage {
+    data: ShadiRestaurant[]
+    count: number
+}
+
+/**
+ * Storage contract for restaurants.
+ * Lookups resolve to null when nothing matches; storage failures throw.
+ */
+export interface RestaurantRepository {
+    list(query: RestaurantQuery): Promise<RestaurantPage>
+    findById(id: string): Promise<ShadiRestaurant | null>
+    findBySlug(slug: string): Promise<ShadiRestaurant | null>
+    /** Slugs that start with `prefix` (including `prefix` itself), for picking a free one */
+    findSlugsStartingWith(prefix: string): Promise<string[]>
+    create(input: RestaurantInput): Promise<ShadiRestaurant>
+    update(id: string, updates: Partial<RestaurantInput>): Promise<ShadiRestaurant | null>
+    delete(id: string): Promise<boolean>
+}
+
+export type DataSource = "supabase" | "memory"
+
+// ─── Data Source Selection ───────────────────────────────────────────────────
+
+export function getDataSource(): DataSource {
+    const configured = process.env.DATA_SOURCE
+    if (configured === "supabase" || configured === "memory") {
+        return configured
+    }
+
+    return process.env.NEXT_PUBLIC_SUPABASE_URL ? "supabase" : "memory"
+}
+
+let repository: RestaurantRepository | null = null
+
+/**
+ * Get the restaurant repository for the configured data source
+ */
+export function getRestaurantRepository(): RestaurantRepository {
+    if (!repository) {
+        repository =
+            getDataSource() === "supabase"
+                ? new SupabaseRestaurantRepository()
+                : new InMemoryRestaurantRepository()
+    }
+    return repository
+}
@@ -0,0 +1,71 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * REVIEW REPOSITORY - Pluggable review storage behind the DAL
+ *
+ * Follows the same contract as the restaurant repository: storage only,
+ * with authorization, validation and audit logging left to the DAL.
+ * The data source is shared with restaurants (see getDataSource).
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import type { ReviewInput } from "@/lib/security"
+import type { ModerationStatus } from "@/types/moderation"
+import type { RatingSummary, Review } from "@/types/review"
+import { InMemoryReviewRepository } from "./memory-review-repository"
+import { getDataSource } from "./restaurant-repository"
+import { SupabaseReviewRepository } from "./supabase-review-repository"
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface ReviewQuery {
+    restaurantId: string
+    status?: ModerationStatus
+    offset: number
+    limit: number
+}
+
+export interface ReviewPage {
+    data: Review[]
+    count: number
+}
+
+/** A validated review plus the author, who is always taken from the session. New reviews start pending. */
+export type NewReview = ReviewInput & {
+    userId: string
+    authorName?: string
+}
+
+export type ReviewUpdate = Partial<Pick<ReviewInput, "rating" | "title" | "content">>
+
+/**
+ * Storage contract for reviews.
+ * Lookups resolve to null when nothing matches; storage failures throw.
+ */
+export interface ReviewRepository {
+    listByRestaurant(query: ReviewQuery): Promise<ReviewPage>
+    findById(id: string): Promise<Review | null>
+    findByAuthor(restaurantId: string, userId: string): Promise<Review | null>
+    create(review: NewReview): Promise<Review>
+    /** Apply an edit, optionally moving the review to `status` in the same write */
+    update(id: string, updates: ReviewUpdate, status?: ModerationStatus): Promise<Review | null>
+    /** Mirror a moderation decision onto the review */
+    setStatus(id: string, status: ModerationStatus): Promise<boolean>
+    delete(id: string): Promise<boolean>
+    /** Average rating and count of approved reviews; restaurants without any are omitted */
+    summarize(restaurantIds: readonly string[]): Promise<RatingSummary[]>
+}
+
+// ─── Data Source Selection ───────────────────────────────────────────────────
+
+let repository: ReviewRepository | null = null
+
+/**
+ * Get the review repository for the configured data source
+ */
+export function getReviewRepository(): ReviewRepository {
+    if (!repository) {
+        repository =
+            getDataSource() === "supabase" ? new SupabaseReviewRepository() : new InMemoryReviewRepository()
+    }
+    return repository
+}
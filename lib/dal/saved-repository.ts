@@ -0,0 +1,52 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * SAVED RESTAURANT REPOSITORY - Per-user favorites and shortlists
+ *
+ * Storage only: the DAL resolves the user from the session and checks that
+ * shortlists belong to them before calling in.
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import type { Shortlist } from "@/types/saved"
+import { InMemorySavedRestaurantRepository } from "./memory-saved-repository"
+import { getDataSource } from "./restaurant-repository"
+import { SupabaseSavedRestaurantRepository } from "./supabase-saved-repository"
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** Shortlist with its owner, for ownership checks */
+export type ShortlistRecord = Shortlist & { userId: string }
+
+/**
+ * Storage contract for saved restaurants.
+ * Lookups resolve to null when nothing matches; storage failures throw.
+ */
+export interface SavedRestaurantRepository {
+    getFavorites(userId: string): Promise<string[]>
+    /** Idempotent - saving twice or removing a missing favorite is a no-op */
+    setFavorite(userId: string, restaurantId: string, saved: boolean): Promise<void>
+    listShortlists(userId: string): Promise<Shortlist[]>
+    findShortlist(id: string): Promise<ShortlistRecord | null>
+    createShortlist(userId: string, name: string): Promise<Shortlist>
+    renameShortlist(id: string, name: string): Promise<Shortlist | null>
+    deleteShortlist(id: string): Promise<boolean>
+    /** Idempotent, like setFavorite */
+    setShortlistMembership(id: string, restaurantId: string, included: boolean): Promise<Shortlist | null>
+}
+
+// ─── Data Source Selection ───────────────────────────────────────────────────
+
+let repository: SavedRestaurantRepository | null = null
+
+/**
+ * Get the saved restaurant repository for the configured data source
+ */
+export function getSavedRestaurantRepository(): SavedRestaurantRepository {
+    if (!repository) {
+        repository =
+            getDataSource() === "supabase"
+                ? new SupabaseSavedRestaurantRepository()
+                : new InMemorySavedRestaurantRepository()
+    }
+    return repository
+}
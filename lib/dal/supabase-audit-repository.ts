@@ -0,0 +1,82 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * SUPABASE AUDIT LOG REPOSITORY
+ *
+ * Reads the Supabase `audit_logs` table (see security/migrations/001_audit_logs.sql).
+ * Row Level Security limits reads to admins.
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import { createClient } from "@/lib/supabase/server"
+import type { AuditLogRecord } from "@/types/audit"
+import type { AuditLogPage, AuditLogQuery, AuditLogRepository } from "./audit-repository"
+import { toAuditLogRecord, type AuditLogRow } from "./mappers"
+
+// PostgREST "no rows returned" for .single()
+const NOT_FOUND = "PGRST116"
+
+export class SupabaseAuditLogRepository implements AuditLogRepository {
+    async list(query: AuditLogQuery): Promise<AuditLogPage> {
+        const supabase = await createClient()
+
+        // One extra row tells us whether another page exists
+        let request = supabase
+            .from("audit_logs")
+            .select("*")
+            .order("timestamp", { ascending: false })
+            .order("id", { ascending: false })
+            .limit(query.limit + 1)
+
+        if (query.action) {
+            request = request.eq("action", query.action)
+        }
+        if (query.severity) {
+            request = request.eq("severity", query.severity)
+        }
+        if (query.userId) {
+            request = request.eq("user_id", query.userId)
+        }
+        if (query.targetType) {
+            request = request.eq("target_type", query.targetType)
+        }
+        if (query.targetId) {
+            request = request.eq("target_id", query.targetId)
+        }
+        if (query.from) {
+            request = request.gte("timestamp", query.from)
+        }
+        if (query.to) {
+            request = request.lte("timestamp", query.to)
+        }
+        if (query.after) {
+            const { timestamp, id } = query.after
+            request = request.or(`timestamp.lt."${timestamp}",and(timestamp.eq."${timestamp}",id.lt.${id})`)
+        }
+
+        const { data, error } = await request
+
+        if (error) throw new Error(error.message)
+
+        const rows = (data as AuditLogRow[]).map(toAuditLogRecord)
+        const page = rows.slice(0, query.limit)
+        const last = page.at(-1)
+
+        return {
+            data: page,
+            nextCursor: rows.length > query.limit && last ? { timestamp: last.timestamp, id: last.id } : null,
+        }
+    }
+
+    async findById(id: string): Promise<AuditLogRecord | null> {
+        const supabase = await createClient()
+
+        const { data, error } = await supabase.from("audit_logs").select("*").eq("id", id).single()
+
+        if (error) {
+            if (error.code === NOT_FOUND) return null
+            throw new Error(error.message)
+        }
+
+        return toAuditLogRecord(data as AuditLogRow)
+    }
+}
@@ -0,0 +1,141 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * SUPABASE MODERATION REPOSITORY
+ *
+ * Stores the queue in the Supabase `moderation_items` table
+ * (see security/migrations/004_moderation.sql).
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import { createClient } from "@/lib/supabase/server"
+import type { ModerationContentType, ModerationItem } from "@/types/moderation"
+import { toModerationItem, toModerationItemRow, type ModerationItemRow } from "./mappers"
+import type {
+    ModerationItemUpdate,
+    ModerationPage,
+    ModerationQuery,
+    ModerationRepository,
+    NewModerationItem,
+} from "./moderation-repository"
+
+// PostgREST "no rows returned" for .single()
+const NOT_FOUND = "PGRST116"
+
+export class SupabaseModerationRepository implements ModerationRepository {
+    async list(query: ModerationQuery): Promise<ModerationPage> {
+        const supabase = await createClient()
+
+        let request = supabase
+            .from("moderation_items")
+            .select("*", { count: "exact" })
+            .order("due_at", { ascending: true })
+            .range(query.offset, query.offset + query.limit - 1)
+
+        if (query.status) {
+            request = request.eq("status", query.status)
+        }
+        if (query.contentType) {
+            request = request.eq("content_type", query.contentType)
+        }
+        if (query.assignedTo === null) {
+            request = request.is("assigned_to", null)
+        } else if (query.assignedTo) {
+            request = request.eq("assigned_to", query.assignedTo)
+        }
+
+        const { data, error, count } = await request
+
+        if (error) throw new Error(error.message)
+
+        return { data: (data as ModerationItemRow[]).map(toModerationItem), count: count ?? 0 }
+    }
+
+    async findById(id: string): Promise<ModerationItem | null> {
+        const supabase = await createClient()
+
+        const { data, error } = await supabase.from("moderation_items").select("*").eq("id", id).single()
+
+        if (error) {
+            if (error.code === NOT_FOUND) return null
+            throw new Error(error.message)
+        }
+
+        return toModerationItem(data as ModerationItemRow)
+    }
+
+    async findByContent(contentType: ModerationContentType, contentId: string): Promise<ModerationItem | null> {
+        const supabase = await createClient()
+
+        const { data, error } = await supabase
+            .from("moderation_items")
+            .select("*")
+            .eq("content_type", contentType)
+            .eq("content_id", contentId)
+            .maybeSingle()
+
+        if (error) throw new Error(error.message)
+
+        return data ? toModerationItem(data as ModerationItemRow) : null
+    }
+
+    async enqueue(item: NewModerationItem): Promise<ModerationItem> {
+        const supabase = await createClient()
+
+        // Reopen in place - (content_type, content_id) is unique
+        const { data, error } = await supabase
+            .from("moderation_items")
+            .upsert(
+                {
+                    ...toModerationItemRow(item),
+                    ...toModerationItemRow({
+                        status: "pending",
+                        reasonCode: null,
+                        note: null,
+                        assignedTo: null,
+                        decidedBy: null,
+                        decidedAt: null,
+                    }),
+                    created_at: new Date().toISOString(),
+                },
+                { onConflict: "content_type,content_id" }
+            )
+            .select("*")
+            .single()
+
+        if (error) throw new Error(error.message)
+
+        return toModerationItem(data as ModerationItemRow)
+    }
+
+    async update(id: string, updates: ModerationItemUpdate): Promise<ModerationItem | null> {
+        const supabase = await createClient()
+
+        const { data, error } = await supabase
+            .from("moderation_items")
+            .update(toModerationItemRow(updates))
+            .eq("id", id)
+            .select("*")
+            .single()
+
+        if (error) {
+            if (error.code === NOT_FOUND) return null
+            throw new Error(error.message)
+        }
+
+        return toModerationItem(data as ModerationItemRow)
+    }
+
+    async removeByContent(contentType: ModerationContentType, contentId: string): Promise<boolean> {
+        const supabase = await createClient()
+
+        const { error, count } = await supabase
+            .from("moderation_items")
+            .delete({ count: "exact" })
+            .eq("content_type", contentType)
+            .eq("content_id", contentId)
+
+        if (error) throw new Error(error.message)
+
+        return (count ?? 0) > 0
+    }
+}
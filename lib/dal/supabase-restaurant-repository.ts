@@ -0,0 +1,133 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * SUPABASE RESTAURANT REPOSITORY
+ *
+ * Stores restaurants in the Supabase `restaurants` table
+ * (see security/migrations/002_restaurants.sql).
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import type { RestaurantInput } from "@/lib/security"
+import { createClient } from "@/lib/supabase/server"
+import type { ShadiRestaurant } from "@/types/restaurant"
+import { toRestaurant, toRestaurantRow, type RestaurantRow } from "./mappers"
+import type { RestaurantPage, RestaurantQuery, RestaurantRepository } from "./restaurant-repository"
+
+// PostgREST "no rows returned" for .single()
+const NOT_FOUND = "PGRST116"
+
+/** Double-quote a value inside an `or` filter so commas and parentheses stay literal */
+function quoteFilterValue(value: string): string {
+    return `"${value.replace(/["\\]/g, "\\$&")}"`
+}
+
+export class SupabaseRestaurantRepository implements RestaurantRepository {
+    async list(query: RestaurantQuery): Promise<RestaurantPage> {
+        const supabase = await createClient()
+
+        let request = supabase
+            .from("restaurants")
+            .select("*", { count: "exact" })
+            .order("created_at", { ascending: false })
+            .range(query.offset, query.offset + query.limit - 1)
+
+        if (query.cuisine) {
+            request = request.ilike("cuisine", query.cuisine)
+        }
+        if (query.emirate) {
+            request = request.eq("emirate", query.emirate)
+        }
+        if (query.district) {
+            // Matches the English or the Arabic district name
+            const pattern = quoteFilterValue(`%${query.district}%`)
+            request = request.or(`district.ilike.${pattern},district_ar.ilike.${pattern}`)
+        }
+
+        const { data, error, count } = await request
+
+        if (error) throw new Error(error.message)
+
+        return { data: (data as RestaurantRow[]).map(toRestaurant), count: count ?? 0 }
+    }
+
+    async findById(id: string): Promise<ShadiRestaurant | null> {
+        return this.findOne("id", id)
+    }
+
+    async findBySlug(slug: string): Promise<ShadiRestaurant | null> {
+        return this.findOne("slug", slug)
+    }
+
+    async findSlugsStartingWith(prefix: string): Promise<string[]> {
+        const supabase = await createClient()
+
+        // Slugs are [a-z0-9-] only, so the prefix holds no LIKE wildcards
+        const { data, error } = await supabase.from("restaurants").select("slug").like("slug", `${prefix}%`)
+
+        if (error) throw new Error(error.message)
+
+        return (data as { slug: string }[]).map((row) => row.slug)
+    }
+
+    async create(input: RestaurantInput): Promise<ShadiRestaurant> {
+        const supabase = await createClient()
+
+        const { data, error } = await supabase
+            .from("restaurants")
+            .insert(toRestaurantRow(input))
+            .select("*")
+            .single()
+
+        if (error) throw new Error(error.message)
+
+        return toRestaurant(data as RestaurantRow)
+    }
+
+    async update(id: string, updates: Partial<RestaurantInput>): Promise<ShadiRestaurant | null> {
+        const supabase = await createClient()
+
+        const { data, error } = await supabase
+            .from("restaurants")
+            .update({ ...toRestaurantRow(updates), updated_at: new Date().toISOString() })
+            .eq("id", id)
+            .select("*")
+            .single()
+
+        if (error) {
+            if (error.code === NOT_FOUND) return null
+            throw new Error(error.message)
+        }
+
+        return toRestaurant(data as RestaurantRow)
+    }
+
+    async delete(id: string): Promise<boolean> {
+        const supabase = await createClient()
+
+        const { error, count } = await supabase
+            .from("restaurants")
+            .delete({ count: "exact" })
+            .eq("id", id)
+
+        if (error) throw new Error(error.message)
+
+        return (count ?? 0) > 0
+    }
+
+    private async findOne(column: "id" | "slug", value: string): Promise<ShadiRestaurant | null> {
+        const supabase = await createClient()
+
+        const { data, error } = await supabase
+            .from("restaurants")
+            .select("*")
+            .eq(column, value)
+            .single()
+
+        if (error) {
+            if (error.code === NOT_FOUND) return null
+            throw new Error(error.message)
+        }
+
+        return toRestaurant(data as RestaurantRow)
+    }
+}
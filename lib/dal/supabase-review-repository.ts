@@ -0,0 +1,145 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * SUPABASE REVIEW REPOSITORY
+ *
+ * Stores reviews in the Supabase `reviews` table and reads aggregates from the
+ * `restaurant_rating_stats` view (see security/migrations/003_reviews.sql and
+ * 004_moderation.sql, which adds the moderation status).
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import { createClient } from "@/lib/supabase/server"
+import type { ModerationStatus } from "@/types/moderation"
+import { roundRating, type RatingSummary, type Review } from "@/types/review"
+import { toReview, toReviewRow, type ReviewRow } from "./mappers"
+import type { NewReview, ReviewPage, ReviewQuery, ReviewRepository, ReviewUpdate } from "./review-repository"
+
+// PostgREST "no rows returned" for .single()
+const NOT_FOUND = "PGRST116"
+
+interface RatingStatsRow {
+    restaurant_id: string
+    rating_average: number
+    review_count: number
+}
+
+export class SupabaseReviewRepository implements ReviewRepository {
+    async listByRestaurant(query: ReviewQuery): Promise<ReviewPage> {
+        const supabase = await createClient()
+
+        let request = supabase
+            .from("reviews")
+            .select("*", { count: "exact" })
+            .eq("restaurant_id", query.restaurantId)
+            .order("created_at", { ascending: false })
+            .range(query.offset, query.offset + query.limit - 1)
+
+        if (query.status) {
+            request = request.eq("status", query.status)
+        }
+
+        const { data, error, count } = await request
+
+        if (error) throw new Error(error.message)
+
+        return { data: (data as ReviewRow[]).map(toReview), count: count ?? 0 }
+    }
+
+    async findById(id: string): Promise<Review | null> {
+        const supabase = await createClient()
+
+        const { data, error } = await supabase.from("reviews").select("*").eq("id", id).single()
+
+        if (error) {
+            if (error.code === NOT_FOUND) return null
+            throw new Error(error.message)
+        }
+
+        return toReview(data as ReviewRow)
+    }
+
+    async findByAuthor(restaurantId: string, userId: string): Promise<Review | null> {
+        const supabase = await createClient()
+
+        const { data, error } = await supabase
+            .from("reviews")
+            .select("*")
+            .eq("restaurant_id", restaurantId)
+            .eq("user_id", userId)
+            .maybeSingle()
+
+        if (error) throw new Error(error.message)
+
+        return data ? toReview(data as ReviewRow) : null
+    }
+
+    async create(review: NewReview): Promise<Review> {
+        const supabase = await createClient()
+
+        const { data, error } = await supabase.from("reviews").insert(toReviewRow(review)).select("*").single()
+
+        if (error) throw new Error(error.message)
+
+        return toReview(data as ReviewRow)
+    }
+
+    async update(id: string, updates: ReviewUpdate, status?: ModerationStatus): Promise<Review | null> {
+        const supabase = await createClient()
+
+        const { data, error } = await supabase
+            .from("reviews")
+            .update({ ...toReviewRow(updates), ...(status && { status }), updated_at: new Date().toISOString() })
+            .eq("id", id)
+            .select("*")
+            .single()
+
+        if (error) {
+            if (error.code === NOT_FOUND) return null
+            throw new Error(error.message)
+        }
+
+        return toReview(data as ReviewRow)
+    }
+
+    async setStatus(id: string, status: ModerationStatus): Promise<boolean> {
+        const supabase = await createClient()
+
+        const { error, count } = await supabase
+            .from("reviews")
+            .update({ status }, { count: "exact" })
+            .eq("id", id)
+
+        if (error) throw new Error(error.message)
+
+        return (count ?? 0) > 0
+    }
+
+    async delete(id: string): Promise<boolean> {
+        const supabase = await createClient()
+
+        const { error, count } = await supabase.from("reviews").delete({ count: "exact" }).eq("id", id)
+
+        if (error) throw new Error(error.message)
+
+        return (count ?? 0) > 0
+    }
+
+    async summarize(restaurantIds: readonly string[]): Promise<RatingSummary[]> {
+        if (restaurantIds.length === 0) return []
+
+        const supabase = await createClient()
+
+        const { data, error } = await supabase
+            .from("restaurant_rating_stats")
+            .select("restaurant_id, rating_average, review_count")
+            .in("restaurant_id", [...restaurantIds])
+
+        if (error) throw new Error(error.message)
+
+        return (data as RatingStatsRow[]).map((row) => ({
+            restaurantId: row.restaurant_id,
+            average: roundRating(Number(row.rating_average)),
+            count: row.review_count,
+        }))
+    }
+}
@@ -0,0 +1,143 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * SUPABASE SAVED RESTAURANT REPOSITORY
+ *
+ * Stores favorites and shortlists in the `favorites`, `shortlists` and
+ * `shortlist_items` tables (see security/migrations/005_saved_restaurants.sql).
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import { createClient } from "@/lib/supabase/server"
+import type { Shortlist } from "@/types/saved"
+import { toShortlist, type ShortlistRow } from "./mappers"
+import type { SavedRestaurantRepository, ShortlistRecord } from "./saved-repository"
+
+// PostgREST "no rows returned" for .single()
+const NOT_FOUND = "PGRST116"
+
+// Items are embedded so a shortlist loads in one request
+const SHORTLIST_COLUMNS = "*, shortlist_items(restaurant_id, added_at)"
+
+export class SupabaseSavedRestaurantRepository implements SavedRestaurantRepository {
+    async getFavorites(userId: string): Promise<string[]> {
+        const supabase = await createClient()
+
+        const { data, error } = await supabase
+            .from("favorites")
+            .select("restaurant_id")
+            .eq("user_id", userId)
+            .order("created_at", { ascending: true })
+
+        if (error) throw new Error(error.message)
+
+        return (data as { restaurant_id: string }[]).map((row) => row.restaurant_id)
+    }
+
+    async setFavorite(userId: string, restaurantId: string, saved: boolean): Promise<void> {
+        const supabase = await createClient()
+
+        const { error } = saved
+            ? await supabase
+                  .from("favorites")
+                  .upsert({ user_id: userId, restaurant_id: restaurantId }, { ignoreDuplicates: true })
+            : await supabase.from("favorites").delete().eq("user_id", userId).eq("restaurant_id", restaurantId)
+
+        if (error) throw new Error(error.message)
+    }
+
+    async listShortlists(userId: string): Promise<Shortlist[]> {
+        const supabase = await createClient()
+
+        const { data, error } = await supabase
+            .from("shortlists")
+            .select(SHORTLIST_COLUMNS)
+            .eq("user_id", userId)
+            .order("created_at", { ascending: true })
+
+        if (error) throw new Error(error.message)
+
+        return (data as ShortlistRow[]).map((row) => toShortlist(row))
+    }
+
+    async findShortlist(id: string): Promise<ShortlistRecord | null> {
+        const supabase = await createClient()
+
+        const { data, error } = await supabase.from("shortlists").select(SHORTLIST_COLUMNS).eq("id", id).single()
+
+        if (error) {
+            if (error.code === NOT_FOUND) return null
+            throw new Error(error.message)
+        }
+
+        const row = data as ShortlistRow
+        return { ...toShortlist(row), userId: row.user_id }
+    }
+
+    async createShortlist(userId: string, name: string): Promise<Shortlist> {
+        const supabase = await createClient()
+
+        const { data, error } = await supabase
+            .from("shortlists")
+            .insert({ user_id: userId, name })
+            .select(SHORTLIST_COLUMNS)
+            .single()
+
+        if (error) throw new Error(error.message)
+
+        return toShortlist(data as ShortlistRow)
+    }
+
+    async renameShortlist(id: string, name: string): Promise<Shortlist | null> {
+        const supabase = await createClient()
+
+        const { data, error } = await supabase
+            .from("shortlists")
+            .update({ name, updated_at: new Date().toISOString() })
+            .eq("id", id)
+            .select(SHORTLIST_COLUMNS)
+            .single()
+
+        if (error) {
+            if (error.code === NOT_FOUND) return null
+            throw new Error(error.message)
+        }
+
+        return toShortlist(data as ShortlistRow)
+    }
+
+    async deleteShortlist(id: string): Promise<boolean> {
+        const supabase = await createClient()
+
+        const { error, count } = await supabase.from("shortlists").delete({ count: "exact" }).eq("id", id)
+
+        if (error) throw new Error(error.message)
+
+        return (count ?? 0) > 0
+    }
+
+    async setShortlistMembership(id: string, restaurantId: string, included: boolean): Promise<Shortlist | null> {
+        const supabase = await createClient()
+
+        const { error } = included
+            ? await supabase
+                  .from("shortlist_items")
+                  .upsert({ shortlist_id: id, restaurant_id: restaurantId }, { ignoreDuplicates: true })
+            : await supabase.from("shortlist_items").delete().eq("shortlist_id", id).eq("restaurant_id", restaurantId)
+
+        if (error) throw new Error(error.message)
+
+        const { data, error: touchError } = await supabase
+            .from("shortlists")
+            .update({ updated_at: new Date().toISOString() })
+            .eq("id", id)
+            .select(SHORTLIST_COLUMNS)
+            .single()
+
+        if (touchError) {
+            if (touchError.code === NOT_FOUND) return null
+            throw new Error(touchError.message)
+        }
+
+        return toShortlist(data as ShortlistRow)
+    }
+}
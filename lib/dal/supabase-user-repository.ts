@@ -0,0 +1,104 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * SUPABASE USER REPOSITORY
+ *
+ * Stores profiles in the `profiles` table (see security/migrations/
+ * 006_user_management.sql, which adds account disabling).
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import type { Role } from "@/lib/security"
+import { createClient } from "@/lib/supabase/server"
+import {
+    sanitizeUserSearch,
+    type UserPage,
+    type UserProfile,
+    type UserProfileUpdate,
+    type UserQuery,
+    type UserRepository,
+} from "./user-repository"
+
+// PostgREST "no rows returned" for .single()
+const NOT_FOUND = "PGRST116"
+
+const PROFILE_COLUMNS = "id, email, display_name, avatar_url, role, created_at, disabled_at"
+
+export class SupabaseUserRepository implements UserRepository {
+    async list(query: UserQuery): Promise<UserPage> {
+        const supabase = await createClient()
+
+        let request = supabase
+            .from("profiles")
+            .select(PROFILE_COLUMNS, { count: "exact" })
+            .order("created_at", { ascending: false })
+            .range(query.offset, query.offset + query.limit - 1)
+
+        const term = query.search ? sanitizeUserSearch(query.search) : ""
+        if (term) {
+            request = request.or(`email.ilike.%${term}%,display_name.ilike.%${term}%`)
+        }
+        if (query.role) {
+            request = request.eq("role", query.role)
+        }
+        if (query.status === "active") {
+            request = request.is("disabled_at", null)
+        }
+        if (query.status === "disabled") {
+            request = request.not("disabled_at", "is", null)
+        }
+
+        const { data, error, count } = await request
+
+        if (error) throw new Error(error.message)
+
+        return { data: data as UserProfile[], count: count ?? 0 }
+    }
+
+    async findById(id: string): Promise<UserProfile | null> {
+        const supabase = await createClient()
+
+        const { data, error } = await supabase.from("profiles").select(PROFILE_COLUMNS).eq("id", id).single()
+
+        if (error) {
+            if (error.code === NOT_FOUND) return null
+            throw new Error(error.message)
+        }
+
+        return data as UserProfile
+    }
+
+    async updateProfile(id: string, updates: UserProfileUpdate): Promise<UserProfile | null> {
+        return this.update(id, { ...updates })
+    }
+
+    async updateRole(id: string, role: Role): Promise<UserProfile | null> {
+        return this.update(id, { role })
+    }
+
+    async setDisabled(id: string, disabledBy: string | null): Promise<UserProfile | null> {
+        return this.update(
+            id,
+            disabledBy
+                ? { disabled_at: new Date().toISOString(), disabled_by: disabledBy }
+                : { disabled_at: null, disabled_by: null }
+        )
+    }
+
+    private async update(id: string, changes: Record<string, string | null>): Promise<UserProfile | null> {
+        const supabase = await createClient()
+
+        const { data, error } = await supabase
+            .from("profiles")
+            .update(changes)
+            .eq("id", id)
+            .select(PROFILE_COLUMNS)
+            .single()
+
+        if (error) {
+            if (error.code === NOT_FOUND) return null
+            throw new Error(error.message)
+        }
+
+        return data as UserProfile
+    }
+}
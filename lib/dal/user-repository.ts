@@ -0,0 +1,87 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * USER REPOSITORY - Profiles for the session user and the admin user console
+ *
+ * Storage only: the DAL checks roles, refuses self-demotion and self-disable,
+ * and writes the audit trail before calling in.
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import type { Role } from "@/lib/security"
+import { InMemoryUserRepository } from "./memory-user-repository"
+import { getDataSource } from "./restaurant-repository"
+import { SupabaseUserRepository } from "./supabase-user-repository"
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface UserProfile {
+    id: string
+    email: string
+    display_name: string | null
+    avatar_url: string | null
+    role: Role
+    created_at: string
+    /** Set when an admin disabled the account; disabled users are treated as signed out */
+    disabled_at: string | null
+}
+
+export type UserStatus = "active" | "disabled"
+
+export interface UserQuery {
+    offset: number
+    limit: number
+    /** Matched case-insensitively against email and display name */
+    search?: string
+    role?: Role
+    status?: UserStatus
+}
+
+export interface UserPage {
+    data: UserProfile[]
+    count: number
+}
+
+/** null clears an optional field */
+export interface UserProfileUpdate {
+    display_name?: string | null
+    avatar_url?: string | null
+}
+
+/**
+ * Storage contract for user profiles.
+ * Lookups resolve to null when nothing matches; storage failures throw.
+ * Lists are newest account first.
+ */
+export interface UserRepository {
+    list(query: UserQuery): Promise<UserPage>
+    findById(id: string): Promise<UserProfile | null>
+    updateProfile(id: string, updates: UserProfileUpdate): Promise<UserProfile | null>
+    updateRole(id: string, role: Role): Promise<UserProfile | null>
+    /** Disable on behalf of `disabledBy`, or re-enable when it is null */
+    setDisabled(id: string, disabledBy: string | null): Promise<UserProfile | null>
+}
+
+// ─── Search ──────────────────────────────────────────────────────────────────
+
+/**
+ * Strip characters that carry meaning in PostgREST filters and LIKE patterns,
+ * so a search term cannot widen the query. Every implementation matches on
+ * the sanitized term; an empty result means "no search".
+ */
+export function sanitizeUserSearch(search: string): string {
+    return search.replace(/[%_\\,()*]/g, " ").trim()
+}
+
+// ─── Data Source Selection ───────────────────────────────────────────────────
+
+let repository: UserRepository | null = null
+
+/**
+ * Get the user repository for the configured data source
+ */
+export function getUserRepository(): UserRepository {
+    if (!repository) {
+        repository = getDataSource() === "supabase" ? new SupabaseUserRepository() : new InMemoryUserRepository()
+    }
+    return repository
+}
@@ -2,6 +2,8 @@
    DISTANCE UTILITIES - Haversine formula for geolocation distance
    ═══════════════════════════════════════════════════════════════════════════════ */
 
+import type { MapCoordinates, UAEEmirate } from "@/types/restaurant"
+
 /**
  * Coordinates interface
  */
@@ -10,6 +12,26 @@ export interface Coordinates {
   longitude: number
 }
 
+/**
+ * Approximate city centers, used as the origin when geolocation is unavailable
+ */
+export const EMIRATE_CENTERS: Record<UAEEmirate, Coordinates> = {
+  Dubai: { latitude: 25.2048, longitude: 55.2708 },
+  "Abu Dhabi": { latitude: 24.4539, longitude: 54.3773 },
+  Sharjah: { latitude: 25.3463, longitude: 55.4209 },
+  Ajman: { latitude: 25.4052, longitude: 55.5136 },
+  "Umm Al Quwain": { latitude: 25.5647, longitude: 55.5552 },
+  "Ras Al Khaimah": { latitude: 25.8007, longitude: 55.9762 },
+  Fujairah: { latitude: 25.1288, longitude: 56.3265 },
+}
+
+/**
+ * Convert restaurant map coordinates to Coordinates
+ */
+export function toCoordinates({ lat, lng }: MapCoordinates): Coordinates {
+  return { latitude: lat, longitude: lng }
+}
+
 /**
  * Calculate distance between two coordinates using Haversine formula
  *
@@ -47,27 +69,6 @@ function toRadians(degrees: number): number {
   return degrees * (Math.PI / 180)
 }
 
-/**
- * Format distance for display
- *
- * @param distanceKm - Distance in kilometers
- * @returns Formatted distance string
- *
- * @example
- * ```ts
- * formatDistance(0.5)  // "500m"
- * formatDistance(1.2)  // "1.2km"
- * formatDistance(15)   // "15km"
- * ```
- */
-export function formatDistance(distanceKm: number): string {
-  if (distanceKm < 1) {
-    const meters = Math.round(distanceKm * 1000)
-    return `${meters}m`
-  }
-  return `${distanceKm.toFixed(1)}km`
-}
-
 /**
  * Get user's current location
  *
@@ -0,0 +1,193 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   FORMAT - Locale-aware numbers, AED prices, distances and dates
+   Built on Intl so digits, separators and word order follow the active language
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+import type { Language } from "@/lib/language.types"
+import { t } from "@/lib/translations"
+import { PRICE_BUCKETS, type PriceBucketId } from "@/types/restaurant"
+
+// ─── Digit Style ─────────────────────────────────────────────────────────────
+
+/**
+ * Digit shapes a visitor can choose: Latin (0-9) or Arabic-Indic (٠-٩)
+ */
+export const DIGIT_STYLES = ["latn", "arab"] as const
+
+export type DigitStyle = (typeof DIGIT_STYLES)[number]
+
+export const DEFAULT_DIGIT_STYLE: DigitStyle = "latn"
+
+export function isDigitStyle(value: unknown): value is DigitStyle {
+  return typeof value === "string" && (DIGIT_STYLES as readonly string[]).includes(value)
+}
+
+// Persian and Urdu write 4, 5 and 6 with their own shapes (۴ ۵ ۶)
+const ARABIC_NUMBERING: Record<Language, string> = {
+  ar: "arab",
+  en: "arab",
+  hi: "arab",
+  ur: "arabext",
+  fa: "arabext",
+}
+
+export interface FormatPreferences {
+  language: Language
+  digits?: DigitStyle
+}
+
+/**
+ * BCP 47 tag for Intl: the language in the UAE region with the chosen numbering
+ * system pinned, so Persian does not switch to its own digits unasked
+ *
+ * @example
+ * ```ts
+ * getFormatLocale({ language: "ar", digits: "arab" }) // "ar-AE-u-nu-arab"
+ * ```
+ */
+export function getFormatLocale({ language, digits = DEFAULT_DIGIT_STYLE }: FormatPreferences): string {
+  const numbering = digits === "arab" ? ARABIC_NUMBERING[language] : "latn"
+  return `${language}-AE-u-nu-${numbering}`
+}
+
+// ─── Numbers ─────────────────────────────────────────────────────────────────
+
+// Intl constructors are slow enough to matter in long result lists
+const numberFormats = new Map<string, Intl.NumberFormat>()
+
+function getNumberFormat(locale: string, options: Intl.NumberFormatOptions): Intl.NumberFormat {
+  const key = `${locale}|${JSON.stringify(options)}`
+  let format = numberFormats.get(key)
+  if (!format) {
+    format = new Intl.NumberFormat(locale, options)
+    numberFormats.set(key, format)
+  }
+  return format
+}
+
+export function formatNumber(value: number, preferences: FormatPreferences, maximumFractionDigits = 0): string {
+  return getNumberFormat(getFormatLocale(preferences), { maximumFractionDigits }).format(value)
+}
+
+/**
+ * Average rating with exactly one decimal place ("4.0", "٤٫٥")
+ */
+export function formatRating(rating: number, preferences: FormatPreferences): string {
+  return getNumberFormat(getFormatLocale(preferences), { minimumFractionDigits: 1, maximumFractionDigits: 1 }).format(rating)
+}
+
+// ─── Currency ────────────────────────────────────────────────────────────────
+
+const AED: Intl.NumberFormatOptions = { style: "currency", currency: "AED", maximumFractionDigits: 0 }
+
+/**
+ * Whole-dirham amount, e.g. "AED 50" or "‏٥٠ د.إ.‏"
+ */
+export function formatCurrency(amount: number, preferences: FormatPreferences): string {
+  return getNumberFormat(getFormatLocale(preferences), AED).format(amount)
+}
+
+/**
+ * Label for a price bucket: a range, or "Under"/"Above" for the open ends
+ *
+ * @example
+ * ```ts
+ * formatPriceBucket(2, { language: "en" }) // "AED 10–30"
+ * formatPriceBucket(7, { language: "en" }) // "Above AED 500"
+ * ```
+ */
+export function formatPriceBucket(bucketId: PriceBucketId, preferences: FormatPreferences): string {
+  const bucket = PRICE_BUCKETS.find((b) => b.id === bucketId)
+  if (!bucket) return ""
+
+  if (bucket.maxPrice === null) {
+    return t("priceAbove", preferences.language, { amount: formatCurrency(bucket.minPrice, preferences) })
+  }
+  if (bucket.minPrice === 0) {
+    return t("priceUnder", preferences.language, { amount: formatCurrency(bucket.maxPrice, preferences) })
+  }
+  return getNumberFormat(getFormatLocale(preferences), AED).formatRange(bucket.minPrice, bucket.maxPrice)
+}
+
+// ─── Distance ────────────────────────────────────────────────────────────────
+
+/**
+ * Metres below one kilometre, otherwise kilometres to one decimal place
+ *
+ * @example
+ * ```ts
+ * formatDistance(0.5, { language: "en" }) // "500 m"
+ * formatDistance(1.2, { language: "en" }) // "1.2 km"
+ * ```
+ */
+export function formatDistance(distanceKm: number, preferences: FormatPreferences): string {
+  const locale = getFormatLocale(preferences)
+
+  if (distanceKm < 1) {
+    return getNumberFormat(locale, { style: "unit", unit: "meter", maximumFractionDigits: 0 }).format(Math.round(distanceKm * 1000))
+  }
+  return getNumberFormat(locale, { style: "unit", unit: "kilometer", maximumFractionDigits: 1 }).format(distanceKm)
+}
+
+// ─── Dates ───────────────────────────────────────────────────────────────────
+
+export function formatDate(date: string | Date, preferences: FormatPreferences, options: Intl.DateTimeFormatOptions = { dateStyle: "medium" }): string {
+  return new Intl.DateTimeFormat(getFormatLocale(preferences), options).format(new Date(date))
+}
+
+export function formatDateTime(date: string | Date, preferences: FormatPreferences): string {
+  return formatDate(date, preferences, { dateStyle: "medium", timeStyle: "short" })
+}
+
+const RELATIVE_UNITS: readonly [Intl.RelativeTimeFormatUnit, number][] = [
+  ["year", 365 * 24 * 60 * 60],
+  ["month", 30 * 24 * 60 * 60],
+  ["week", 7 * 24 * 60 * 60],
+  ["day", 24 * 60 * 60],
+  ["hour", 60 * 60],
+  ["minute", 60],
+]
+
+/**
+ * "3 days ago", "yesterday", "in 2 weeks" - the largest whole unit that fits
+ */
+export function formatRelativeTime(date: string | Date, preferences: FormatPreferences, now: Date = new Date()): string {
+  const seconds = Math.round((new Date(date).getTime() - now.getTime()) / 1000)
+  const format = new Intl.RelativeTimeFormat(getFormatLocale(preferences), { numeric: "auto" })
+
+  for (const [unit, unitSeconds] of RELATIVE_UNITS) {
+    if (Math.abs(seconds) >= unitSeconds) {
+      return format.format(Math.trunc(seconds / unitSeconds), unit)
+    }
+  }
+  return format.format(0, "second")
+}
+
+/**
+ * "Added 3 days ago" for restaurant listings
+ */
+export function formatAddedDate(addedDate: string, preferences: FormatPreferences, now?: Date): string {
+  return t("addedAgo", preferences.language, { time: formatRelativeTime(addedDate, preferences, now) })
+}
+
+// ─── Bound Formatter ─────────────────────────────────────────────────────────
+
+export type Formatter = ReturnType<typeof createFormatter>
+
+/**
+ * Every formatter bound to one set of preferences, for components
+ */
+export function createFormatter(preferences: FormatPreferences) {
+  return {
+    locale: getFormatLocale(preferences),
+    number: (value: number, maximumFractionDigits?: number) => formatNumber(value, preferences, maximumFractionDigits),
+    rating: (rating: number) => formatRating(rating, preferences),
+    currency: (amount: number) => formatCurrency(amount, preferences),
+    priceBucket: (bucketId: PriceBucketId) => formatPriceBucket(bucketId, preferences),
+    distance: (distanceKm: number) => formatDistance(distanceKm, preferences),
+    date: (date: string | Date, options?: Intl.DateTimeFormatOptions) => formatDate(date, preferences, options),
+    dateTime: (date: string | Date) => formatDateTime(date, preferences),
+    relativeTime: (date: string | Date, now?: Date) => formatRelativeTime(date, preferences, now),
+    addedDate: (addedDate: string, now?: Date) => formatAddedDate(addedDate, preferences, now),
+  }
+}
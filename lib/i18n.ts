@@ -2,10 +2,12 @@
    I18N UTILITIES - Internationalization support
    ═══════════════════════════════════════════════════════════════════════════════ */
 
+import type { Language as SupportedLanguage } from "./language.types"
+
 /**
- * Supported languages
+ * Supported languages (the codes listed in language.types SUPPORTED_LANGUAGES)
  */
-export type LanguageCode = "en" | "ar" | "hi" | "ur" | "fa"
+export type LanguageCode = SupportedLanguage
 
 /**
  * Locale type (for backward compatibility with LanguageContext)
@@ -1,21 +1,46 @@
-import { cookies } from "next/headers"
-import { DEFAULT_LANGUAGE, type Language } from "./language.types"
+import { cookies, headers } from "next/headers"
+import { DEFAULT_DIGIT_STYLE, isDigitStyle, type DigitStyle } from "./format"
+import { DEFAULT_LANGUAGE, isLanguage, negotiateLanguage, type Language } from "./language.types"
 
 export const LANGUAGE_COOKIE = "shadi_lang"
+export const DIGITS_COOKIE = "shadi_digits"
 
+const PREFERENCE_COOKIE_OPTIONS = {
+  path: "/",
+  httpOnly: true,
+  sameSite: "lax",
+  secure: process.env.NODE_ENV === "production",
+  maxAge: 60 * 60 * 24 * 365, // 1 year
+} as const
+
+/**
+ * Language chosen in the picker, or - until the visitor picks one - the best
+ * match for their browser's Accept-Language header
+ */
 export async function getLanguage(): Promise<Language> {
   const store = await cookies()
   const value = store.get(LANGUAGE_COOKIE)?.value
-  return value === "ar" || value === "en" ? value : DEFAULT_LANGUAGE
+  if (isLanguage(value)) return value
+
+  const requestHeaders = await headers()
+  return negotiateLanguage(requestHeaders.get("accept-language")) ?? DEFAULT_LANGUAGE
 }
 
 export async function setLanguage(lang: Language) {
   const store = await cookies()
-  store.set(LANGUAGE_COOKIE, lang, {
-    path: "/",
-    httpOnly: true,
-    sameSite: "lax",
-    secure: process.env.NODE_ENV === "production",
-    maxAge: 60 * 60 * 24 * 365, // 1 year
-  })
+  store.set(LANGUAGE_COOKIE, lang, PREFERENCE_COOKIE_OPTIONS)
+}
+
+/**
+ * Digit shapes chosen in the picker; Latin until the visitor opts in
+ */
+export async function getDigitStyle(): Promise<DigitStyle> {
+  const store = await cookies()
+  const value = store.get(DIGITS_COOKIE)?.value
+  return isDigitStyle(value) ? value : DEFAULT_DIGIT_STYLE
+}
+
+export async function setDigitStyle(digits: DigitStyle) {
+  const store = await cookies()
+  store.set(DIGITS_COOKIE, digits, PREFERENCE_COOKIE_OPTIONS)
 }
@@ -1,13 +1,37 @@
 // lib/language.types.ts
 
-export type Language = "ar" | "en"
+export const SUPPORTED_LANGUAGES = ["ar", "en", "hi", "ur", "fa"] as const
+
+export type Language = (typeof SUPPORTED_LANGUAGES)[number]
 
 export const DEFAULT_LANGUAGE: Language = "ar"
 
-export function getToggleLanguage(lang: Language): Language {
-  return lang === "ar" ? "en" : "ar"
+export function isLanguage(value: unknown): value is Language {
+  return typeof value === "string" && (SUPPORTED_LANGUAGES as readonly string[]).includes(value)
 }
 
-export function getLanguageButtonLabel(lang: Language): string {
-  return lang === "ar" ? "E" : "ع"
+/**
+ * Best supported language for an Accept-Language header, or null when none
+ * of the listed languages is supported. Region subtags are ignored
+ * ("ar-AE" matches "ar") and entries with q=0 are skipped.
+ */
+export function negotiateLanguage(acceptLanguage: string | null | undefined): Language | null {
+  if (!acceptLanguage) return null
+
+  const ranges = acceptLanguage
+    .split(",")
+    .map((entry, index) => {
+      const [tag, ...params] = entry.trim().split(";")
+      const q = params.map((param) => param.trim()).find((param) => param.startsWith("q="))
+      const quality = q ? Number.parseFloat(q.slice(2)) : 1
+      return { base: tag.trim().toLowerCase().split("-")[0], quality: Number.isNaN(quality) ? 0 : quality, index }
+    })
+    .filter((range) => range.quality > 0)
+    // Equal quality keeps the order the browser listed them in
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+
+  for (const { base } of ranges) {
+    if (isLanguage(base)) return base
+  }
+  return null
 }
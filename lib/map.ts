@@ -0,0 +1,225 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   MAP UTILITIES - Web Mercator projection, viewport fitting and marker clustering
+   Tile provider is configured via NEXT_PUBLIC_MAP_TILE_URL (unset or "offline" = static fallback)
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+import type { MapCoordinates } from "@/types/restaurant"
+
+// ─── Tile Provider ───────────────────────────────────────────────────────────
+
+export const MAP_TILE_SIZE = 256
+export const MAP_MIN_ZOOM = 3
+export const MAP_MAX_ZOOM = 18
+
+export interface TileConfig {
+  /** URL template with {z}, {x} and {y} placeholders; null renders the static fallback */
+  urlTemplate: string | null
+  attribution: string
+}
+
+/**
+ * Resolve the tile provider. There is deliberately no default: public servers
+ * such as tile.openstreetmap.org forbid app traffic, so until a provider is
+ * configured the map draws the offline grid. Tests always get the fallback so
+ * they never depend on the network.
+ */
+export function getTileConfig(): TileConfig {
+  const configured = process.env.NEXT_PUBLIC_MAP_TILE_URL
+  const offline = !configured || configured === "offline" || process.env.NODE_ENV === "test"
+
+  return {
+    urlTemplate: offline ? null : configured,
+    attribution: offline ? "" : process.env.NEXT_PUBLIC_MAP_ATTRIBUTION || "",
+  }
+}
+
+/**
+ * Origin of the configured tile server, for the CSP img-src directive
+ */
+export function getTileOrigin(): string | null {
+  const { urlTemplate } = getTileConfig()
+  if (!urlTemplate) return null
+
+  try {
+    return new URL(urlTemplate.replace(/\{[xyz]\}/g, "0")).origin
+  } catch {
+    return null
+  }
+}
+
+export function tileUrl(template: string, z: number, x: number, y: number): string {
+  return template.replace("{z}", String(z)).replace("{x}", String(x)).replace("{y}", String(y))
+}
+
+// ─── Projection ──────────────────────────────────────────────────────────────
+
+export interface Point {
+  x: number
+  y: number
+}
+
+export interface MapBounds {
+  north: number
+  south: number
+  east: number
+  west: number
+}
+
+export interface MapViewport {
+  center: MapCoordinates
+  zoom: number
+}
+
+// Web Mercator is undefined at the poles
+const MAX_LATITUDE = 85.05112878
+
+function worldSize(zoom: number): number {
+  return MAP_TILE_SIZE * 2 ** zoom
+}
+
+/**
+ * Project coordinates to world pixels at a zoom level
+ */
+export function project({ lat, lng }: MapCoordinates, zoom: number): Point {
+  const size = worldSize(zoom)
+  const sin = Math.sin((Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, lat)) * Math.PI) / 180)
+
+  return {
+    x: ((lng + 180) / 360) * size,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * size,
+  }
+}
+
+/**
+ * Inverse of project
+ */
+export function unproject({ x, y }: Point, zoom: number): MapCoordinates {
+  const size = worldSize(zoom)
+  const n = Math.PI - (2 * Math.PI * y) / size
+
+  return {
+    lat: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+    lng: (x / size) * 360 - 180,
+  }
+}
+
+/**
+ * Geographic bounds of a viewport of the given pixel size
+ */
+export function getVisibleBounds(viewport: MapViewport, width: number, height: number): MapBounds {
+  const center = project(viewport.center, viewport.zoom)
+  const northWest = unproject({ x: center.x - width / 2, y: center.y - height / 2 }, viewport.zoom)
+  const southEast = unproject({ x: center.x + width / 2, y: center.y + height / 2 }, viewport.zoom)
+
+  return { north: northWest.lat, south: southEast.lat, east: southEast.lng, west: northWest.lng }
+}
+
+export function isWithinBounds({ lat, lng }: MapCoordinates, bounds: MapBounds): boolean {
+  return lat <= bounds.north && lat >= bounds.south && lng >= bounds.west && lng <= bounds.east
+}
+
+/** Whole UAE, shown when there is nothing to fit */
+const DEFAULT_VIEWPORT: MapViewport = { center: { lat: 24.4, lng: 54.6 }, zoom: 7 }
+const SINGLE_POINT_ZOOM = 14
+
+/**
+ * Largest integer zoom (and its center) that shows every point with padding
+ */
+export function fitBounds(
+  points: readonly MapCoordinates[],
+  width: number,
+  height: number,
+  padding = 48
+): MapViewport {
+  if (points.length === 0 || width <= 0 || height <= 0) return DEFAULT_VIEWPORT
+
+  const lats = points.map((p) => p.lat)
+  const lngs = points.map((p) => p.lng)
+  const northWest = { lat: Math.max(...lats), lng: Math.min(...lngs) }
+  const southEast = { lat: Math.min(...lats), lng: Math.max(...lngs) }
+
+  for (let zoom = SINGLE_POINT_ZOOM; zoom >= MAP_MIN_ZOOM; zoom--) {
+    const topLeft = project(northWest, zoom)
+    const bottomRight = project(southEast, zoom)
+    const fits =
+      bottomRight.x - topLeft.x <= width - padding * 2 && bottomRight.y - topLeft.y <= height - padding * 2
+
+    if (fits || zoom === MAP_MIN_ZOOM) {
+      return {
+        zoom,
+        center: unproject({ x: (topLeft.x + bottomRight.x) / 2, y: (topLeft.y + bottomRight.y) / 2 }, zoom),
+      }
+    }
+  }
+
+  return DEFAULT_VIEWPORT
+}
+
+// ─── Clustering ──────────────────────────────────────────────────────────────
+
+export interface MarkerCluster<T> {
+  id: string
+  /** Centroid of the clustered items */
+  position: MapCoordinates
+  items: T[]
+}
+
+/**
+ * Group markers that fall into the same pixel cell at the current zoom
+ */
+export function clusterMarkers<T>(
+  items: readonly T[],
+  getPosition: (item: T) => MapCoordinates,
+  zoom: number,
+  cellSize = 60
+): MarkerCluster<T>[] {
+  const cells = new Map<string, T[]>()
+
+  for (const item of items) {
+    const { x, y } = project(getPosition(item), zoom)
+    const key = `${Math.floor(x / cellSize)}:${Math.floor(y / cellSize)}`
+    const cell = cells.get(key)
+    if (cell) cell.push(item)
+    else cells.set(key, [item])
+  }
+
+  return [...cells.entries()].map(([id, cellItems]) => {
+    const positions = cellItems.map(getPosition)
+    return {
+      id,
+      items: cellItems,
+      position: {
+        lat: positions.reduce((sum, p) => sum + p.lat, 0) / positions.length,
+        lng: positions.reduce((sum, p) => sum + p.lng, 0) / positions.length,
+      },
+    }
+  })
+}
+
+// ─── Wheel Zoom ──────────────────────────────────────────────────────────────
+
+/** Scroll distance, in pixels, that zooms one level */
+export const WHEEL_ZOOM_THRESHOLD = 120
+
+const WHEEL_LINE_HEIGHT = 16
+
+/**
+ * Add one wheel event to the running scroll total and take out whole zoom
+ * levels. A mouse notch is roughly one level; a trackpad's stream of small
+ * deltas adds up to a level instead of each event zooming one.
+ *
+ * @returns Levels to zoom (positive = in) and the remainder to carry forward
+ */
+export function accumulateWheelZoom(
+  carried: number,
+  deltaY: number,
+  deltaMode: number
+): { steps: number; remainder: number } {
+  // deltaMode 1 = lines, 2 = pages; 0 = pixels
+  const pixels = deltaMode === 1 ? deltaY * WHEEL_LINE_HEIGHT : deltaMode === 2 ? deltaY * WHEEL_ZOOM_THRESHOLD : deltaY
+  const total = carried + pixels
+  // Scrolling up (negative deltaY) zooms in; `|| 0` avoids returning -0
+  const steps = Math.trunc(-total / WHEEL_ZOOM_THRESHOLD) || 0
+
+  return { steps, remainder: total + steps * WHEEL_ZOOM_THRESHOLD }
+}
@@ -0,0 +1,42 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   MODERATION QUERY - URL search params for /admin/moderation
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+import { z } from "zod"
+import { MODERATION_STATUSES } from "@/types/moderation"
+
+export const moderationFiltersSchema = z.object({
+  status: z.enum(MODERATION_STATUSES).catch("pending"),
+  assignee: z.enum(["all", "me", "unassigned"]).catch("all"),
+  page: z.coerce.number().int().min(1).catch(1),
+})
+
+export type ModerationFilters = z.infer<typeof moderationFiltersSchema>
+
+export const DEFAULT_MODERATION_FILTERS: ModerationFilters = { status: "pending", assignee: "all", page: 1 }
+
+type SearchParamsInput = URLSearchParams | Record<string, string | string[] | undefined>
+
+/**
+ * Parse filters from search params; unknown values fall back to the defaults
+ */
+export function parseModerationFilters(params: SearchParamsInput): ModerationFilters {
+  const get = (key: keyof ModerationFilters) => {
+    if (params instanceof URLSearchParams) return params.get(key) ?? undefined
+    const value = params[key]
+    return Array.isArray(value) ? value[0] : value
+  }
+
+  return moderationFiltersSchema.parse({ status: get("status"), assignee: get("assignee"), page: get("page") })
+}
+
+/**
+ * Serialize filters, omitting defaults to keep URLs short
+ */
+export function serializeModerationFilters(filters: ModerationFilters): string {
+  const params = new URLSearchParams()
+  for (const key of Object.keys(DEFAULT_MODERATION_FILTERS) as (keyof ModerationFilters)[]) {
+    if (filters[key] !== DEFAULT_MODERATION_FILTERS[key]) params.set(key, String(filters[key]))
+  }
+  return params.toString()
+}
@@ -0,0 +1,318 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   RESULTS QUERY - Search params codec for the restaurant results page
+   Shared by the server page (initial render) and ResultsClient (URL sync)
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+import { z } from "zod"
+import { VIEW_MODES } from "@/components/cards/CardGrid"
+import type { CuisineOption } from "@/components/search/FilterSystem"
+import { calculateDistance, EMIRATE_CENTERS, toCoordinates, type Coordinates } from "@/lib/distance"
+import { searchRestaurants } from "@/lib/search"
+import { safeString, searchQuerySchema } from "@/lib/security/validation"
+import {
+  ATMOSPHERE_TYPES,
+  MEAL_TYPES,
+  PRICE_BUCKET_IDS,
+  getLocalizedText,
+  priceBucketValue,
+  UAE_EMIRATES,
+  type LocalizedText,
+  type PriceBucketId,
+  type ShadiRestaurant,
+  type UAEEmirate,
+} from "@/types/restaurant"
+
+/**
+ * Sort options available on the results page
+ */
+export const SORT_OPTION_IDS = [
+  "newest",
+  "nearest",
+  "oldest",
+  "price-asc",
+  "price-desc",
+  "top-rated",
+  "name-asc",
+  "name-desc",
+] as const
+
+export type SortOptionId = (typeof SORT_OPTION_IDS)[number]
+
+/**
+ * Radius filter choices in kilometers
+ */
+export const RADIUS_OPTIONS_KM = [1, 5, 10, 25] as const
+
+export type RadiusKm = (typeof RADIUS_OPTIONS_KM)[number]
+
+const CUISINE_OPTIONS = [
+  "all",
+  "emirati",
+  "arabic",
+  "lebanese",
+  "indian",
+  "pakistani",
+  "chinese",
+  "japanese",
+  "thai",
+  "italian",
+  "seafood",
+  "international",
+] as const satisfies readonly CuisineOption[]
+
+/**
+ * Comma-separated list param; unknown and duplicate items are dropped
+ */
+function listParam<T>(item: z.ZodType<T>) {
+  return z
+    .string()
+    .transform((value) => [
+      ...new Set(
+        value.split(",").flatMap((part) => {
+          const result = item.safeParse(part)
+          return result.success ? [result.data] : []
+        })
+      ),
+    ])
+    .catch([])
+}
+
+/**
+ * Results page state. Every field falls back to its default when the
+ * query string carries a missing or unknown value.
+ */
+export const resultsQuerySchema = z.object({
+  q: searchQuerySchema.shape.query.catch(undefined),
+  cuisine: z.enum(CUISINE_OPTIONS).catch("all"),
+  meal: z.enum(["all", ...MEAL_TYPES]).catch("all"),
+  atmosphere: z.enum(["all", ...ATMOSPHERE_TYPES]).catch("all"),
+  price: listParam(z.coerce.number().pipe(z.literal(PRICE_BUCKET_IDS))),
+  emirate: z.enum(["all", ...UAE_EMIRATES]).catch("all"),
+  district: listParam(safeString.max(100)),
+  /** Distance origin: the device location ("me") or an emirate center */
+  near: z.enum(["me", ...UAE_EMIRATES]).optional().catch(undefined),
+  radius: z.coerce.number().pipe(z.literal(RADIUS_OPTIONS_KM)).optional().catch(undefined),
+  sort: z.enum(SORT_OPTION_IDS).catch("newest"),
+  view: z.enum(VIEW_MODES).catch("grid-2"),
+})
+
+export type ResultsQuery = z.infer<typeof resultsQuerySchema>
+
+export const DEFAULT_RESULTS_QUERY: ResultsQuery = resultsQuerySchema.parse({})
+
+type SearchParamsInput = URLSearchParams | Record<string, string | string[] | undefined>
+
+/**
+ * Decode search params (URLSearchParams or Next.js `searchParams`) into results state
+ */
+export function parseResultsQuery(params: SearchParamsInput): ResultsQuery {
+  const get = (key: keyof ResultsQuery) => {
+    if (params instanceof URLSearchParams) return params.get(key) ?? undefined
+    const value = params[key]
+    return Array.isArray(value) ? value[0] : value
+  }
+
+  return resultsQuerySchema.parse({
+    q: get("q"),
+    cuisine: get("cuisine"),
+    meal: get("meal"),
+    atmosphere: get("atmosphere"),
+    price: get("price"),
+    emirate: get("emirate"),
+    district: get("district"),
+    near: get("near"),
+    radius: get("radius"),
+    sort: get("sort"),
+    view: get("view"),
+  })
+}
+
+/**
+ * Encode results state as search params, omitting defaults to keep URLs short
+ */
+export function serializeResultsQuery(query: ResultsQuery): URLSearchParams {
+  const params = new URLSearchParams()
+
+  for (const key of Object.keys(resultsQuerySchema.shape) as (keyof ResultsQuery)[]) {
+    const value = query[key]
+    if (Array.isArray(value)) {
+      if (value.length > 0) params.set(key, value.join(","))
+    } else if (value !== undefined && value !== DEFAULT_RESULTS_QUERY[key]) {
+      params.set(key, String(value))
+    }
+  }
+
+  return params
+}
+
+/**
+ * Resolve the point distances are measured from. "me" needs the device
+ * location, which only the client knows; until then there is no origin.
+ */
+export function resolveOrigin(query: ResultsQuery, userLocation?: Coordinates | null): Coordinates | null {
+  if (!query.near) return null
+  if (query.near === "me") return userLocation ?? null
+  return EMIRATE_CENTERS[query.near]
+}
+
+/**
+ * Distance in km from the origin, or null when the restaurant has no coordinates
+ */
+export function distanceFrom(restaurant: ShadiRestaurant, origin: Coordinates): number | null {
+  return restaurant.mapCoordinates ? calculateDistance(origin, toCoordinates(restaurant.mapCoordinates)) : null
+}
+
+function addedTime(restaurant: ShadiRestaurant): number {
+  return restaurant.addedDate ? new Date(restaurant.addedDate).getTime() : 0
+}
+
+function matchesFilters(restaurant: ShadiRestaurant, query: ResultsQuery): boolean {
+  const { cuisine, meal, atmosphere, price, emirate, district } = query
+
+  return (
+    (meal === "all" || Boolean(restaurant.meals?.includes(meal))) &&
+    (cuisine === "all" || restaurant.cuisine?.toLowerCase() === cuisine.toLowerCase()) &&
+    (atmosphere === "all" || Boolean(restaurant.atmosphere?.includes(atmosphere))) &&
+    (price.length === 0 || price.includes(restaurant.priceBucketId)) &&
+    (emirate === "all" || restaurant.emirate === emirate) &&
+    (district.length === 0 || district.includes(getDistrictId(restaurant.district) ?? ""))
+  )
+}
+
+/**
+ * Apply the filters and sort order of a results query (does not mutate the input).
+ * A free-text query ranks results by relevance; the sort order breaks ties.
+ * Radius and "nearest" only apply once an origin is known.
+ */
+export function applyResultsQuery(
+  restaurants: readonly ShadiRestaurant[],
+  query: ResultsQuery,
+  userLocation?: Coordinates | null
+): ShadiRestaurant[] {
+  const { q, sort, radius } = query
+  const origin = resolveOrigin(query, userLocation)
+
+  const distances = new Map<string, number | null>()
+  const distanceOf = (restaurant: ShadiRestaurant) => {
+    if (!origin) return null
+    if (!distances.has(restaurant.id)) distances.set(restaurant.id, distanceFrom(restaurant, origin))
+    return distances.get(restaurant.id) ?? null
+  }
+
+  const results = restaurants.filter((r) => {
+    if (!matchesFilters(r, query)) return false
+    if (!origin || !radius) return true
+    const distance = distanceOf(r)
+    return distance !== null && distance <= radius
+  })
+
+  results.sort((a, b) => {
+    switch (sort) {
+      case "price-desc":
+        return priceBucketValue(b.priceBucketId) - priceBucketValue(a.priceBucketId)
+      case "price-asc":
+        return priceBucketValue(a.priceBucketId) - priceBucketValue(b.priceBucketId)
+      case "newest":
+        return addedTime(b) - addedTime(a)
+      case "oldest":
+        return addedTime(a) - addedTime(b)
+      case "nearest": {
+        // Restaurants without coordinates go last
+        const distanceA = distanceOf(a) ?? Number.POSITIVE_INFINITY
+        const distanceB = distanceOf(b) ?? Number.POSITIVE_INFINITY
+        return distanceA === distanceB ? 0 : distanceA - distanceB
+      }
+      case "top-rated": {
+        // Unrated restaurants go last; equal averages favour more reviews
+        const ratingA = a.rating ?? -1
+        const ratingB = b.rating ?? -1
+        return ratingA === ratingB ? (b.reviewCount ?? 0) - (a.reviewCount ?? 0) : ratingB - ratingA
+      }
+      // Same order in every page language, so shared links list results identically
+      case "name-asc":
+        return getLocalizedText(a.name, "en").localeCompare(getLocalizedText(b.name, "en"))
+      case "name-desc":
+        return getLocalizedText(b.name, "en").localeCompare(getLocalizedText(a.name, "en"))
+      default:
+        return 0
+    }
+  })
+
+  return q ? searchRestaurants(results, q) : results
+}
+
+/**
+ * Count restaurants per price bucket under every other active filter,
+ * so each option shows how many results selecting it would add
+ */
+export function countPriceBuckets(
+  restaurants: readonly ShadiRestaurant[],
+  query: ResultsQuery,
+  userLocation?: Coordinates | null
+): Record<PriceBucketId, number> {
+  const counts = Object.fromEntries(PRICE_BUCKET_IDS.map((id) => [id, 0])) as Record<PriceBucketId, number>
+
+  for (const restaurant of applyResultsQuery(restaurants, { ...query, price: [] }, userLocation)) {
+    counts[restaurant.priceBucketId]++
+  }
+
+  return counts
+}
+
+// ─── Location Options ────────────────────────────────────────────────────────
+
+export interface DistrictOption {
+  /** Value stored in the `district` search param */
+  id: string
+  name: LocalizedText
+}
+
+export interface LocationOption {
+  emirate: UAEEmirate
+  districts: DistrictOption[]
+}
+
+/**
+ * District filter value: the English name, or the Arabic one when no English
+ * was entered, so a filtered link works whichever language opens it
+ */
+export function getDistrictId(district: LocalizedText | undefined): string | undefined {
+  return district?.en || district?.ar || undefined
+}
+
+/**
+ * Emirates present in the dataset (in UAE_EMIRATES order), each with its districts
+ */
+export function getLocationOptions(restaurants: readonly ShadiRestaurant[]): LocationOption[] {
+  const districtsByEmirate = new Map<UAEEmirate, Map<string, LocalizedText>>()
+
+  for (const { emirate, district } of restaurants) {
+    if (!emirate) continue
+    const districts = districtsByEmirate.get(emirate) ?? new Map<string, LocalizedText>()
+    const id = getDistrictId(district)
+    if (id && district && !districts.has(id)) districts.set(id, district)
+    districtsByEmirate.set(emirate, districts)
+  }
+
+  return UAE_EMIRATES.filter((emirate) => districtsByEmirate.has(emirate)).map((emirate) => ({
+    emirate,
+    districts: [...(districtsByEmirate.get(emirate) ?? [])]
+      .map(([id, name]) => ({ id, name }))
+      .sort((a, b) => a.id.localeCompare(b.id)),
+  }))
+}
+
+/**
+ * Drop districts that do not exist under the selected emirate
+ * (or anywhere, when no emirate is selected)
+ */
+export function withKnownDistricts(query: ResultsQuery, options: readonly LocationOption[]): ResultsQuery {
+  const known = new Set(
+    options
+      .filter((o) => query.emirate === "all" || o.emirate === query.emirate)
+      .flatMap((o) => o.districts.map((d) => d.id))
+  )
+  const district = query.district.filter((d) => known.has(d))
+
+  return district.length === query.district.length ? query : { ...query, district }
+}
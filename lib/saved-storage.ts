@@ -0,0 +1,70 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   SAVED STORAGE - Favorites and shortlists for anonymous users
+
+   Kept in localStorage until sign-in, when they are merged into the account.
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+import { EMPTY_SAVED_RESTAURANTS, type SavedRestaurants } from "@/types/saved"
+
+/**
+ * localStorage key for saved restaurants
+ */
+const SAVED_STORAGE_KEY = "shadi_saved"
+
+/**
+ * Prefix for shortlist IDs created on the device
+ */
+export const LOCAL_SHORTLIST_PREFIX = "local-"
+
+function isSavedRestaurants(value: unknown): value is SavedRestaurants {
+  if (!value || typeof value !== "object") return false
+  const { favorites, shortlists } = value as Partial<SavedRestaurants>
+  return Array.isArray(favorites) && Array.isArray(shortlists)
+}
+
+/**
+ * Get saved restaurants from localStorage
+ */
+export function getStoredSaved(): SavedRestaurants {
+  if (typeof window === "undefined") return EMPTY_SAVED_RESTAURANTS
+
+  try {
+    const stored = localStorage.getItem(SAVED_STORAGE_KEY)
+    const parsed: unknown = stored ? JSON.parse(stored) : null
+    if (isSavedRestaurants(parsed)) return parsed
+  } catch {
+    // localStorage not available or corrupted
+  }
+
+  return EMPTY_SAVED_RESTAURANTS
+}
+
+/**
+ * Set saved restaurants in localStorage
+ */
+export function setStoredSaved(saved: SavedRestaurants): void {
+  if (typeof window === "undefined") return
+
+  try {
+    localStorage.setItem(SAVED_STORAGE_KEY, JSON.stringify(saved))
+  } catch {
+    // localStorage not available
+  }
+}
+
+/**
+ * Remove saved restaurants from localStorage once merged into an account
+ */
+export function clearStoredSaved(): void {
+  if (typeof window === "undefined") return
+
+  try {
+    localStorage.removeItem(SAVED_STORAGE_KEY)
+  } catch {
+    // localStorage not available
+  }
+}
+
+export function hasStoredContent(saved: SavedRestaurants): boolean {
+  return saved.favorites.length > 0 || saved.shortlists.length > 0
+}
@@ -0,0 +1,169 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   SEARCH - Arabic-aware free-text matching and ranking for restaurants
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+import type { LocalizedText, ShadiRestaurant } from "@/types/restaurant"
+
+// ─── Normalization ───────────────────────────────────────────────────────────
+
+// Tashkeel, Quranic annotation marks, superscript alef and tatweel
+const ARABIC_MARKS = /[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06ED\u0640]/
+
+// Letters users type interchangeably: alef/hamza forms, alef maqsura, taa marbuta
+const ARABIC_FOLDS: Record<string, string> = {
+  "أ": "ا",
+  "إ": "ا",
+  "آ": "ا",
+  "ٱ": "ا",
+  "ؤ": "و",
+  "ئ": "ي",
+  "ى": "ي",
+  "ة": "ه",
+}
+
+function foldChar(char: string): string {
+  if (ARABIC_MARKS.test(char)) return ""
+  return ARABIC_FOLDS[char] ?? char.normalize("NFKD").replace(/\p{M}/gu, "").toLowerCase()
+}
+
+/**
+ * Normalize text for matching: case, Latin accents and Arabic spelling variants
+ */
+export function normalizeSearchText(text: string): string {
+  let normalized = ""
+  for (const char of text) normalized += foldChar(char)
+  return normalized
+}
+
+/**
+ * Split text into normalized search tokens
+ */
+export function tokenizeSearchText(text: string): string[] {
+  return normalizeSearchText(text)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+}
+
+// ─── Ranking ─────────────────────────────────────────────────────────────────
+
+const FIELD_WEIGHTS = {
+  name: 8,
+  district: 4,
+  features: 2,
+  description: 1,
+} as const
+
+type SearchField = keyof typeof FIELD_WEIGHTS
+
+/** Both languages are indexed, so a query matches whichever one it is typed in */
+function tokenizeLocalized(text: LocalizedText | undefined): string[] {
+  return tokenizeSearchText(`${text?.en ?? ""} ${text?.ar ?? ""}`)
+}
+
+function searchFields(restaurant: ShadiRestaurant): Record<SearchField, string[]> {
+  return {
+    name: tokenizeLocalized(restaurant.name),
+    district: tokenizeLocalized(restaurant.district),
+    features: tokenizeSearchText(restaurant.features?.join(" ") ?? ""),
+    description: tokenizeLocalized(restaurant.description),
+  }
+}
+
+/** Whole-word matches outrank prefixes, which outrank substrings */
+function tokenScore(token: string, words: string[]): number {
+  let best = 0
+  for (const word of words) {
+    if (word === token) return 3
+    if (word.startsWith(token)) best = Math.max(best, 2)
+    else if (word.includes(token)) best = Math.max(best, 1)
+  }
+  return best
+}
+
+/**
+ * Score a restaurant against query tokens.
+ * Returns 0 unless every token matches at least one field.
+ */
+export function scoreRestaurant(restaurant: ShadiRestaurant, tokens: string[]): number {
+  const fields = searchFields(restaurant)
+  let total = 0
+
+  for (const token of tokens) {
+    let tokenTotal = 0
+    for (const field of Object.keys(FIELD_WEIGHTS) as SearchField[]) {
+      tokenTotal += tokenScore(token, fields[field]) * FIELD_WEIGHTS[field]
+    }
+    if (tokenTotal === 0) return 0
+    total += tokenTotal
+  }
+
+  return total
+}
+
+/**
+ * Keep restaurants matching every query token, best matches first.
+ * Ties keep their incoming order, so the selected sort breaks them.
+ */
+export function searchRestaurants(
+  restaurants: readonly ShadiRestaurant[],
+  query: string
+): ShadiRestaurant[] {
+  const tokens = tokenizeSearchText(query)
+  if (tokens.length === 0) return [...restaurants]
+
+  return restaurants
+    .map((restaurant) => ({ restaurant, score: scoreRestaurant(restaurant, tokens) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map(({ restaurant }) => restaurant)
+}
+
+// ─── Highlighting ────────────────────────────────────────────────────────────
+
+export type MatchRange = [start: number, end: number]
+
+/**
+ * Find ranges of the original text matching any query token,
+ * merged and sorted, for highlighting
+ */
+export function findMatchRanges(text: string, query: string): MatchRange[] {
+  const tokens = tokenizeSearchText(query)
+  if (tokens.length === 0) return []
+
+  // Map every normalized character back to the original character it came from
+  let normalized = ""
+  const starts: number[] = []
+  const ends: number[] = []
+  let offset = 0
+  for (const char of text) {
+    for (const folded of foldChar(char)) {
+      normalized += folded
+      starts.push(offset)
+      ends.push(offset + char.length)
+    }
+    offset += char.length
+  }
+
+  const ranges: MatchRange[] = []
+  for (const token of tokens) {
+    let index = normalized.indexOf(token)
+    while (index !== -1) {
+      ranges.push([starts[index], ends[index + token.length - 1]])
+      index = normalized.indexOf(token, index + token.length)
+    }
+  }
+
+  ranges.sort((a, b) => a[0] - b[0])
+
+  const merged: MatchRange[] = []
+  for (const range of ranges) {
+    const last = merged[merged.length - 1]
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1])
+    } else {
+      merged.push([...range])
+    }
+  }
+
+  return merged
+}
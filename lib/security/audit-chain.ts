@@ -0,0 +1,184 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * AUDIT HASH CHAIN - Tamper evidence for audit_logs
+ *
+ * The app stamps every entry with `content_hash` (SHA-256 of its canonical
+ * content). On insert the database links it to the previous row
+ * (security/migrations/007_audit_hash_chain.sql):
+ *
+ *   seq       = previous seq + 1
+ *   prev_hash = previous row's hash (GENESIS_HASH for the first row)
+ *   hash      = sha256(prev_hash || content_hash)
+ *
+ * Editing a row breaks its content hash, removing one breaks the next link,
+ * and truncating the tail is caught by signed checkpoints, which are HMACs
+ * over (seq, hash) keyed by a secret the database never sees.
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import { createHash, createHmac, timingSafeEqual } from "node:crypto"
+import { isIPv4, isIPv6 } from "node:net"
+import type { AuditLogEntry } from "@/types/audit"
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** A row as stored once the database has linked it */
+export interface ChainedAuditEntry extends AuditLogEntry {
+    id: string
+    seq: number
+    content_hash: string
+    prev_hash: string
+    hash: string
+}
+
+export interface ChainLink {
+    seq: number
+    hash: string
+}
+
+export interface AuditCheckpoint extends ChainLink {
+    created_at: string
+    signature: string
+}
+
+export type ChainBreakReason = "content_hash" | "prev_hash" | "hash" | "sequence"
+
+export type ChainVerification =
+    | { ok: true; checked: number; head: ChainLink }
+    | { ok: false; checked: number; seq: number; id: string; reason: ChainBreakReason }
+
+export const GENESIS_HASH = "0".repeat(64)
+
+// ─── Hashing ─────────────────────────────────────────────────────────────────
+
+const sha256 = (value: string) => createHash("sha256").update(value, "utf8").digest("hex")
+
+/**
+ * JSON with object keys sorted at every level.
+ * JSONB reorders keys, so the hash must not depend on insertion order.
+ */
+export function canonicalJson(value: unknown): string {
+    if (value === null || typeof value !== "object") return JSON.stringify(value) ?? "null"
+    if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`
+
+    const entries = Object.entries(value as Record<string, unknown>)
+        .filter(([, v]) => v !== undefined)
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`
+}
+
+/**
+ * One address in a single canonical form, or null when the value is not an IP.
+ *
+ * `ip_address` is an INET column, which rejects junk and rewrites IPv6 text
+ * (case, zero runs, IPv4-mapped forms), so the app stores and hashes this form
+ * and the verifier re-normalizes what the database hands back.
+ *
+ * @example
+ * ```ts
+ * normalizeIpAddress("203.0.113.7, 10.0.0.1")  // "203.0.113.7"
+ * normalizeIpAddress("2001:DB8:0:0:0:0:0:1")   // "2001:db8::1"
+ * normalizeIpAddress("::ffff:203.0.113.7")     // "203.0.113.7"
+ * normalizeIpAddress("unknown")                // null
+ * ```
+ */
+export function normalizeIpAddress(value: string | null | undefined): string | null {
+    // First hop of an X-Forwarded-For list, without a port or IPv6 zone
+    let address = value?.split(",")[0]?.trim() ?? ""
+    const bracketed = /^\[([^\]]+)\](?::\d+)?$/.exec(address)
+    if (bracketed) address = bracketed[1]
+    else if (/^[\d.]+:\d+$/.test(address)) address = address.slice(0, address.lastIndexOf(":"))
+    address = address.split("%")[0]
+
+    if (isIPv4(address)) return address
+    if (!isIPv6(address)) return null
+
+    // The URL serializer lowercases and compresses the longest zero run
+    const canonical = new URL(`http://[${address}]`).hostname.slice(1, -1)
+    const mapped = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/.exec(canonical)
+    if (!mapped) return canonical
+
+    const [high, low] = [Number.parseInt(mapped[1], 16), Number.parseInt(mapped[2], 16)]
+    return `${high >> 8}.${high & 0xff}.${low >> 8}.${low & 0xff}`
+}
+
+/**
+ * Hash the fields the app writes. Ids and chain columns are assigned by the
+ * database and excluded; timestamps and IPs are normalized so a round trip
+ * through TIMESTAMPTZ and INET hashes the same.
+ */
+export function hashAuditContent(entry: AuditLogEntry): string {
+    return sha256(
+        canonicalJson({
+            timestamp: new Date(entry.timestamp).toISOString(),
+            action: entry.action,
+            severity: entry.severity,
+            user_id: entry.user_id,
+            target_id: entry.target_id ?? null,
+            target_type: entry.target_type ?? null,
+            ip_address: normalizeIpAddress(entry.ip_address),
+            user_agent: entry.user_agent,
+            // Round-trip like JSONB does: Dates become strings, undefined drops out
+            metadata: JSON.parse(JSON.stringify(entry.metadata ?? {})),
+            success: entry.success,
+            error_message: entry.error_message ?? null,
+        })
+    )
+}
+
+/**
+ * Same as the trigger's encode(digest(prev_hash || content_hash, 'sha256'), 'hex')
+ */
+export function linkHash(prevHash: string, contentHash: string): string {
+    return sha256(prevHash + contentHash)
+}
+
+// ─── Verification ────────────────────────────────────────────────────────────
+
+/**
+ * Walk rows in seq order and stop at the first broken link.
+ * `from` is the link just before the first row - the genesis, or a trusted
+ * checkpoint when verifying incrementally.
+ */
+export function verifyAuditChain(
+    rows: readonly ChainedAuditEntry[],
+    from: ChainLink = { seq: 0, hash: GENESIS_HASH }
+): ChainVerification {
+    let previous = from
+
+    for (const [index, row] of rows.entries()) {
+        const reason: ChainBreakReason | null =
+            row.seq !== previous.seq + 1
+                ? "sequence"
+                : row.prev_hash !== previous.hash
+                  ? "prev_hash"
+                  : hashAuditContent(row) !== row.content_hash
+                    ? "content_hash"
+                    : linkHash(row.prev_hash, row.content_hash) !== row.hash
+                      ? "hash"
+                      : null
+
+        if (reason) return { ok: false, checked: index, seq: row.seq, id: row.id, reason }
+        previous = { seq: row.seq, hash: row.hash }
+    }
+
+    return { ok: true, checked: rows.length, head: previous }
+}
+
+// ─── Checkpoints ─────────────────────────────────────────────────────────────
+
+function checkpointPayload(link: ChainLink, createdAt: string): string {
+    // Normalized so the signature survives a round trip through TIMESTAMPTZ
+    return `audit-checkpoint:v1:${link.seq}:${link.hash}:${new Date(createdAt).toISOString()}`
+}
+
+export function signCheckpoint(link: ChainLink, secret: string, createdAt = new Date().toISOString()): AuditCheckpoint {
+    const signature = createHmac("sha256", secret).update(checkpointPayload(link, createdAt)).digest("hex")
+    return { seq: link.seq, hash: link.hash, created_at: createdAt, signature }
+}
+
+export function verifyCheckpoint(checkpoint: AuditCheckpoint, secret: string): boolean {
+    const expected = signCheckpoint(checkpoint, secret, checkpoint.created_at).signature
+    const actual = Buffer.from(checkpoint.signature, "hex")
+    return actual.length === expected.length / 2 && timingSafeEqual(actual, Buffer.from(expected, "hex"))
+}
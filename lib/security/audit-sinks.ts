@@ -0,0 +1,282 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * AUDIT SINKS - Where audit entries are delivered
+ *
+ * The AuditLogger hands batches to an AuditDispatcher, which fans them out to
+ * every configured sink. Each sink is retried with backoff; batches a sink
+ * still rejects go to a dead-letter file that is replayed on the next startup.
+ *
+ * Configuration:
+ *   AUDIT_SINKS             comma list of "supabase", "file", "stdout"
+ *                           (default: "supabase" when configured, else "stdout")
+ *   AUDIT_LOG_FILE          NDJSON file for the "file" sink
+ *   AUDIT_DEAD_LETTER_FILE  dead-letter file, or "off" to disable it
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import { access, appendFile, mkdir, readFile, rename, unlink } from "node:fs/promises"
+import { dirname } from "node:path"
+import { createServerClient } from "@supabase/ssr"
+import { createClient } from "@/lib/supabase/server"
+import type { AuditLogEntry } from "@/types/audit"
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/**
+ * Destination for audit entries.
+ * `write` resolves once the whole batch is stored and throws otherwise.
+ */
+export interface AuditSink {
+    readonly name: string
+    write(entries: readonly AuditLogEntry[]): Promise<void>
+}
+
+export interface RetryPolicy {
+    /** Total tries per batch, including the first */
+    attempts: number
+    baseDelayMs: number
+    maxDelayMs: number
+}
+
+/** One line of the dead-letter file */
+export interface DeadLetter {
+    sink: string
+    failed_at: string
+    error: string
+    entries: AuditLogEntry[]
+}
+
+export interface ReplayResult {
+    replayed: number
+    failed: number
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { attempts: 3, baseDelayMs: 200, maxDelayMs: 5000 }
+
+const DEFAULT_LOG_FILE = ".security/audit-log.ndjson"
+const DEFAULT_DEAD_LETTER_FILE = ".security/audit-dead-letter.ndjson"
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function toNdjson(records: readonly unknown[]): string {
+    return records.map((record) => `${JSON.stringify(record)}\n`).join("")
+}
+
+async function appendLines(path: string, records: readonly unknown[]): Promise<void> {
+    await mkdir(dirname(path), { recursive: true })
+    await appendFile(path, toNdjson(records), "utf8")
+}
+
+/**
+ * Exponential backoff: base, 2x base, 4x base... capped at maxDelayMs
+ */
+export function getBackoffDelay(attempt: number, policy: RetryPolicy): number {
+    return Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs)
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms))
+
+// ─── Sinks ───────────────────────────────────────────────────────────────────
+
+/**
+ * Inserts into the audit_logs table.
+ * With SUPABASE_SERVICE_ROLE_KEY set it writes outside a request too (timer
+ * flushes, shutdown, replay); otherwise it uses the caller's session cookies.
+ */
+export class SupabaseAuditSink implements AuditSink {
+    readonly name = "supabase"
+
+    private async getClient() {
+        const url = process.env.NEXT_PUBLIC_SUPABASE_URL
+        const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+        if (!url || !serviceKey) return createClient()
+
+        return createServerClient(url, serviceKey, {
+            cookies: { getAll: () => [], setAll: () => {} },
+        })
+    }
+
+    async write(entries: readonly AuditLogEntry[]): Promise<void> {
+        const supabase = await this.getClient()
+        const { error } = await supabase.from("audit_logs").insert([...entries])
+
+        if (error) throw new Error(error.message)
+    }
+}
+
+/**
+ * Append-only NDJSON file - survives restarts and database outages
+ */
+export class FileAuditSink implements AuditSink {
+    readonly name = "file"
+
+    constructor(private readonly path: string = DEFAULT_LOG_FILE) {}
+
+    async write(entries: readonly AuditLogEntry[]): Promise<void> {
+        await appendLines(this.path, entries)
+    }
+}
+
+/**
+ * One JSON object per line on stdout, for log collectors
+ */
+export class StdoutAuditSink implements AuditSink {
+    readonly name = "stdout"
+
+    async write(entries: readonly AuditLogEntry[]): Promise<void> {
+        process.stdout.write(toNdjson(entries.map((entry) => ({ type: "audit", ...entry }))))
+    }
+}
+
+// ─── Dispatcher ──────────────────────────────────────────────────────────────
+
+interface AuditDispatcherOptions {
+    retry?: RetryPolicy
+    /** Where undeliverable batches go; null drops them after logging */
+    deadLetterPath?: string | null
+    /** Injected by tests to skip real backoff delays */
+    wait?: (ms: number) => Promise<void>
+}
+
+/**
+ * Fans each batch out to every sink. A failing sink never blocks the others,
+ * and dispatch never throws - audit logging must not break the request.
+ */
+export class AuditDispatcher {
+    private readonly retry: RetryPolicy
+    private readonly deadLetterPath: string | null
+    private readonly wait: (ms: number) => Promise<void>
+
+    constructor(
+        private readonly sinks: readonly AuditSink[],
+        options: AuditDispatcherOptions = {}
+    ) {
+        this.retry = options.retry ?? DEFAULT_RETRY_POLICY
+        this.deadLetterPath = options.deadLetterPath ?? null
+        this.wait = options.wait ?? sleep
+    }
+
+    async dispatch(entries: readonly AuditLogEntry[]): Promise<void> {
+        if (entries.length === 0) return
+
+        await Promise.all(
+            this.sinks.map(async (sink) => {
+                try {
+                    await this.writeWithRetry(sink, entries)
+                } catch (err) {
+                    await this.deadLetter(sink.name, entries, err)
+                }
+            })
+        )
+    }
+
+    /**
+     * Re-deliver dead-lettered batches to the sinks that rejected them.
+     * The file is moved aside first so entries logged meanwhile are not lost;
+     * batches that fail again are dead-lettered again. A replay interrupted by
+     * a crash is resumed before the current file is picked up.
+     */
+    async replayDeadLetters(): Promise<ReplayResult> {
+        const result: ReplayResult = { replayed: 0, failed: 0 }
+        if (!this.deadLetterPath) return result
+
+        const replayPath = `${this.deadLetterPath}.replaying`
+        const interrupted = await access(replayPath).then(
+            () => true,
+            () => false
+        )
+        if (!interrupted) {
+            try {
+                await rename(this.deadLetterPath, replayPath)
+            } catch (err) {
+                if ((err as NodeJS.ErrnoException).code === "ENOENT") return result
+                throw err
+            }
+        }
+
+        const lines = (await readFile(replayPath, "utf8")).split("\n").filter(Boolean)
+
+        for (const line of lines) {
+            let letter: DeadLetter
+            try {
+                letter = JSON.parse(line) as DeadLetter
+            } catch {
+                console.error("[Audit] Skipping unreadable dead letter:", line.slice(0, 200))
+                result.failed++
+                continue
+            }
+
+            const sink = this.sinks.find((s) => s.name === letter.sink)
+            try {
+                if (!sink) throw new Error(`Sink "${letter.sink}" is not configured`)
+                await this.writeWithRetry(sink, letter.entries)
+                result.replayed += letter.entries.length
+            } catch (err) {
+                await this.deadLetter(letter.sink, letter.entries, err)
+                result.failed += letter.entries.length
+            }
+        }
+
+        await unlink(replayPath)
+        return result
+    }
+
+    private async writeWithRetry(sink: AuditSink, entries: readonly AuditLogEntry[]): Promise<void> {
+        for (let attempt = 1; ; attempt++) {
+            try {
+                await sink.write(entries)
+                return
+            } catch (err) {
+                if (attempt >= this.retry.attempts) throw err
+                await this.wait(getBackoffDelay(attempt, this.retry))
+            }
+        }
+    }
+
+    private async deadLetter(sink: string, entries: readonly AuditLogEntry[], err: unknown): Promise<void> {
+        const error = err instanceof Error ? err.message : String(err)
+        console.error(`[Audit] Sink "${sink}" failed after retries:`, error)
+
+        const letter: DeadLetter = { sink, failed_at: new Date().toISOString(), error, entries: [...entries] }
+        try {
+            if (!this.deadLetterPath) throw new Error("Dead-letter file disabled")
+            await appendLines(this.deadLetterPath, [letter])
+        } catch (writeErr) {
+            // Last resort: keep the entries in the process log rather than drop them
+            console.error("[Audit] Dead letter not persisted:", writeErr, JSON.stringify(letter))
+        }
+    }
+}
+
+// ─── Configuration ───────────────────────────────────────────────────────────
+
+function createSink(name: string): AuditSink | null {
+    switch (name) {
+        case "supabase":
+            return new SupabaseAuditSink()
+        case "file":
+            return new FileAuditSink(process.env.AUDIT_LOG_FILE || DEFAULT_LOG_FILE)
+        case "stdout":
+            return new StdoutAuditSink()
+        default:
+            console.error(`[Audit] Unknown sink "${name}" in AUDIT_SINKS`)
+            return null
+    }
+}
+
+/**
+ * Build the dispatcher described by the AUDIT_* environment variables
+ */
+export function createAuditDispatcher(): AuditDispatcher {
+    const configured = process.env.AUDIT_SINKS?.split(",")
+        .map((name) => name.trim())
+        .filter(Boolean)
+    const names = configured?.length ? configured : [process.env.NEXT_PUBLIC_SUPABASE_URL ? "supabase" : "stdout"]
+
+    const deadLetterFile = process.env.AUDIT_DEAD_LETTER_FILE || DEFAULT_DEAD_LETTER_FILE
+
+    return new AuditDispatcher(
+        names.map(createSink).filter((sink): sink is AuditSink => sink !== null),
+        { deadLetterPath: deadLetterFile === "off" ? null : deadLetterFile }
+    )
+}
@@ -8,58 +8,19 @@
  * Usage:
  *   import { auditLog } from '@/lib/security/audit'
  *   await auditLog.userAction('profile_update', userId, { field: 'email' })
+ *
+ * Delivery (sinks, retries, dead letters) lives in ./audit-sinks.
  * ═══════════════════════════════════════════════════════════════════════════════
  */
 
-import { createClient } from "@/lib/supabase/server"
 import { headers } from "next/headers"
+import type { AuditAction, AuditLogEntry, AuditSeverity } from "@/types/audit"
+import { hashAuditContent, normalizeIpAddress } from "./audit-chain"
+import { createAuditDispatcher, type AuditDispatcher } from "./audit-sinks"
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
-export type AuditAction =
-    // Authentication events
-    | "auth_login"
-    | "auth_logout"
-    | "auth_signup"
-    | "auth_password_reset"
-    | "auth_password_change"
-    | "auth_failed_login"
-    // User actions
-    | "profile_view"
-    | "profile_update"
-    | "profile_delete"
-    // Data modifications
-    | "data_create"
-    | "data_update"
-    | "data_delete"
-    | "data_export"
-    // Admin actions
-    | "admin_role_change"
-    | "admin_user_delete"
-    | "admin_settings_update"
-    | "admin_impersonation"
-    // Security events
-    | "security_rate_limit"
-    | "security_csrf_blocked"
-    | "security_unauthorized"
-    | "security_suspicious"
-
-export type AuditSeverity = "info" | "warning" | "error" | "critical"
-
-export interface AuditLogEntry {
-    id?: string
-    timestamp: string
-    action: AuditAction
-    severity: AuditSeverity
-    user_id: string | null
-    target_id?: string | null
-    target_type?: string | null
-    ip_address: string | null
-    user_agent: string | null
-    metadata: Record<string, unknown>
-    success: boolean
-    error_message?: string | null
-}
+export type { AuditAction, AuditSeverity, AuditLogEntry } from "@/types/audit"
 
 // ─── Severity Mapping ────────────────────────────────────────────────────────
 
@@ -82,6 +43,8 @@ const ACTION_SEVERITY: Record<AuditAction, AuditSeverity> = {
     data_export: "warning",
     // Admin actions
     admin_role_change: "critical",
+    admin_user_disable: "critical",
+    admin_user_enable: "warning",
     admin_user_delete: "critical",
     admin_settings_update: "warning",
     admin_impersonation: "critical",
@@ -101,7 +64,8 @@ async function getRequestContext(): Promise<{
     try {
         const headersList = await headers()
         return {
-            ip: headersList.get("x-forwarded-for")?.split(",")[0] ?? headersList.get("x-real-ip"),
+            // Invalid values become null rather than failing the INET insert
+            ip: normalizeIpAddress(headersList.get("x-forwarded-for") ?? headersList.get("x-real-ip")),
             userAgent: headersList.get("user-agent"),
         }
     } catch {
@@ -115,9 +79,38 @@ async function getRequestContext(): Promise<{
 class AuditLogger {
     private buffer: AuditLogEntry[] = []
     private flushTimeout: NodeJS.Timeout | null = null
+    private started = false
     private readonly BUFFER_SIZE = 10
     private readonly FLUSH_INTERVAL = 5000 // 5 seconds
 
+    constructor(private readonly dispatcher: AuditDispatcher) {}
+
+    /**
+     * Run once per server process (from instrumentation.ts): flush the buffer
+     * on shutdown and replay batches dead-lettered by a previous process.
+     */
+    async start(): Promise<void> {
+        if (this.started) return
+        this.started = true
+
+        process.once("beforeExit", () => void this.flush())
+        for (const signal of ["SIGTERM", "SIGINT"] as const) {
+            // `once` removes the listener first, so re-raising exits as usual
+            process.once(signal, () => {
+                void this.flush().finally(() => process.kill(process.pid, signal))
+            })
+        }
+
+        try {
+            const { replayed, failed } = await this.dispatcher.replayDeadLetters()
+            if (replayed || failed) {
+                console.info(`[Audit] Replayed ${replayed} dead-lettered entries (${failed} still failing)`)
+            }
+        } catch (err) {
+            console.error("[Audit] Dead-letter replay failed:", err)
+        }
+    }
+
     /**
      * Log a user action
      */
@@ -232,9 +225,12 @@ class AuditLogger {
      * Internal log method with buffering
      */
     private async log(entry: AuditLogEntry): Promise<void> {
+        // The database links entries into the hash chain by this hash
+        entry.content_hash = hashAuditContent(entry)
+
         // For critical events, log immediately
         if (entry.severity === "critical") {
-            await this.writeToDatabase([entry])
+            await this.dispatcher.dispatch([entry])
             return
         }
 
@@ -254,7 +250,7 @@ class AuditLogger {
     }
 
     /**
-     * Flush buffered logs to database
+     * Flush buffered logs to every sink
      */
     async flush(): Promise<void> {
         if (this.flushTimeout) {
@@ -267,44 +263,13 @@ class AuditLogger {
         const entries = [...this.buffer]
         this.buffer = []
 
-        await this.writeToDatabase(entries)
-    }
-
-    /**
-     * Write entries to database
-     */
-    private async writeToDatabase(entries: AuditLogEntry[]): Promise<void> {
-        try {
-            const supabase = await createClient()
-
-            const { error } = await supabase.from("audit_logs").insert(
-                entries.map((entry) => ({
-                    ...entry,
-                    metadata: JSON.stringify(entry.metadata),
-                }))
-            )
-
-            if (error) {
-                // Fallback: log to console in development
-                if (process.env.NODE_ENV === "development") {
-                    console.error("[Audit] Failed to write to database:", error.message)
-                    for (const entry of entries) {
-                        console.log("[Audit]", JSON.stringify(entry))
-                    }
-                }
-            }
-        } catch (err) {
-            // Ensure audit logging never breaks the application
-            if (process.env.NODE_ENV === "development") {
-                console.error("[Audit] Exception:", err)
-            }
-        }
+        await this.dispatcher.dispatch(entries)
     }
 }
 
 // ─── Export Singleton ────────────────────────────────────────────────────────
 
-export const auditLog = new AuditLogger()
+export const auditLog = new AuditLogger(createAuditDispatcher())
 
 // ─── SQL Migration for audit_logs table ──────────────────────────────────────
 
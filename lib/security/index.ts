@@ -21,7 +21,21 @@ export {
     // Restaurant schemas
     restaurantIdSchema,
     searchQuerySchema,
+    restaurantInputSchema,
     reviewSchema,
+    // Saved restaurant schemas
+    shortlistNameSchema,
+    localSavedRestaurantsSchema,
+    // Moderation schemas
+    moderationQuerySchema,
+    moderationDecisionSchema,
+    moderationAssignSchema,
+    // Admin user schemas
+    userQuerySchema,
+    userRoleSchema,
+    // Audit log schemas
+    auditQuerySchema,
+    auditExportFormatSchema,
     // File upload
     imageUploadSchema,
     // Helper functions
@@ -30,8 +44,16 @@ export {
     // Types
     type PaginationParams,
     type SearchQuery,
+    type RestaurantInput,
     type ReviewInput,
     type UserProfileInput,
+    type LocalSavedRestaurantsInput,
+    type ModerationQueryInput,
+    type ModerationDecisionInput,
+    type ModerationAssignInput,
+    type UserQueryInput,
+    type AuditQueryInput,
+    type AuditExportFormat,
 } from "./validation"
 
 // Header utilities
@@ -49,6 +71,35 @@ export {
 
 // Audit logging
 export { auditLog, type AuditAction, type AuditSeverity, type AuditLogEntry } from "./audit"
+export {
+    AuditDispatcher,
+    SupabaseAuditSink,
+    FileAuditSink,
+    StdoutAuditSink,
+    createAuditDispatcher,
+    type AuditSink,
+    type RetryPolicy,
+} from "./audit-sinks"
+
+// Rate limiting
+export {
+    SlidingWindowLimiter,
+    TokenBucketLimiter,
+    createRateLimiter,
+    resolveRateLimitPolicy,
+    getRateLimitHeaders,
+    RATE_LIMIT_POLICIES,
+    type RateLimiter,
+    type RateLimitPolicy,
+    type RateLimitResult,
+    type RateLimitRule,
+} from "./rate-limit"
+export {
+    MemoryRateLimitStore,
+    RedisRateLimitStore,
+    createRateLimitStore,
+    type RateLimitStore,
+} from "./rate-limit-store"
 
 // Zero-trust utilities
 export {
@@ -58,6 +109,7 @@ export {
     hasAllPermissions,
     requireAuth,
     requirePermission,
+    authorizeAction,
     checkAccess,
     canAccessResource,
     trackActivity,
@@ -66,3 +118,6 @@ export {
     type AccessCheck,
     type Permission,
 } from "./zero-trust"
+
+// Role permissions (client-safe)
+export { getRolePermissions, ROLES, type Role } from "./permissions"
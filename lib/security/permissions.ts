@@ -0,0 +1,69 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * PERMISSIONS - Role to permission mapping
+ *
+ * Free of server-only imports so client components can filter UI by the
+ * permissions the server resolved. Enforcement always happens server-side.
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+// ─── Permission Definitions ──────────────────────────────────────────────────
+
+export const PERMISSIONS = {
+    // User permissions
+    PROFILE_READ: "profile:read",
+    PROFILE_UPDATE: "profile:update",
+    REVIEWS_CREATE: "reviews:create",
+    REVIEWS_UPDATE_OWN: "reviews:update:own",
+    REVIEWS_DELETE_OWN: "reviews:delete:own",
+
+    // Moderator permissions
+    REVIEWS_UPDATE_ANY: "reviews:update:any",
+    REVIEWS_DELETE_ANY: "reviews:delete:any",
+    USERS_VIEW: "users:view",
+    MODERATION_MANAGE: "moderation:manage",
+
+    // Admin permissions
+    USERS_MANAGE: "users:manage",
+    ROLES_MANAGE: "roles:manage",
+    SETTINGS_MANAGE: "settings:manage",
+    AUDIT_VIEW: "audit:view",
+    RESTAURANTS_MANAGE: "restaurants:manage",
+} as const
+
+export type Permission = (typeof PERMISSIONS)[keyof typeof PERMISSIONS]
+
+export const ROLES = ["user", "moderator", "admin"] as const
+
+export type Role = (typeof ROLES)[number]
+
+// ─── Role-Permission Mapping ─────────────────────────────────────────────────
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+    user: [
+        PERMISSIONS.PROFILE_READ,
+        PERMISSIONS.PROFILE_UPDATE,
+        PERMISSIONS.REVIEWS_CREATE,
+        PERMISSIONS.REVIEWS_UPDATE_OWN,
+        PERMISSIONS.REVIEWS_DELETE_OWN,
+    ],
+    moderator: [
+        PERMISSIONS.PROFILE_READ,
+        PERMISSIONS.PROFILE_UPDATE,
+        PERMISSIONS.REVIEWS_CREATE,
+        PERMISSIONS.REVIEWS_UPDATE_OWN,
+        PERMISSIONS.REVIEWS_DELETE_OWN,
+        PERMISSIONS.REVIEWS_UPDATE_ANY,
+        PERMISSIONS.REVIEWS_DELETE_ANY,
+        PERMISSIONS.USERS_VIEW,
+        PERMISSIONS.MODERATION_MANAGE,
+    ],
+    admin: Object.values(PERMISSIONS),
+}
+
+/**
+ * Permissions granted to a role; unknown roles get the least-privileged set
+ */
+export function getRolePermissions(role: string): Permission[] {
+    return ROLE_PERMISSIONS[role as Role] ?? ROLE_PERMISSIONS.user
+}
@@ -0,0 +1,152 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * RATE LIMIT STORES - Shared state for the rate limiters
+ *
+ * Limiters keep one small state string per client and update it with
+ * compare-and-set, so the same algorithms run against process memory or a
+ * Redis-protocol server shared by every instance.
+ *
+ * Configuration:
+ *   RATE_LIMIT_REDIS_URL  redis:// or rediss:// URL; unset keeps state in memory
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import { createHash } from "node:crypto"
+import { RespClient, RespError } from "./resp-client"
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/**
+ * Key-value storage with expiry and an atomic compare-and-set.
+ * Implementations throw when the backing service is unavailable.
+ */
+export interface RateLimitStore {
+    get(key: string): Promise<string | null>
+    /**
+     * Write `value` only if the key still holds `expected` (null: absent).
+     * Resolves to false when another writer got there first.
+     */
+    compareAndSet(key: string, expected: string | null, value: string, ttlMs: number): Promise<boolean>
+}
+
+// ─── In-Memory Store ─────────────────────────────────────────────────────────
+
+interface MemoryEntry {
+    value: string
+    expiresAt: number
+}
+
+/**
+ * Per-process store. Expired keys are dropped on access and the least
+ * recently used key is evicted once `maxKeys` is reached, so memory stays
+ * bounded however many clients show up.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+    // Map iteration order is insertion order - re-inserting on access keeps it LRU
+    private entries = new Map<string, MemoryEntry>()
+
+    constructor(
+        private readonly maxKeys = 10_000,
+        private readonly now: () => number = Date.now
+    ) {}
+
+    get size(): number {
+        return this.entries.size
+    }
+
+    async get(key: string): Promise<string | null> {
+        return this.read(key)
+    }
+
+    async compareAndSet(key: string, expected: string | null, value: string, ttlMs: number): Promise<boolean> {
+        if (this.read(key) !== expected) return false
+
+        this.entries.delete(key)
+        this.entries.set(key, { value, expiresAt: this.now() + ttlMs })
+
+        while (this.entries.size > this.maxKeys) {
+            const oldest = this.entries.keys().next().value
+            if (oldest === undefined) break
+            this.entries.delete(oldest)
+        }
+        return true
+    }
+
+    private read(key: string): string | null {
+        const entry = this.entries.get(key)
+        if (!entry) return null
+
+        this.entries.delete(key)
+        if (entry.expiresAt <= this.now()) return null
+
+        this.entries.set(key, entry)
+        return entry.value
+    }
+}
+
+// ─── Redis-Protocol Store ────────────────────────────────────────────────────
+
+/**
+ * Compare-and-set as one server-side step. Redis runs scripts atomically, so
+ * no WATCH is needed and commands from concurrent requests can be pipelined
+ * on the shared connection.
+ * ARGV: has-expected flag ("1"/"0"), expected value, new value, TTL in ms
+ */
+const COMPARE_AND_SET_SCRIPT = `
+local current = redis.call("GET", KEYS[1])
+if ARGV[1] == "1" then
+    if current ~= ARGV[2] then return 0 end
+elseif current then
+    return 0
+end
+redis.call("SET", KEYS[1], ARGV[3], "PX", ARGV[4])
+return 1
+`
+
+const COMPARE_AND_SET_SHA = createHash("sha1").update(COMPARE_AND_SET_SCRIPT).digest("hex")
+
+/**
+ * Shared store on Redis (or anything speaking RESP with Lua scripting).
+ * Each operation is a single round trip; the script is sent in full only
+ * when the server has not cached it yet.
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+    constructor(
+        private readonly client: RespClient,
+        private readonly prefix = "ratelimit:"
+    ) {}
+
+    async get(key: string): Promise<string | null> {
+        const value = await this.client.command("GET", this.prefix + key)
+        return typeof value === "string" ? value : null
+    }
+
+    async compareAndSet(key: string, expected: string | null, value: string, ttlMs: number): Promise<boolean> {
+        const args = [
+            "1",
+            this.prefix + key,
+            expected === null ? "0" : "1",
+            expected ?? "",
+            value,
+            String(Math.max(1, Math.ceil(ttlMs))),
+        ]
+
+        try {
+            return (await this.client.command("EVALSHA", COMPARE_AND_SET_SHA, ...args)) === 1
+        } catch (err) {
+            // Script cache is empty after a restart or SCRIPT FLUSH
+            if (!(err instanceof RespError) || !err.message.startsWith("NOSCRIPT")) throw err
+            return (await this.client.command("EVAL", COMPARE_AND_SET_SCRIPT, ...args)) === 1
+        }
+    }
+}
+
+// ─── Configuration ───────────────────────────────────────────────────────────
+
+/**
+ * Store described by RATE_LIMIT_REDIS_URL, falling back to process memory
+ */
+export function createRateLimitStore(): RateLimitStore {
+    const url = process.env.RATE_LIMIT_REDIS_URL
+    return url ? new RedisRateLimitStore(new RespClient(url)) : new MemoryRateLimitStore()
+}
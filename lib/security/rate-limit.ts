@@ -0,0 +1,259 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * RATE LIMITING - Algorithms and per-route policies for proxy.ts
+ *
+ * Two algorithms share the RateLimiter interface:
+ * - sliding window: weighted count over the current and previous window,
+ *   so there is no burst at window boundaries
+ * - token bucket: `limit` tokens refilled evenly over the window, allowing
+ *   short bursts but a steady average
+ *
+ * Usage:
+ *   const policy = resolveRateLimitPolicy(pathname, method)
+ *   const result = await createRateLimiter(policy.algorithm, store).consume(key, policy)
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import type { RateLimitStore } from "./rate-limit-store"
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type RateLimitAlgorithm = "sliding-window" | "token-bucket"
+
+export interface RateLimitRule {
+    /** Requests allowed per window (bucket capacity for token buckets) */
+    limit: number
+    windowMs: number
+}
+
+export interface RateLimitPolicy extends RateLimitRule {
+    id: string
+    algorithm: RateLimitAlgorithm
+    /** Applies when true; policies are tried in order */
+    matches(pathname: string, method: string): boolean
+}
+
+export interface RateLimitResult {
+    allowed: boolean
+    limit: number
+    remaining: number
+    /** Until the limit is fully available again */
+    resetMs: number
+    /** Until the next request would be allowed; 0 when allowed */
+    retryAfterMs: number
+}
+
+export interface RateLimiter {
+    readonly algorithm: RateLimitAlgorithm
+    consume(key: string, rule: RateLimitRule): Promise<RateLimitResult>
+}
+
+// ─── Compare-and-Set Helper ──────────────────────────────────────────────────
+
+const MAX_CAS_ATTEMPTS = 5
+
+/**
+ * Read the state, apply `step`, and write it back unless another request
+ * changed it first - then start over with the newer state.
+ */
+async function updateState<S, R>(
+    store: RateLimitStore,
+    key: string,
+    ttlMs: number,
+    step: (state: S | null) => { state: S; result: R }
+): Promise<R> {
+    for (let attempt = 0; attempt < MAX_CAS_ATTEMPTS; attempt++) {
+        const raw = await store.get(key)
+        let state: S | null = null
+        try {
+            state = raw ? (JSON.parse(raw) as S) : null
+        } catch {
+            // Unreadable state is treated as a fresh client
+        }
+
+        const next = step(state)
+        if (await store.compareAndSet(key, raw, JSON.stringify(next.state), ttlMs)) {
+            return next.result
+        }
+    }
+    throw new Error(`Rate limit state for "${key}" is too contended`)
+}
+
+// ─── Sliding Window ──────────────────────────────────────────────────────────
+
+interface SlidingWindowState {
+    /** Start of the window `current` counts */
+    start: number
+    current: number
+    previous: number
+}
+
+export class SlidingWindowLimiter implements RateLimiter {
+    readonly algorithm = "sliding-window"
+
+    constructor(
+        private readonly store: RateLimitStore,
+        private readonly now: () => number = Date.now
+    ) {}
+
+    consume(key: string, { limit, windowMs }: RateLimitRule): Promise<RateLimitResult> {
+        const now = this.now()
+        const windowStart = Math.floor(now / windowMs) * windowMs
+        // Weight of the previous window still inside the sliding window
+        const weight = 1 - (now - windowStart) / windowMs
+
+        return updateState<SlidingWindowState, RateLimitResult>(this.store, key, windowMs * 2, (saved) => {
+            let { start, current, previous } = saved ?? { start: windowStart, current: 0, previous: 0 }
+            if (start !== windowStart) {
+                previous = start === windowStart - windowMs ? current : 0
+                current = 0
+                start = windowStart
+            }
+
+            const used = previous * weight + current
+            const allowed = used + 1 <= limit
+            if (allowed) current++
+
+            const untilNextWindow = windowStart + windowMs - now
+            let retryAfterMs = 0
+            if (!allowed) {
+                retryAfterMs =
+                    current + 1 > limit
+                        ? // Wait for this window to age out: current * (1 - x) + 1 <= limit
+                          untilNextWindow + windowMs * (1 - (limit - 1) / current)
+                        : // Wait for enough of the previous window to age out
+                          (1 - (limit - 1 - current) / previous) * windowMs - (now - windowStart)
+            }
+
+            return {
+                state: { start, current, previous },
+                result: {
+                    allowed,
+                    limit,
+                    remaining: Math.max(0, Math.floor(limit - used - (allowed ? 1 : 0))),
+                    // Both windows must age out before the full limit is back
+                    resetMs: current > 0 ? untilNextWindow + windowMs : previous > 0 ? untilNextWindow : 0,
+                    retryAfterMs: Math.max(0, Math.ceil(retryAfterMs)),
+                },
+            }
+        })
+    }
+}
+
+// ─── Token Bucket ────────────────────────────────────────────────────────────
+
+interface TokenBucketState {
+    tokens: number
+    updatedAt: number
+}
+
+export class TokenBucketLimiter implements RateLimiter {
+    readonly algorithm = "token-bucket"
+
+    constructor(
+        private readonly store: RateLimitStore,
+        private readonly now: () => number = Date.now
+    ) {}
+
+    consume(key: string, { limit, windowMs }: RateLimitRule): Promise<RateLimitResult> {
+        const now = this.now()
+        const refillPerMs = limit / windowMs
+
+        // A bucket untouched for a whole window is full again, so the state can expire
+        return updateState<TokenBucketState, RateLimitResult>(this.store, key, windowMs, (saved) => {
+            const elapsed = saved ? Math.max(0, now - saved.updatedAt) : 0
+            let tokens = saved ? Math.min(limit, saved.tokens + elapsed * refillPerMs) : limit
+
+            const allowed = tokens >= 1
+            if (allowed) tokens -= 1
+
+            return {
+                state: { tokens, updatedAt: now },
+                result: {
+                    allowed,
+                    limit,
+                    remaining: Math.floor(tokens),
+                    resetMs: Math.ceil((limit - tokens) / refillPerMs),
+                    retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / refillPerMs),
+                },
+            }
+        })
+    }
+}
+
+export function createRateLimiter(algorithm: RateLimitAlgorithm, store: RateLimitStore): RateLimiter {
+    return algorithm === "token-bucket" ? new TokenBucketLimiter(store) : new SlidingWindowLimiter(store)
+}
+
+// ─── Policies ────────────────────────────────────────────────────────────────
+
+const MINUTE = 60_000
+const READ_METHODS = ["GET", "HEAD", "OPTIONS"]
+
+const isMutation = (method: string) => !READ_METHODS.includes(method)
+
+/** Pages whose form posts (server actions) sign users in or send emails */
+const AUTH_PATHS = ["/login", "/signup", "/reset-password", "/auth/"]
+
+/** Everything else the proxy sees - page loads, server components, images */
+const DEFAULT_POLICY: RateLimitPolicy = {
+    id: "default",
+    algorithm: "token-bucket",
+    limit: 300,
+    windowMs: MINUTE,
+    matches: () => true,
+}
+
+/**
+ * Checked in order - the first match wins
+ */
+export const RATE_LIMIT_POLICIES: readonly RateLimitPolicy[] = [
+    {
+        // Credential stuffing and reset-email abuse
+        id: "auth",
+        algorithm: "sliding-window",
+        limit: 10,
+        windowMs: MINUTE,
+        matches: (pathname, method) =>
+            isMutation(method) && AUTH_PATHS.some((path) => pathname === path || pathname.startsWith(path)),
+    },
+    {
+        // Small bursts for bulk moderation, low sustained rate
+        id: "admin-mutation",
+        algorithm: "token-bucket",
+        limit: 30,
+        windowMs: MINUTE,
+        matches: (pathname, method) => isMutation(method) && pathname.startsWith("/admin"),
+    },
+    {
+        id: "api",
+        algorithm: "sliding-window",
+        limit: 100,
+        windowMs: MINUTE,
+        matches: (pathname) => pathname.startsWith("/api/"),
+    },
+    DEFAULT_POLICY,
+]
+
+export function resolveRateLimitPolicy(pathname: string, method: string): RateLimitPolicy {
+    return RATE_LIMIT_POLICIES.find((policy) => policy.matches(pathname, method)) ?? DEFAULT_POLICY
+}
+
+// ─── Response Headers ────────────────────────────────────────────────────────
+
+/**
+ * RateLimit-* headers (IETF draft), plus Retry-After on rejection
+ */
+export function getRateLimitHeaders(policy: RateLimitRule, result: RateLimitResult): Record<string, string> {
+    const headers: Record<string, string> = {
+        "RateLimit-Policy": `${policy.limit};w=${Math.ceil(policy.windowMs / 1000)}`,
+        "RateLimit-Limit": String(result.limit),
+        "RateLimit-Remaining": String(result.remaining),
+        "RateLimit-Reset": String(Math.ceil(result.resetMs / 1000)),
+    }
+
+    if (!result.allowed) {
+        headers["Retry-After"] = String(Math.max(1, Math.ceil(result.retryAfterMs / 1000)))
+    }
+    return headers
+}
@@ -0,0 +1,224 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * RESP CLIENT - Minimal Redis-protocol connection
+ *
+ * Just enough RESP2 for the rate-limit store: send a command, read its reply.
+ * Works with Redis, Valkey, KeyDB, Upstash (rediss://) and the stand-in
+ * server used by the tests, without pulling a client library into the proxy.
+ *
+ * Replies arrive in command order, so pending requests are a FIFO queue.
+ * The connection opens lazily and reconnects on the next command after a drop.
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import { createConnection, isIP, type Socket } from "node:net"
+import { connect as connectTls } from "node:tls"
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type RespValue = string | number | null | RespValue[]
+
+/** An error reply (`-ERR ...`) from the server */
+export class RespError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = "RespError"
+    }
+}
+
+interface Pending {
+    resolve: (value: RespValue) => void
+    reject: (error: Error) => void
+}
+
+const COMMAND_TIMEOUT_MS = 2000
+
+// ─── Encoding ────────────────────────────────────────────────────────────────
+
+export function encodeCommand(args: readonly string[]): string {
+    return `*${args.length}\r\n${args.map((arg) => `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`).join("")}`
+}
+
+/**
+ * Parse one reply from the start of `buffer`.
+ * Returns null when the buffer does not yet hold a complete reply.
+ */
+export function parseReply(buffer: Buffer, offset = 0): { value: RespValue | RespError; next: number } | null {
+    const lineEnd = buffer.indexOf("\r\n", offset)
+    if (lineEnd === -1) return null
+
+    const type = String.fromCharCode(buffer[offset])
+    const line = buffer.toString("utf8", offset + 1, lineEnd)
+    const next = lineEnd + 2
+
+    switch (type) {
+        case "+":
+            return { value: line, next }
+        case "-":
+            return { value: new RespError(line), next }
+        case ":":
+            return { value: Number(line), next }
+        case "$": {
+            const length = Number(line)
+            if (length === -1) return { value: null, next }
+            if (buffer.length < next + length + 2) return null
+            return { value: buffer.toString("utf8", next, next + length), next: next + length + 2 }
+        }
+        case "*": {
+            const count = Number(line)
+            if (count === -1) return { value: null, next }
+
+            const items: RespValue[] = []
+            let error: RespError | null = null
+            let cursor = next
+            for (let i = 0; i < count; i++) {
+                const item = parseReply(buffer, cursor)
+                if (!item) return null
+                // An error inside an EXEC reply fails the whole reply
+                if (item.value instanceof RespError) error ??= item.value
+                else items.push(item.value)
+                cursor = item.next
+            }
+            return { value: error ?? items, next: cursor }
+        }
+        default:
+            throw new RespError(`Unexpected reply type "${type}"`)
+    }
+}
+
+// ─── Client ──────────────────────────────────────────────────────────────────
+
+export class RespClient {
+    private socket: Socket | null = null
+    private ready: Promise<void> | null = null
+    private buffer = Buffer.alloc(0)
+    private pending: Pending[] = []
+
+    /**
+     * @param url redis://[:password@]host[:port][/db] or rediss:// for TLS
+     */
+    constructor(private readonly url: string) {}
+
+    async command(...args: string[]): Promise<RespValue> {
+        await this.connect()
+        return this.send(args)
+    }
+
+    close(): void {
+        this.socket?.end()
+        this.reset(new Error("Connection closed"))
+    }
+
+    private connect(): Promise<void> {
+        if (!this.ready) {
+            this.ready = this.open().catch((err) => {
+                this.reset(err)
+                throw err
+            })
+        }
+        return this.ready
+    }
+
+    private async open(): Promise<void> {
+        const url = new URL(this.url)
+        const port = Number(url.port) || 6379
+        const tls = url.protocol === "rediss:"
+
+        // SNI only carries host names; TLS rejects an IP address there
+        const servername = isIP(url.hostname) ? undefined : url.hostname
+
+        const socket = tls
+            ? connectTls({ host: url.hostname, port, servername })
+            : createConnection({ host: url.hostname, port })
+        socket.setNoDelay(true)
+        this.socket = socket
+
+        // Events from a socket that has since been replaced are ignored
+        socket.on("data", (chunk) => this.socket === socket && this.receive(chunk))
+        socket.on("error", (err) => this.socket === socket && this.reset(err))
+        socket.on("close", () => this.socket === socket && this.reset(new Error("Connection closed")))
+
+        await new Promise<void>((resolve, reject) => {
+            // An unreachable host (dropped packets) or a stalled TLS handshake
+            // would otherwise wait for the OS TCP timeout
+            const timer = setTimeout(() => {
+                socket.destroy()
+                reject(new Error("Connection timed out"))
+            }, COMMAND_TIMEOUT_MS)
+
+            socket.once(tls ? "secureConnect" : "connect", () => {
+                clearTimeout(timer)
+                resolve()
+            })
+            socket.once("error", (err) => {
+                clearTimeout(timer)
+                reject(err)
+            })
+        })
+
+        const password = decodeURIComponent(url.password)
+        if (password) {
+            const username = decodeURIComponent(url.username)
+            await this.send(username ? ["AUTH", username, password] : ["AUTH", password])
+        }
+        const db = url.pathname.slice(1)
+        if (db) await this.send(["SELECT", db])
+    }
+
+    private send(args: readonly string[]): Promise<RespValue> {
+        const socket = this.socket
+        if (!socket) return Promise.reject(new Error("Not connected"))
+
+        return new Promise<RespValue>((resolve, reject) => {
+            const timer = setTimeout(() => {
+                // A lost reply would misalign every later one - drop the connection
+                this.close()
+                reject(new Error(`Command ${args[0]} timed out`))
+            }, COMMAND_TIMEOUT_MS)
+
+            this.pending.push({
+                resolve: (value) => {
+                    clearTimeout(timer)
+                    resolve(value)
+                },
+                reject: (error) => {
+                    clearTimeout(timer)
+                    reject(error)
+                },
+            })
+            socket.write(encodeCommand(args))
+        })
+    }
+
+    private receive(chunk: Buffer): void {
+        this.buffer = Buffer.concat([this.buffer, chunk])
+
+        for (;;) {
+            let reply: ReturnType<typeof parseReply>
+            try {
+                reply = parseReply(this.buffer)
+            } catch (err) {
+                // The stream can no longer be trusted to line up with pending commands
+                this.reset(err instanceof Error ? err : new RespError(String(err)))
+                return
+            }
+            if (!reply) return
+
+            this.buffer = this.buffer.subarray(reply.next)
+            const request = this.pending.shift()
+            if (reply.value instanceof RespError) request?.reject(reply.value)
+            else request?.resolve(reply.value)
+        }
+    }
+
+    private reset(error: Error): void {
+        this.socket?.destroy()
+        this.socket = null
+        this.ready = null
+        this.buffer = Buffer.alloc(0)
+
+        const pending = this.pending
+        this.pending = []
+        for (const request of pending) request.reject(error)
+    }
+}
@@ -10,6 +10,15 @@
  */
 
 import { z } from "zod"
+import { hasLocalizedText, restaurantSchema } from "@/types/restaurant"
+import { AUDIT_ACTIONS, AUDIT_SEVERITIES } from "@/types/audit"
+import {
+    MODERATION_CONTENT_TYPES,
+    MODERATION_DECISIONS,
+    MODERATION_REASON_CODES,
+    MODERATION_STATUSES,
+} from "@/types/moderation"
+import { ROLES } from "./permissions"
 
 // ─── Common Validators ───────────────────────────────────────────────────────
 
@@ -64,13 +73,107 @@ export const searchQuerySchema = z.object({
     ...paginationSchema.shape,
 })
 
+/** English and Arabic variants of one restaurant text field, each optional */
+function localizedInput(max: number) {
+    return z.object({
+        en: safeString.max(max).optional(),
+        ar: safeString.max(max).optional(),
+    })
+}
+
+/** Restaurant create/update payload - the canonical schema minus server-owned fields */
+export const restaurantInputSchema = restaurantSchema
+    .omit({ id: true, addedDate: true, rating: true, reviewCount: true })
+    .extend({
+        name: localizedInput(200).refine(hasLocalizedText, "Name is required in English or Arabic"),
+        description: localizedInput(2000).optional(),
+        district: localizedInput(100).optional(),
+        address: safeString.max(300).optional(),
+        features: z.array(safeString.max(100)).max(30).optional(),
+        phone: safeString.max(50).optional(),
+    })
+
 export const reviewSchema = z.object({
     restaurantId: uuid,
-    rating: z.coerce.number().min(1).max(5),
+    rating: z.coerce.number().int().min(1).max(5),
     title: safeString.max(100),
     content: safeString.max(2000),
 })
 
+// ─── Saved Restaurant Schemas ────────────────────────────────────────────────
+
+export const shortlistNameSchema = safeString.max(60)
+
+/** Favorites and shortlists saved on a device before signing in */
+export const localSavedRestaurantsSchema = z.object({
+    favorites: z.array(uuid).max(500),
+    shortlists: z
+        .array(
+            z.object({
+                name: shortlistNameSchema,
+                restaurantIds: z.array(uuid).max(200),
+            })
+        )
+        .max(50),
+})
+
+// ─── Moderation Schemas ──────────────────────────────────────────────────────
+
+/** Queue filters; assignee "me" is resolved to the current moderator by the DAL */
+export const moderationQuerySchema = z.object({
+    status: z.enum(MODERATION_STATUSES).optional(),
+    contentType: z.enum(MODERATION_CONTENT_TYPES).optional(),
+    assignee: z.enum(["me", "unassigned"]).optional(),
+    ...paginationSchema.shape,
+})
+
+/** One decision applied to one or more items (bulk actions) */
+export const moderationDecisionSchema = z
+    .object({
+        ids: z.array(uuid).min(1).max(100),
+        decision: z.enum(MODERATION_DECISIONS),
+        reasonCode: z.enum(MODERATION_REASON_CODES).optional(),
+        note: safeString.max(500).optional(),
+    })
+    .refine((input) => input.decision === "approve" || input.reasonCode !== undefined, {
+        message: "A reason is required to reject or hide content",
+        path: ["reasonCode"],
+    })
+
+export const moderationAssignSchema = z.object({
+    ids: z.array(uuid).min(1).max(100),
+    assigneeId: uuid.nullable(),
+})
+
+// ─── Admin User Schemas ──────────────────────────────────────────────────────
+
+/** /admin/users listing; search matches email or display name */
+export const userQuerySchema = z.object({
+    search: safeString.max(100).optional(),
+    role: z.enum(ROLES).optional(),
+    status: z.enum(["active", "disabled"]).optional(),
+    ...paginationSchema.shape,
+})
+
+export const userRoleSchema = z.enum(ROLES)
+
+// ─── Audit Log Schemas ───────────────────────────────────────────────────────
+
+/** /admin/audit filters; `cursor` is the opaque value returned with the previous page */
+export const auditQuerySchema = z.object({
+    action: z.enum(AUDIT_ACTIONS).optional(),
+    severity: z.enum(AUDIT_SEVERITIES).optional(),
+    userId: uuid.optional(),
+    targetType: safeString.max(50).optional(),
+    targetId: safeString.max(100).optional(),
+    from: z.iso.datetime().optional(),
+    to: z.iso.datetime().optional(),
+    cursor: z.string().max(200).optional(),
+    limit: z.coerce.number().int().min(1).max(100).default(50),
+})
+
+export const auditExportFormatSchema = z.enum(["csv", "ndjson"])
+
 // ─── File Upload Validation ──────────────────────────────────────────────────
 
 /** Allowed MIME types for image uploads */
@@ -94,8 +197,16 @@ export const imageUploadSchema = z.object({
 
 export type PaginationParams = z.infer<typeof paginationSchema>
 export type SearchQuery = z.infer<typeof searchQuerySchema>
+export type RestaurantInput = z.infer<typeof restaurantInputSchema>
 export type ReviewInput = z.infer<typeof reviewSchema>
 export type UserProfileInput = z.infer<typeof userProfileSchema>
+export type LocalSavedRestaurantsInput = z.infer<typeof localSavedRestaurantsSchema>
+export type ModerationQueryInput = z.infer<typeof moderationQuerySchema>
+export type ModerationDecisionInput = z.infer<typeof moderationDecisionSchema>
+export type ModerationAssignInput = z.infer<typeof moderationAssignSchema>
+export type UserQueryInput = z.infer<typeof userQuerySchema>
+export type AuditQueryInput = z.infer<typeof auditQuerySchema>
+export type AuditExportFormat = z.infer<typeof auditExportFormatSchema>
 
 // ─── Validation Helper ───────────────────────────────────────────────────────
 
@@ -17,14 +17,17 @@ import { createClient } from "@/lib/supabase/server"
 import { redirect } from "next/navigation"
 import { cache } from "react"
 import { auditLog } from "./audit"
+import { getRolePermissions, type Permission, type Role } from "./permissions"
+
+export { PERMISSIONS, type Permission } from "./permissions"
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
 export interface VerifiedUser {
     id: string
     email: string
-    role: "user" | "admin" | "moderator"
-    permissions: string[]
+    role: Role
+    permissions: Permission[]
     sessionValid: boolean
     lastVerified: Date
 }
@@ -35,53 +38,6 @@ export interface AccessCheck {
     user?: VerifiedUser
 }
 
-// ─── Permission Definitions ──────────────────────────────────────────────────
-
-export const PERMISSIONS = {
-    // User permissions
-    PROFILE_READ: "profile:read",
-    PROFILE_UPDATE: "profile:update",
-    REVIEWS_CREATE: "reviews:create",
-    REVIEWS_UPDATE_OWN: "reviews:update:own",
-    REVIEWS_DELETE_OWN: "reviews:delete:own",
-
-    // Moderator permissions
-    REVIEWS_UPDATE_ANY: "reviews:update:any",
-    REVIEWS_DELETE_ANY: "reviews:delete:any",
-    USERS_VIEW: "users:view",
-
-    // Admin permissions
-    USERS_MANAGE: "users:manage",
-    ROLES_MANAGE: "roles:manage",
-    SETTINGS_MANAGE: "settings:manage",
-    AUDIT_VIEW: "audit:view",
-} as const
-
-export type Permission = (typeof PERMISSIONS)[keyof typeof PERMISSIONS]
-
-// ─── Role-Permission Mapping ─────────────────────────────────────────────────
-
-const ROLE_PERMISSIONS: Record<string, Permission[]> = {
-    user: [
-        PERMISSIONS.PROFILE_READ,
-        PERMISSIONS.PROFILE_UPDATE,
-        PERMISSIONS.REVIEWS_CREATE,
-        PERMISSIONS.REVIEWS_UPDATE_OWN,
-        PERMISSIONS.REVIEWS_DELETE_OWN,
-    ],
-    moderator: [
-        PERMISSIONS.PROFILE_READ,
-        PERMISSIONS.PROFILE_UPDATE,
-        PERMISSIONS.REVIEWS_CREATE,
-        PERMISSIONS.REVIEWS_UPDATE_OWN,
-        PERMISSIONS.REVIEWS_DELETE_OWN,
-        PERMISSIONS.REVIEWS_UPDATE_ANY,
-        PERMISSIONS.REVIEWS_DELETE_ANY,
-        PERMISSIONS.USERS_VIEW,
-    ],
-    admin: Object.values(PERMISSIONS),
-}
-
 // ─── Verification Functions ──────────────────────────────────────────────────
 
 /**
@@ -120,12 +76,17 @@ export const verifySession = cache(async (): Promise<VerifiedUser | null> => {
     // Step 4: Fetch current role from database (not from JWT)
     const { data: profile } = await supabase
         .from("profiles")
-        .select("role")
+        .select("role, disabled_at")
         .eq("id", user.id)
         .single()
 
-    const role = (profile?.role as "user" | "admin" | "moderator") ?? "user"
-    const permissions = ROLE_PERMISSIONS[role] ?? ROLE_PERMISSIONS.user
+    // Step 5: Disabled accounts are treated as signed out
+    if (profile?.disabled_at) {
+        return null
+    }
+
+    const role = (profile?.role as Role) ?? "user"
+    const permissions = getRolePermissions(role)
 
     return {
         id: user.id,
@@ -186,12 +147,14 @@ export async function requireAuth(redirectTo = "/login"): Promise<VerifiedUser>
 
 /**
  * Require specific permission - redirect if not authorized
+ * Signed-out visitors go to `loginRedirect` instead, so they can sign in and return
  */
 export async function requirePermission(
     permission: Permission,
-    redirectTo = "/unauthorized"
+    redirectTo = "/unauthorized",
+    loginRedirect = "/login"
 ): Promise<VerifiedUser> {
-    const user = await requireAuth(redirectTo)
+    const user = await requireAuth(loginRedirect)
 
     if (!user.permissions.includes(permission)) {
         await auditLog.securityEvent(
@@ -209,6 +172,32 @@ export async function requirePermission(
     return user
 }
 
+/**
+ * Check a permission for a server action, without redirecting
+ * Actions are callable directly, so they re-verify rather than trusting the page gate.
+ * Denials are audited like those of requirePermission.
+ */
+export async function authorizeAction(permission: Permission, action: string): Promise<AccessCheck> {
+    const access = await checkAccess(permission).catch(
+        (): AccessCheck => ({ allowed: false, reason: "Not authenticated" })
+    )
+
+    if (!access.allowed) {
+        await auditLog.securityEvent(
+            "security_unauthorized",
+            {
+                reason: access.reason,
+                required: permission,
+                action,
+                userRole: access.user?.role,
+            },
+            access.user?.id
+        )
+    }
+
+    return access
+}
+
 /**
  * Check access without redirecting
  */
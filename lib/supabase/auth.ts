@@ -6,13 +6,14 @@
 
 import { revalidatePath } from "next/cache"
 import { redirect } from "next/navigation"
+import { getSafeRedirect, MIN_PASSWORD_LENGTH, type AuthCode } from "@/lib/auth-messages"
 import { createClient } from "./server"
 
 export interface AuthResult {
   success: boolean
   error?: string
   message?: string
-  code?: string // Error code for programmatic handling
+  code?: AuthCode // Mapped to a localized message by the auth pages
 }
 
 export interface User {
@@ -119,6 +120,14 @@ function normalizeAuthError(error: {
   }
 }
 
+/**
+ * Supabase redirects back through /auth/callback, which finishes the session
+ * and forwards to `next`
+ */
+function callbackUrl(next: string): string {
+  return `${process.env.NEXT_PUBLIC_APP_URL}/auth/callback?next=${encodeURIComponent(next)}`
+}
+
 /**
  * Sign up a new user with email and password
  * Compatible with React 19's useActionState
@@ -129,18 +138,21 @@ export async function signUp(_state: AuthResult | null, formData: FormData): Pro
   const email = formData.get("email") as string
   const password = formData.get("password") as string
   const name = formData.get("name") as string | undefined
+  const next = getSafeRedirect(formData.get("next"))
 
   if (!email || !password) {
     return {
       success: false,
       error: "Email and password are required",
+      code: "MISSING_FIELDS",
     }
   }
 
-  if (password.length < 6) {
+  if (password.length < MIN_PASSWORD_LENGTH) {
     return {
       success: false,
-      error: "Password must be at least 6 characters",
+      error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+      code: "PASSWORD_TOO_SHORT",
     }
   }
 
@@ -151,7 +163,7 @@ export async function signUp(_state: AuthResult | null, formData: FormData): Pro
       data: {
         name: name || "",
       },
-      emailRedirectTo: `${process.env.NEXT_PUBLIC_APP_URL}/auth/callback`,
+      emailRedirectTo: callbackUrl(next),
     },
   })
 
@@ -164,13 +176,12 @@ export async function signUp(_state: AuthResult | null, formData: FormData): Pro
     return {
       success: true,
       message: "Please check your email to confirm your account",
+      code: "CONFIRM_EMAIL",
     }
   }
 
-  return {
-    success: true,
-    message: "Account created successfully",
-  }
+  revalidatePath("/", "layout")
+  redirect(next)
 }
 
 /**
@@ -187,6 +198,7 @@ export async function signIn(_state: AuthResult | null, formData: FormData): Pro
     return {
       success: false,
       error: "Email and password are required",
+      code: "MISSING_FIELDS",
     }
   }
 
@@ -200,10 +212,7 @@ export async function signIn(_state: AuthResult | null, formData: FormData): Pro
   }
 
   revalidatePath("/", "layout")
-  return {
-    success: true,
-    message: "Signed in successfully",
-  }
+  redirect(getSafeRedirect(formData.get("next")))
 }
 
 /**
@@ -251,14 +260,15 @@ export async function getUser(): Promise<User | null> {
 
 /**
  * Sign in with Google OAuth
+ * Usable as a form action; a `next` field survives the provider round trip
  */
-export async function signInWithGoogle(): Promise<void> {
+export async function signInWithGoogle(formData?: FormData): Promise<void> {
   const supabase = await createClient()
 
   const { data, error } = await supabase.auth.signInWithOAuth({
     provider: "google",
     options: {
-      redirectTo: `${process.env.NEXT_PUBLIC_APP_URL}/auth/callback`,
+      redirectTo: callbackUrl(getSafeRedirect(formData?.get("next"))),
     },
   })
 
@@ -272,20 +282,30 @@ export async function signInWithGoogle(): Promise<void> {
 }
 
 /**
- * Handle OAuth callback
+ * Handle OAuth, email confirmation and password recovery callbacks
+ * Exchanges the one-time code for a session, then continues to `next`
  */
-export async function handleOAuthCallback(): Promise<void> {
-  const _supabase = await createClient()
+export async function handleOAuthCallback(code: string | null, next: string | null): Promise<void> {
+  if (!code) {
+    redirect("/login?error=oauth_error")
+  }
+
+  const supabase = await createClient()
+  const { error } = await supabase.auth.exchangeCodeForSession(code)
+
+  if (error) {
+    redirect("/login?error=oauth_error")
+  }
 
-  // The callback is handled by Supabase automatically
-  // This function can be used for additional processing if needed
-  redirect("/dashboard")
+  revalidatePath("/", "layout")
+  redirect(getSafeRedirect(next))
 }
 
 /**
  * Request password reset email
+ * Compatible with React 19's useActionState
  */
-export async function requestPasswordReset(formData: FormData): Promise<AuthResult> {
+export async function requestPasswordReset(_state: AuthResult | null, formData: FormData): Promise<AuthResult> {
   const supabase = await createClient()
 
   const email = formData.get("email") as string
@@ -294,30 +314,31 @@ export async function requestPasswordReset(formData: FormData): Promise<AuthResu
     return {
       success: false,
       error: "Email is required",
+      code: "MISSING_FIELDS",
     }
   }
 
+  // The recovery link signs the user in, then lands on the new-password form
   const { error } = await supabase.auth.resetPasswordForEmail(email, {
-    redirectTo: `${process.env.NEXT_PUBLIC_APP_URL}/auth/reset-password`,
+    redirectTo: callbackUrl("/reset-password"),
   })
 
   if (error) {
-    return {
-      success: false,
-      error: error.message,
-    }
+    return normalizeAuthError(error)
   }
 
   return {
     success: true,
     message: "Please check your email for password reset instructions",
+    code: "RESET_EMAIL_SENT",
   }
 }
 
 /**
  * Update user password
+ * Compatible with React 19's useActionState
  */
-export async function updatePassword(formData: FormData): Promise<AuthResult> {
+export async function updatePassword(_state: AuthResult | null, formData: FormData): Promise<AuthResult> {
   const supabase = await createClient()
 
   const password = formData.get("password") as string
@@ -327,6 +348,7 @@ export async function updatePassword(formData: FormData): Promise<AuthResult> {
     return {
       success: false,
       error: "Password and confirmation are required",
+      code: "MISSING_FIELDS",
     }
   }
 
@@ -334,13 +356,15 @@ export async function updatePassword(formData: FormData): Promise<AuthResult> {
     return {
       success: false,
       error: "Passwords do not match",
+      code: "PASSWORD_MISMATCH",
     }
   }
 
-  if (password.length < 6) {
+  if (password.length < MIN_PASSWORD_LENGTH) {
     return {
       success: false,
-      error: "Password must be at least 6 characters",
+      error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+      code: "PASSWORD_TOO_SHORT",
     }
   }
 
@@ -349,14 +373,12 @@ export async function updatePassword(formData: FormData): Promise<AuthResult> {
   })
 
   if (error) {
-    return {
-      success: false,
-      error: error.message,
-    }
+    return normalizeAuthError(error)
   }
 
   return {
     success: true,
     message: "Password updated successfully",
+    code: "PASSWORD_UPDATED",
   }
 }
@@ -1,8 +1,9 @@
 /* ═══════════════════════════════════════════════════════════════════════════════
-   TRANSLATIONS - Bilingual support for Arabic and English
+   TRANSLATIONS - Arabic and English catalogs, plus partial Hindi, Urdu and Persian
    ═══════════════════════════════════════════════════════════════════════════════ */
 
 import type { Language } from "./language.types"
+import type { UAEEmirate } from "@/types/restaurant"
 
 export type TranslationKey = keyof typeof translations.ar
 
@@ -11,6 +12,7 @@ export const translations = {
     // Admin Dashboard
     adminDashboard: "لوحة التحكم",
     addRestaurant: "إضافة مطعم",
+    editRestaurant: "تعديل المطعم",
 
     // Form labels
     restaurantName: "اسم المطعم",
@@ -26,11 +28,13 @@ export const translations = {
     description: "الوصف",
     contactSocial: "جهات الاتصال ووسائل التواصل",
     restaurantImages: "صور المطعم",
+    contentLanguage: "لغة المحتوى",
 
     // Buttons
     addPhoto: "إضافة صورة",
     addContact: "إضافة جهة اتصال",
     addRestaurantButton: "إضافة مطعم",
+    saveChanges: "حفظ التغييرات",
     cancel: "إلغاء",
     edit: "تعديل",
     delete: "حذف",
@@ -46,12 +50,23 @@ export const translations = {
 
     // Error messages
     errorNameAndCuisineRequired: "يرجى ملء اسم المطعم والمطبخ على الأقل",
+    errorImageRequired: "أضف صورة واحدة على الأقل",
 
     // Delete confirmation
     deleteConfirmation: "تأكيد الحذف",
     deleteConfirmMessage: "هل أنت متأكد من أنك تريد حذف هذا المطعم؟ لا يمكن التراجع عن هذا الإجراء.",
     yesDelete: "نعم، احذف",
     noRestaurantsFound: "لم يتم العثور على مطاعم",
+    restaurantNotFound: "المطعم غير موجود",
+    priceUnder: "أقل من {amount}",
+    priceAbove: "أكثر من {amount}",
+    addedAgo: "أضيف {time}",
+
+    // Discard changes confirmation
+    discardChangesTitle: "تجاهل التغييرات؟",
+    discardChangesMessage: "لديك تغييرات غير محفوظة. هل تريد إغلاق النموذج وتجاهلها؟",
+    discard: "تجاهل",
+    keepEditing: "متابعة التعديل",
 
     // Contact types
     contactPhone: "هاتف",
@@ -85,9 +100,240 @@ export const translations = {
     sortOldestFirst: "الأقدم أولاً",
     sortPriceLowToHigh: "السعر: من الأقل للأعلى",
     sortPriceHighToLow: "السعر: من الأعلى للأقل",
+    sortNearestFirst: "الأقرب أولاً",
+    sortTopRated: "الأعلى تقييماً",
 
     // Results
-    restaurantsCount: "مطاعم",
+    searchPlaceholder: "ابحث بالاسم أو المنطقة أو الميزات",
+    clearSearch: "مسح البحث",
+    priceFilter: "السعر",
+    nearMe: "بالقرب مني",
+    locatingYou: "جارٍ تحديد موقعك…",
+    locationDenied: "تعذر الوصول إلى موقعك. اختر منطقة بدلاً من ذلك",
+    chooseArea: "اختر منطقة",
+    distanceFilter: "المسافة",
+    kilometers: "كم",
+
+    // Reviews
+    reviews: "التقييمات",
+    noReviewsYet: "لا توجد تقييمات بعد. كن أول من يقيّم",
+    writeReview: "اكتب تقييماً",
+    editReview: "تعديل تقييمك",
+    deleteReview: "حذف",
+    confirmDeleteReview: "هل تريد حذف هذا التقييم؟",
+    reviewRating: "التقييم",
+    reviewTitle: "العنوان",
+    reviewContent: "تجربتك",
+    submitReview: "نشر التقييم",
+    saveReview: "حفظ",
+    signInToReview: "سجّل الدخول لكتابة تقييم",
+    anonymousReviewer: "زائر",
+    reviewPending: "بانتظار المراجعة",
+    reviewNotPublished: "غير منشور",
+
+    // Moderation
+    moderationQueue: "قائمة المراجعة",
+    moderationEmpty: "لا توجد عناصر في هذه القائمة",
+    statusPending: "قيد الانتظار",
+    statusApproved: "مقبول",
+    statusRejected: "مرفوض",
+    statusHidden: "مخفي",
+    assigneeAll: "الكل",
+    assigneeMe: "المسندة إليّ",
+    assigneeUnassigned: "غير مسندة",
+    approve: "قبول",
+    reject: "رفض",
+    hide: "إخفاء",
+    moderationReason: "السبب",
+    reasonSpam: "محتوى مزعج",
+    reasonOffensive: "محتوى مسيء",
+    reasonOffTopic: "خارج الموضوع",
+    reasonPersonalInfo: "معلومات شخصية",
+    reasonConflictOfInterest: "تضارب مصالح",
+    reasonOther: "سبب آخر",
+    moderationNote: "ملاحظة (اختياري)",
+    assignToMe: "إسناد إليّ",
+    unassign: "إلغاء الإسناد",
+    assignedToYou: "مسند إليك",
+    assignedToOther: "مسند لمشرف آخر",
+    selectAll: "تحديد الكل",
+    selectedCount: "محدد",
+    slaDueIn: "متبقٍ",
+    slaOverdue: "متأخر",
+    previousPage: "السابق",
+    nextPage: "التالي",
+
+    // Saved restaurants
+    favorites: "المفضلة",
+    addToFavorites: "أضف إلى المفضلة",
+    removeFromFavorites: "إزالة من المفضلة",
+    myLists: "قوائمي",
+    saveToList: "حفظ في قائمة",
+    newList: "قائمة جديدة",
+    newListPlaceholder: "مثال: عشاء رومانسي",
+    createList: "إنشاء",
+    renameList: "إعادة تسمية",
+    deleteList: "حذف القائمة",
+    confirmDeleteList: "هل تريد حذف هذه القائمة؟",
+    emptyList: "لا توجد مطاعم في هذه القائمة بعد",
+    noFavoritesYet: "لم تضف أي مطعم إلى المفضلة بعد",
+    noListsYet: "لا توجد قوائم بعد",
+    savedOnDevice: "محفوظة على هذا الجهاز فقط. سجّل الدخول لحفظها في حسابك",
+    signIn: "تسجيل الدخول",
+
+    // Auth
+    signInTitle: "تسجيل الدخول",
+    signUpTitle: "إنشاء حساب",
+    resetPasswordTitle: "إعادة تعيين كلمة المرور",
+    newPasswordTitle: "اختر كلمة مرور جديدة",
+    email: "البريد الإلكتروني",
+    password: "كلمة المرور",
+    confirmPassword: "تأكيد كلمة المرور",
+    fullName: "الاسم",
+    signUp: "إنشاء حساب",
+    continueWithGoogle: "المتابعة باستخدام Google",
+    or: "أو",
+    forgotPassword: "نسيت كلمة المرور؟",
+    sendResetLink: "إرسال رابط إعادة التعيين",
+    updatePassword: "حفظ كلمة المرور",
+    noAccount: "ليس لديك حساب؟",
+    haveAccount: "لديك حساب بالفعل؟",
+    backToSignIn: "العودة لتسجيل الدخول",
+    authMissingFields: "يرجى تعبئة جميع الحقول المطلوبة",
+    authPasswordTooShort: "يجب ألا تقل كلمة المرور عن 6 أحرف",
+    authPasswordMismatch: "كلمتا المرور غير متطابقتين",
+    authNetworkError: "خطأ في الاتصال. تحقق من الشبكة وحاول مرة أخرى",
+    authTimeoutError: "انتهت مهلة الطلب. حاول مرة أخرى",
+    authInvalidCredentials: "البريد الإلكتروني أو كلمة المرور غير صحيحة",
+    authUserNotFound: "لا يوجد حساب بهذا البريد الإلكتروني",
+    authEmailAlreadyExists: "يوجد حساب بهذا البريد الإلكتروني بالفعل",
+    authWeakPassword: "كلمة المرور ضعيفة. اختر كلمة مرور أقوى",
+    authServerError: "خطأ في الخادم. حاول لاحقاً",
+    authRateLimited: "محاولات كثيرة. انتظر قليلاً ثم حاول مرة أخرى",
+    authOAuthError: "تعذر تسجيل الدخول عبر Google. حاول مرة أخرى",
+    authUnknownError: "حدث خطأ غير متوقع. حاول مرة أخرى",
+    authConfirmEmail: "تحقق من بريدك الإلكتروني لتأكيد حسابك",
+    authResetEmailSent: "إذا كان هناك حساب بهذا البريد فستصلك رسالة لإعادة التعيين",
+    authPasswordUpdated: "تم تحديث كلمة المرور",
+
+    // User management
+    userManagement: "إدارة المستخدمين",
+    searchUsers: "ابحث بالبريد أو الاسم",
+    noUsersFound: "لا يوجد مستخدمون مطابقون",
+    userRole: "الدور",
+    roleUser: "مستخدم",
+    roleModerator: "مشرف",
+    roleAdmin: "مدير",
+    accountStatus: "حالة الحساب",
+    accountActive: "نشط",
+    accountDisabled: "معطّل",
+    disableUser: "تعطيل",
+    enableUser: "تفعيل",
+    confirmChange: "تأكيد",
+    confirmRoleChange: "تغيير دور",
+    confirmDisableUser: "تعطيل حساب",
+    confirmEnableUser: "إعادة تفعيل حساب",
+    memberSince: "عضو منذ",
+    you: "أنت",
+
+    // Access
+    forbiddenTitle: "غير مصرح لك بالدخول",
+    forbiddenMessage: "حسابك لا يملك صلاحية الوصول إلى هذه الصفحة",
+    backHome: "العودة للرئيسية",
+
+    // Audit log
+    auditLog: "سجل التدقيق",
+    auditAction: "الإجراء",
+    auditSeverity: "الخطورة",
+    auditUser: "معرّف المستخدم",
+    auditTargetType: "نوع الهدف",
+    auditTargetId: "معرّف الهدف",
+    auditFrom: "من",
+    auditTo: "إلى",
+    auditApplyFilters: "تطبيق",
+    auditClearFilters: "مسح",
+    auditNoEntries: "لا توجد سجلات مطابقة",
+    auditNewest: "الأحدث",
+    auditOlder: "الأقدم",
+    auditExportCsv: "تصدير CSV",
+    auditExportNdjson: "تصدير NDJSON",
+    auditEntry: "سجل التدقيق",
+    auditMetadata: "البيانات الوصفية",
+    auditFailed: "فشل",
+    auditSucceeded: "نجح",
+    auditBackToLog: "العودة إلى السجل",
+    auditStatus: "الحالة",
+    auditTimestamp: "الوقت",
+    auditIpAddress: "عنوان IP",
+    auditUserAgent: "وكيل المستخدم",
+    auditError: "الخطأ",
+    auditSequence: "التسلسل",
+    auditHash: "التجزئة",
+    auditPrevHash: "التجزئة السابقة",
+
+    // Navigation
+    navDiscover: "اكتشف",
+    navRestaurants: "المطاعم",
+    navAdmin: "الإدارة",
+    navModeration: "الإشراف",
+    navUsers: "المستخدمون",
+    navigation: "التنقل",
+    openMenu: "فتح القائمة",
+    chooseLanguage: "اختيار اللغة",
+    arabicDigits: "أرقام عربية (١٢٣)",
+    goBack: "رجوع",
+    dismiss: "إغلاق",
+
+    // Filter options
+    meal: "الوجبة",
+    cuisineEmirati: "إماراتي",
+    cuisineArabic: "عربي",
+    cuisineLebanese: "لبناني",
+    cuisineIndian: "هندي",
+    cuisinePakistani: "باكستاني",
+    cuisineChinese: "صيني",
+    cuisineJapanese: "ياباني",
+    cuisineThai: "تايلاندي",
+    cuisineItalian: "إيطالي",
+    cuisineSeafood: "مأكولات بحرية",
+    cuisineInternational: "عالمي",
+    mealBreakfast: "فطور",
+    mealLunch: "غداء",
+    mealDinner: "عشاء",
+    atmosphereRomantic: "رومانسي",
+    atmosphereCasual: "غير رسمي",
+    atmosphereFineDining: "راقٍ",
+    atmosphereOutdoor: "في الهواء الطلق",
+    atmosphereFamilyFriendly: "مناسب للعائلات",
+    atmosphereLiveMusic: "موسيقى حية",
+    atmosphereView: "إطلالة",
+    emirateDubai: "دبي",
+    emirateAbuDhabi: "أبوظبي",
+    emirateSharjah: "الشارقة",
+    emirateAjman: "عجمان",
+    emirateUmmAlQuwain: "أم القيوين",
+    emirateRasAlKhaimah: "رأس الخيمة",
+    emirateFujairah: "الفجيرة",
+    activeFilters: "الفلاتر النشطة:",
+
+    // Results controls
+    viewMap: "عرض الخريطة",
+    sortButtonLabel: "الترتيب: {option}. انقر للتبديل بين خيارات الترتيب.",
+    viewButtonLabel: "العرض: {option}. انقر للتبديل بين طرق العرض.",
+    zoomIn: "تكبير",
+    zoomOut: "تصغير",
+    closePreview: "إغلاق المعاينة",
+    goToSlide: "الانتقال إلى الصورة {number}",
+
+    // Restaurant details
+    contactInfo: "التواصل",
+    visitWebsite: "زيارة الموقع",
+    address: "العنوان",
+    tagline: "بوابتك إلى ألذ الأطباق",
+    siteDescription: "توصيات المطاعم في الإمارات",
+    restaurantPreview: "معاينة المطعم",
+    newRestaurant: "مطعم جديد",
+    uploadedImage: "الصورة المرفوعة {number}",
 
     // Common
     main: "الرئيسية",
@@ -97,6 +343,7 @@ export const translations = {
     // Admin Dashboard
     adminDashboard: "Admin Dashboard",
     addRestaurant: "Add Restaurant",
+    editRestaurant: "Edit Restaurant",
 
     // Form labels
     restaurantName: "Restaurant Name",
@@ -112,11 +359,13 @@ export const translations = {
     description: "Description",
     contactSocial: "Contact & Social",
     restaurantImages: "Restaurant Images",
+    contentLanguage: "Content language",
 
     // Buttons
     addPhoto: "Add Photo",
     addContact: "Add Contact",
     addRestaurantButton: "Add Restaurant",
+    saveChanges: "Save Changes",
     cancel: "Cancel",
     edit: "Edit",
     delete: "Delete",
@@ -132,12 +381,23 @@ export const translations = {
 
     // Error messages
     errorNameAndCuisineRequired: "Please enter restaurant name and at least one cuisine",
+    errorImageRequired: "Add at least one image",
 
     // Delete confirmation
     deleteConfirmation: "Confirm Delete",
     deleteConfirmMessage: "Are you sure you want to delete this restaurant? This action cannot be undone.",
     yesDelete: "Yes, delete",
     noRestaurantsFound: "No restaurants found",
+    restaurantNotFound: "Restaurant not found",
+    priceUnder: "Under {amount}",
+    priceAbove: "Above {amount}",
+    addedAgo: "Added {time}",
+
+    // Discard changes confirmation
+    discardChangesTitle: "Discard changes?",
+    discardChangesMessage: "You have unsaved changes. Close the form and discard them?",
+    discard: "Discard",
+    keepEditing: "Keep editing",
 
     // Contact types
     contactPhone: "Phone",
@@ -171,20 +431,911 @@ export const translations = {
     sortOldestFirst: "Oldest First",
     sortPriceLowToHigh: "Price: Low to High",
     sortPriceHighToLow: "Price: High to Low",
+    sortNearestFirst: "Nearest First",
+    sortTopRated: "Top Rated",
 
     // Results
-    restaurantsCount: "restaurants",
+    searchPlaceholder: "Search by name, district or features",
+    clearSearch: "Clear search",
+    priceFilter: "Price",
+    nearMe: "Near me",
+    locatingYou: "Finding your location…",
+    locationDenied: "Couldn't access your location. Choose an area instead",
+    chooseArea: "Choose an area",
+    distanceFilter: "Distance",
+    kilometers: "km",
+
+    // Reviews
+    reviews: "Reviews",
+    noReviewsYet: "No reviews yet. Be the first to review",
+    writeReview: "Write a review",
+    editReview: "Edit your review",
+    deleteReview: "Delete",
+    confirmDeleteReview: "Delete this review?",
+    reviewRating: "Rating",
+    reviewTitle: "Title",
+    reviewContent: "Your experience",
+    submitReview: "Post review",
+    saveReview: "Save",
+    signInToReview: "Sign in to write a review",
+    anonymousReviewer: "Guest",
+    reviewPending: "Awaiting moderation",
+    reviewNotPublished: "Not published",
+
+    // Moderation
+    moderationQueue: "Moderation Queue",
+    moderationEmpty: "Nothing in this queue",
+    statusPending: "Pending",
+    statusApproved: "Approved",
+    statusRejected: "Rejected",
+    statusHidden: "Hidden",
+    assigneeAll: "All",
+    assigneeMe: "Assigned to me",
+    assigneeUnassigned: "Unassigned",
+    approve: "Approve",
+    reject: "Reject",
+    hide: "Hide",
+    moderationReason: "Reason",
+    reasonSpam: "Spam",
+    reasonOffensive: "Offensive",
+    reasonOffTopic: "Off topic",
+    reasonPersonalInfo: "Personal information",
+    reasonConflictOfInterest: "Conflict of interest",
+    reasonOther: "Other",
+    moderationNote: "Note (optional)",
+    assignToMe: "Assign to me",
+    unassign: "Unassign",
+    assignedToYou: "Assigned to you",
+    assignedToOther: "Assigned to another moderator",
+    selectAll: "Select all",
+    selectedCount: "selected",
+    slaDueIn: "Due in",
+    slaOverdue: "Overdue by",
+    previousPage: "Previous",
+    nextPage: "Next",
+
+    // Saved restaurants
+    favorites: "Favorites",
+    addToFavorites: "Add to favorites",
+    removeFromFavorites: "Remove from favorites",
+    myLists: "My Lists",
+    saveToList: "Save to list",
+    newList: "New list",
+    newListPlaceholder: "e.g. Date night",
+    createList: "Create",
+    renameList: "Rename",
+    deleteList: "Delete list",
+    confirmDeleteList: "Delete this list?",
+    emptyList: "No restaurants in this list yet",
+    noFavoritesYet: "You haven't added any favorites yet",
+    noListsYet: "No lists yet",
+    savedOnDevice: "Saved on this device only. Sign in to keep them in your account",
+    signIn: "Sign in",
+
+    // Auth
+    signInTitle: "Sign in",
+    signUpTitle: "Create an account",
+    resetPasswordTitle: "Reset your password",
+    newPasswordTitle: "Choose a new password",
+    email: "Email",
+    password: "Password",
+    confirmPassword: "Confirm password",
+    fullName: "Name",
+    signUp: "Sign up",
+    continueWithGoogle: "Continue with Google",
+    or: "or",
+    forgotPassword: "Forgot password?",
+    sendResetLink: "Send reset link",
+    updatePassword: "Save password",
+    noAccount: "Don't have an account?",
+    haveAccount: "Already have an account?",
+    backToSignIn: "Back to sign in",
+    authMissingFields: "Please fill in all required fields",
+    authPasswordTooShort: "Password must be at least 6 characters",
+    authPasswordMismatch: "Passwords do not match",
+    authNetworkError: "Network error. Check your connection and try again",
+    authTimeoutError: "Request timed out. Please try again",
+    authInvalidCredentials: "Invalid email or password",
+    authUserNotFound: "No account found with this email",
+    authEmailAlreadyExists: "An account with this email already exists",
+    authWeakPassword: "Password is too weak. Please use a stronger one",
+    authServerError: "Server error. Please try again later",
+    authRateLimited: "Too many attempts. Wait a moment and try again",
+    authOAuthError: "Couldn't sign in with Google. Please try again",
+    authUnknownError: "An unexpected error occurred. Please try again",
+    authConfirmEmail: "Check your email to confirm your account",
+    authResetEmailSent: "If an account exists for this email, a reset link is on its way",
+    authPasswordUpdated: "Your password has been updated",
+
+    // User management
+    userManagement: "User Management",
+    searchUsers: "Search by email or name",
+    noUsersFound: "No matching users",
+    userRole: "Role",
+    roleUser: "User",
+    roleModerator: "Moderator",
+    roleAdmin: "Admin",
+    accountStatus: "Account status",
+    accountActive: "Active",
+    accountDisabled: "Disabled",
+    disableUser: "Disable",
+    enableUser: "Enable",
+    confirmChange: "Confirm",
+    confirmRoleChange: "Change role of",
+    confirmDisableUser: "Disable account of",
+    confirmEnableUser: "Re-enable account of",
+    memberSince: "Member since",
+    you: "you",
+
+    // Access
+    forbiddenTitle: "Access denied",
+    forbiddenMessage: "Your account doesn't have permission to view this page",
+    backHome: "Back to home",
+
+    // Audit log
+    auditLog: "Audit Log",
+    auditAction: "Action",
+    auditSeverity: "Severity",
+    auditUser: "User ID",
+    auditTargetType: "Target type",
+    auditTargetId: "Target ID",
+    auditFrom: "From",
+    auditTo: "To",
+    auditApplyFilters: "Apply",
+    auditClearFilters: "Clear",
+    auditNoEntries: "No matching entries",
+    auditNewest: "Newest",
+    auditOlder: "Older",
+    auditExportCsv: "Export CSV",
+    auditExportNdjson: "Export NDJSON",
+    auditEntry: "Audit entry",
+    auditMetadata: "Metadata",
+    auditFailed: "Failed",
+    auditSucceeded: "Succeeded",
+    auditBackToLog: "Back to log",
+    auditStatus: "Status",
+    auditTimestamp: "Timestamp",
+    auditIpAddress: "IP address",
+    auditUserAgent: "User agent",
+    auditError: "Error",
+    auditSequence: "Sequence",
+    auditHash: "Hash",
+    auditPrevHash: "Previous hash",
+
+    // Navigation
+    navDiscover: "Discover",
+    navRestaurants: "Restaurants",
+    navAdmin: "Admin",
+    navModeration: "Moderation",
+    navUsers: "Users",
+    navigation: "Navigation",
+    openMenu: "Open menu",
+    chooseLanguage: "Choose language",
+    arabicDigits: "Arabic-Indic digits (١٢٣)",
+    goBack: "Go back",
+    dismiss: "Dismiss",
+
+    // Filter options
+    meal: "Meal",
+    cuisineEmirati: "Emirati",
+    cuisineArabic: "Arabic",
+    cuisineLebanese: "Lebanese",
+    cuisineIndian: "Indian",
+    cuisinePakistani: "Pakistani",
+    cuisineChinese: "Chinese",
+    cuisineJapanese: "Japanese",
+    cuisineThai: "Thai",
+    cuisineItalian: "Italian",
+    cuisineSeafood: "Seafood",
+    cuisineInternational: "International",
+    mealBreakfast: "Breakfast",
+    mealLunch: "Lunch",
+    mealDinner: "Dinner",
+    atmosphereRomantic: "Romantic",
+    atmosphereCasual: "Casual",
+    atmosphereFineDining: "Fine Dining",
+    atmosphereOutdoor: "Outdoor",
+    atmosphereFamilyFriendly: "Family Friendly",
+    atmosphereLiveMusic: "Live Music",
+    atmosphereView: "View",
+    emirateDubai: "Dubai",
+    emirateAbuDhabi: "Abu Dhabi",
+    emirateSharjah: "Sharjah",
+    emirateAjman: "Ajman",
+    emirateUmmAlQuwain: "Umm Al Quwain",
+    emirateRasAlKhaimah: "Ras Al Khaimah",
+    emirateFujairah: "Fujairah",
+    activeFilters: "Active filters:",
+
+    // Results controls
+    viewMap: "Map View",
+    sortButtonLabel: "Sort: {option}. Click to cycle through sort options.",
+    viewButtonLabel: "View: {option}. Click to cycle through view options.",
+    zoomIn: "Zoom in",
+    zoomOut: "Zoom out",
+    closePreview: "Close preview",
+    goToSlide: "Go to slide {number}",
+
+    // Restaurant details
+    contactInfo: "Contact",
+    visitWebsite: "Visit Website",
+    address: "Address",
+    tagline: "Your Gateway to Great Food",
+    siteDescription: "Restaurant recommendations in UAE",
+    restaurantPreview: "Restaurant preview",
+    newRestaurant: "New Restaurant",
+    uploadedImage: "Uploaded image {number}",
 
     // Common
     main: "Main",
   } as const,
 } as const
 
+/** Per-language catalog; keys it leaves out are shown in English */
+type TranslationCatalog = Partial<Record<TranslationKey, string>>
+
+/**
+ * Hindi, Urdu and Persian cover the public pages (browsing, reviews, saved
+ * lists, sign-in). Admin, moderation and audit screens fall back to English.
+ */
+export const partialTranslations: Record<Exclude<Language, keyof typeof translations>, TranslationCatalog> = {
+  hi: {
+    // View modes
+    viewListView: "सूची दृश्य",
+    view1Column: "1 कॉलम",
+    view2Columns: "2 कॉलम",
+    view3Columns: "3 कॉलम",
+    view4Columns: "4 कॉलम",
+
+    // Sort options
+    sortNewestFirst: "नवीनतम पहले",
+    sortOldestFirst: "सबसे पुराने पहले",
+    sortPriceLowToHigh: "कीमत: कम से ज़्यादा",
+    sortPriceHighToLow: "कीमत: ज़्यादा से कम",
+    sortNearestFirst: "सबसे नज़दीक पहले",
+    sortTopRated: "सबसे ज़्यादा रेटिंग",
+
+    // Results
+    searchPlaceholder: "नाम, इलाके या सुविधाओं से खोजें",
+    clearSearch: "खोज साफ़ करें",
+    priceFilter: "कीमत",
+    nearMe: "मेरे पास",
+    locatingYou: "आपकी लोकेशन ढूँढ रहे हैं…",
+    locationDenied: "आपकी लोकेशन नहीं मिल सकी। इसके बजाय कोई इलाका चुनें",
+    chooseArea: "इलाका चुनें",
+    distanceFilter: "दूरी",
+    kilometers: "कि.मी.",
+
+    // Reviews
+    reviews: "समीक्षाएँ",
+    noReviewsYet: "अभी कोई समीक्षा नहीं। पहली समीक्षा लिखें",
+    writeReview: "समीक्षा लिखें",
+    editReview: "अपनी समीक्षा संपादित करें",
+    deleteReview: "हटाएँ",
+    confirmDeleteReview: "यह समीक्षा हटाएँ?",
+    reviewRating: "रेटिंग",
+    reviewTitle: "शीर्षक",
+    reviewContent: "आपका अनुभव",
+    submitReview: "समीक्षा पोस्ट करें",
+    saveReview: "सहेजें",
+    signInToReview: "समीक्षा लिखने के लिए साइन इन करें",
+    anonymousReviewer: "अतिथि",
+    reviewPending: "मॉडरेशन की प्रतीक्षा में",
+    reviewNotPublished: "प्रकाशित नहीं",
+
+    // Saved restaurants
+    favorites: "पसंदीदा",
+    addToFavorites: "पसंदीदा में जोड़ें",
+    removeFromFavorites: "पसंदीदा से हटाएँ",
+    myLists: "मेरी सूचियाँ",
+    saveToList: "सूची में सहेजें",
+    newList: "नई सूची",
+    newListPlaceholder: "जैसे डेट नाइट",
+    createList: "बनाएँ",
+    renameList: "नाम बदलें",
+    deleteList: "सूची हटाएँ",
+    confirmDeleteList: "यह सूची हटाएँ?",
+    emptyList: "इस सूची में अभी कोई रेस्तरां नहीं है",
+    noFavoritesYet: "आपने अभी तक कोई पसंदीदा नहीं जोड़ा है",
+    noListsYet: "अभी कोई सूची नहीं",
+    savedOnDevice: "सिर्फ़ इस डिवाइस पर सहेजा गया। इन्हें अपने खाते में रखने के लिए साइन इन करें",
+    signIn: "साइन इन",
+
+    // Auth
+    signInTitle: "साइन इन",
+    signUpTitle: "खाता बनाएँ",
+    resetPasswordTitle: "अपना पासवर्ड रीसेट करें",
+    newPasswordTitle: "नया पासवर्ड चुनें",
+    email: "ईमेल",
+    password: "पासवर्ड",
+    confirmPassword: "पासवर्ड की पुष्टि करें",
+    fullName: "नाम",
+    signUp: "साइन अप",
+    continueWithGoogle: "Google के साथ जारी रखें",
+    or: "या",
+    forgotPassword: "पासवर्ड भूल गए?",
+    sendResetLink: "रीसेट लिंक भेजें",
+    updatePassword: "पासवर्ड सहेजें",
+    noAccount: "खाता नहीं है?",
+    haveAccount: "पहले से खाता है?",
+    backToSignIn: "साइन इन पर वापस जाएँ",
+    authMissingFields: "कृपया सभी ज़रूरी फ़ील्ड भरें",
+    authPasswordTooShort: "पासवर्ड कम से कम 6 अक्षरों का होना चाहिए",
+    authPasswordMismatch: "पासवर्ड मेल नहीं खाते",
+    authNetworkError: "नेटवर्क त्रुटि। अपना कनेक्शन जाँचें और फिर से कोशिश करें",
+    authTimeoutError: "अनुरोध का समय समाप्त हो गया। कृपया फिर से कोशिश करें",
+    authInvalidCredentials: "ईमेल या पासवर्ड गलत है",
+    authUserNotFound: "इस ईमेल से कोई खाता नहीं मिला",
+    authEmailAlreadyExists: "इस ईमेल से पहले से एक खाता मौजूद है",
+    authWeakPassword: "पासवर्ड बहुत कमज़ोर है। कृपया ज़्यादा मज़बूत पासवर्ड चुनें",
+    authServerError: "सर्वर त्रुटि। कृपया बाद में फिर से कोशिश करें",
+    authRateLimited: "बहुत ज़्यादा प्रयास। थोड़ी देर रुककर फिर से कोशिश करें",
+    authOAuthError: "Google से साइन इन नहीं हो सका। कृपया फिर से कोशिश करें",
+    authUnknownError: "एक अनपेक्षित त्रुटि हुई। कृपया फिर से कोशिश करें",
+    authConfirmEmail: "अपने खाते की पुष्टि के लिए अपना ईमेल देखें",
+    authResetEmailSent: "अगर इस ईमेल से कोई खाता है, तो रीसेट लिंक भेज दिया गया है",
+    authPasswordUpdated: "आपका पासवर्ड अपडेट हो गया है",
+
+    // Access
+    forbiddenTitle: "पहुँच अस्वीकृत",
+    forbiddenMessage: "आपके खाते को यह पेज देखने की अनुमति नहीं है",
+    backHome: "होम पर वापस जाएँ",
+
+    // Navigation
+    navDiscover: "खोजें",
+    navRestaurants: "रेस्तरां",
+    navigation: "नेविगेशन",
+    openMenu: "मेन्यू खोलें",
+    chooseLanguage: "भाषा चुनें",
+    arabicDigits: "अरबी-भारतीय अंक (١٢٣)",
+    goBack: "वापस जाएँ",
+    dismiss: "बंद करें",
+
+    // Filter options
+    cuisine: "व्यंजन",
+    atmosphere: "माहौल",
+    emirate: "अमीरात",
+    district: "इलाका",
+    meal: "भोजन",
+    cuisineEmirati: "अमीराती",
+    cuisineArabic: "अरबी",
+    cuisineLebanese: "लेबनानी",
+    cuisineIndian: "भारतीय",
+    cuisinePakistani: "पाकिस्तानी",
+    cuisineChinese: "चीनी",
+    cuisineJapanese: "जापानी",
+    cuisineThai: "थाई",
+    cuisineItalian: "इतालवी",
+    cuisineSeafood: "सी-फ़ूड",
+    cuisineInternational: "अंतरराष्ट्रीय",
+    mealBreakfast: "नाश्ता",
+    mealLunch: "दोपहर का खाना",
+    mealDinner: "रात का खाना",
+    atmosphereRomantic: "रोमांटिक",
+    atmosphereCasual: "कैज़ुअल",
+    atmosphereFineDining: "फ़ाइन डाइनिंग",
+    atmosphereOutdoor: "खुली जगह",
+    atmosphereFamilyFriendly: "परिवार के अनुकूल",
+    atmosphereLiveMusic: "लाइव संगीत",
+    atmosphereView: "नज़ारा",
+    emirateDubai: "दुबई",
+    emirateAbuDhabi: "अबू धाबी",
+    emirateSharjah: "शारजाह",
+    emirateAjman: "अजमान",
+    emirateUmmAlQuwain: "उम्म अल क़ुवैन",
+    emirateRasAlKhaimah: "रास अल ख़ैमाह",
+    emirateFujairah: "फ़ुजैरा",
+    activeFilters: "सक्रिय फ़िल्टर:",
+
+    // Results controls
+    viewMap: "मैप दृश्य",
+    sortButtonLabel: "क्रम: {option}। क्रम के विकल्प बदलने के लिए क्लिक करें।",
+    viewButtonLabel: "दृश्य: {option}। दृश्य के विकल्प बदलने के लिए क्लिक करें।",
+    zoomIn: "ज़ूम इन",
+    zoomOut: "ज़ूम आउट",
+    closePreview: "पूर्वावलोकन बंद करें",
+    goToSlide: "स्लाइड {number} पर जाएँ",
+
+    // Restaurant details
+    description: "विवरण",
+    contactInfo: "संपर्क",
+    contactPhone: "फ़ोन",
+    contactWebsite: "वेबसाइट",
+    visitWebsite: "वेबसाइट देखें",
+    address: "पता",
+    tagline: "बेहतरीन खाने तक आपका रास्ता",
+    siteDescription: "यूएई में रेस्तरां की सिफ़ारिशें",
+    restaurantPreview: "रेस्तरां का पूर्वावलोकन",
+    restaurantNotFound: "रेस्तरां नहीं मिला",
+    priceUnder: "{amount} से कम",
+    priceAbove: "{amount} से अधिक",
+    addedAgo: "{time} जोड़ा गया",
+
+    // Common
+    cancel: "रद्द करें",
+    main: "मुख्य",
+  },
+
+  ur: {
+    // View modes
+    viewListView: "فہرست منظر",
+    view1Column: "1 کالم",
+    view2Columns: "2 کالم",
+    view3Columns: "3 کالم",
+    view4Columns: "4 کالم",
+
+    // Sort options
+    sortNewestFirst: "نئے پہلے",
+    sortOldestFirst: "پرانے پہلے",
+    sortPriceLowToHigh: "قیمت: کم سے زیادہ",
+    sortPriceHighToLow: "قیمت: زیادہ سے کم",
+    sortNearestFirst: "قریب ترین پہلے",
+    sortTopRated: "سب سے زیادہ ریٹنگ",
+
+    // Results
+    searchPlaceholder: "نام، علاقے یا خصوصیات سے تلاش کریں",
+    clearSearch: "تلاش صاف کریں",
+    priceFilter: "قیمت",
+    nearMe: "میرے قریب",
+    locatingYou: "آپ کا مقام تلاش کیا جا رہا ہے…",
+    locationDenied: "آپ کے مقام تک رسائی نہیں ہو سکی۔ اس کے بجائے کوئی علاقہ منتخب کریں",
+    chooseArea: "علاقہ منتخب کریں",
+    distanceFilter: "فاصلہ",
+    kilometers: "کلومیٹر",
+
+    // Reviews
+    reviews: "جائزے",
+    noReviewsYet: "ابھی کوئی جائزہ نہیں۔ پہلا جائزہ لکھیں",
+    writeReview: "جائزہ لکھیں",
+    editReview: "اپنے جائزے میں ترمیم کریں",
+    deleteReview: "حذف کریں",
+    confirmDeleteReview: "یہ جائزہ حذف کریں؟",
+    reviewRating: "ریٹنگ",
+    reviewTitle: "عنوان",
+    reviewContent: "آپ کا تجربہ",
+    submitReview: "جائزہ شائع کریں",
+    saveReview: "محفوظ کریں",
+    signInToReview: "جائزہ لکھنے کے لیے سائن ان کریں",
+    anonymousReviewer: "مہمان",
+    reviewPending: "منظوری کا منتظر",
+    reviewNotPublished: "شائع نہیں ہوا",
+
+    // Saved restaurants
+    favorites: "پسندیدہ",
+    addToFavorites: "پسندیدہ میں شامل کریں",
+    removeFromFavorites: "پسندیدہ سے ہٹائیں",
+    myLists: "میری فہرستیں",
+    saveToList: "فہرست میں محفوظ کریں",
+    newList: "نئی فہرست",
+    newListPlaceholder: "مثلاً ڈیٹ نائٹ",
+    createList: "بنائیں",
+    renameList: "نام تبدیل کریں",
+    deleteList: "فہرست حذف کریں",
+    confirmDeleteList: "یہ فہرست حذف کریں؟",
+    emptyList: "اس فہرست میں ابھی کوئی ریستوران نہیں",
+    noFavoritesYet: "آپ نے ابھی تک کوئی پسندیدہ شامل نہیں کیا",
+    noListsYet: "ابھی کوئی فہرست نہیں",
+    savedOnDevice: "صرف اسی آلے پر محفوظ ہے۔ انہیں اپنے اکاؤنٹ میں رکھنے کے لیے سائن ان کریں",
+    signIn: "سائن ان",
+
+    // Auth
+    signInTitle: "سائن ان",
+    signUpTitle: "اکاؤنٹ بنائیں",
+    resetPasswordTitle: "اپنا پاس ورڈ ری سیٹ کریں",
+    newPasswordTitle: "نیا پاس ورڈ منتخب کریں",
+    email: "ای میل",
+    password: "پاس ورڈ",
+    confirmPassword: "پاس ورڈ کی تصدیق کریں",
+    fullName: "نام",
+    signUp: "سائن اپ",
+    continueWithGoogle: "Google کے ساتھ جاری رکھیں",
+    or: "یا",
+    forgotPassword: "پاس ورڈ بھول گئے؟",
+    sendResetLink: "ری سیٹ لنک بھیجیں",
+    updatePassword: "پاس ورڈ محفوظ کریں",
+    noAccount: "اکاؤنٹ نہیں ہے؟",
+    haveAccount: "پہلے سے اکاؤنٹ ہے؟",
+    backToSignIn: "سائن ان پر واپس جائیں",
+    authMissingFields: "براہ کرم تمام ضروری خانے پُر کریں",
+    authPasswordTooShort: "پاس ورڈ کم از کم 6 حروف کا ہونا چاہیے",
+    authPasswordMismatch: "پاس ورڈ مماثل نہیں ہیں",
+    authNetworkError: "نیٹ ورک کی خرابی۔ اپنا کنکشن چیک کر کے دوبارہ کوشش کریں",
+    authTimeoutError: "درخواست کا وقت ختم ہو گیا۔ براہ کرم دوبارہ کوشش کریں",
+    authInvalidCredentials: "ای میل یا پاس ورڈ غلط ہے",
+    authUserNotFound: "اس ای میل سے کوئی اکاؤنٹ نہیں ملا",
+    authEmailAlreadyExists: "اس ای میل سے پہلے ہی ایک اکاؤنٹ موجود ہے",
+    authWeakPassword: "پاس ورڈ بہت کمزور ہے۔ براہ کرم مضبوط پاس ورڈ استعمال کریں",
+    authServerError: "سرور کی خرابی۔ براہ کرم بعد میں دوبارہ کوشش کریں",
+    authRateLimited: "بہت زیادہ کوششیں۔ تھوڑا انتظار کر کے دوبارہ کوشش کریں",
+    authOAuthError: "Google سے سائن ان نہیں ہو سکا۔ براہ کرم دوبارہ کوشش کریں",
+    authUnknownError: "ایک غیر متوقع خرابی پیش آئی۔ براہ کرم دوبارہ کوشش کریں",
+    authConfirmEmail: "اپنے اکاؤنٹ کی تصدیق کے لیے اپنی ای میل دیکھیں",
+    authResetEmailSent: "اگر اس ای میل سے کوئی اکاؤنٹ موجود ہے تو ری سیٹ لنک بھیج دیا گیا ہے",
+    authPasswordUpdated: "آپ کا پاس ورڈ اپ ڈیٹ ہو گیا ہے",
+
+    // Access
+    forbiddenTitle: "رسائی سے انکار",
+    forbiddenMessage: "آپ کے اکاؤنٹ کو یہ صفحہ دیکھنے کی اجازت نہیں ہے",
+    backHome: "ہوم پر واپس جائیں",
+
+    // Navigation
+    navDiscover: "دریافت کریں",
+    navRestaurants: "ریستوران",
+    navigation: "نیویگیشن",
+    openMenu: "مینو کھولیں",
+    chooseLanguage: "زبان منتخب کریں",
+    arabicDigits: "عربی ہندسے (۱۲۳)",
+    goBack: "واپس جائیں",
+    dismiss: "بند کریں",
+
+    // Filter options
+    cuisine: "کھانے کی قسم",
+    atmosphere: "ماحول",
+    emirate: "امارت",
+    district: "علاقہ",
+    meal: "کھانا",
+    cuisineEmirati: "اماراتی",
+    cuisineArabic: "عربی",
+    cuisineLebanese: "لبنانی",
+    cuisineIndian: "بھارتی",
+    cuisinePakistani: "پاکستانی",
+    cuisineChinese: "چینی",
+    cuisineJapanese: "جاپانی",
+    cuisineThai: "تھائی",
+    cuisineItalian: "اطالوی",
+    cuisineSeafood: "سمندری غذا",
+    cuisineInternational: "بین الاقوامی",
+    mealBreakfast: "ناشتہ",
+    mealLunch: "دوپہر کا کھانا",
+    mealDinner: "رات کا کھانا",
+    atmosphereRomantic: "رومانوی",
+    atmosphereCasual: "غیر رسمی",
+    atmosphereFineDining: "فائن ڈائننگ",
+    atmosphereOutdoor: "کھلی فضا",
+    atmosphereFamilyFriendly: "فیملی کے لیے موزوں",
+    atmosphereLiveMusic: "لائیو موسیقی",
+    atmosphereView: "منظر",
+    emirateDubai: "دبئی",
+    emirateAbuDhabi: "ابوظہبی",
+    emirateSharjah: "شارجہ",
+    emirateAjman: "عجمان",
+    emirateUmmAlQuwain: "ام القیوین",
+    emirateRasAlKhaimah: "راس الخیمہ",
+    emirateFujairah: "فجیرہ",
+    activeFilters: "فعال فلٹرز:",
+
+    // Results controls
+    viewMap: "نقشہ منظر",
+    sortButtonLabel: "ترتیب: {option}۔ ترتیب کے اختیارات بدلنے کے لیے کلک کریں۔",
+    viewButtonLabel: "منظر: {option}۔ منظر کے اختیارات بدلنے کے لیے کلک کریں۔",
+    zoomIn: "زوم ان",
+    zoomOut: "زوم آؤٹ",
+    closePreview: "پیش منظر بند کریں",
+    goToSlide: "سلائیڈ {number} پر جائیں",
+
+    // Restaurant details
+    description: "تفصیل",
+    contactInfo: "رابطہ",
+    contactPhone: "فون",
+    contactWebsite: "ویب سائٹ",
+    visitWebsite: "ویب سائٹ دیکھیں",
+    address: "پتہ",
+    tagline: "بہترین کھانوں تک آپ کا راستہ",
+    siteDescription: "متحدہ عرب امارات میں ریستوران کی سفارشات",
+    restaurantPreview: "ریستوران کا پیش منظر",
+    restaurantNotFound: "ریستوران نہیں ملا",
+    priceUnder: "{amount} سے کم",
+    priceAbove: "{amount} سے زیادہ",
+    addedAgo: "{time} شامل کیا گیا",
+
+    // Common
+    cancel: "منسوخ کریں",
+    main: "مرکزی",
+  },
+
+  fa: {
+    // View modes
+    viewListView: "نمای فهرست",
+    view1Column: "۱ ستون",
+    view2Columns: "۲ ستون",
+    view3Columns: "۳ ستون",
+    view4Columns: "۴ ستون",
+
+    // Sort options
+    sortNewestFirst: "جدیدترین",
+    sortOldestFirst: "قدیمی‌ترین",
+    sortPriceLowToHigh: "قیمت: کم به زیاد",
+    sortPriceHighToLow: "قیمت: زیاد به کم",
+    sortNearestFirst: "نزدیک‌ترین",
+    sortTopRated: "بالاترین امتیاز",
+
+    // Results
+    searchPlaceholder: "جستجو بر اساس نام، محله یا ویژگی‌ها",
+    clearSearch: "پاک کردن جستجو",
+    priceFilter: "قیمت",
+    nearMe: "نزدیک من",
+    locatingYou: "در حال یافتن موقعیت شما…",
+    locationDenied: "دسترسی به موقعیت شما ممکن نشد. به جای آن یک منطقه انتخاب کنید",
+    chooseArea: "انتخاب منطقه",
+    distanceFilter: "فاصله",
+    kilometers: "کیلومتر",
+
+    // Reviews
+    reviews: "نظرها",
+    noReviewsYet: "هنوز نظری ثبت نشده است. اولین نظر را بنویسید",
+    writeReview: "نوشتن نظر",
+    editReview: "ویرایش نظر شما",
+    deleteReview: "حذف",
+    confirmDeleteReview: "این نظر حذف شود؟",
+    reviewRating: "امتیاز",
+    reviewTitle: "عنوان",
+    reviewContent: "تجربه شما",
+    submitReview: "ثبت نظر",
+    saveReview: "ذخیره",
+    signInToReview: "برای نوشتن نظر وارد شوید",
+    anonymousReviewer: "مهمان",
+    reviewPending: "در انتظار بررسی",
+    reviewNotPublished: "منتشر نشده",
+
+    // Saved restaurants
+    favorites: "علاقه‌مندی‌ها",
+    addToFavorites: "افزودن به علاقه‌مندی‌ها",
+    removeFromFavorites: "حذف از علاقه‌مندی‌ها",
+    myLists: "فهرست‌های من",
+    saveToList: "ذخیره در فهرست",
+    newList: "فهرست جدید",
+    newListPlaceholder: "مثلاً شام دونفره",
+    createList: "ایجاد",
+    renameList: "تغییر نام",
+    deleteList: "حذف فهرست",
+    confirmDeleteList: "این فهرست حذف شود؟",
+    emptyList: "هنوز رستورانی در این فهرست نیست",
+    noFavoritesYet: "هنوز چیزی به علاقه‌مندی‌ها اضافه نکرده‌اید",
+    noListsYet: "هنوز فهرستی ندارید",
+    savedOnDevice: "فقط روی همین دستگاه ذخیره شده است. برای نگه داشتن آن‌ها در حساب خود وارد شوید",
+    signIn: "ورود",
+
+    // Auth
+    signInTitle: "ورود",
+    signUpTitle: "ایجاد حساب",
+    resetPasswordTitle: "بازنشانی رمز عبور",
+    newPasswordTitle: "انتخاب رمز عبور جدید",
+    email: "ایمیل",
+    password: "رمز عبور",
+    confirmPassword: "تکرار رمز عبور",
+    fullName: "نام",
+    signUp: "ثبت‌نام",
+    continueWithGoogle: "ادامه با Google",
+    or: "یا",
+    forgotPassword: "رمز عبور را فراموش کرده‌اید؟",
+    sendResetLink: "ارسال پیوند بازنشانی",
+    updatePassword: "ذخیره رمز عبور",
+    noAccount: "حساب ندارید؟",
+    haveAccount: "قبلاً حساب ساخته‌اید؟",
+    backToSignIn: "بازگشت به ورود",
+    authMissingFields: "لطفاً همه فیلدهای الزامی را پر کنید",
+    authPasswordTooShort: "رمز عبور باید دست‌کم ۶ نویسه باشد",
+    authPasswordMismatch: "رمزهای عبور یکسان نیستند",
+    authNetworkError: "خطای شبکه. اتصال خود را بررسی کنید و دوباره تلاش کنید",
+    authTimeoutError: "زمان درخواست به پایان رسید. لطفاً دوباره تلاش کنید",
+    authInvalidCredentials: "ایمیل یا رمز عبور نادرست است",
+    authUserNotFound: "حسابی با این ایمیل پیدا نشد",
+    authEmailAlreadyExists: "حسابی با این ایمیل از قبل وجود دارد",
+    authWeakPassword: "رمز عبور خیلی ضعیف است. لطفاً رمز قوی‌تری انتخاب کنید",
+    authServerError: "خطای سرور. لطفاً بعداً دوباره تلاش کنید",
+    authRateLimited: "تلاش‌های زیادی انجام شد. کمی صبر کنید و دوباره تلاش کنید",
+    authOAuthError: "ورود با Google ممکن نشد. لطفاً دوباره تلاش کنید",
+    authUnknownError: "خطای غیرمنتظره‌ای رخ داد. لطفاً دوباره تلاش کنید",
+    authConfirmEmail: "برای تأیید حساب، ایمیل خود را بررسی کنید",
+    authResetEmailSent: "اگر حسابی با این ایمیل وجود داشته باشد، پیوند بازنشانی ارسال شده است",
+    authPasswordUpdated: "رمز عبور شما به‌روزرسانی شد",
+
+    // Access
+    forbiddenTitle: "دسترسی مجاز نیست",
+    forbiddenMessage: "حساب شما اجازه مشاهده این صفحه را ندارد",
+    backHome: "بازگشت به خانه",
+
+    // Navigation
+    navDiscover: "کشف کنید",
+    navRestaurants: "رستوران‌ها",
+    navigation: "ناوبری",
+    openMenu: "باز کردن منو",
+    chooseLanguage: "انتخاب زبان",
+    arabicDigits: "ارقام فارسی (۱۲۳)",
+    goBack: "بازگشت",
+    dismiss: "بستن",
+
+    // Filter options
+    cuisine: "نوع غذا",
+    atmosphere: "فضا",
+    emirate: "امارت",
+    district: "محله",
+    meal: "وعده",
+    cuisineEmirati: "اماراتی",
+    cuisineArabic: "عربی",
+    cuisineLebanese: "لبنانی",
+    cuisineIndian: "هندی",
+    cuisinePakistani: "پاکستانی",
+    cuisineChinese: "چینی",
+    cuisineJapanese: "ژاپنی",
+    cuisineThai: "تایلندی",
+    cuisineItalian: "ایتالیایی",
+    cuisineSeafood: "غذای دریایی",
+    cuisineInternational: "بین‌المللی",
+    mealBreakfast: "صبحانه",
+    mealLunch: "ناهار",
+    mealDinner: "شام",
+    atmosphereRomantic: "رمانتیک",
+    atmosphereCasual: "خودمانی",
+    atmosphereFineDining: "رستوران مجلل",
+    atmosphereOutdoor: "فضای باز",
+    atmosphereFamilyFriendly: "مناسب خانواده",
+    atmosphereLiveMusic: "موسیقی زنده",
+    atmosphereView: "چشم‌انداز",
+    emirateDubai: "دبی",
+    emirateAbuDhabi: "ابوظبی",
+    emirateSharjah: "شارجه",
+    emirateAjman: "عجمان",
+    emirateUmmAlQuwain: "ام‌القیوین",
+    emirateRasAlKhaimah: "راس‌الخیمه",
+    emirateFujairah: "فجیره",
+    activeFilters: "فیلترهای فعال:",
+
+    // Results controls
+    viewMap: "نمای نقشه",
+    sortButtonLabel: "مرتب‌سازی: {option}. برای تغییر گزینه مرتب‌سازی کلیک کنید.",
+    viewButtonLabel: "نما: {option}. برای تغییر گزینه نما کلیک کنید.",
+    zoomIn: "بزرگ‌نمایی",
+    zoomOut: "کوچک‌نمایی",
+    closePreview: "بستن پیش‌نمایش",
+    goToSlide: "رفتن به اسلاید {number}",
+
+    // Restaurant details
+    description: "توضیحات",
+    contactInfo: "تماس",
+    contactPhone: "تلفن",
+    contactWebsite: "وب‌سایت",
+    visitWebsite: "مشاهده وب‌سایت",
+    address: "نشانی",
+    tagline: "دروازه شما به غذاهای عالی",
+    siteDescription: "پیشنهاد رستوران در امارات",
+    restaurantPreview: "پیش‌نمایش رستوران",
+    restaurantNotFound: "رستوران پیدا نشد",
+    priceUnder: "کمتر از {amount}",
+    priceAbove: "بیشتر از {amount}",
+    addedAgo: "{time} اضافه شد",
+
+    // Common
+    cancel: "لغو",
+    main: "اصلی",
+  },
+}
+
+/**
+ * Count-dependent strings, one form per CLDR plural category of the language.
+ * Arabic distinguishes zero, one, two, few (3–10), many (11–99) and other;
+ * Hindi and Persian use "one" for both 0 and 1.
+ */
+type PluralForms = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string }
+
+export const pluralTranslations = {
+  ar: {
+    restaurantCount: {
+      zero: "لا توجد مطاعم",
+      one: "مطعم واحد",
+      two: "مطعمان",
+      few: "{count} مطاعم",
+      many: "{count} مطعمًا",
+      other: "{count} مطعم",
+    },
+    reviewCount: {
+      zero: "لا توجد تقييمات",
+      one: "تقييم واحد",
+      two: "تقييمان",
+      few: "{count} تقييمات",
+      many: "{count} تقييمًا",
+      other: "{count} تقييم",
+    },
+  },
+
+  en: {
+    restaurantCount: {
+      one: "{count} restaurant",
+      other: "{count} restaurants",
+    },
+    reviewCount: {
+      one: "{count} review",
+      other: "{count} reviews",
+    },
+  },
+
+  hi: {
+    restaurantCount: {
+      one: "{count} रेस्तरां",
+      other: "{count} रेस्तरां",
+    },
+    reviewCount: {
+      one: "{count} समीक्षा",
+      other: "{count} समीक्षाएँ",
+    },
+  },
+
+  ur: {
+    restaurantCount: {
+      one: "{count} ریستوران",
+      other: "{count} ریستوران",
+    },
+    reviewCount: {
+      one: "{count} جائزہ",
+      other: "{count} جائزے",
+    },
+  },
+
+  fa: {
+    restaurantCount: {
+      one: "{count} رستوران",
+      other: "{count} رستوران",
+    },
+    reviewCount: {
+      one: "{count} نظر",
+      other: "{count} نظر",
+    },
+  },
+} as const satisfies Record<Language, Record<string, PluralForms>>
+
+export type PluralKey = keyof typeof pluralTranslations.ar
+
+type TranslationParams = Record<string, string | number>
+
+function interpolate(text: string, params?: TranslationParams): string {
+  if (!params) return text
+  return text.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match))
+}
+
+const pluralRules = new Map<Language, Intl.PluralRules>()
+
+function getPluralRules(lang: Language): Intl.PluralRules {
+  let rules = pluralRules.get(lang)
+  if (!rules) {
+    rules = new Intl.PluralRules(lang)
+    pluralRules.set(lang, rules)
+  }
+  return rules
+}
+
+const catalogs: Record<Language, TranslationCatalog> = { ...translations, ...partialTranslations }
+
+/**
+ * Get a translation by key and language; `{name}` placeholders are filled from params
+ */
+export function t(key: TranslationKey, lang: Language, params?: TranslationParams): string {
+  return interpolate(catalogs[lang][key] || translations.en[key] || key, params)
+}
+
+const EMIRATE_KEYS: Record<UAEEmirate, TranslationKey> = {
+  Dubai: "emirateDubai",
+  "Abu Dhabi": "emirateAbuDhabi",
+  Sharjah: "emirateSharjah",
+  Ajman: "emirateAjman",
+  "Umm Al Quwain": "emirateUmmAlQuwain",
+  "Ras Al Khaimah": "emirateRasAlKhaimah",
+  Fujairah: "emirateFujairah",
+}
+
+/**
+ * Display name of an emirate; unknown values are shown as stored
+ */
+export function getEmirateLabel(emirate: string, lang: Language): string {
+  return emirate in EMIRATE_KEYS ? t(EMIRATE_KEYS[emirate as UAEEmirate], lang) : emirate
+}
+
 /**
- * Get a translation by key and language
+ * Get the form of a count-dependent string that matches `count` in the language
  */
-export function t(key: TranslationKey, lang: Language): string {
-  return translations[lang][key] || translations.en[key] || key
+export function tPlural(key: PluralKey, count: number, lang: Language): string {
+  const forms: PluralForms = pluralTranslations[lang][key]
+  const category = getPluralRules(lang).select(count)
+  return interpolate(forms[category] ?? forms.other, { count })
 }
 
 /**
@@ -193,6 +1344,7 @@ export function t(key: TranslationKey, lang: Language): string {
  */
 export function useTranslations(lang: Language) {
   return {
-    t: (key: TranslationKey) => t(key, lang),
+    t: (key: TranslationKey, params?: TranslationParams) => t(key, lang, params),
+    tPlural: (key: PluralKey, count: number) => tPlural(key, count, lang),
   }
 }
@@ -1,4 +1,14 @@
 import { NextResponse, type NextRequest, type NextMiddleware } from "next/server"
+import { getTileOrigin } from "@/lib/map"
+import { auditLog } from "@/lib/security/audit"
+import {
+    createRateLimiter,
+    getRateLimitHeaders,
+    resolveRateLimitPolicy,
+    type RateLimitPolicy,
+    type RateLimitResult,
+} from "@/lib/security/rate-limit"
+import { createRateLimitStore, MemoryRateLimitStore } from "@/lib/security/rate-limit-store"
 
 /**
  * ═══════════════════════════════════════════════════════════════════════════════
@@ -7,17 +17,43 @@ import { NextResponse, type NextRequest, type NextMiddleware } from "next/server
  * Features:
  * - Content Security Policy (CSP) with nonce support
  * - Security headers (X-Frame-Options, X-Content-Type-Options, etc.)
- * - Rate limiting (in-memory for development, use Redis for production)
+ * - Rate limiting with per-route policies (memory, or Redis via RATE_LIMIT_REDIS_URL)
  * - CSRF protection for POST/PUT/DELETE requests
  * ═══════════════════════════════════════════════════════════════════════════════
  */
 
 // ─── Rate Limiting Configuration ─────────────────────────────────────────────
-const RATE_LIMIT_WINDOW = 60 // seconds
-const RATE_LIMIT_MAX_REQUESTS = 100
+const rateLimitStore = createRateLimitStore()
 
-// In-memory store for rate limiting (use Redis/Upstash in production)
-const ipRequestCounts = new Map<string, { count: number; resetTime: number }>()
+// One audit entry per client and policy per window, however hard they keep hitting the limit
+const auditedRejections = new MemoryRateLimitStore(1_000)
+
+/**
+ * Count this request against the route's policy.
+ * Fails open: an unreachable store must not take the site down with it.
+ */
+async function checkRateLimit(policy: RateLimitPolicy, ip: string): Promise<RateLimitResult | null> {
+    try {
+        return await createRateLimiter(policy.algorithm, rateLimitStore).consume(`${policy.id}:${ip}`, policy)
+    } catch (err) {
+        console.error("[RateLimit] Store unavailable, allowing request:", err)
+        return null
+    }
+}
+
+async function auditRejection(policy: RateLimitPolicy, request: NextRequest, ip: string): Promise<void> {
+    const key = `${policy.id}:${ip}`
+    if (!(await auditedRejections.compareAndSet(key, null, "1", policy.windowMs))) return
+
+    await auditLog.securityEvent("security_rate_limit", {
+        policy: policy.id,
+        limit: policy.limit,
+        window_ms: policy.windowMs,
+        method: request.method,
+        path: request.nextUrl.pathname,
+        ip,
+    })
+}
 
 // ─── Proxy Function ─────────────────────────────────────────────────────
 export const proxy: NextMiddleware = async (request: NextRequest) => {
@@ -25,37 +61,27 @@ export const proxy: NextMiddleware = async (request: NextRequest) => {
     const { pathname } = request.nextUrl
     const ip = request.headers.get("x-forwarded-for")?.split(",")[0] ?? "127.0.0.1"
 
-    // ─── 1. Rate Limiting for API Routes ───────────────────────────────────────
-    if (pathname.startsWith("/api/")) {
-        const currentTime = Math.floor(Date.now() / 1000)
-        const ipData = ipRequestCounts.get(ip)
+    // ─── 1. Rate Limiting ──────────────────────────────────────────────────────
+    const rateLimitPolicy = resolveRateLimitPolicy(pathname, request.method)
+    const rateLimit = await checkRateLimit(rateLimitPolicy, ip)
+    const rateLimitHeaders = rateLimit ? getRateLimitHeaders(rateLimitPolicy, rateLimit) : {}
 
-        if (!ipData || currentTime > ipData.resetTime) {
-            // First request or window expired
-            ipRequestCounts.set(ip, {
-                count: 1,
-                resetTime: currentTime + RATE_LIMIT_WINDOW,
-            })
-        } else {
-            // Increment count
-            ipData.count++
-
-            if (ipData.count > RATE_LIMIT_MAX_REQUESTS) {
-                return new NextResponse(JSON.stringify({ error: "Too Many Requests" }), {
-                    status: 429,
-                    headers: {
-                        "Content-Type": "application/json",
-                        "Retry-After": RATE_LIMIT_WINDOW.toString(),
-                    },
-                })
-            }
-        }
+    if (rateLimit && !rateLimit.allowed) {
+        // Don't hold the 429 for the audit write
+        void auditRejection(rateLimitPolicy, request, ip)
+
+        return new NextResponse(JSON.stringify({ error: "Too Many Requests" }), {
+            status: 429,
+            headers: { "Content-Type": "application/json", ...rateLimitHeaders },
+        })
     }
 
     // ─── 2. Generate Nonce for CSP ─────────────────────────────────────────────
     const nonce = Buffer.from(crypto.randomUUID()).toString("base64")
 
     // ─── 3. Define CSP Directives ──────────────────────────────────────────────
+    const mapTileOrigin = getTileOrigin()
+
     const cspDirectives = [
         // Default policy: self-only
         "default-src 'self'",
@@ -66,8 +92,8 @@ export const proxy: NextMiddleware = async (request: NextRequest) => {
         // Styles: self + inline (required for Next.js CSS-in-JS and Tailwind)
         "style-src 'self' 'unsafe-inline'",
 
-        // Images: self + data URIs + Supabase storage + common CDNs
-        "img-src 'self' data: blob: https://*.supabase.co https://*.supabase.in https://images.unsplash.com https://*.cloudinary.com https://*.amazonaws.com",
+        // Images: self + data URIs + Supabase storage + common CDNs + map tiles
+        `img-src 'self' data: blob: https://*.supabase.co https://*.supabase.in https://images.unsplash.com https://*.cloudinary.com https://*.amazonaws.com${mapTileOrigin ? ` ${mapTileOrigin}` : ""}`,
 
         // Fonts: self + Google Fonts
         "font-src 'self' https://fonts.gstatic.com https://fonts.googleapis.com",
@@ -115,7 +141,7 @@ export const proxy: NextMiddleware = async (request: NextRequest) => {
         "Permissions-Policy": [
             "camera=()",
             "microphone=()",
-            "geolocation=()",
+            "geolocation=(self)", // "Near me" sorting on the results page
             "payment=()",
             "usb=()",
             "accelerometer=()",
@@ -125,6 +151,9 @@ export const proxy: NextMiddleware = async (request: NextRequest) => {
 
         // Nonce for inline scripts (accessible via headers())
         "X-Nonce": nonce,
+
+        // Remaining quota for this route's policy
+        ...rateLimitHeaders,
     }
 
     // HSTS - Only enable in production (hard to revert!)
@@ -0,0 +1,210 @@
+#!/usr/bin/env bun
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * AUDIT CHAIN SCRIPT
+ *
+ * Verifies the audit_logs hash chain and writes signed checkpoints
+ * (see security/migrations/007_audit_hash_chain.sql).
+ *
+ *   verify      Walk the whole chain, report the first broken link, and check
+ *               every checkpoint signature and that no checkpointed entry is gone
+ *   checkpoint  Verify everything after the latest checkpoint, then sign the
+ *               current head - run on a schedule (.github/workflows/audit-checkpoint.yml)
+ *
+ * Requires NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY;
+ * checkpoints also need AUDIT_CHECKPOINT_SECRET.
+ *
+ * Run: bun run scripts/audit-chain.ts verify
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import { createClient, type SupabaseClient } from "@supabase/supabase-js"
+import {
+    GENESIS_HASH,
+    signCheckpoint,
+    verifyAuditChain,
+    verifyCheckpoint,
+    type AuditCheckpoint,
+    type ChainedAuditEntry,
+    type ChainLink,
+} from "@/lib/security/audit-chain"
+
+const PAGE_SIZE = 1000
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL
+const SERVICE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY
+const CHECKPOINT_SECRET = process.env.AUDIT_CHECKPOINT_SECRET
+
+// ─── Data Access ─────────────────────────────────────────────────────────────
+
+async function loadCheckpoints(supabase: SupabaseClient): Promise<AuditCheckpoint[]> {
+    const { data, error } = await supabase.from("audit_checkpoints").select("*").order("seq", { ascending: true })
+    if (error) throw new Error(`Failed to load checkpoints: ${error.message}`)
+    return data as AuditCheckpoint[]
+}
+
+async function loadHead(supabase: SupabaseClient): Promise<ChainLink> {
+    const { data, error } = await supabase.from("audit_chain_head").select("seq, hash").single()
+    if (error) throw new Error(`Failed to load chain head: ${error.message}`)
+    return data as ChainLink
+}
+
+async function loadRowsAfter(supabase: SupabaseClient, seq: number): Promise<ChainedAuditEntry[]> {
+    const { data, error } = await supabase
+        .from("audit_logs")
+        .select("*")
+        .gt("seq", seq)
+        .order("seq", { ascending: true })
+        .limit(PAGE_SIZE)
+    if (error) throw new Error(`Failed to load entries after seq ${seq}: ${error.message}`)
+    return data as ChainedAuditEntry[]
+}
+
+/**
+ * Link just before the oldest chained row. Retention may have removed the
+ * start of the chain; the oldest row's prev_hash is then taken on trust.
+ */
+async function loadStart(supabase: SupabaseClient): Promise<ChainLink> {
+    const [first] = await loadRowsAfter(supabase, 0)
+    if (!first || first.seq === 1) return { seq: 0, hash: GENESIS_HASH }
+
+    console.log(`ℹ️  Entries before seq ${first.seq} were removed by retention; starting there`)
+    return { seq: first.seq - 1, hash: first.prev_hash }
+}
+
+// ─── Chain Walk ──────────────────────────────────────────────────────────────
+
+/**
+ * Verify every row after `from`, page by page. Returns the last good link,
+ * or null after reporting the first broken one.
+ */
+async function walkChain(
+    supabase: SupabaseClient,
+    from: ChainLink,
+    checkpoints: readonly AuditCheckpoint[] = []
+): Promise<ChainLink | null> {
+    let previous = from
+    let checked = 0
+
+    for (;;) {
+        const rows = await loadRowsAfter(supabase, previous.seq)
+        if (rows.length === 0) break
+
+        const result = verifyAuditChain(rows, previous)
+        if (!result.ok) {
+            console.log(`❌ Broken link at seq ${result.seq} (id ${result.id}): ${result.reason} mismatch`)
+            console.log(`   ${checked + result.checked} entries verified before the break`)
+            return null
+        }
+
+        for (const checkpoint of checkpoints) {
+            const row = rows.find((r) => r.seq === checkpoint.seq)
+            if (row && row.hash !== checkpoint.hash) {
+                console.log(`❌ Entry at seq ${row.seq} does not match checkpoint from ${checkpoint.created_at}`)
+                return null
+            }
+        }
+
+        checked += result.checked
+        previous = result.head
+    }
+
+    console.log(`✅ ${checked} entries verified (head: seq ${previous.seq})`)
+    return previous
+}
+
+function checkSignatures(checkpoints: readonly AuditCheckpoint[]): boolean {
+    if (!CHECKPOINT_SECRET) {
+        console.log("⚠️  AUDIT_CHECKPOINT_SECRET not set - checkpoint signatures not checked")
+        return true
+    }
+
+    const forged = checkpoints.filter((checkpoint) => !verifyCheckpoint(checkpoint, CHECKPOINT_SECRET))
+    for (const checkpoint of forged) {
+        console.log(`❌ Checkpoint at seq ${checkpoint.seq} has an invalid signature`)
+    }
+    return forged.length === 0
+}
+
+// ─── Commands ────────────────────────────────────────────────────────────────
+
+async function verify(supabase: SupabaseClient): Promise<boolean> {
+    const checkpoints = await loadCheckpoints(supabase)
+    if (!checkSignatures(checkpoints)) return false
+
+    const head = await walkChain(supabase, await loadStart(supabase), checkpoints)
+    if (!head) return false
+
+    // Deleting the newest rows leaves a valid but shorter chain
+    const latest = checkpoints.at(-1)
+    if (latest && latest.seq > head.seq) {
+        console.log(`❌ Chain ends at seq ${head.seq} but was checkpointed at seq ${latest.seq}`)
+        return false
+    }
+
+    const recorded = await loadHead(supabase)
+    if (recorded.seq !== head.seq || recorded.hash !== head.hash) {
+        console.log(`❌ Chain ends at seq ${head.seq} but the recorded head is seq ${recorded.seq}`)
+        return false
+    }
+
+    console.log(`✅ ${checkpoints.length} checkpoints consistent`)
+    return true
+}
+
+async function checkpoint(supabase: SupabaseClient): Promise<boolean> {
+    if (!CHECKPOINT_SECRET) {
+        console.log("❌ AUDIT_CHECKPOINT_SECRET is required to sign checkpoints")
+        return false
+    }
+
+    const latest = (await loadCheckpoints(supabase)).at(-1)
+    if (latest && !checkSignatures([latest])) return false
+
+    // Only sign a head we have verified back to a trusted point
+    const head = await walkChain(supabase, latest ?? (await loadStart(supabase)))
+    if (!head) return false
+
+    if (latest && head.seq === latest.seq) {
+        console.log(`ℹ️  No new entries since checkpoint at seq ${latest.seq}`)
+        return true
+    }
+
+    const signed = signCheckpoint(head, CHECKPOINT_SECRET)
+    const { error } = await supabase.from("audit_checkpoints").insert(signed)
+    if (error) throw new Error(`Failed to write checkpoint: ${error.message}`)
+
+    console.log(`✅ Signed checkpoint at seq ${signed.seq}`)
+    return true
+}
+
+// ─── Main ────────────────────────────────────────────────────────────────────
+
+const COMMANDS = { verify, checkpoint }
+
+async function main(): Promise<void> {
+    const command = process.argv[2] as keyof typeof COMMANDS
+    if (!(command in COMMANDS)) {
+        console.log("Usage: bun run scripts/audit-chain.ts <verify|checkpoint>")
+        process.exit(2)
+    }
+
+    if (!SUPABASE_URL || !SERVICE_KEY) {
+        console.log("❌ NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required")
+        process.exit(2)
+    }
+
+    console.log(`🔗 Audit Chain: ${command}`)
+    console.log("━".repeat(60))
+
+    const supabase = createClient(SUPABASE_URL, SERVICE_KEY, { auth: { persistSession: false } })
+    const ok = await COMMANDS[command](supabase)
+
+    console.log("━".repeat(60))
+    if (!ok) process.exit(1)
+}
+
+main().catch((err) => {
+    console.error(err)
+    process.exit(1)
+})
@@ -0,0 +1,203 @@
+#!/usr/bin/env bun
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * TRANSLATION CHECK SCRIPT
+ *
+ * Fails when:
+ * - a key in lib/translations.ts exists in Arabic but not English or vice versa
+ *   (the Hindi, Urdu and Persian catalogs are partial by design; their coverage
+ *   is printed but does not fail the check)
+ * - a plural entry lacks a form for one of its language's plural categories
+ *   (Arabic needs zero, one, two, few, many and other)
+ * - a component renders a literal string instead of a translation: JSX text,
+ *   or fixed text in a placeholder / title / alt / aria-label attribute
+ *   (string literals and the literal parts of template strings)
+ * - a page sets a literal title or description in `metadata` or
+ *   `generateMetadata`
+ *
+ * Only those positions are checked. Text that reaches the UI through a
+ * variable, array or prop (e.g. a table of field labels) is not traced, so
+ * key it with t() where it is defined.
+ *
+ * Lines that intentionally render fixed text (brand names, symbols) can be
+ * marked with an `i18n-ignore` comment on the same or the preceding line.
+ *
+ * Run: bun run scripts/check-translations.ts
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import { readdirSync, readFileSync, statSync } from "node:fs"
+import { join, relative } from "node:path"
+import ts from "typescript"
+import { partialTranslations, pluralTranslations, translations } from "@/lib/translations"
+
+const PROJECT_ROOT = process.cwd()
+
+// Directories whose .tsx files render user-facing UI
+const UI_DIRS = ["app", "components", "features"]
+
+// Attributes whose values are shown or read out to users
+const VISIBLE_ATTRIBUTES = new Set(["placeholder", "title", "alt", "aria-label"])
+
+// Metadata fields shown in browser tabs and search results
+const METADATA_FIELDS = new Set(["title", "description"])
+
+const IGNORE_MARKER = "i18n-ignore"
+
+// Text without letters (numbers, punctuation, symbols) needs no translation
+const HAS_LETTERS = /\p{L}/u
+
+interface Finding {
+    file: string
+    line: number
+    text: string
+}
+
+// ─── Key Parity ──────────────────────────────────────────────────────────────
+
+function findMissingKeys(table: Record<string, Record<string, unknown>>): string[] {
+    const languages = Object.keys(table)
+    const allKeys = new Set(languages.flatMap((lang) => Object.keys(table[lang])))
+    const missing: string[] = []
+
+    for (const lang of languages) {
+        for (const key of allKeys) {
+            if (!(key in table[lang])) missing.push(`${lang}.${key}`)
+        }
+    }
+    return missing
+}
+
+function reportCoverage(): void {
+    const total = Object.keys(translations.en).length
+    for (const [lang, catalog] of Object.entries(partialTranslations)) {
+        const covered = Object.keys(catalog).length
+        console.log(`ℹ️  ${lang}: ${covered}/${total} keys translated, the rest fall back to English`)
+    }
+}
+
+function findMissingPluralForms(): string[] {
+    const missing: string[] = []
+
+    for (const [lang, entries] of Object.entries(pluralTranslations)) {
+        const categories = new Intl.PluralRules(lang).resolvedOptions().pluralCategories
+        for (const [key, forms] of Object.entries(entries)) {
+            for (const category of categories) {
+                if (!(category in forms)) missing.push(`${lang}.${key}.${category}`)
+            }
+        }
+    }
+    return missing
+}
+
+// ─── JSX Literals ────────────────────────────────────────────────────────────
+
+function listTsxFiles(dir: string): string[] {
+    return readdirSync(dir).flatMap((name) => {
+        const path = join(dir, name)
+        if (statSync(path).isDirectory()) return listTsxFiles(path)
+        return path.endsWith(".tsx") ? [path] : []
+    })
+}
+
+function isIgnored(lines: readonly string[], line: number): boolean {
+    return lines[line]?.includes(IGNORE_MARKER) || lines[line - 1]?.includes(IGNORE_MARKER) || false
+}
+
+/** Components such as AuthShell take a translation key rather than text */
+function isTranslationKey(text: string): boolean {
+    return text in translations.en
+}
+
+/**
+ * Fixed text of a string literal, or the literal parts of a template string
+ * (`Sort: ${label}` yields "Sort: ")
+ */
+function getLiteralText(expression: ts.Expression | undefined): string | null {
+    if (!expression) return null
+    if (ts.isStringLiteral(expression) || ts.isNoSubstitutionTemplateLiteral(expression)) return expression.text
+    if (ts.isTemplateExpression(expression)) {
+        return [expression.head.text, ...expression.templateSpans.map((span) => span.literal.text)].join(" ")
+    }
+    return null
+}
+
+function getStaticText(initializer: ts.JsxAttributeValue | undefined): string | null {
+    if (!initializer) return null
+    if (ts.isStringLiteral(initializer)) return initializer.text
+    return ts.isJsxExpression(initializer) ? getLiteralText(initializer.expression) : null
+}
+
+/** Inside `export const metadata = {...}` or `generateMetadata()` */
+function isInMetadata(node: ts.Node): boolean {
+    for (let current = node.parent; current; current = current.parent) {
+        if (ts.isVariableDeclaration(current) || ts.isFunctionDeclaration(current)) {
+            const name = current.name?.getText()
+            return name === "metadata" || name === "generateMetadata"
+        }
+    }
+    return false
+}
+
+function findLiterals(path: string): Finding[] {
+    const source = readFileSync(path, "utf-8")
+    const lines = source.split("\n")
+    const file = ts.createSourceFile(path, source, ts.ScriptTarget.Latest, true, ts.ScriptKind.TSX)
+    const findings: Finding[] = []
+
+    const report = (node: ts.Node, text: string) => {
+        const { line } = file.getLineAndCharacterOfPosition(node.getStart(file))
+        if (!isIgnored(lines, line)) {
+            findings.push({ file: relative(PROJECT_ROOT, path), line: line + 1, text })
+        }
+    }
+
+    const visit = (node: ts.Node) => {
+        if (ts.isJsxText(node)) {
+            const text = node.getText(file).replace(/\s+/g, " ").trim()
+            // Reported at the enclosing element, so a marker above its opening tag applies
+            if (HAS_LETTERS.test(text)) report(node.parent, text)
+        } else if (ts.isJsxAttribute(node) && VISIBLE_ATTRIBUTES.has(node.name.getText(file))) {
+            const text = getStaticText(node.initializer)
+            if (text && HAS_LETTERS.test(text) && !isTranslationKey(text)) {
+                report(node, `${node.name.getText(file)}=${node.initializer?.getText(file)}`)
+            }
+        } else if (ts.isPropertyAssignment(node) && METADATA_FIELDS.has(node.name.getText(file)) && isInMetadata(node)) {
+            const text = getLiteralText(node.initializer)
+            if (text && HAS_LETTERS.test(text)) report(node, `${node.name.getText(file)}: ${node.initializer.getText(file)}`)
+        }
+        ts.forEachChild(node, visit)
+    }
+
+    visit(file)
+    return findings
+}
+
+// ─── Main ────────────────────────────────────────────────────────────────────
+
+function main(): void {
+    console.log("🌐 Translation Check")
+    console.log("━".repeat(60))
+
+    const missing = [
+        ...findMissingKeys(translations),
+        ...findMissingKeys(pluralTranslations),
+        ...findMissingPluralForms(),
+    ]
+    for (const key of missing) console.log(`❌ Missing translation: ${key}`)
+    reportCoverage()
+
+    const literals = UI_DIRS.flatMap((dir) => listTsxFiles(join(PROJECT_ROOT, dir))).flatMap(findLiterals)
+    for (const { file, line, text } of literals) {
+        console.log(`❌ ${file}:${line} untranslated literal: ${text}`)
+    }
+
+    console.log("━".repeat(60))
+    if (missing.length > 0 || literals.length > 0) {
+        console.log(`${missing.length} missing keys, ${literals.length} untranslated literals`)
+        process.exit(1)
+    }
+    console.log("✅ Arabic and English keys match and no untranslated literals")
+}
+
+main()
@@ -0,0 +1,69 @@
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- RESTAURANTS TABLE MIGRATION
+--
+-- Run this SQL in Supabase SQL Editor to create the restaurants table.
+-- Columns mirror `restaurantSchema` in types/restaurant.ts; the DAL maps
+-- between these snake_case columns and the camelCase domain model
+-- (see lib/dal/mappers.ts).
+-- ═══════════════════════════════════════════════════════════════════════════════
+
+-- 1. Create the restaurants table
+CREATE TABLE IF NOT EXISTS restaurants (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    slug TEXT NOT NULL UNIQUE,
+    name TEXT NOT NULL,
+    image TEXT NOT NULL,
+    images TEXT[] NOT NULL DEFAULT '{}',
+    price_bucket_id SMALLINT NOT NULL CHECK (price_bucket_id BETWEEN 1 AND 7),
+    min_price INTEGER NOT NULL CHECK (min_price >= 0),
+    max_price INTEGER CHECK (max_price IS NULL OR max_price >= min_price),
+    cuisine TEXT NOT NULL,
+    description TEXT,
+    meals TEXT[],
+    atmosphere TEXT[],
+    emirate TEXT,
+    district TEXT,
+    address TEXT,
+    latitude DOUBLE PRECISION CHECK (latitude BETWEEN -90 AND 90),
+    longitude DOUBLE PRECISION CHECK (longitude BETWEEN -180 AND 180),
+    features TEXT[],
+    is_hotel_restaurant BOOLEAN,
+    has_delivery BOOLEAN,
+    phone TEXT,
+    website TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- 2. Create indexes for the filters used by the DAL
+CREATE INDEX IF NOT EXISTS idx_restaurants_created_at ON restaurants(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_restaurants_cuisine ON restaurants(cuisine);
+CREATE INDEX IF NOT EXISTS idx_restaurants_emirate ON restaurants(emirate);
+
+-- 3. Enable Row Level Security
+ALTER TABLE restaurants ENABLE ROW LEVEL SECURITY;
+
+-- 4. Everyone can read restaurants
+CREATE POLICY "Restaurants are publicly readable"
+    ON restaurants FOR SELECT
+    TO anon, authenticated
+    USING (TRUE);
+
+-- 5. Only admins can create, update or delete restaurants
+CREATE POLICY "Admins can manage restaurants"
+    ON restaurants FOR ALL
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM profiles
+            WHERE profiles.id = auth.uid()
+            AND profiles.role = 'admin'
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM profiles
+            WHERE profiles.id = auth.uid()
+            AND profiles.role = 'admin'
+        )
+    );
@@ -0,0 +1,76 @@
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- REVIEWS TABLE MIGRATION
+--
+-- Run this SQL in Supabase SQL Editor after 002_restaurants.sql.
+-- Columns mirror `reviewRecordSchema` in types/review.ts. The
+-- `user_id` column is what `canAccessResource("reviews", ...)` checks for
+-- ownership; aggregates are read from the `restaurant_rating_stats` view.
+-- ═══════════════════════════════════════════════════════════════════════════════
+
+-- 1. Create the reviews table (one review per user per restaurant)
+CREATE TABLE IF NOT EXISTS reviews (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    restaurant_id UUID NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    author_name TEXT,
+    rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+    title TEXT NOT NULL,
+    content TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (restaurant_id, user_id)
+);
+
+-- 2. Create indexes for the lookups used by the DAL
+CREATE INDEX IF NOT EXISTS idx_reviews_restaurant_created ON reviews(restaurant_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_reviews_user_id ON reviews(user_id);
+
+-- 3. Aggregate rating per restaurant
+CREATE OR REPLACE VIEW restaurant_rating_stats
+WITH (security_invoker = true) AS
+SELECT
+    restaurant_id,
+    ROUND(AVG(rating)::NUMERIC, 1) AS rating_average,
+    COUNT(*)::INTEGER AS review_count
+FROM reviews
+GROUP BY restaurant_id;
+
+-- 4. Enable Row Level Security
+ALTER TABLE reviews ENABLE ROW LEVEL SECURITY;
+
+-- 5. Everyone can read reviews
+CREATE POLICY "Reviews are publicly readable"
+    ON reviews FOR SELECT
+    TO anon, authenticated
+    USING (TRUE);
+
+-- 6. Users can only write reviews as themselves
+CREATE POLICY "Users can create their own reviews"
+    ON reviews FOR INSERT
+    TO authenticated
+    WITH CHECK (user_id = auth.uid());
+
+-- 7. Authors can edit/delete their own reviews; moderators and admins any review
+CREATE POLICY "Authors and moderators can update reviews"
+    ON reviews FOR UPDATE
+    TO authenticated
+    USING (
+        user_id = auth.uid()
+        OR EXISTS (
+            SELECT 1 FROM profiles
+            WHERE profiles.id = auth.uid()
+            AND profiles.role IN ('moderator', 'admin')
+        )
+    );
+
+CREATE POLICY "Authors and moderators can delete reviews"
+    ON reviews FOR DELETE
+    TO authenticated
+    USING (
+        user_id = auth.uid()
+        OR EXISTS (
+            SELECT 1 FROM profiles
+            WHERE profiles.id = auth.uid()
+            AND profiles.role IN ('moderator', 'admin')
+        )
+    );
@@ -0,0 +1,168 @@
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- MODERATION QUEUE MIGRATION
+--
+-- Run this SQL in Supabase SQL Editor after 003_reviews.sql.
+-- Columns mirror `moderationItemSchema` in types/moderation.ts. Reviews gain a
+-- moderation `status`; only approved reviews are public or count towards the
+-- rating. Decisions are audited from the DAL via audit_logs.
+-- ═══════════════════════════════════════════════════════════════════════════════
+
+-- 1. Moderation status on reviews
+ALTER TABLE reviews
+    ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'rejected', 'hidden'));
+
+-- Reviews written before moderation existed were already public
+UPDATE reviews SET status = 'approved';
+
+CREATE INDEX IF NOT EXISTS idx_reviews_restaurant_status ON reviews(restaurant_id, status);
+
+-- 2. Ratings only count approved reviews
+CREATE OR REPLACE VIEW restaurant_rating_stats
+WITH (security_invoker = true) AS
+SELECT
+    restaurant_id,
+    ROUND(AVG(rating)::NUMERIC, 1) AS rating_average,
+    COUNT(*)::INTEGER AS review_count
+FROM reviews
+WHERE status = 'approved'
+GROUP BY restaurant_id;
+
+-- 3. Public reads: approved reviews, plus authors' own and everything for moderators
+DROP POLICY IF EXISTS "Reviews are publicly readable" ON reviews;
+
+CREATE POLICY "Approved reviews are publicly readable"
+    ON reviews FOR SELECT
+    TO anon, authenticated
+    USING (
+        status = 'approved'
+        OR user_id = auth.uid()
+        OR EXISTS (
+            SELECT 1 FROM profiles
+            WHERE profiles.id = auth.uid()
+            AND profiles.role IN ('moderator', 'admin')
+        )
+    );
+
+-- 4. Authors may write and edit their review but never moderate it. A review
+--    inserted by a non-moderator always starts pending (the INSERT policy only
+--    checks user_id, so a client could otherwise send status = 'approved'),
+--    and any edit to the text or rating sends it back to pending - even when
+--    the request comes straight through PostgREST rather than the DAL.
+CREATE OR REPLACE FUNCTION guard_review_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    is_moderator BOOLEAN;
+BEGIN
+    SELECT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('moderator', 'admin')
+    ) INTO is_moderator;
+
+    IF is_moderator THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        NEW.status := 'pending';
+        RETURN NEW;
+    END IF;
+
+    IF NEW.title IS DISTINCT FROM OLD.title
+        OR NEW.content IS DISTINCT FROM OLD.content
+        OR NEW.rating IS DISTINCT FROM OLD.rating
+    THEN
+        NEW.status := 'pending';
+    END IF;
+
+    IF NEW.status IS DISTINCT FROM OLD.status AND NEW.status <> 'pending' THEN
+        RAISE EXCEPTION 'Only moderators can change review status';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reviews_guard_status ON reviews;
+CREATE TRIGGER reviews_guard_status
+    BEFORE INSERT OR UPDATE ON reviews
+    FOR EACH ROW EXECUTE FUNCTION guard_review_status();
+
+-- 5. Create the moderation queue (one item per piece of content)
+CREATE TABLE IF NOT EXISTS moderation_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    content_type TEXT NOT NULL CHECK (content_type IN ('review')),
+    content_id UUID NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'approved', 'rejected', 'hidden')),
+    submitted_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    preview JSONB NOT NULL DEFAULT '{}',
+    reason_code TEXT
+        CHECK (reason_code IN ('spam', 'offensive', 'off_topic', 'personal_info', 'conflict_of_interest', 'other')),
+    note TEXT,
+    assigned_to UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    decided_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    decided_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    due_at TIMESTAMPTZ NOT NULL,
+    UNIQUE (content_type, content_id)
+);
+
+-- 6. Create indexes for queue views (status + SLA order, "assigned to me")
+CREATE INDEX IF NOT EXISTS idx_moderation_items_status_due ON moderation_items(status, due_at);
+CREATE INDEX IF NOT EXISTS idx_moderation_items_assigned_to ON moderation_items(assigned_to);
+
+-- 7. Enable Row Level Security
+ALTER TABLE moderation_items ENABLE ROW LEVEL SECURITY;
+
+-- 8. Only moderators and admins can see or work the queue
+CREATE POLICY "Moderators can read the queue"
+    ON moderation_items FOR SELECT
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM profiles
+            WHERE profiles.id = auth.uid()
+            AND profiles.role IN ('moderator', 'admin')
+        )
+    );
+
+CREATE POLICY "Moderators can update the queue"
+    ON moderation_items FOR UPDATE
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM profiles
+            WHERE profiles.id = auth.uid()
+            AND profiles.role IN ('moderator', 'admin')
+        )
+    );
+
+-- 9. Authors enqueue (and re-queue on edit) their own submissions
+CREATE POLICY "Users can enqueue their own content"
+    ON moderation_items FOR INSERT
+    TO authenticated
+    WITH CHECK (submitted_by = auth.uid() AND status = 'pending');
+
+CREATE POLICY "Users can reopen their own content"
+    ON moderation_items FOR UPDATE
+    TO authenticated
+    USING (submitted_by = auth.uid())
+    WITH CHECK (submitted_by = auth.uid() AND status = 'pending' AND assigned_to IS NULL);
+
+-- 10. Queue items go away with their content
+CREATE POLICY "Authors and moderators can delete queue items"
+    ON moderation_items FOR DELETE
+    TO authenticated
+    USING (
+        submitted_by = auth.uid()
+        OR EXISTS (
+            SELECT 1 FROM profiles
+            WHERE profiles.id = auth.uid()
+            AND profiles.role IN ('moderator', 'admin')
+        )
+    );
@@ -0,0 +1,69 @@
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- SAVED RESTAURANTS MIGRATION
+--
+-- Run this SQL in Supabase SQL Editor after 004_moderation.sql.
+-- Favorites and named shortlists (see types/saved.ts). Rows are private to
+-- their owner; the DAL additionally checks ownership before every write.
+-- ═══════════════════════════════════════════════════════════════════════════════
+
+-- 1. Favorites (the heart toggle)
+CREATE TABLE IF NOT EXISTS favorites (
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    restaurant_id UUID NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (user_id, restaurant_id)
+);
+
+-- 2. Named shortlists (one name per user)
+CREATE TABLE IF NOT EXISTS shortlists (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 60),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_shortlists_user_name ON shortlists(user_id, LOWER(name));
+
+CREATE TABLE IF NOT EXISTS shortlist_items (
+    shortlist_id UUID NOT NULL REFERENCES shortlists(id) ON DELETE CASCADE,
+    restaurant_id UUID NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+    added_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (shortlist_id, restaurant_id)
+);
+
+-- 3. Enable Row Level Security
+ALTER TABLE favorites ENABLE ROW LEVEL SECURITY;
+ALTER TABLE shortlists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE shortlist_items ENABLE ROW LEVEL SECURITY;
+
+-- 4. Owners only
+CREATE POLICY "Users manage their own favorites"
+    ON favorites FOR ALL
+    TO authenticated
+    USING (user_id = auth.uid())
+    WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users manage their own shortlists"
+    ON shortlists FOR ALL
+    TO authenticated
+    USING (user_id = auth.uid())
+    WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users manage items in their own shortlists"
+    ON shortlist_items FOR ALL
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM shortlists
+            WHERE shortlists.id = shortlist_items.shortlist_id
+            AND shortlists.user_id = auth.uid()
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM shortlists
+            WHERE shortlists.id = shortlist_items.shortlist_id
+            AND shortlists.user_id = auth.uid()
+        )
+    );
@@ -0,0 +1,76 @@
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- USER MANAGEMENT MIGRATION
+--
+-- Run this SQL in Supabase SQL Editor after 005_saved_restaurants.sql.
+-- Lets admins disable accounts and change roles from /admin/users. A disabled
+-- account keeps its data but is treated as signed out by the app. Changes are
+-- audited from the DAL via audit_logs.
+-- ═══════════════════════════════════════════════════════════════════════════════
+
+-- 1. Account status
+ALTER TABLE profiles
+    ADD COLUMN IF NOT EXISTS disabled_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS disabled_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- 2. Create indexes for the admin listing (newest first, filter by role, search)
+CREATE INDEX IF NOT EXISTS idx_profiles_created_at ON profiles(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_profiles_role ON profiles(role);
+CREATE INDEX IF NOT EXISTS idx_profiles_email_lower ON profiles(lower(email));
+
+-- 3. Admins can read and update every profile.
+-- Policies on profiles cannot query profiles directly (infinite recursion),
+-- so the role check runs through a SECURITY DEFINER helper.
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role = 'admin'
+    );
+$$;
+
+DROP POLICY IF EXISTS "Admins can view all profiles" ON profiles;
+CREATE POLICY "Admins can view all profiles"
+    ON profiles FOR SELECT
+    TO authenticated
+    USING (is_admin());
+
+DROP POLICY IF EXISTS "Admins can update all profiles" ON profiles;
+CREATE POLICY "Admins can update all profiles"
+    ON profiles FOR UPDATE
+    TO authenticated
+    USING (is_admin());
+
+-- 4. Users may edit their own profile but never their role or account status
+CREATE OR REPLACE FUNCTION guard_profile_privileges()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF (NEW.role IS DISTINCT FROM OLD.role
+        OR NEW.disabled_at IS DISTINCT FROM OLD.disabled_at
+        OR NEW.disabled_by IS DISTINCT FROM OLD.disabled_by)
+        AND NOT is_admin()
+    THEN
+        RAISE EXCEPTION 'Only admins can change roles or account status';
+    END IF;
+
+    IF NEW.id = auth.uid() AND NEW.disabled_at IS NOT NULL THEN
+        RAISE EXCEPTION 'Admins cannot disable their own account';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS profiles_guard_privileges ON profiles;
+CREATE TRIGGER profiles_guard_privileges
+    BEFORE UPDATE ON profiles
+    FOR EACH ROW EXECUTE FUNCTION guard_profile_privileges();
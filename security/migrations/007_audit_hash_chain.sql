@@ -0,0 +1,99 @@
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- AUDIT HASH CHAIN MIGRATION
+--
+-- Run this SQL in Supabase SQL Editor after 006_user_management.sql.
+-- Links every new audit_logs row to the one before it so edits, deletions
+-- and reordering are detectable. The app supplies content_hash; this trigger
+-- assigns seq, prev_hash and hash (see lib/security/audit-chain.ts).
+-- Verify with: bun run security:audit-verify
+-- ═══════════════════════════════════════════════════════════════════════════════
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+-- 1. Chain columns (NULL on rows written before this migration)
+ALTER TABLE audit_logs
+    ADD COLUMN IF NOT EXISTS seq BIGINT UNIQUE,
+    ADD COLUMN IF NOT EXISTS content_hash TEXT,
+    ADD COLUMN IF NOT EXISTS prev_hash TEXT,
+    ADD COLUMN IF NOT EXISTS hash TEXT;
+
+-- 2. Single-row head of the chain. Locking it serializes inserts so two
+-- concurrent writers can never link to the same previous row.
+CREATE TABLE IF NOT EXISTS audit_chain_head (
+    id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+    seq BIGINT NOT NULL,
+    hash TEXT NOT NULL
+);
+
+INSERT INTO audit_chain_head (id, seq, hash)
+VALUES (TRUE, 0, repeat('0', 64))
+ON CONFLICT (id) DO NOTHING;
+
+-- No policies: only the trigger (SECURITY DEFINER) touches the head
+ALTER TABLE audit_chain_head ENABLE ROW LEVEL SECURITY;
+
+-- 3. Link each inserted row
+CREATE OR REPLACE FUNCTION link_audit_log()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    head audit_chain_head%ROWTYPE;
+BEGIN
+    IF NEW.content_hash IS NULL OR NEW.content_hash !~ '^[0-9a-f]{64}$' THEN
+        RAISE EXCEPTION 'audit_logs.content_hash must be a SHA-256 hex digest';
+    END IF;
+
+    SELECT * INTO head FROM audit_chain_head WHERE id FOR UPDATE;
+
+    NEW.seq := head.seq + 1;
+    NEW.prev_hash := head.hash;
+    NEW.hash := encode(digest(head.hash || NEW.content_hash, 'sha256'), 'hex');
+
+    UPDATE audit_chain_head SET seq = NEW.seq, hash = NEW.hash WHERE id;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_logs_link ON audit_logs;
+CREATE TRIGGER audit_logs_link
+    BEFORE INSERT ON audit_logs
+    FOR EACH ROW EXECUTE FUNCTION link_audit_log();
+
+-- 4. Rows are immutable, even for the service role. Retention deletes
+-- (delete_old_audit_logs) remain possible; verification then starts from
+-- the oldest remaining row.
+CREATE OR REPLACE FUNCTION reject_audit_log_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RAISE EXCEPTION 'audit_logs rows are immutable';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_logs_immutable ON audit_logs;
+CREATE TRIGGER audit_logs_immutable
+    BEFORE UPDATE ON audit_logs
+    FOR EACH ROW EXECUTE FUNCTION reject_audit_log_update();
+
+-- 5. Signed checkpoints: HMAC-SHA256 over (seq, hash, created_at) with
+-- AUDIT_CHECKPOINT_SECRET, which is kept out of the database. Written by
+-- `bun run scripts/audit-chain.ts checkpoint` on a schedule.
+CREATE TABLE IF NOT EXISTS audit_checkpoints (
+    seq BIGINT PRIMARY KEY,
+    hash TEXT NOT NULL,
+    signature TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE audit_checkpoints ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can read audit checkpoints" ON audit_checkpoints;
+CREATE POLICY "Admins can read audit checkpoints"
+    ON audit_checkpoints FOR SELECT
+    TO authenticated
+    USING (is_admin());
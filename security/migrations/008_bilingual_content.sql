@@ -0,0 +1,24 @@
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- BILINGUAL RESTAURANT CONTENT MIGRATION
+--
+-- Run this SQL in Supabase SQL Editor after 007_audit_hash_chain.sql.
+-- The existing name, description and district columns keep the English
+-- text; the *_ar columns hold Arabic. The DAL maps each pair onto one
+-- { en, ar } field of `restaurantSchema` (see lib/dal/mappers.ts).
+-- ═══════════════════════════════════════════════════════════════════════════════
+
+-- 1. Arabic columns
+ALTER TABLE restaurants
+    ADD COLUMN IF NOT EXISTS name_ar TEXT,
+    ADD COLUMN IF NOT EXISTS description_ar TEXT,
+    ADD COLUMN IF NOT EXISTS district_ar TEXT;
+
+-- 2. A restaurant may be named in Arabic only, but must have a name
+ALTER TABLE restaurants ALTER COLUMN name DROP NOT NULL;
+
+ALTER TABLE restaurants
+    DROP CONSTRAINT IF EXISTS restaurants_name_present;
+
+ALTER TABLE restaurants
+    ADD CONSTRAINT restaurants_name_present
+    CHECK (COALESCE(name, '') <> '' OR COALESCE(name_ar, '') <> '');
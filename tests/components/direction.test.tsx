@@ -0,0 +1,95 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * TEXT DIRECTION FIXTURE
+ *
+ * Renders the direction-sensitive components once per direction and snapshots
+ * the markup, so a change to their placement shows up as a snapshot diff.
+ * Components must mirror through logical classes (start/end, ps/pe,
+ * rounded-s/e) rather than per-direction markup.
+ * Run: bun test tests/components/
+ * Update snapshots: bun test tests/components/ --update-snapshots
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import { describe, it, expect } from "bun:test"
+import { renderToStaticMarkup } from "react-dom/server"
+import { DetailedVariant } from "@/components/card/variants"
+import SideMenu from "@/components/layout/SideMenu"
+import { FilterSystem } from "@/components/search/FilterSystem"
+import { LanguageProvider } from "@/context/LanguageProvider"
+import { getDirection } from "@/lib/i18n"
+import type { Language } from "@/lib/language.types"
+
+const noop = () => {}
+
+function renderFixture(language: Language): string {
+    return renderToStaticMarkup(
+        <div dir={getDirection(language)}>
+            <LanguageProvider initialLanguage={language}>
+                <SideMenu isOpen onClose={noop} />
+                <DetailedVariant
+                    images={[]}
+                    alt="Fixture"
+                    title="Fixture Restaurant"
+                    category="Cafe"
+                    locale={language}
+                    restaurantId="fixture-1"
+                />
+                <FilterSystem
+                    cuisine="lebanese"
+                    onCuisineChange={noop}
+                    meal="all"
+                    onMealChange={noop}
+                    atmosphere="all"
+                    onAtmosphereChange={noop}
+                    price={[]}
+                    onPriceChange={noop}
+                    priceCounts={{ 1: 0, 2: 0, 3: 0, 4: 0, 5: 0, 6: 0, 7: 0 }}
+                    emirate="Dubai"
+                    onEmirateChange={noop}
+                    district={[]}
+                    onDistrictChange={noop}
+                    locationOptions={[]}
+                    locale={language}
+                />
+            </LanguageProvider>
+        </div>
+    )
+}
+
+/** Tailwind classes that pin an element to a physical side */
+const PHYSICAL_CLASS = /(?:^|\s)(?:left|right)-|(?:^|\s)rounded-[lr]-|(?:^|\s)text-(?:left|right)(?:\s|$)|(?:^|\s)[mp][lr]-/
+
+function classNames(markup: string): string[] {
+    return [...markup.matchAll(/class="([^"]*)"/g)].map((match) => match[1])
+}
+
+describe("getDirection", () => {
+    it("maps every supported language to its direction", () => {
+        expect(getDirection("en")).toBe("ltr")
+        expect(getDirection("hi")).toBe("ltr")
+        expect(getDirection("ar")).toBe("rtl")
+        expect(getDirection("ur")).toBe("rtl")
+        expect(getDirection("fa")).toBe("rtl")
+    })
+})
+
+describe.each([
+    ["ltr", "en"],
+    ["rtl", "ar"],
+] as const)("%s fixture", (dir, language) => {
+    const markup = renderFixture(language)
+
+    it("matches the snapshot", () => {
+        expect(markup).toMatchSnapshot()
+    })
+
+    it("places elements with logical classes only", () => {
+        const physical = classNames(markup).filter((className) => PHYSICAL_CLASS.test(className))
+        expect(physical).toEqual([])
+    })
+
+    it(`renders under dir="${dir}"`, () => {
+        expect(markup.startsWith(`<div dir="${dir}">`)).toBe(true)
+    })
+})
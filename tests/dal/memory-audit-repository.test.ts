@@ -0,0 +1,101 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * IN-MEMORY AUDIT LOG REPOSITORY TEST SUITE
+ *
+ * Verifies the AuditLogRepository contract: newest-first ordering, filters
+ * and (timestamp, id) cursor pagination that never skips or repeats entries.
+ * Run: bun test tests/dal/
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import { describe, it, expect } from "bun:test"
+import { decodeAuditCursor, encodeAuditCursor, type AuditLogQuery } from "@/lib/dal/audit-repository"
+import { InMemoryAuditLogRepository } from "@/lib/dal/memory-audit-repository"
+import type { AuditLogRecord } from "@/types/audit"
+
+const ADMIN = "00000000-0000-4000-8000-00000000000a"
+
+function entry(id: string, timestamp: string, overrides: Partial<AuditLogRecord> = {}): AuditLogRecord {
+    return {
+        id,
+        timestamp,
+        action: "auth_login",
+        severity: "info",
+        user_id: null,
+        target_id: null,
+        target_type: null,
+        ip_address: null,
+        user_agent: null,
+        metadata: {},
+        success: true,
+        error_message: null,
+        ...overrides,
+    }
+}
+
+const SEED = [
+    entry("a", "2026-01-01T10:00:00.000Z"),
+    // Same timestamp as "c" - the id breaks the tie
+    entry("b", "2026-01-02T10:00:00.000Z", { action: "admin_role_change", user_id: ADMIN, target_type: "user", target_id: "u1" }),
+    entry("c", "2026-01-02T10:00:00.000Z", { severity: "warning", success: false }),
+    entry("d", "2026-01-03T10:00:00.000Z", { action: "data_export", user_id: ADMIN }),
+]
+
+async function listAll(repository: InMemoryAuditLogRepository, query: AuditLogQuery): Promise<string[]> {
+    const ids: string[] = []
+    let next: AuditLogQuery | null = query
+    while (next) {
+        const page = await repository.list(next)
+        ids.push(...page.data.map((e) => e.id))
+        next = page.nextCursor ? { ...next, after: page.nextCursor } : null
+    }
+    return ids
+}
+
+describe("InMemoryAuditLogRepository", () => {
+    it("lists newest first, breaking timestamp ties by id", async () => {
+        const repository = new InMemoryAuditLogRepository(SEED)
+        const page = await repository.list({ limit: 10 })
+
+        expect(page.data.map((e) => e.id)).toEqual(["d", "c", "b", "a"])
+        expect(page.nextCursor).toBeNull()
+    })
+
+    it("walks every entry exactly once across cursor pages", async () => {
+        const repository = new InMemoryAuditLogRepository(SEED)
+
+        expect(await listAll(repository, { limit: 1 })).toEqual(["d", "c", "b", "a"])
+        expect(await listAll(repository, { limit: 3 })).toEqual(["d", "c", "b", "a"])
+    })
+
+    it("applies filters before paginating", async () => {
+        const repository = new InMemoryAuditLogRepository(SEED)
+
+        expect(await listAll(repository, { userId: ADMIN, limit: 1 })).toEqual(["d", "b"])
+        expect(await listAll(repository, { severity: "warning", limit: 10 })).toEqual(["c"])
+        expect(await listAll(repository, { targetType: "user", targetId: "u1", limit: 10 })).toEqual(["b"])
+        expect(
+            await listAll(repository, { from: "2026-01-02T00:00:00.000Z", to: "2026-01-02T23:59:59.999Z", limit: 10 })
+        ).toEqual(["c", "b"])
+    })
+
+    it("finds entries by id", async () => {
+        const repository = new InMemoryAuditLogRepository(SEED)
+
+        expect((await repository.findById("b"))?.action).toBe("admin_role_change")
+        expect(await repository.findById("missing")).toBeNull()
+    })
+})
+
+describe("audit cursors", () => {
+    it("round-trips through the opaque encoding", () => {
+        const cursor = { timestamp: "2026-01-02T10:00:00.000Z", id: "c" }
+        expect(decodeAuditCursor(encodeAuditCursor(cursor))).toEqual(cursor)
+    })
+
+    it("rejects malformed cursors", () => {
+        expect(decodeAuditCursor("not-a-cursor")).toBeNull()
+        expect(decodeAuditCursor(Buffer.from("yesterday|c").toString("base64url"))).toBeNull()
+        expect(decodeAuditCursor("")).toBeNull()
+    })
+})
@@ -0,0 +1,89 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * IN-MEMORY MODERATION REPOSITORY TEST SUITE
+ *
+ * Verifies the ModerationRepository contract: SLA ordering, assignment
+ * filters and re-queueing edited content.
+ * Run: bun test tests/dal/
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import { describe, it, expect, beforeEach } from "bun:test"
+import { InMemoryModerationRepository } from "@/lib/dal/memory-moderation-repository"
+import type { NewModerationItem } from "@/lib/dal/moderation-repository"
+import { getModerationDueAt, getSlaRemainingMs } from "@/types/moderation"
+
+function item(contentId: string, dueAt: string): NewModerationItem {
+    return {
+        contentType: "review",
+        contentId,
+        submittedBy: "author-1",
+        preview: { title: "Great", body: "Lovely food", rating: 5 },
+        dueAt,
+    }
+}
+
+describe("InMemoryModerationRepository", () => {
+    let repository: InMemoryModerationRepository
+
+    beforeEach(() => {
+        repository = new InMemoryModerationRepository()
+    })
+
+    it("lists the most urgent items first", async () => {
+        await repository.enqueue(item("later", "2026-01-02T00:00:00.000Z"))
+        await repository.enqueue(item("sooner", "2026-01-01T00:00:00.000Z"))
+
+        const { data, count } = await repository.list({ offset: 0, limit: 10, status: "pending" })
+
+        expect(count).toBe(2)
+        expect(data.map((i) => i.contentId)).toEqual(["sooner", "later"])
+    })
+
+    it("filters by assignee, with null meaning unassigned", async () => {
+        const first = await repository.enqueue(item("a", "2026-01-01T00:00:00.000Z"))
+        await repository.enqueue(item("b", "2026-01-01T00:00:00.000Z"))
+        await repository.update(first.id, { assignedTo: "moderator-1" })
+
+        const mine = await repository.list({ offset: 0, limit: 10, assignedTo: "moderator-1" })
+        const unassigned = await repository.list({ offset: 0, limit: 10, assignedTo: null })
+
+        expect(mine.data.map((i) => i.contentId)).toEqual(["a"])
+        expect(unassigned.data.map((i) => i.contentId)).toEqual(["b"])
+
+        const cleared = await repository.update(first.id, { assignedTo: null })
+        expect(cleared?.assignedTo).toBeUndefined()
+    })
+
+    it("reopens content that is queued again instead of duplicating it", async () => {
+        const queued = await repository.enqueue(item("review-1", "2026-01-01T00:00:00.000Z"))
+        await repository.update(queued.id, { status: "rejected", reasonCode: "spam", assignedTo: "moderator-1" })
+
+        const reopened = await repository.enqueue(item("review-1", "2026-01-03T00:00:00.000Z"))
+
+        expect(reopened.id).toBe(queued.id)
+        expect(reopened.status).toBe("pending")
+        expect(reopened.reasonCode).toBeUndefined()
+        expect(reopened.assignedTo).toBeUndefined()
+        expect((await repository.list({ offset: 0, limit: 10 })).count).toBe(1)
+    })
+
+    it("removes items for deleted content", async () => {
+        await repository.enqueue(item("review-1", "2026-01-01T00:00:00.000Z"))
+
+        expect(await repository.removeByContent("review", "review-1")).toBe(true)
+        expect(await repository.findByContent("review", "review-1")).toBeNull()
+    })
+})
+
+describe("moderation SLA", () => {
+    it("counts down from the content type's SLA and stops once decided", () => {
+        const submitted = new Date("2026-01-01T00:00:00.000Z")
+        const dueAt = getModerationDueAt("review", submitted)
+        const now = submitted.getTime() + 25 * 60 * 60 * 1000
+
+        expect(dueAt).toBe("2026-01-02T00:00:00.000Z")
+        expect(getSlaRemainingMs({ status: "pending", dueAt }, now)).toBe(-60 * 60 * 1000)
+        expect(getSlaRemainingMs({ status: "approved", dueAt }, now)).toBeNull()
+    })
+})
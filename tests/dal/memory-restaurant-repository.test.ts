@@ -0,0 +1,98 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * IN-MEMORY RESTAURANT REPOSITORY TEST SUITE
+ *
+ * Verifies the mock-seeded repository honours the RestaurantRepository contract.
+ * Run: bun test tests/dal/
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import { describe, it, expect, beforeEach } from "bun:test"
+import { mockRestaurants } from "@/__mock__/restaurants"
+import { InMemoryRestaurantRepository } from "@/lib/dal/memory-restaurant-repository"
+import type { RestaurantInput } from "@/lib/security"
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-5[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/
+
+const { id: _id, addedDate: _addedDate, ...template } = mockRestaurants[0]
+const newRestaurant: RestaurantInput = { ...template, slug: "new-place", name: { en: "New Place" } }
+
+describe("InMemoryRestaurantRepository", () => {
+    let repository: InMemoryRestaurantRepository
+
+    beforeEach(() => {
+        repository = new InMemoryRestaurantRepository()
+    })
+
+    it("seeds every mock restaurant with a UUID", async () => {
+        const { data, count } = await repository.list({ offset: 0, limit: 100 })
+
+        expect(count).toBe(mockRestaurants.length)
+        expect(data.every((r) => UUID_PATTERN.test(r.id))).toBe(true)
+    })
+
+    it("keeps the same IDs across instances", async () => {
+        const { data: first } = await repository.list({ offset: 0, limit: 100 })
+        const { data: second } = await new InMemoryRestaurantRepository().list({ offset: 0, limit: 100 })
+
+        expect(second.map((r) => r.id)).toEqual(first.map((r) => r.id))
+        expect(new Set(first.map((r) => r.id)).size).toBe(first.length)
+    })
+
+    it("paginates newest first", async () => {
+        const { data, count } = await repository.list({ offset: 1, limit: 2 })
+        const { data: all } = await repository.list({ offset: 0, limit: 100 })
+
+        expect(count).toBe(mockRestaurants.length)
+        expect(data.map((r) => r.id)).toEqual(all.slice(1, 3).map((r) => r.id))
+        expect((all[0].addedDate ?? "") >= (all[1].addedDate ?? "")).toBe(true)
+    })
+
+    it("filters by cuisine case-insensitively and by emirate", async () => {
+        const { data } = await repository.list({ offset: 0, limit: 100, cuisine: "emirati" })
+        expect(data.length).toBeGreaterThan(0)
+        expect(data.every((r) => r.cuisine.toLowerCase() === "emirati")).toBe(true)
+
+        const { data: sharjah } = await repository.list({ offset: 0, limit: 100, emirate: "Sharjah" })
+        expect(sharjah.every((r) => r.emirate === "Sharjah")).toBe(true)
+    })
+
+    it("finds by slug and returns null for unknown ids", async () => {
+        const restaurant = await repository.findBySlug("al-fanar")
+
+        expect(restaurant?.name).toEqual(mockRestaurants[0].name)
+        expect(await repository.findById(crypto.randomUUID())).toBeNull()
+    })
+
+    it("creates, updates and deletes restaurants", async () => {
+        const created = await repository.create(newRestaurant)
+        expect(UUID_PATTERN.test(created.id)).toBe(true)
+        expect(created.addedDate).toBeDefined()
+
+        const updated = await repository.update(created.id, { name: { en: "Renamed", ar: "معاد التسمية" } })
+        expect(updated?.name).toEqual({ en: "Renamed", ar: "معاد التسمية" })
+        expect(updated?.slug).toBe("new-place")
+
+        expect(await repository.delete(created.id)).toBe(true)
+        expect(await repository.findById(created.id)).toBeNull()
+        expect(await repository.delete(created.id)).toBe(false)
+    })
+
+    it("rejects duplicate slugs", async () => {
+        await expect(repository.create({ ...newRestaurant, slug: "al-fanar" })).rejects.toThrow()
+    })
+
+    it("lists the slugs taken under a prefix", async () => {
+        await repository.create({ ...newRestaurant, slug: "al-fanar-2" })
+
+        expect((await repository.findSlugsStartingWith("al-fanar")).sort()).toEqual(["al-fanar", "al-fanar-2"])
+        expect(await repository.findSlugsStartingWith("no-such-place")).toEqual([])
+    })
+
+    it("does not leak internal state through returned objects", async () => {
+        const restaurant = await repository.findBySlug("al-fanar")
+        restaurant!.name.en = "Mutated"
+
+        expect((await repository.findBySlug("al-fanar"))?.name).toEqual(mockRestaurants[0].name)
+    })
+})
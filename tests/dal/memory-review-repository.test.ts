@@ -0,0 +1,105 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * IN-MEMORY REVIEW REPOSITORY TEST SUITE
+ *
+ * Verifies the ReviewRepository contract: one review per author, moderation
+ * status and approved-only aggregates.
+ * Run: bun test tests/dal/
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import { describe, it, expect, beforeEach } from "bun:test"
+import { InMemoryReviewRepository } from "@/lib/dal/memory-review-repository"
+import type { NewReview } from "@/lib/dal/review-repository"
+
+const RESTAURANT_A = "00000000-0000-4000-8000-00000000000a"
+const RESTAURANT_B = "00000000-0000-4000-8000-00000000000b"
+
+function review(overrides: Partial<NewReview> = {}): NewReview {
+    return {
+        restaurantId: RESTAURANT_A,
+        userId: "user-1",
+        rating: 4,
+        title: "Great",
+        content: "Lovely food",
+        ...overrides,
+    }
+}
+
+describe("InMemoryReviewRepository", () => {
+    let repository: InMemoryReviewRepository
+
+    beforeEach(() => {
+        repository = new InMemoryReviewRepository()
+    })
+
+    it("creates and finds a review by author", async () => {
+        const created = await repository.create(review())
+
+        expect(await repository.findById(created.id)).toEqual(created)
+        expect(await repository.findByAuthor(RESTAURANT_A, "user-1")).toEqual(created)
+        expect(await repository.findByAuthor(RESTAURANT_B, "user-1")).toBeNull()
+    })
+
+    it("rejects a second review by the same author", async () => {
+        await repository.create(review())
+
+        await expect(repository.create(review({ rating: 1 }))).rejects.toThrow()
+    })
+
+    it("lists one restaurant's reviews with a total count", async () => {
+        await repository.create(review({ userId: "user-1" }))
+        await repository.create(review({ userId: "user-2" }))
+        await repository.create(review({ userId: "user-3", restaurantId: RESTAURANT_B }))
+
+        const { data, count } = await repository.listByRestaurant({ restaurantId: RESTAURANT_A, offset: 0, limit: 1 })
+
+        expect(count).toBe(2)
+        expect(data).toHaveLength(1)
+    })
+
+    it("updates and deletes", async () => {
+        const created = await repository.create(review())
+
+        const updated = await repository.update(created.id, { rating: 2 })
+        expect(updated?.rating).toBe(2)
+        expect(updated?.title).toBe("Great")
+
+        expect(await repository.delete(created.id)).toBe(true)
+        expect(await repository.delete(created.id)).toBe(false)
+        expect(await repository.update(created.id, { rating: 5 })).toBeNull()
+    })
+
+    it("re-queues an edit in the same write", async () => {
+        const created = await repository.create(review())
+        await repository.setStatus(created.id, "approved")
+
+        const updated = await repository.update(created.id, { content: "Changed my mind" }, "pending")
+        expect(updated?.status).toBe("pending")
+        expect((await repository.findById(created.id))?.content).toBe("Changed my mind")
+    })
+
+    it("starts reviews pending and filters by status", async () => {
+        const created = await repository.create(review())
+        expect(created.status).toBe("pending")
+
+        const approved = { restaurantId: RESTAURANT_A, status: "approved" as const, offset: 0, limit: 10 }
+        expect((await repository.listByRestaurant(approved)).count).toBe(0)
+
+        expect(await repository.setStatus(created.id, "approved")).toBe(true)
+        expect((await repository.listByRestaurant(approved)).count).toBe(1)
+    })
+
+    it("summarizes approved reviews only, skipping unrated restaurants", async () => {
+        for (const [userId, rating] of [["user-1", 5], ["user-2", 4], ["user-3", 4]] as const) {
+            const created = await repository.create(review({ userId, rating }))
+            await repository.setStatus(created.id, "approved")
+        }
+        await repository.create(review({ userId: "user-4", rating: 1 }))
+        await repository.create(review({ userId: "user-5", restaurantId: RESTAURANT_B }))
+
+        expect(await repository.summarize([RESTAURANT_A, RESTAURANT_B])).toEqual([
+            { restaurantId: RESTAURANT_A, average: 4.3, count: 3 },
+        ])
+    })
+})
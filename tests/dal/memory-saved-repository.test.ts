@@ -0,0 +1,65 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * IN-MEMORY SAVED RESTAURANT REPOSITORY TEST SUITE
+ *
+ * Verifies the SavedRestaurantRepository contract: per-user favorites and
+ * shortlists with idempotent membership changes.
+ * Run: bun test tests/dal/
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import { describe, it, expect, beforeEach } from "bun:test"
+import { InMemorySavedRestaurantRepository } from "@/lib/dal/memory-saved-repository"
+
+const RESTAURANT_A = "00000000-0000-4000-8000-00000000000a"
+const RESTAURANT_B = "00000000-0000-4000-8000-00000000000b"
+
+describe("InMemorySavedRestaurantRepository", () => {
+    let repository: InMemorySavedRestaurantRepository
+
+    beforeEach(() => {
+        repository = new InMemorySavedRestaurantRepository()
+    })
+
+    it("keeps favorites per user", async () => {
+        await repository.setFavorite("user-1", RESTAURANT_A, true)
+        await repository.setFavorite("user-1", RESTAURANT_A, true)
+        await repository.setFavorite("user-2", RESTAURANT_B, true)
+
+        expect(await repository.getFavorites("user-1")).toEqual([RESTAURANT_A])
+        expect(await repository.getFavorites("user-2")).toEqual([RESTAURANT_B])
+
+        await repository.setFavorite("user-1", RESTAURANT_A, false)
+        expect(await repository.getFavorites("user-1")).toEqual([])
+    })
+
+    it("lists only the owner's shortlists", async () => {
+        const mine = await repository.createShortlist("user-1", "Date night")
+        await repository.createShortlist("user-2", "Brunch")
+
+        expect(await repository.listShortlists("user-1")).toEqual([mine])
+        expect((await repository.findShortlist(mine.id))?.userId).toBe("user-1")
+    })
+
+    it("adds and removes restaurants idempotently", async () => {
+        const { id } = await repository.createShortlist("user-1", "Date night")
+
+        await repository.setShortlistMembership(id, RESTAURANT_A, true)
+        await repository.setShortlistMembership(id, RESTAURANT_A, true)
+        await repository.setShortlistMembership(id, RESTAURANT_B, true)
+        expect((await repository.findShortlist(id))?.restaurantIds).toEqual([RESTAURANT_A, RESTAURANT_B])
+
+        const updated = await repository.setShortlistMembership(id, RESTAURANT_A, false)
+        expect(updated?.restaurantIds).toEqual([RESTAURANT_B])
+    })
+
+    it("renames and deletes shortlists", async () => {
+        const { id } = await repository.createShortlist("user-1", "Date night")
+
+        expect((await repository.renameShortlist(id, "Anniversary"))?.name).toBe("Anniversary")
+        expect(await repository.deleteShortlist(id)).toBe(true)
+        expect(await repository.deleteShortlist(id)).toBe(false)
+        expect(await repository.renameShortlist(id, "Gone")).toBeNull()
+        expect(await repository.setShortlistMembership(id, RESTAURANT_A, true)).toBeNull()
+    })
+})
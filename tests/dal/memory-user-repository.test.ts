@@ -0,0 +1,102 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * IN-MEMORY USER REPOSITORY TEST SUITE
+ *
+ * Verifies the UserRepository contract: sanitized search, role and status
+ * filters with pagination, and role and account status changes.
+ * Run: bun test tests/dal/
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import { describe, it, expect, beforeEach } from "bun:test"
+import { InMemoryUserRepository } from "@/lib/dal/memory-user-repository"
+import { sanitizeUserSearch, type UserProfile } from "@/lib/dal/user-repository"
+
+function user(id: string, createdAt: string, overrides: Partial<UserProfile> = {}): UserProfile {
+    return {
+        id,
+        email: `${id}@example.com`,
+        display_name: null,
+        avatar_url: null,
+        role: "user",
+        created_at: createdAt,
+        disabled_at: null,
+        ...overrides,
+    }
+}
+
+const SEED = [
+    user("amal", "2026-01-01T10:00:00.000Z", { display_name: "Amal Haddad", role: "admin" }),
+    user("bilal", "2026-01-02T10:00:00.000Z", { display_name: "Bilal (Mod)", role: "moderator" }),
+    user("chen", "2026-01-03T10:00:00.000Z", { disabled_at: "2026-01-05T10:00:00.000Z" }),
+    user("dana", "2026-01-04T10:00:00.000Z", { display_name: "Dana_K" }),
+]
+
+describe("sanitizeUserSearch", () => {
+    it("removes PostgREST and LIKE metacharacters", () => {
+        expect(sanitizeUserSearch("a%b_c")).toBe("a b c")
+        expect(sanitizeUserSearch("x,role.eq.admin")).toBe("x role.eq.admin")
+        expect(sanitizeUserSearch("(*)\\")).toBe("")
+        expect(sanitizeUserSearch("  dana  ")).toBe("dana")
+    })
+})
+
+describe("InMemoryUserRepository", () => {
+    let repository: InMemoryUserRepository
+
+    beforeEach(() => {
+        repository = new InMemoryUserRepository(SEED)
+    })
+
+    it("lists the newest accounts first, one page at a time", async () => {
+        const first = await repository.list({ offset: 0, limit: 2 })
+        const second = await repository.list({ offset: 2, limit: 2 })
+
+        expect(first.count).toBe(4)
+        expect(first.data.map((u) => u.id)).toEqual(["dana", "chen"])
+        expect(second.data.map((u) => u.id)).toEqual(["bilal", "amal"])
+    })
+
+    it("searches email and display name case-insensitively", async () => {
+        const byName = await repository.list({ offset: 0, limit: 10, search: "HADDAD" })
+        const byEmail = await repository.list({ offset: 0, limit: 10, search: "chen@" })
+
+        expect(byName.data.map((u) => u.id)).toEqual(["amal"])
+        expect(byEmail.data.map((u) => u.id)).toEqual(["chen"])
+    })
+
+    it("treats wildcards in a search as plain text", async () => {
+        // "%" would match everyone as a LIKE pattern
+        expect((await repository.list({ offset: 0, limit: 10, search: "%" })).count).toBe(4)
+        expect((await repository.list({ offset: 0, limit: 10, search: "%zzz%" })).count).toBe(0)
+        // "_" is stripped rather than matching any single character
+        expect((await repository.list({ offset: 0, limit: 10, search: "dana_k" })).count).toBe(0)
+    })
+
+    it("filters by role and account status and counts before paging", async () => {
+        const moderators = await repository.list({ offset: 0, limit: 10, role: "moderator" })
+        const disabled = await repository.list({ offset: 0, limit: 10, status: "disabled" })
+        const active = await repository.list({ offset: 1, limit: 1, status: "active", role: "user" })
+
+        expect(moderators.data.map((u) => u.id)).toEqual(["bilal"])
+        expect(disabled.data.map((u) => u.id)).toEqual(["chen"])
+        expect(active.count).toBe(1)
+        expect(active.data).toEqual([])
+    })
+
+    it("changes roles and resolves to null for unknown users", async () => {
+        const updated = await repository.updateRole("dana", "moderator")
+
+        expect(updated?.role).toBe("moderator")
+        expect((await repository.findById("dana"))?.role).toBe("moderator")
+        expect(await repository.updateRole("missing", "admin")).toBeNull()
+    })
+
+    it("disables and re-enables accounts", async () => {
+        const disabled = await repository.setDisabled("dana", "amal")
+        expect(disabled?.disabled_at).not.toBeNull()
+
+        const enabled = await repository.setDisabled("dana", null)
+        expect(enabled?.disabled_at).toBeNull()
+    })
+})
@@ -0,0 +1,138 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * ADMIN USER MANAGEMENT TEST SUITE
+ *
+ * Drives getAllUsers, updateUserRole and setUserDisabled against the in-memory
+ * user repository with a signed-in admin: query validation, refusing to demote
+ * or disable yourself, and the audit events each change emits.
+ * Run: bun test tests/dal/
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import { describe, it, expect, beforeEach, afterAll, mock, spyOn } from "bun:test"
+import { InMemoryUserRepository } from "@/lib/dal/memory-user-repository"
+import type { UserProfile } from "@/lib/dal/user-repository"
+import { auditLog } from "@/lib/security"
+
+const ADMIN = "00000000-0000-4000-8000-00000000000a"
+const MEMBER = "00000000-0000-4000-8000-000000000001"
+const OTHER = "00000000-0000-4000-8000-000000000002"
+
+function user(id: string, createdAt: string, overrides: Partial<UserProfile> = {}): UserProfile {
+    return {
+        id,
+        email: `${id.slice(-2)}@example.com`,
+        display_name: null,
+        avatar_url: null,
+        role: "user",
+        created_at: createdAt,
+        disabled_at: null,
+        ...overrides,
+    }
+}
+
+let repository = new InMemoryUserRepository()
+let sessionUserId: string | null = ADMIN
+
+// The session comes from Supabase auth; profiles come from the repository
+mock.module("@/lib/supabase/server", () => ({
+    createClient: async () => ({
+        auth: {
+            getUser: async () => ({
+                data: { user: sessionUserId ? { id: sessionUserId, created_at: "2026-01-01T00:00:00.000Z" } : null },
+                error: null,
+            }),
+        },
+    }),
+}))
+
+const actualUserRepository = await import("@/lib/dal/user-repository")
+mock.module("@/lib/dal/user-repository", () => ({
+    ...actualUserRepository,
+    getUserRepository: () => repository,
+}))
+
+const { getAllUsers, setUserDisabled, updateUserRole } = await import("@/lib/dal")
+
+const adminAction = spyOn(auditLog, "adminAction").mockResolvedValue(undefined)
+
+afterAll(() => {
+    adminAction.mockRestore()
+    mock.restore()
+})
+
+beforeEach(() => {
+    repository = new InMemoryUserRepository([
+        user(ADMIN, "2026-01-01T10:00:00.000Z", { role: "admin", display_name: "Amal" }),
+        user(MEMBER, "2026-01-02T10:00:00.000Z", { display_name: "Bilal" }),
+        user(OTHER, "2026-01-03T10:00:00.000Z", { role: "moderator", disabled_at: "2026-01-04T10:00:00.000Z" }),
+    ])
+    sessionUserId = ADMIN
+    adminAction.mockClear()
+})
+
+describe("getAllUsers", () => {
+    it("applies role and status filters with pagination", async () => {
+        const page = await getAllUsers({ page: 2, limit: 1 })
+        const disabled = await getAllUsers({ page: 1, limit: 10, status: "disabled" })
+        const admins = await getAllUsers({ page: 1, limit: 10, role: "admin", status: "active" })
+
+        expect(page.count).toBe(3)
+        expect(page.data?.map((u) => u.id)).toEqual([MEMBER])
+        expect(disabled.data?.map((u) => u.id)).toEqual([OTHER])
+        expect(admins.data?.map((u) => u.id)).toEqual([ADMIN])
+    })
+
+    it("does not let search wildcards widen the query", async () => {
+        const result = await getAllUsers({ page: 1, limit: 10, search: "%,role.eq.admin" })
+
+        expect(result.error).toBeNull()
+        expect(result.data).toEqual([])
+    })
+
+    it("rejects invalid filters and non-admin callers", async () => {
+        expect((await getAllUsers({ page: 1, limit: 10, role: "owner" as never })).error).not.toBeNull()
+
+        sessionUserId = MEMBER
+        expect((await getAllUsers()).error).toBe("Insufficient permissions")
+    })
+})
+
+describe("updateUserRole", () => {
+    it("refuses to let an admin demote themselves", async () => {
+        const result = await updateUserRole(ADMIN, "user")
+
+        expect(result.error).toBe("Cannot change your own admin role")
+        expect((await repository.findById(ADMIN))?.role).toBe("admin")
+        expect(adminAction).not.toHaveBeenCalled()
+    })
+
+    it("records the previous and new role", async () => {
+        const result = await updateUserRole(MEMBER, "moderator")
+
+        expect(result.data?.role).toBe("moderator")
+        expect(adminAction).toHaveBeenCalledWith("admin_role_change", ADMIN, MEMBER, { from: "user", to: "moderator" })
+    })
+})
+
+describe("setUserDisabled", () => {
+    it("refuses to let an admin disable themselves", async () => {
+        const result = await setUserDisabled(ADMIN, true)
+
+        expect(result.error).toBe("Cannot disable your own account")
+        expect((await repository.findById(ADMIN))?.disabled_at).toBeNull()
+        expect(adminAction).not.toHaveBeenCalled()
+    })
+
+    it("audits disabling and re-enabling separately", async () => {
+        const disabled = await setUserDisabled(MEMBER, true)
+        const enabled = await setUserDisabled(OTHER, false)
+
+        expect(disabled.data?.disabled_at).not.toBeNull()
+        expect(enabled.data?.disabled_at).toBeNull()
+        expect(adminAction.mock.calls).toEqual([
+            ["admin_user_disable", ADMIN, MEMBER],
+            ["admin_user_enable", ADMIN, OTHER],
+        ])
+    })
+})
@@ -0,0 +1,58 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * AUDIT EXPORT TEST SUITE
+ *
+ * Verifies CSV quoting (including spreadsheet formula guards) and NDJSON output.
+ * Run: bun test tests/lib/
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import { describe, it, expect } from "bun:test"
+import { toAuditCsv, toAuditNdjson } from "@/lib/audit-export"
+import type { AuditLogRecord } from "@/types/audit"
+
+const ENTRY: AuditLogRecord = {
+    id: "e1",
+    timestamp: "2026-01-02T10:00:00.000Z",
+    action: "admin_role_change",
+    severity: "warning",
+    user_id: "admin-1",
+    target_id: "user-1",
+    target_type: "user",
+    ip_address: null,
+    user_agent: 'Mozilla/5.0 "quoted", with comma',
+    metadata: { from: "user", to: "admin" },
+    success: true,
+    error_message: null,
+}
+
+describe("toAuditCsv", () => {
+    it("writes a header row and quotes fields per RFC 4180", () => {
+        const [header, row, trailing] = toAuditCsv([ENTRY]).split("\r\n")
+
+        expect(header).toBe(
+            "id,timestamp,action,severity,user_id,target_type,target_id,ip_address,user_agent,success,error_message,metadata,seq,content_hash,prev_hash,hash"
+        )
+        expect(row).toBe(
+            'e1,2026-01-02T10:00:00.000Z,admin_role_change,warning,admin-1,user,user-1,,"Mozilla/5.0 ""quoted"", with comma",true,,"{""from"":""user"",""to"":""admin""}",,,,'
+        )
+        expect(trailing).toBe("")
+    })
+
+    it("neutralizes cells that a spreadsheet would evaluate", () => {
+        const csv = toAuditCsv([{ ...ENTRY, user_agent: "=HYPERLINK(\"x\")", error_message: "-1+1" }])
+
+        expect(csv).toContain(`"'=HYPERLINK(""x"")"`)
+        expect(csv).toContain(",'-1+1,")
+    })
+})
+
+describe("toAuditNdjson", () => {
+    it("writes one JSON object per line", () => {
+        const lines = toAuditNdjson([ENTRY, { ...ENTRY, id: "e2" }]).trimEnd().split("\n")
+
+        expect(lines).toHaveLength(2)
+        expect(JSON.parse(lines[0])).toEqual(ENTRY)
+        expect(JSON.parse(lines[1]).id).toBe("e2")
+    })
+})
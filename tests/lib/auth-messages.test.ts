@@ -0,0 +1,46 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * AUTH MESSAGES TEST SUITE
+ *
+ * Verifies AuthResult code mapping and open-redirect protection for `next`.
+ * Run: bun test tests/lib/
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import { describe, it, expect } from "bun:test"
+import { getAuthMessageKey, getSafeRedirect, toAuthCode, withNext } from "@/lib/auth-messages"
+
+describe("getAuthMessageKey", () => {
+    it("maps known codes and falls back to the generic message", () => {
+        expect(getAuthMessageKey("INVALID_CREDENTIALS")).toBe("authInvalidCredentials")
+        expect(getAuthMessageKey("SOMETHING_NEW")).toBe("authUnknownError")
+        expect(getAuthMessageKey(undefined)).toBe("authUnknownError")
+    })
+
+    it("reads redirect error params", () => {
+        expect(toAuthCode("oauth_error")).toBe("OAUTH_ERROR")
+        expect(toAuthCode("nope")).toBe("UNKNOWN_ERROR")
+        expect(toAuthCode(undefined)).toBeUndefined()
+    })
+})
+
+describe("getSafeRedirect", () => {
+    it("allows same-origin paths", () => {
+        expect(getSafeRedirect("/me/lists")).toBe("/me/lists")
+        expect(getSafeRedirect("/restaurants?q=sushi")).toBe("/restaurants?q=sushi")
+    })
+
+    it("rejects absolute and protocol-relative URLs", () => {
+        expect(getSafeRedirect("https://evil.example")).toBe("/")
+        expect(getSafeRedirect("//evil.example")).toBe("/")
+        expect(getSafeRedirect("/\\evil.example")).toBe("/")
+        expect(getSafeRedirect(undefined, "/admin")).toBe("/admin")
+        expect(getSafeRedirect(["/a", "/b"])).toBe("/")
+    })
+
+    it("carries the target through auth page links", () => {
+        expect(withNext("/login", "/me/lists")).toBe("/login?next=%2Fme%2Flists")
+        expect(withNext("/login", "/")).toBe("/login")
+        expect(withNext("/login", "//evil.example")).toBe("/login")
+    })
+})
@@ -0,0 +1,85 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * FORMAT TEST SUITE
+ *
+ * Verifies AED prices, distances, ratings and relative dates per language,
+ * with Latin or Arabic-Indic digits.
+ * Run: bun test tests/lib/
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import { describe, it, expect } from "bun:test"
+import {
+    formatAddedDate,
+    formatDistance,
+    formatPriceBucket,
+    formatRating,
+    formatRelativeTime,
+    getFormatLocale,
+    isDigitStyle,
+} from "@/lib/format"
+
+const EN = { language: "en" } as const
+const AR_DIGITS = { language: "ar", digits: "arab" } as const
+
+// Intl separates currency and units with non-breaking spaces and wraps Arabic in bidi marks
+const plain = (text: string) => text.replace(/[\u200e\u200f]/g, "").replace(/\s/g, " ")
+
+describe("getFormatLocale", () => {
+    it("pins the numbering system to the digit style", () => {
+        expect(getFormatLocale(EN)).toBe("en-AE-u-nu-latn")
+        expect(getFormatLocale(AR_DIGITS)).toBe("ar-AE-u-nu-arab")
+        expect(getFormatLocale({ language: "fa", digits: "arab" })).toBe("fa-AE-u-nu-arabext")
+        // Persian would otherwise default to its own digits
+        expect(getFormatLocale({ language: "fa" })).toBe("fa-AE-u-nu-latn")
+    })
+
+    it("recognises the supported digit styles only", () => {
+        expect(isDigitStyle("arab")).toBe(true)
+        expect(isDigitStyle("arabext")).toBe(false)
+        expect(isDigitStyle(undefined)).toBe(false)
+    })
+})
+
+describe("formatPriceBucket", () => {
+    it("renders ranges and open-ended buckets in AED", () => {
+        expect(plain(formatPriceBucket(2, EN))).toBe("AED 10–30")
+        expect(plain(formatPriceBucket(1, EN))).toBe("Under AED 10")
+        expect(plain(formatPriceBucket(7, EN))).toBe("Above AED 500")
+    })
+
+    it("uses Arabic wording and digits when asked", () => {
+        expect(plain(formatPriceBucket(2, AR_DIGITS))).toBe("١٠–٣٠ د.إ.")
+        expect(plain(formatPriceBucket(7, AR_DIGITS))).toBe("أكثر من ٥٠٠ د.إ.")
+    })
+})
+
+describe("formatDistance", () => {
+    it("switches from metres to kilometres at one kilometre", () => {
+        expect(plain(formatDistance(0.5, EN))).toBe("500 m")
+        expect(plain(formatDistance(1.23, EN))).toBe("1.2 km")
+        expect(plain(formatDistance(1.23, AR_DIGITS))).toBe("١٫٢ كم")
+    })
+})
+
+describe("formatRating", () => {
+    it("always shows one decimal place", () => {
+        expect(formatRating(4, EN)).toBe("4.0")
+        expect(formatRating(4.5, { language: "fa", digits: "arab" })).toBe("۴٫۵")
+    })
+})
+
+describe("formatRelativeTime", () => {
+    const now = new Date("2026-01-04T00:00:00Z")
+
+    it("picks the largest whole unit", () => {
+        expect(formatRelativeTime("2026-01-01T00:00:00Z", EN, now)).toBe("3 days ago")
+        expect(formatRelativeTime("2025-12-01T00:00:00Z", EN, now)).toBe("last month")
+        expect(formatRelativeTime("2026-01-03T23:59:30Z", EN, now)).toBe("now")
+    })
+
+    it("prefixes the added label in the active language", () => {
+        expect(formatAddedDate("2026-01-01T00:00:00Z", EN, now)).toBe("Added 3 days ago")
+        expect(formatAddedDate("2026-01-01T00:00:00Z", AR_DIGITS, now)).toBe("أضيف قبل ٣ أيام")
+    })
+})
@@ -0,0 +1,47 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * LANGUAGE NEGOTIATION TEST SUITE
+ *
+ * Verifies supported-code checks and Accept-Language matching used on a
+ * visitor's first request, before they have picked a language.
+ * Run: bun test tests/lib/
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import { describe, it, expect } from "bun:test"
+import { isLanguage, negotiateLanguage } from "@/lib/language.types"
+
+describe("isLanguage", () => {
+    it("accepts the five supported codes only", () => {
+        for (const code of ["ar", "en", "hi", "ur", "fa"]) expect(isLanguage(code)).toBe(true)
+        expect(isLanguage("fr")).toBe(false)
+        expect(isLanguage("AR")).toBe(false)
+        expect(isLanguage(undefined)).toBe(false)
+    })
+})
+
+describe("negotiateLanguage", () => {
+    it("returns null without a header", () => {
+        expect(negotiateLanguage(null)).toBeNull()
+        expect(negotiateLanguage("")).toBeNull()
+    })
+
+    it("matches on the base subtag", () => {
+        expect(negotiateLanguage("ur-PK")).toBe("ur")
+        expect(negotiateLanguage("FA-IR,fa;q=0.9")).toBe("fa")
+    })
+
+    it("prefers higher q-values over header order", () => {
+        expect(negotiateLanguage("en;q=0.5, hi;q=0.8")).toBe("hi")
+        expect(negotiateLanguage("fr-FR, en-GB;q=0.7, ar-AE;q=0.9")).toBe("ar")
+    })
+
+    it("keeps header order for equal q-values", () => {
+        expect(negotiateLanguage("fa, en")).toBe("fa")
+    })
+
+    it("skips unsupported and refused languages", () => {
+        expect(negotiateLanguage("ar;q=0, en;q=0.1")).toBe("en")
+        expect(negotiateLanguage("fr, de;q=0.9, *;q=0.5")).toBeNull()
+    })
+})
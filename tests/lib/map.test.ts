@@ -0,0 +1,80 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * MAP UTILITIES TEST SUITE
+ *
+ * Verifies projection, viewport fitting, clustering and the offline tile fallback.
+ * Run: bun test tests/lib/
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import { describe, it, expect } from "bun:test"
+import {
+    accumulateWheelZoom,
+    clusterMarkers,
+    fitBounds,
+    getTileConfig,
+    getVisibleBounds,
+    isWithinBounds,
+    project,
+    unproject,
+    WHEEL_ZOOM_THRESHOLD,
+} from "@/lib/map"
+
+const dubai = { lat: 25.2048, lng: 55.2708 }
+const marina = { lat: 25.0805, lng: 55.1403 }
+const abuDhabi = { lat: 24.4539, lng: 54.3773 }
+
+describe("projection", () => {
+    it("round-trips coordinates through world pixels", () => {
+        const point = unproject(project(dubai, 12), 12)
+
+        expect(point.lat).toBeCloseTo(dubai.lat, 6)
+        expect(point.lng).toBeCloseTo(dubai.lng, 6)
+    })
+})
+
+describe("fitBounds", () => {
+    it("frames every point inside the visible bounds", () => {
+        const viewport = fitBounds([dubai, marina, abuDhabi], 800, 600)
+        const bounds = getVisibleBounds(viewport, 800, 600)
+
+        expect([dubai, marina, abuDhabi].every((p) => isWithinBounds(p, bounds))).toBe(true)
+        expect(fitBounds([dubai, marina], 800, 600).zoom).toBeGreaterThan(viewport.zoom)
+    })
+})
+
+describe("clusterMarkers", () => {
+    it("merges nearby markers at low zoom and separates them when zoomed in", () => {
+        const points = [dubai, marina, abuDhabi]
+
+        expect(clusterMarkers(points, (p) => p, 6)).toHaveLength(2)
+        expect(clusterMarkers(points, (p) => p, 14)).toHaveLength(3)
+        expect(clusterMarkers(points, (p) => p, 3).flatMap((c) => c.items)).toHaveLength(3)
+    })
+})
+
+describe("getTileConfig", () => {
+    it("uses the static offline fallback under test", () => {
+        expect(getTileConfig().urlTemplate).toBeNull()
+    })
+})
+
+describe("accumulateWheelZoom", () => {
+    it("zooms one level per mouse notch", () => {
+        expect(accumulateWheelZoom(0, -WHEEL_ZOOM_THRESHOLD, 0)).toEqual({ steps: 1, remainder: 0 })
+        expect(accumulateWheelZoom(0, 3, 1)).toEqual({ steps: 0, remainder: 48 })
+    })
+
+    it("adds a trackpad's small deltas up to whole levels", () => {
+        let carried = 0
+        let steps = 0
+        for (let i = 0; i < 30; i++) {
+            const result = accumulateWheelZoom(carried, 10, 0)
+            carried = result.remainder
+            steps += result.steps
+        }
+
+        expect(steps).toBe(-2)
+        expect(carried).toBe(300 - 2 * WHEEL_ZOOM_THRESHOLD)
+    })
+})
@@ -0,0 +1,57 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * RESTAURANT MODEL TEST SUITE
+ *
+ * Verifies slug generation for admin-created restaurants and the limits the
+ * canonical schema puts on image URLs.
+ * Run: bun test tests/lib/
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import { describe, it, expect } from "bun:test"
+import { mockRestaurants } from "@/__mock__/restaurants"
+import { MAX_RESTAURANT_IMAGES, SLUG_PATTERN, restaurantSchema, slugify, uniqueSlug } from "@/types/restaurant"
+
+describe("slugify", () => {
+    it("produces slugs the schema accepts from real-world names", () => {
+        expect(slugify("Café Bateel")).toBe("cafe-bateel")
+        expect(slugify("Zuma (DIFC)")).toBe("zuma-difc")
+        expect(slugify("Bu Qtair's")).toBe("bu-qtairs")
+        expect(slugify("  Al Fanar -- Restaurant & Cafe ")).toBe("al-fanar-restaurant-cafe")
+
+        for (const name of ["Café Bateel", "Zuma (DIFC)", "Bu Qtair's"]) {
+            expect(SLUG_PATTERN.test(slugify(name))).toBe(true)
+        }
+    })
+
+    it("returns an empty slug for names without Latin letters", () => {
+        expect(slugify("مطعم الفنر")).toBe("")
+    })
+})
+
+describe("uniqueSlug", () => {
+    it("suffixes taken slugs with the first free number", () => {
+        expect(uniqueSlug("zuma", ["al-fanar"])).toBe("zuma")
+        expect(uniqueSlug("zuma", ["zuma", "zuma-2"])).toBe("zuma-3")
+    })
+})
+
+describe("restaurantSchema images", () => {
+    const restaurant = mockRestaurants[0]
+
+    it("rejects inline data: URLs", () => {
+        const image = "data:image/png;base64,iVBORw0KGgo="
+
+        expect(restaurantSchema.safeParse({ ...restaurant, image }).success).toBe(false)
+        expect(restaurantSchema.safeParse({ ...restaurant, images: [image] }).success).toBe(false)
+    })
+
+    it("caps URL length and gallery size", () => {
+        const longUrl = `https://example.com/${"a".repeat(2048)}.jpg`
+        const tooMany = Array.from({ length: MAX_RESTAURANT_IMAGES + 1 }, (_, i) => `https://example.com/${i}.jpg`)
+
+        expect(restaurantSchema.safeParse({ ...restaurant, image: longUrl }).success).toBe(false)
+        expect(restaurantSchema.safeParse({ ...restaurant, images: tooMany }).success).toBe(false)
+        expect(restaurantSchema.safeParse(restaurant).success).toBe(true)
+    })
+})
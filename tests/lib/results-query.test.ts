@@ -0,0 +1,121 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * RESULTS QUERY TEST SUITE
+ *
+ * Verifies the results page search params codec round-trips state and
+ * drops values it does not recognise.
+ * Run: bun test tests/lib/
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import { describe, it, expect } from "bun:test"
+import { mockRestaurants } from "@/__mock__/restaurants"
+import { getLocalizedText } from "@/types/restaurant"
+import {
+    applyResultsQuery,
+    countPriceBuckets,
+    getLocationOptions,
+    withKnownDistricts,
+    DEFAULT_RESULTS_QUERY,
+    distanceFrom,
+    resolveOrigin,
+    parseResultsQuery,
+    serializeResultsQuery,
+    type ResultsQuery,
+} from "@/lib/results-query"
+
+describe("results query codec", () => {
+    it("round-trips non-default state through the query string", () => {
+        const query: ResultsQuery = {
+            cuisine: "emirati",
+            meal: "Breakfast",
+            atmosphere: "Fine Dining",
+            price: [2, 5],
+            emirate: "Dubai",
+            district: ["Downtown Dubai", "Palm Jumeirah"],
+            q: "sea view",
+            near: "Abu Dhabi",
+            radius: 10,
+            sort: "price-asc",
+            view: "list",
+        }
+
+        const search = serializeResultsQuery(query).toString()
+
+        expect(parseResultsQuery(new URLSearchParams(search))).toEqual(query)
+    })
+
+    it("omits defaults so the base URL stays clean", () => {
+        expect(serializeResultsQuery(DEFAULT_RESULTS_QUERY).toString()).toBe("")
+    })
+
+    it("drops unknown values and keeps valid ones", () => {
+        const query = parseResultsQuery({
+            cuisine: "martian",
+            price: "3,9,x,3,1",
+            sort: ["name-asc", "oldest"],
+            view: "grid-9",
+        })
+
+        expect(query).toEqual({ ...DEFAULT_RESULTS_QUERY, price: [3, 1], sort: "name-asc" })
+    })
+
+    it("filters and sorts without mutating the input", () => {
+        const input = [...mockRestaurants]
+        const results = applyResultsQuery(input, { ...DEFAULT_RESULTS_QUERY, cuisine: "emirati", sort: "name-asc" })
+
+        expect(results.every((r) => r.cuisine.toLowerCase() === "emirati")).toBe(true)
+        const names = results.map((r) => getLocalizedText(r.name, "en"))
+        expect(names).toEqual([...names].sort((a, b) => a.localeCompare(b)))
+        expect(input).toEqual(mockRestaurants)
+    })
+
+    it("counts price buckets under the other filters only", () => {
+        const query = { ...DEFAULT_RESULTS_QUERY, cuisine: "emirati" as const, price: [7 as const] }
+        const counts = countPriceBuckets(mockRestaurants, query)
+        const emirati = mockRestaurants.filter((r) => r.cuisine.toLowerCase() === "emirati")
+
+        expect(Object.values(counts).reduce((sum, n) => sum + n, 0)).toBe(emirati.length)
+        expect(applyResultsQuery(mockRestaurants, query).every((r) => r.priceBucketId === 7)).toBe(true)
+    })
+
+    it("derives emirate and district options and drops unknown districts", () => {
+        const options = getLocationOptions(mockRestaurants)
+        const dubai = options.find((o) => o.emirate === "Dubai")
+
+        expect(dubai?.districts).toContainEqual({ id: "Downtown Dubai", name: { en: "Downtown Dubai", ar: "وسط مدينة دبي" } })
+        expect(options.every((o) => mockRestaurants.some((r) => r.emirate === o.emirate))).toBe(true)
+
+        const query = parseResultsQuery({ emirate: "Dubai", district: "Downtown Dubai,Corniche,Nowhere" })
+        expect(withKnownDistricts(query, options).district).toEqual(["Downtown Dubai"])
+    })
+
+    it("sorts nearest first and applies the radius once an origin is known", () => {
+        const query: ResultsQuery = { ...DEFAULT_RESULTS_QUERY, near: "Dubai", sort: "nearest", radius: 25 }
+        const origin = resolveOrigin(query)!
+        const distances = applyResultsQuery(mockRestaurants, query).map((r) => distanceFrom(r, origin)!)
+
+        expect(distances.length).toBeGreaterThan(0)
+        expect(distances.every((d) => d <= 25)).toBe(true)
+        expect(distances).toEqual([...distances].sort((a, b) => a - b))
+
+        // Device location is unknown on the server - radius is not applied yet
+        const nearMe = { ...query, near: "me" as const }
+        expect(applyResultsQuery(mockRestaurants, nearMe)).toHaveLength(mockRestaurants.length)
+        expect(applyResultsQuery(mockRestaurants, nearMe, origin)).toHaveLength(distances.length)
+    })
+
+    it("sorts top rated first, breaking ties by review count and leaving unrated last", () => {
+        const [a, b, c, d] = mockRestaurants
+        const input = [
+            { ...a, rating: undefined, reviewCount: undefined },
+            { ...b, rating: 4.5, reviewCount: 2 },
+            { ...c, rating: 4.8, reviewCount: 1 },
+            { ...d, rating: 4.5, reviewCount: 9 },
+        ]
+
+        const results = applyResultsQuery(input, { ...DEFAULT_RESULTS_QUERY, sort: "top-rated" })
+
+        expect(results.map((r) => r.id)).toEqual([c.id, d.id, b.id, a.id])
+    })
+})
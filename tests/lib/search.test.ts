@@ -0,0 +1,64 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * SEARCH TEST SUITE
+ *
+ * Verifies Arabic-aware normalization, ranking and match highlighting.
+ * Run: bun test tests/lib/
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import { describe, it, expect } from "bun:test"
+import { mockRestaurants } from "@/__mock__/restaurants"
+import { findMatchRanges, normalizeSearchText, searchRestaurants, tokenizeSearchText } from "@/lib/search"
+
+describe("normalizeSearchText", () => {
+    it("folds Arabic diacritics, alef/hamza forms and taa marbuta", () => {
+        expect(normalizeSearchText("مَطْعَم")).toBe("مطعم")
+        expect(normalizeSearchText("أحمد إمارة آمنة")).toBe("احمد اماره امنه")
+        expect(normalizeSearchText("مسؤول شاطئ")).toBe("مسوول شاطي")
+    })
+
+    it("lowercases and strips Latin accents", () => {
+        expect(normalizeSearchText("Café CRÊPE")).toBe("cafe crepe")
+    })
+
+    it("tokenizes on punctuation and whitespace", () => {
+        expect(tokenizeSearchText("  Al-Fanar & Cafe ")).toEqual(["al", "fanar", "cafe"])
+    })
+})
+
+describe("searchRestaurants", () => {
+    it("requires every token to match and ranks name matches first", () => {
+        const results = searchRestaurants(mockRestaurants, "downtown")
+
+        expect(results.length).toBeGreaterThan(0)
+        expect(results.every((r) => normalizeSearchText(`${r.name.en} ${r.district?.en} ${r.features?.join(" ")} ${r.description?.en}`).includes("downtown"))).toBe(true)
+        expect(searchRestaurants(mockRestaurants, "fanar")[0].name.en).toBe("Al Fanar Restaurant & Cafe")
+        expect(searchRestaurants(mockRestaurants, "fanar zzzz")).toEqual([])
+    })
+
+    it("matches Arabic names and districts as well as English ones", () => {
+        expect(searchRestaurants(mockRestaurants, "الفنر")[0].slug).toBe("al-fanar")
+        expect(searchRestaurants(mockRestaurants, "وسط دبي").every((r) => r.district?.en === "Downtown Dubai")).toBe(true)
+    })
+
+    it("returns everything for a blank query", () => {
+        expect(searchRestaurants(mockRestaurants, "   ")).toHaveLength(mockRestaurants.length)
+    })
+})
+
+describe("findMatchRanges", () => {
+    it("maps matches back to the original text", () => {
+        const text = "Al Fanar Restaurant & Cafe"
+        const ranges = findMatchRanges(text, "fan caf")
+
+        expect(ranges.map(([start, end]) => text.slice(start, end))).toEqual(["Fan", "Caf"])
+    })
+
+    it("covers diacritics inside an Arabic match", () => {
+        const text = "مَطْعَمُ الفنار"
+        const [[start, end]] = findMatchRanges(text, "مطعم")
+
+        expect(text.slice(start, end)).toBe("مَطْعَم")
+    })
+})
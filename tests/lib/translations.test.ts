@@ -0,0 +1,67 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * TRANSLATIONS TEST SUITE
+ *
+ * Verifies placeholder interpolation, English fallback for the partial
+ * catalogs, plural form selection (Arabic has six categories) and emirate
+ * labels.
+ * Run: bun test tests/lib/
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import { describe, it, expect } from "bun:test"
+import { getEmirateLabel, t, tPlural } from "@/lib/translations"
+
+describe("t", () => {
+    it("fills placeholders from params", () => {
+        expect(t("goToSlide", "en", { number: 3 })).toBe("Go to slide 3")
+        expect(t("goToSlide", "ar", { number: 3 })).toBe("الانتقال إلى الصورة 3")
+    })
+
+    it("leaves placeholders without a param untouched", () => {
+        expect(t("goToSlide", "en")).toBe("Go to slide {number}")
+    })
+
+    it("falls back to English per key in partial catalogs", () => {
+        expect(t("navRestaurants", "hi")).toBe("रेस्तरां")
+        expect(t("auditLog", "hi")).toBe("Audit Log")
+        expect(t("auditLog", "fa")).toBe("Audit Log")
+    })
+})
+
+describe("tPlural", () => {
+    it("uses one and other in English", () => {
+        expect(tPlural("restaurantCount", 1, "en")).toBe("1 restaurant")
+        expect(tPlural("restaurantCount", 0, "en")).toBe("0 restaurants")
+        expect(tPlural("restaurantCount", 12, "en")).toBe("12 restaurants")
+    })
+
+    it("uses all six Arabic categories", () => {
+        expect(tPlural("restaurantCount", 0, "ar")).toBe("لا توجد مطاعم")
+        expect(tPlural("restaurantCount", 1, "ar")).toBe("مطعم واحد")
+        expect(tPlural("restaurantCount", 2, "ar")).toBe("مطعمان")
+        expect(tPlural("restaurantCount", 5, "ar")).toBe("5 مطاعم")
+        expect(tPlural("restaurantCount", 11, "ar")).toBe("11 مطعمًا")
+        expect(tPlural("restaurantCount", 100, "ar")).toBe("100 مطعم")
+    })
+
+    it("treats zero as singular in Hindi but plural in Urdu", () => {
+        expect(tPlural("reviewCount", 0, "hi")).toBe("0 समीक्षा")
+        expect(tPlural("reviewCount", 2, "hi")).toBe("2 समीक्षाएँ")
+        expect(tPlural("reviewCount", 0, "ur")).toBe("0 جائزے")
+    })
+
+    it("picks the category from the number, not its last digit", () => {
+        // 103 is "few" and 111 is "many" in Arabic
+        expect(tPlural("reviewCount", 103, "ar")).toBe("103 تقييمات")
+        expect(tPlural("reviewCount", 111, "ar")).toBe("111 تقييمًا")
+    })
+})
+
+describe("getEmirateLabel", () => {
+    it("translates known emirates and passes other values through", () => {
+        expect(getEmirateLabel("Abu Dhabi", "ar")).toBe("أبوظبي")
+        expect(getEmirateLabel("Abu Dhabi", "en")).toBe("Abu Dhabi")
+        expect(getEmirateLabel("Al Ain", "ar")).toBe("Al Ain")
+    })
+})
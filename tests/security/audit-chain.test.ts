@@ -0,0 +1,152 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * AUDIT HASH CHAIN TEST SUITE
+ *
+ * Verifies that edits, deletions and reordering break the chain, and that
+ * checkpoint signatures cannot be forged without the secret.
+ * Run: bun test tests/security/audit-chain.test.ts
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import { describe, it, expect } from "bun:test"
+import {
+    GENESIS_HASH,
+    canonicalJson,
+    hashAuditContent,
+    linkHash,
+    normalizeIpAddress,
+    signCheckpoint,
+    verifyAuditChain,
+    verifyCheckpoint,
+    type ChainedAuditEntry,
+} from "@/lib/security/audit-chain"
+import type { AuditLogEntry } from "@/types/audit"
+
+const SECRET = "test-checkpoint-secret"
+
+function entry(index: number): AuditLogEntry {
+    return {
+        timestamp: new Date(Date.UTC(2026, 0, 1, 10, index)).toISOString(),
+        action: "data_update",
+        severity: "info",
+        user_id: null,
+        target_type: "restaurant",
+        target_id: `r${index}`,
+        ip_address: null,
+        user_agent: null,
+        metadata: { changes: { name: `Name ${index}` } },
+        success: true,
+    }
+}
+
+/** Link entries the way the database trigger does */
+function buildChain(count: number): ChainedAuditEntry[] {
+    const rows: ChainedAuditEntry[] = []
+    let prevHash = GENESIS_HASH
+    for (let i = 1; i <= count; i++) {
+        const contentHash = hashAuditContent(entry(i))
+        const hash = linkHash(prevHash, contentHash)
+        rows.push({ ...entry(i), id: `id-${i}`, seq: i, content_hash: contentHash, prev_hash: prevHash, hash })
+        prevHash = hash
+    }
+    return rows
+}
+
+describe("hashAuditContent", () => {
+    it("ignores key order and storage round trips", () => {
+        const original = entry(1)
+        const stored = {
+            ...original,
+            timestamp: original.timestamp.replace(".000Z", "+00:00"),
+            metadata: JSON.parse(canonicalJson(original.metadata)),
+        }
+
+        expect(hashAuditContent(stored)).toBe(hashAuditContent(original))
+    })
+
+    it("hashes an IPv6 address the same after INET rewrites it", () => {
+        const original = { ...entry(1), ip_address: "2001:DB8:0:0:0:0:0:1" }
+        const stored = { ...original, ip_address: "2001:db8::1" }
+
+        expect(hashAuditContent(stored)).toBe(hashAuditContent(original))
+    })
+
+    it("changes when any content field changes", () => {
+        const original = entry(1)
+
+        expect(hashAuditContent({ ...original, success: false })).not.toBe(hashAuditContent(original))
+        expect(hashAuditContent({ ...original, metadata: { changes: { name: "Other" } } })).not.toBe(
+            hashAuditContent(original)
+        )
+    })
+})
+
+describe("normalizeIpAddress", () => {
+    it("canonicalizes the first forwarded address", () => {
+        expect(normalizeIpAddress("203.0.113.7, 10.0.0.1")).toBe("203.0.113.7")
+        expect(normalizeIpAddress("203.0.113.7:443")).toBe("203.0.113.7")
+        expect(normalizeIpAddress("[2001:DB8::0:1]:443")).toBe("2001:db8::1")
+        expect(normalizeIpAddress("::FFFF:203.0.113.7")).toBe("203.0.113.7")
+        expect(normalizeIpAddress("fe80::1%eth0")).toBe("fe80::1")
+    })
+
+    it("drops values INET would reject", () => {
+        expect(normalizeIpAddress("unknown")).toBeNull()
+        expect(normalizeIpAddress("999.1.1.1")).toBeNull()
+        expect(normalizeIpAddress("")).toBeNull()
+        expect(normalizeIpAddress(null)).toBeNull()
+    })
+})
+
+describe("verifyAuditChain", () => {
+    it("accepts an intact chain", () => {
+        const rows = buildChain(5)
+        expect(verifyAuditChain(rows)).toEqual({ ok: true, checked: 5, head: { seq: 5, hash: rows[4].hash } })
+    })
+
+    it("verifies incrementally from a checkpoint", () => {
+        const rows = buildChain(5)
+        expect(verifyAuditChain(rows.slice(3), { seq: 3, hash: rows[2].hash }).ok).toBe(true)
+    })
+
+    it("reports an edited entry", () => {
+        const rows = buildChain(5)
+        rows[2] = { ...rows[2], metadata: { changes: { name: "Tampered" } } }
+
+        expect(verifyAuditChain(rows)).toMatchObject({ ok: false, seq: 3, reason: "content_hash", checked: 2 })
+    })
+
+    it("reports an edited entry whose hashes were recomputed", () => {
+        const rows = buildChain(5)
+        const tampered = { ...rows[2], metadata: {} }
+        tampered.content_hash = hashAuditContent(tampered)
+        tampered.hash = linkHash(tampered.prev_hash, tampered.content_hash)
+        rows[2] = tampered
+
+        // The next entry still points at the original hash
+        expect(verifyAuditChain(rows)).toMatchObject({ ok: false, seq: 4, reason: "prev_hash" })
+    })
+
+    it("reports a deleted entry", () => {
+        const rows = buildChain(5)
+        rows.splice(1, 1)
+
+        expect(verifyAuditChain(rows)).toMatchObject({ ok: false, seq: 3, reason: "sequence" })
+    })
+})
+
+describe("checkpoints", () => {
+    it("verifies with the signing secret only", () => {
+        const checkpoint = signCheckpoint({ seq: 5, hash: "a".repeat(64) }, SECRET, "2026-01-01T12:00:00.000Z")
+
+        expect(verifyCheckpoint(checkpoint, SECRET)).toBe(true)
+        expect(verifyCheckpoint(checkpoint, "wrong-secret")).toBe(false)
+        expect(verifyCheckpoint({ ...checkpoint, seq: 4 }, SECRET)).toBe(false)
+    })
+
+    it("survives the database's timestamp format", () => {
+        const checkpoint = signCheckpoint({ seq: 5, hash: "a".repeat(64) }, SECRET, "2026-01-01T12:00:00.000Z")
+
+        expect(verifyCheckpoint({ ...checkpoint, created_at: "2026-01-01T12:00:00+00:00" }, SECRET)).toBe(true)
+    })
+})
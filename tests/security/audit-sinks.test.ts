@@ -0,0 +1,149 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * AUDIT SINKS TEST SUITE
+ *
+ * Verifies fan-out, retry with backoff, dead-lettering and replay.
+ * Run: bun test tests/security/audit-sinks.test.ts
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test"
+import { existsSync } from "node:fs"
+import { mkdtemp, readFile, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { AuditDispatcher, FileAuditSink, getBackoffDelay, type AuditSink } from "@/lib/security/audit-sinks"
+import type { AuditLogEntry } from "@/types/audit"
+
+const ENTRY: AuditLogEntry = {
+    timestamp: "2026-01-02T10:00:00.000Z",
+    action: "auth_login",
+    severity: "info",
+    user_id: null,
+    metadata: {},
+    success: true,
+}
+
+const RETRY = { attempts: 3, baseDelayMs: 100, maxDelayMs: 250 }
+
+/** Records what it receives and fails the first `failures` writes */
+class FlakySink implements AuditSink {
+    received: AuditLogEntry[] = []
+    calls = 0
+
+    constructor(
+        readonly name: string,
+        private failures = 0
+    ) {}
+
+    async write(entries: readonly AuditLogEntry[]): Promise<void> {
+        this.calls++
+        if (this.failures-- > 0) throw new Error(`${this.name} unavailable`)
+        this.received.push(...entries)
+    }
+}
+
+describe("getBackoffDelay", () => {
+    it("doubles each attempt up to the cap", () => {
+        expect([1, 2, 3, 4].map((attempt) => getBackoffDelay(attempt, RETRY))).toEqual([100, 200, 250, 250])
+    })
+})
+
+describe("AuditDispatcher", () => {
+    let dir: string
+    let deadLetterPath: string
+    let delays: number[]
+
+    const createDispatcher = (sinks: AuditSink[]) =>
+        new AuditDispatcher(sinks, {
+            retry: RETRY,
+            deadLetterPath,
+            wait: async (ms) => {
+                delays.push(ms)
+            },
+        })
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), "audit-sinks-"))
+        deadLetterPath = join(dir, "dead-letter.ndjson")
+        delays = []
+    })
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true })
+    })
+
+    it("fans out to every sink", async () => {
+        const a = new FlakySink("a")
+        const b = new FlakySink("b")
+        await createDispatcher([a, b]).dispatch([ENTRY])
+
+        expect(a.received).toEqual([ENTRY])
+        expect(b.received).toEqual([ENTRY])
+    })
+
+    it("retries with backoff before giving up", async () => {
+        const sink = new FlakySink("db", 2)
+        await createDispatcher([sink]).dispatch([ENTRY])
+
+        expect(sink.calls).toBe(3)
+        expect(delays).toEqual([100, 200])
+        expect(sink.received).toEqual([ENTRY])
+        expect(existsSync(deadLetterPath)).toBe(false)
+    })
+
+    it("dead-letters only the failing sink's batch", async () => {
+        const healthy = new FlakySink("file")
+        const broken = new FlakySink("db", Number.POSITIVE_INFINITY)
+        await createDispatcher([healthy, broken]).dispatch([ENTRY])
+
+        expect(healthy.received).toEqual([ENTRY])
+        const letters = (await readFile(deadLetterPath, "utf8")).trim().split("\n").map((line) => JSON.parse(line))
+        expect(letters).toHaveLength(1)
+        expect(letters[0]).toMatchObject({ sink: "db", error: "db unavailable", entries: [ENTRY] })
+    })
+
+    it("replays dead letters to the sink that rejected them", async () => {
+        await createDispatcher([new FlakySink("db", Number.POSITIVE_INFINITY)]).dispatch([ENTRY])
+
+        // Next process: the database is back
+        const db = new FlakySink("db")
+        const other = new FlakySink("stdout")
+        const result = await createDispatcher([db, other]).replayDeadLetters()
+
+        expect(result).toEqual({ replayed: 1, failed: 0 })
+        expect(db.received).toEqual([ENTRY])
+        expect(other.received).toEqual([])
+        expect(existsSync(deadLetterPath)).toBe(false)
+    })
+
+    it("keeps batches that fail again on replay", async () => {
+        await createDispatcher([new FlakySink("db", Number.POSITIVE_INFINITY)]).dispatch([ENTRY])
+
+        const result = await createDispatcher([new FlakySink("db", Number.POSITIVE_INFINITY)]).replayDeadLetters()
+
+        expect(result).toEqual({ replayed: 0, failed: 1 })
+        expect(await readFile(deadLetterPath, "utf8")).toContain('"sink":"db"')
+    })
+
+    it("resolves to nothing replayed without a dead-letter file", async () => {
+        expect(await createDispatcher([new FlakySink("db")]).replayDeadLetters()).toEqual({ replayed: 0, failed: 0 })
+    })
+})
+
+describe("FileAuditSink", () => {
+    it("appends one JSON entry per line", async () => {
+        const dir = await mkdtemp(join(tmpdir(), "audit-file-"))
+        const path = join(dir, "nested", "audit.ndjson")
+        try {
+            const sink = new FileAuditSink(path)
+            await sink.write([ENTRY])
+            await sink.write([{ ...ENTRY, action: "auth_logout" }])
+
+            const lines = (await readFile(path, "utf8")).trim().split("\n").map((line) => JSON.parse(line))
+            expect(lines.map((entry) => entry.action)).toEqual(["auth_login", "auth_logout"])
+        } finally {
+            await rm(dir, { recursive: true, force: true })
+        }
+    })
+})
@@ -0,0 +1,33 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * ROLE PERMISSIONS TEST SUITE
+ *
+ * Verifies least privilege: admin-only permissions never leak to other roles.
+ * Run: bun test tests/security/permissions.test.ts
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import { describe, it, expect } from "bun:test"
+import { getRolePermissions, PERMISSIONS } from "@/lib/security/permissions"
+
+describe("getRolePermissions", () => {
+    it("grants admins every permission", () => {
+        expect(getRolePermissions("admin")).toEqual(Object.values(PERMISSIONS))
+    })
+
+    it("lets moderators moderate but not manage restaurants or users", () => {
+        const permissions = getRolePermissions("moderator")
+
+        expect(permissions).toContain(PERMISSIONS.MODERATION_MANAGE)
+        expect(permissions).not.toContain(PERMISSIONS.RESTAURANTS_MANAGE)
+        expect(permissions).not.toContain(PERMISSIONS.USERS_MANAGE)
+        expect(permissions).not.toContain(PERMISSIONS.AUDIT_VIEW)
+    })
+
+    it("falls back to the user role for unknown roles", () => {
+        const permissions = getRolePermissions("superuser")
+
+        expect(permissions).toEqual(getRolePermissions("user"))
+        expect(permissions).not.toContain(PERMISSIONS.MODERATION_MANAGE)
+    })
+})
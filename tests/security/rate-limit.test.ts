@@ -0,0 +1,181 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * RATE LIMIT TEST SUITE
+ *
+ * Verifies both algorithms against a fake clock, LRU eviction in the memory
+ * store, per-route policy selection and the RateLimit-* headers.
+ * Run: bun test tests/security/rate-limit.test.ts
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import { describe, it, expect, beforeEach } from "bun:test"
+import {
+    SlidingWindowLimiter,
+    TokenBucketLimiter,
+    getRateLimitHeaders,
+    resolveRateLimitPolicy,
+    type RateLimiter,
+} from "@/lib/security/rate-limit"
+import { MemoryRateLimitStore } from "@/lib/security/rate-limit-store"
+
+const RULE = { limit: 3, windowMs: 60_000 }
+
+async function consumeTimes(limiter: RateLimiter, times: number) {
+    const results = []
+    for (let i = 0; i < times; i++) results.push(await limiter.consume("client", RULE))
+    return results
+}
+
+describe("SlidingWindowLimiter", () => {
+    let now: number
+    let limiter: SlidingWindowLimiter
+
+    beforeEach(() => {
+        now = 120_000 // start of a window
+        const clock = () => now
+        limiter = new SlidingWindowLimiter(new MemoryRateLimitStore(100, clock), clock)
+    })
+
+    it("allows up to the limit, then rejects", async () => {
+        const results = await consumeTimes(limiter, 4)
+
+        expect(results.map((r) => r.allowed)).toEqual([true, true, true, false])
+        expect(results.map((r) => r.remaining)).toEqual([2, 1, 0, 0])
+        expect(results[3].retryAfterMs).toBeGreaterThan(0)
+    })
+
+    it("keeps counting the previous window at the boundary", async () => {
+        await consumeTimes(limiter, 3)
+
+        // A fixed window would reset here and allow a burst of 3 more
+        now += 60_000
+        expect((await limiter.consume("client", RULE)).allowed).toBe(false)
+
+        // Two thirds of the way in, the previous window weighs 1 request
+        now += 40_000
+        expect((await limiter.consume("client", RULE)).allowed).toBe(true)
+    })
+
+    it("suggests a retry time after which the request is allowed", async () => {
+        await consumeTimes(limiter, 3)
+        const rejected = await limiter.consume("client", RULE)
+
+        now += rejected.retryAfterMs - 1
+        expect((await limiter.consume("client", RULE)).allowed).toBe(false)
+        now += 1
+        expect((await limiter.consume("client", RULE)).allowed).toBe(true)
+    })
+
+    it("tracks clients separately", async () => {
+        await consumeTimes(limiter, 3)
+        expect((await limiter.consume("other", RULE)).allowed).toBe(true)
+    })
+})
+
+describe("TokenBucketLimiter", () => {
+    let now: number
+    let limiter: TokenBucketLimiter
+
+    beforeEach(() => {
+        now = 0
+        const clock = () => now
+        limiter = new TokenBucketLimiter(new MemoryRateLimitStore(100, clock), clock)
+    })
+
+    it("allows a burst of the bucket size", async () => {
+        const results = await consumeTimes(limiter, 4)
+
+        expect(results.map((r) => r.allowed)).toEqual([true, true, true, false])
+        // One token refills every 20s
+        expect(results[3].retryAfterMs).toBe(20_000)
+    })
+
+    it("refills evenly over the window", async () => {
+        await consumeTimes(limiter, 3)
+
+        now += 19_999
+        expect((await limiter.consume("client", RULE)).allowed).toBe(false)
+        now += 1
+        expect((await limiter.consume("client", RULE)).allowed).toBe(true)
+        expect((await limiter.consume("client", RULE)).allowed).toBe(false)
+    })
+
+    it("never fills beyond capacity", async () => {
+        now += 10 * RULE.windowMs
+        const results = await consumeTimes(limiter, 4)
+
+        expect(results.map((r) => r.allowed)).toEqual([true, true, true, false])
+    })
+})
+
+describe("MemoryRateLimitStore", () => {
+    it("evicts the least recently used key", async () => {
+        const store = new MemoryRateLimitStore(2)
+        await store.compareAndSet("a", null, "1", 60_000)
+        await store.compareAndSet("b", null, "1", 60_000)
+        await store.get("a")
+        await store.compareAndSet("c", null, "1", 60_000)
+
+        expect(store.size).toBe(2)
+        expect(await store.get("a")).toBe("1")
+        expect(await store.get("b")).toBeNull()
+    })
+
+    it("expires keys after their ttl", async () => {
+        let now = 0
+        const store = new MemoryRateLimitStore(10, () => now)
+        await store.compareAndSet("a", null, "1", 1_000)
+
+        now = 999
+        expect(await store.get("a")).toBe("1")
+        now = 1_000
+        expect(await store.get("a")).toBeNull()
+    })
+
+    it("rejects a stale compare-and-set", async () => {
+        const store = new MemoryRateLimitStore()
+        await store.compareAndSet("a", null, "1", 60_000)
+
+        expect(await store.compareAndSet("a", null, "2", 60_000)).toBe(false)
+        expect(await store.compareAndSet("a", "1", "2", 60_000)).toBe(true)
+        expect(await store.get("a")).toBe("2")
+    })
+})
+
+describe("resolveRateLimitPolicy", () => {
+    it("is strictest for auth and admin mutations", () => {
+        expect(resolveRateLimitPolicy("/login", "POST").id).toBe("auth")
+        expect(resolveRateLimitPolicy("/auth/callback", "GET").id).toBe("default")
+        expect(resolveRateLimitPolicy("/admin/users", "POST").id).toBe("admin-mutation")
+        expect(resolveRateLimitPolicy("/admin/users", "GET").id).toBe("default")
+        expect(resolveRateLimitPolicy("/api/language", "POST").id).toBe("api")
+        expect(resolveRateLimitPolicy("/restaurants", "GET").id).toBe("default")
+    })
+})
+
+describe("getRateLimitHeaders", () => {
+    it("describes the quota, with Retry-After only on rejection", () => {
+        const allowed = getRateLimitHeaders(RULE, {
+            allowed: true,
+            limit: 3,
+            remaining: 2,
+            resetMs: 1_500,
+            retryAfterMs: 0,
+        })
+        expect(allowed).toEqual({
+            "RateLimit-Policy": "3;w=60",
+            "RateLimit-Limit": "3",
+            "RateLimit-Remaining": "2",
+            "RateLimit-Reset": "2",
+        })
+
+        const rejected = getRateLimitHeaders(RULE, {
+            allowed: false,
+            limit: 3,
+            remaining: 0,
+            resetMs: 60_000,
+            retryAfterMs: 200,
+        })
+        expect(rejected["Retry-After"]).toBe("1")
+    })
+})
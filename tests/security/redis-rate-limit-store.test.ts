@@ -0,0 +1,196 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════════
+ * REDIS RATE LIMIT STORE TEST SUITE
+ *
+ * Runs the Redis-protocol store against a local stand-in server that speaks
+ * the RESP subset the store uses (AUTH, SELECT, GET, EVAL and EVALSHA of the
+ * compare-and-set script), so no Redis install is needed.
+ * Run: bun test tests/security/redis-rate-limit-store.test.ts
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "bun:test"
+import { createHash } from "node:crypto"
+import { createServer, type AddressInfo, type Server, type Socket } from "node:net"
+import { SlidingWindowLimiter } from "@/lib/security/rate-limit"
+import { RedisRateLimitStore } from "@/lib/security/rate-limit-store"
+import { RespClient, encodeCommand, parseReply } from "@/lib/security/resp-client"
+
+const PASSWORD = "stand-in-secret"
+
+// ─── Stand-in Server ─────────────────────────────────────────────────────────
+
+function bulk(value: string | null): string {
+    return value === null ? "$-1\r\n" : `$${Buffer.byteLength(value)}\r\n${value}\r\n`
+}
+
+/**
+ * Single-database RESP server. Scripts are not interpreted: any EVAL runs the
+ * store's compare-and-set, and EVALSHA only works once EVAL has cached it.
+ */
+function startStandIn(): Promise<Server> {
+    const data = new Map<string, { value: string; expiresAt: number }>()
+    const scripts = new Set<string>()
+
+    const read = (key: string) => {
+        const entry = data.get(key)
+        if (entry && entry.expiresAt <= Date.now()) data.delete(key)
+        return data.get(key)?.value ?? null
+    }
+
+    const server = createServer((socket) => {
+        let buffer = Buffer.alloc(0)
+        let authed = false
+
+        const compareAndSet = ([key, hasExpected, expected, value, ttl]: string[]): string => {
+            const current = read(key)
+            if (hasExpected === "1" ? current !== expected : current !== null) return ":0\r\n"
+
+            data.set(key, { value, expiresAt: Date.now() + Number(ttl) })
+            return ":1\r\n"
+        }
+
+        const handle = (command: string[]): string => {
+            const name = command[0].toUpperCase()
+            if (name === "AUTH") {
+                authed = command.at(-1) === PASSWORD
+                return authed ? "+OK\r\n" : "-WRONGPASS invalid password\r\n"
+            }
+            if (!authed) return "-NOAUTH Authentication required.\r\n"
+
+            switch (name) {
+                case "SELECT":
+                    return "+OK\r\n"
+                case "GET":
+                    return bulk(read(command[1]))
+                case "EVAL":
+                    scripts.add(createHash("sha1").update(command[1]).digest("hex"))
+                    return compareAndSet(command.slice(3))
+                case "EVALSHA":
+                    if (!scripts.has(command[1])) return "-NOSCRIPT No matching script. Please use EVAL.\r\n"
+                    return compareAndSet(command.slice(3))
+                default:
+                    return `-ERR unknown command '${command[0]}'\r\n`
+            }
+        }
+
+        socket.on("data", (chunk) => {
+            buffer = Buffer.concat([buffer, chunk])
+            for (;;) {
+                const request = parseReply(buffer)
+                if (!request) return
+                buffer = buffer.subarray(request.next)
+                socket.write(handle(request.value as string[]))
+            }
+        })
+    })
+
+    return new Promise((resolve) => server.listen(0, "127.0.0.1", () => resolve(server)))
+}
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe("RedisRateLimitStore", () => {
+    let server: Server
+    let url: string
+    const clients: RespClient[] = []
+
+    const createStore = () => {
+        const client = new RespClient(url)
+        clients.push(client)
+        return new RedisRateLimitStore(client)
+    }
+
+    beforeAll(async () => {
+        server = await startStandIn()
+        url = `redis://:${PASSWORD}@127.0.0.1:${(server.address() as AddressInfo).port}/0`
+    })
+
+    afterAll(async () => {
+        for (const client of clients) client.close()
+        await new Promise((resolve) => server.close(resolve))
+    })
+
+    it("round-trips values with compare-and-set", async () => {
+        const store = createStore()
+
+        expect(await store.get("a")).toBeNull()
+        expect(await store.compareAndSet("a", null, "1", 60_000)).toBe(true)
+        expect(await store.compareAndSet("a", null, "2", 60_000)).toBe(false)
+        expect(await store.compareAndSet("a", "1", "2", 60_000)).toBe(true)
+        expect(await store.get("a")).toBe("2")
+    })
+
+    it("lets exactly one of two racing instances win", async () => {
+        const [first, second] = [createStore(), createStore()]
+
+        const results = await Promise.all([
+            first.compareAndSet("race", null, "first", 60_000),
+            second.compareAndSet("race", null, "second", 60_000),
+        ])
+
+        expect(results.filter(Boolean)).toHaveLength(1)
+    })
+
+    it("shares limits between instances", async () => {
+        const rule = { limit: 2, windowMs: 60_000 }
+        const [first, second] = [new SlidingWindowLimiter(createStore()), new SlidingWindowLimiter(createStore())]
+
+        expect((await first.consume("shared", rule)).allowed).toBe(true)
+        expect((await second.consume("shared", rule)).allowed).toBe(true)
+        expect((await first.consume("shared", rule)).allowed).toBe(false)
+    })
+
+    it("pipelines concurrent operations on one connection", async () => {
+        const store = createStore()
+
+        const results = await Promise.all(
+            Array.from({ length: 20 }, (_, i) => store.compareAndSet(`pipelined:${i}`, null, String(i), 60_000))
+        )
+
+        expect(results.every(Boolean)).toBe(true)
+        expect(await store.get("pipelined:7")).toBe("7")
+    })
+
+    it("surfaces authentication failures", async () => {
+        const port = (server.address() as AddressInfo).port
+        const client = new RespClient(`redis://:wrong@127.0.0.1:${port}`)
+        clients.push(client)
+
+        await expect(client.command("GET", "a")).rejects.toThrow("WRONGPASS")
+    })
+})
+
+describe("RespClient", () => {
+    it("rejects pending commands when the server sends an unknown reply type", async () => {
+        const server = createServer((socket) => socket.on("data", () => socket.write("?garbage\r\n")))
+        await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+        const client = new RespClient(`redis://127.0.0.1:${(server.address() as AddressInfo).port}`)
+
+        await expect(client.command("GET", "a")).rejects.toThrow("Unexpected reply type")
+
+        client.close()
+        await new Promise((resolve) => server.close(resolve))
+    })
+
+    it("gives up on a connection that never completes", async () => {
+        // Accepts TCP but never answers the TLS handshake, like a host that drops packets
+        const sockets: Socket[] = []
+        const server = createServer((socket) => sockets.push(socket))
+        await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+        const client = new RespClient(`rediss://127.0.0.1:${(server.address() as AddressInfo).port}`)
+
+        const started = Date.now()
+        await expect(client.command("GET", "a")).rejects.toThrow("Connection timed out")
+        expect(Date.now() - started).toBeLessThan(3000)
+
+        for (const socket of sockets) socket.destroy()
+        await new Promise((resolve) => server.close(resolve))
+    })
+})
+
+describe("encodeCommand", () => {
+    it("encodes bulk strings by byte length", () => {
+        expect(encodeCommand(["SET", "k", "é"])).toBe("*3\r\n$3\r\nSET\r\n$1\r\nk\r\n$2\r\né\r\n")
+    })
+})
@@ -0,0 +1,68 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   AUDIT TYPES - Shape of audit log entries
+
+   Written by the AuditLogger in lib/security/audit.ts and read back by the
+   /admin/audit viewer. Free of server imports so filters can be rendered
+   on the client.
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+export const AUDIT_ACTIONS = [
+  // Authentication events
+  "auth_login",
+  "auth_logout",
+  "auth_signup",
+  "auth_password_reset",
+  "auth_password_change",
+  "auth_failed_login",
+  // User actions
+  "profile_view",
+  "profile_update",
+  "profile_delete",
+  // Data modifications
+  "data_create",
+  "data_update",
+  "data_delete",
+  "data_export",
+  // Admin actions
+  "admin_role_change",
+  "admin_user_disable",
+  "admin_user_enable",
+  "admin_user_delete",
+  "admin_settings_update",
+  "admin_impersonation",
+  // Security events
+  "security_rate_limit",
+  "security_csrf_blocked",
+  "security_unauthorized",
+  "security_suspicious",
+] as const
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number]
+
+export const AUDIT_SEVERITIES = ["info", "warning", "error", "critical"] as const
+
+export type AuditSeverity = (typeof AUDIT_SEVERITIES)[number]
+
+export interface AuditLogEntry {
+  id?: string
+  timestamp: string
+  action: AuditAction
+  severity: AuditSeverity
+  user_id: string | null
+  target_id?: string | null
+  target_type?: string | null
+  ip_address: string | null
+  user_agent: string | null
+  metadata: Record<string, unknown>
+  success: boolean
+  error_message?: string | null
+  /** SHA-256 of the content above, stamped by the AuditLogger */
+  content_hash?: string
+  /** Hash-chain columns assigned by the database on insert (lib/security/audit-chain.ts) */
+  seq?: number | null
+  prev_hash?: string | null
+  hash?: string | null
+}
+
+/** An entry as stored - the database assigns the id */
+export type AuditLogRecord = AuditLogEntry & { id: string }
@@ -16,6 +16,24 @@ declare global {
       readonly NEXT_PUBLIC_SUPABASE_ANON_KEY?: string
       readonly SUPABASE_SERVICE_ROLE_KEY?: string
 
+      // Restaurant data source: "supabase" | "memory" (defaults to memory without Supabase)
+      readonly DATA_SOURCE?: string
+
+      // Audit delivery: comma list of "supabase" | "file" | "stdout" (see lib/security/audit-sinks.ts)
+      readonly AUDIT_SINKS?: string
+      readonly AUDIT_LOG_FILE?: string
+      // Dead-letter file for undeliverable audit batches, or "off"
+      readonly AUDIT_DEAD_LETTER_FILE?: string
+      // HMAC key for signed audit chain checkpoints - never stored in the database
+      readonly AUDIT_CHECKPOINT_SECRET?: string
+
+      // Shared rate-limit state: redis:// or rediss:// URL (in-memory per instance when unset)
+      readonly RATE_LIMIT_REDIS_URL?: string
+
+      // Map tiles: URL template with {z}/{x}/{y}; unset or "offline" draws the static fallback
+      readonly NEXT_PUBLIC_MAP_TILE_URL?: string
+      readonly NEXT_PUBLIC_MAP_ATTRIBUTION?: string
+
       // Node environment
       readonly NODE_ENV: "development" | "production" | "test"
     }
@@ -0,0 +1,93 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   MODERATION TYPES - Generic queue for user-submitted content
+
+   Any content type can enqueue items; the decision is mirrored onto the
+   content itself (e.g. a review's `status`) so public reads stay simple.
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+import { z } from "zod"
+
+/**
+ * Content types that produce moderation items
+ */
+export const MODERATION_CONTENT_TYPES = ["review"] as const
+export type ModerationContentType = (typeof MODERATION_CONTENT_TYPES)[number]
+
+/**
+ * Lifecycle of a moderated item - only "approved" content is public
+ */
+export const MODERATION_STATUSES = ["pending", "approved", "rejected", "hidden"] as const
+export type ModerationStatus = (typeof MODERATION_STATUSES)[number]
+
+export const MODERATION_DECISIONS = ["approve", "reject", "hide"] as const
+export type ModerationDecision = (typeof MODERATION_DECISIONS)[number]
+
+export const DECISION_STATUS: Record<ModerationDecision, ModerationStatus> = {
+  approve: "approved",
+  reject: "rejected",
+  hide: "hidden",
+}
+
+/**
+ * Why content was rejected or hidden - required for those decisions
+ */
+export const MODERATION_REASON_CODES = [
+  "spam",
+  "offensive",
+  "off_topic",
+  "personal_info",
+  "conflict_of_interest",
+  "other",
+] as const
+export type ModerationReasonCode = (typeof MODERATION_REASON_CODES)[number]
+
+/**
+ * Hours a new item may wait before it breaches its SLA
+ */
+export const MODERATION_SLA_HOURS: Record<ModerationContentType, number> = {
+  review: 24,
+}
+
+/**
+ * Queued item. `preview` is a snapshot taken at submission so the queue can
+ * be worked without loading every content type.
+ */
+export const moderationItemSchema = z.object({
+  id: z.string().min(1),
+  contentType: z.enum(MODERATION_CONTENT_TYPES),
+  contentId: z.string().min(1),
+  status: z.enum(MODERATION_STATUSES),
+  submittedBy: z.string().min(1),
+  preview: z.object({
+    title: z.string(),
+    body: z.string(),
+    // Where the content appears, e.g. the restaurant name
+    context: z.string().optional(),
+    rating: z.number().optional(),
+  }),
+  reasonCode: z.enum(MODERATION_REASON_CODES).optional(),
+  note: z.string().optional(),
+  assignedTo: z.string().optional(),
+  decidedBy: z.string().optional(),
+  decidedAt: z.string().datetime().optional(),
+  createdAt: z.string().datetime(),
+  dueAt: z.string().datetime(),
+})
+
+export type ModerationItem = z.infer<typeof moderationItemSchema>
+
+/**
+ * SLA deadline for an item submitted at `submittedAt`
+ */
+export function getModerationDueAt(contentType: ModerationContentType, submittedAt: Date = new Date()): string {
+  return new Date(submittedAt.getTime() + MODERATION_SLA_HOURS[contentType] * 60 * 60 * 1000).toISOString()
+}
+
+/**
+ * Time left before the SLA is breached (negative once overdue).
+ * Decided items no longer run against the clock.
+ */
+export function getSlaRemainingMs(item: Pick<ModerationItem, "status" | "dueAt">, now: number = Date.now()): number | null {
+  if (item.status !== "pending") return null
+  return new Date(item.dueAt).getTime() - now
+}
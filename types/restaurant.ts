@@ -1,23 +1,34 @@
 /* ═══════════════════════════════════════════════════════════════════════════════
    RESTAURANT TYPES - AED Price System
+
+   `restaurantSchema` is the canonical restaurant model: the TypeScript types
+   below are inferred from it, and the DAL maps database rows onto it.
    ═══════════════════════════════════════════════════════════════════════════════ */
 
+import { z } from "zod"
+import type { Language } from "@/lib/language.types"
+
 /**
  * UAE Emirates for location filtering
  */
-export type UAEEmirate =
-  | "Dubai"
-  | "Abu Dhabi"
-  | "Sharjah"
-  | "Ajman"
-  | "Umm Al Quwain"
-  | "Ras Al Khaimah"
-  | "Fujairah"
+export const UAE_EMIRATES = [
+  "Dubai",
+  "Abu Dhabi",
+  "Sharjah",
+  "Ajman",
+  "Umm Al Quwain",
+  "Ras Al Khaimah",
+  "Fujairah",
+] as const
+
+export type UAEEmirate = (typeof UAE_EMIRATES)[number]
 
 /**
  * AED Price Buckets - Numeric ranges only
  */
-export type PriceBucketId = 1 | 2 | 3 | 4 | 5 | 6 | 7
+export const PRICE_BUCKET_IDS = [1, 2, 3, 4, 5, 6, 7] as const
+
+export type PriceBucketId = (typeof PRICE_BUCKET_IDS)[number]
 
 /**
  * Price bucket definition with AED ranges
@@ -26,35 +37,21 @@ export interface PriceBucket {
   id: PriceBucketId
   minPrice: number
   maxPrice: number | null // null = open-ended (luxury)
-  labelEn: string
-  labelAr: string
 }
 
 /**
- * All price buckets
+ * All price buckets, in AED; labels come from formatPriceBucket in lib/format
  */
 export const PRICE_BUCKETS: readonly PriceBucket[] = [
-  { id: 1, minPrice: 0, maxPrice: 10, labelEn: "Under 10 AED", labelAr: "أقل من 10 دراهم" },
-  { id: 2, minPrice: 10, maxPrice: 30, labelEn: "10–30 AED", labelAr: "10–30 درهم" },
-  { id: 3, minPrice: 30, maxPrice: 50, labelEn: "30–50 AED", labelAr: "30–50 درهم" },
-  { id: 4, minPrice: 50, maxPrice: 100, labelEn: "50–100 AED", labelAr: "50–100 درهم" },
-  { id: 5, minPrice: 100, maxPrice: 200, labelEn: "100–200 AED", labelAr: "100–200 درهم" },
-  { id: 6, minPrice: 200, maxPrice: 400, labelEn: "200–400 AED", labelAr: "200–400 درهم" },
-  { id: 7, minPrice: 500, maxPrice: null, labelEn: "Above 500 AED", labelAr: "أكثر من 500 درهم" },
+  { id: 1, minPrice: 0, maxPrice: 10 },
+  { id: 2, minPrice: 10, maxPrice: 30 },
+  { id: 3, minPrice: 30, maxPrice: 50 },
+  { id: 4, minPrice: 50, maxPrice: 100 },
+  { id: 5, minPrice: 100, maxPrice: 200 },
+  { id: 6, minPrice: 200, maxPrice: 400 },
+  { id: 7, minPrice: 500, maxPrice: null },
 ] as const
 
-/**
- * Get price bucket label (always AED)
- */
-export function getPriceLabel(
-  bucketId: PriceBucketId,
-  locale: "en" | "ar" = "ar"
-): string {
-  const bucket = PRICE_BUCKETS.find((b) => b.id === bucketId)
-  if (!bucket) return ""
-  return locale === "ar" ? bucket.labelAr : bucket.labelEn
-}
-
 /**
  * Get price bucket by min/max price values
  */
@@ -71,106 +68,205 @@ export function getPriceBucket(minPrice: number, maxPrice: number | null): Price
 /**
  * Cuisine types
  */
-export type CuisineType =
-  | "Emirati"
-  | "Arabic"
-  | "Lebanese"
-  | "Indian"
-  | "Pakistani"
-  | "Iranian"
-  | "Chinese"
-  | "Japanese"
-  | "Thai"
-  | "Italian"
-  | "French"
-  | "American"
-  | "Mexican"
-  | "Seafood"
-  | "Grill"
-  | "International"
-  | "emirati"
-  | "arabic"
-  | "lebanese"
-  | "indian"
-  | "pakistani"
-  | "chinese"
-  | "japanese"
-  | "thai"
-  | "italian"
-  | "seafood"
-  | "international"
+export const CUISINE_TYPES = [
+  "Emirati",
+  "Arabic",
+  "Lebanese",
+  "Indian",
+  "Pakistani",
+  "Iranian",
+  "Chinese",
+  "Japanese",
+  "Thai",
+  "Italian",
+  "French",
+  "American",
+  "Mexican",
+  "Seafood",
+  "Grill",
+  "International",
+  "emirati",
+  "arabic",
+  "lebanese",
+  "indian",
+  "pakistani",
+  "chinese",
+  "japanese",
+  "thai",
+  "italian",
+  "seafood",
+  "international",
+] as const
+
+export type CuisineType = (typeof CUISINE_TYPES)[number]
 
 /**
  * Meal types
  */
-export type MealType = "Breakfast" | "Lunch" | "Dinner"
+export const MEAL_TYPES = ["Breakfast", "Lunch", "Dinner"] as const
+
+export type MealType = (typeof MEAL_TYPES)[number]
 
 /**
  * Atmosphere types
  */
-export type AtmosphereType =
-  | "Romantic"
-  | "Casual"
-  | "Fine Dining"
-  | "Outdoor"
-  | "Family Friendly"
-  | "Live Music"
-  | "View"
+export const ATMOSPHERE_TYPES = [
+  "Romantic",
+  "Casual",
+  "Fine Dining",
+  "Outdoor",
+  "Family Friendly",
+  "Live Music",
+  "View",
+] as const
+
+export type AtmosphereType = (typeof ATMOSPHERE_TYPES)[number]
+
+/**
+ * Restaurant text entered per content language. Either language may be left
+ * out; getLocalizedText falls back to the other one.
+ */
+export const localizedTextSchema = z.object({
+  en: z.string().optional(),
+  ar: z.string().optional(),
+})
+
+export type LocalizedText = z.infer<typeof localizedTextSchema>
+
+/** Languages restaurant content is entered in (the admin form has a tab for each) */
+export const CONTENT_LANGUAGES = ["en", "ar"] as const satisfies readonly (keyof LocalizedText)[]
+
+export type ContentLanguage = (typeof CONTENT_LANGUAGES)[number]
+
+export function hasLocalizedText(text: LocalizedText | undefined): boolean {
+  return Boolean(text?.en || text?.ar)
+}
+
+/**
+ * Text for the page language. Arabic pages fall back to English; every other
+ * language reads English first, then Arabic.
+ */
+export function getLocalizedText(text: LocalizedText | undefined, lang: Language): string {
+  if (!text) return ""
+  return (lang === "ar" ? text.ar || text.en : text.en || text.ar) ?? ""
+}
 
 /**
  * Map coordinates
  */
-export interface MapCoordinates {
-  lat: number
-  lng: number
+export const mapCoordinatesSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+})
+
+export type MapCoordinates = z.infer<typeof mapCoordinatesSchema>
+
+/**
+ * Slug format: lowercase ASCII words joined by single dashes
+ */
+export const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/
+
+/**
+ * Slug for a name: accents stripped, apostrophes dropped and any other run of
+ * punctuation or spaces collapsed into one dash. Empty for non-Latin names.
+ *
+ * @example
+ * ```ts
+ * slugify("Zuma (DIFC)")  // "zuma-difc"
+ * slugify("Bu Qtair's")   // "bu-qtairs"
+ * ```
+ */
+export function slugify(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/['’]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+}
+
+/**
+ * `base`, or the first of `base-2`, `base-3`, … not already taken
+ */
+export function uniqueSlug(base: string, taken: Iterable<string>): string {
+  const used = new Set(taken)
+  if (!used.has(base)) return base
+
+  let suffix = 2
+  while (used.has(`${base}-${suffix}`)) suffix++
+  return `${base}-${suffix}`
+}
+
+/** Gallery size limit - every listing query loads the full image list */
+export const MAX_RESTAURANT_IMAGES = 20
+
+const MAX_URL_LENGTH = 2048
+
+/**
+ * Hosted images only: inline data: URLs would put whole files into the
+ * restaurant row
+ */
+export function isHostedImageUrl(url: string): boolean {
+  return /^https?:\/\//.test(url) && url.length <= MAX_URL_LENGTH
 }
 
+// Only web links - rejects javascript:, data: and other schemes
+const webUrl = z.string().max(MAX_URL_LENGTH).url().regex(/^https?:\/\//, "Invalid URL")
+const imageUrl = z.string().max(MAX_URL_LENGTH).url().regex(/^https?:\/\//, "Invalid image URL")
+
 /**
  * Restaurant Data - With AED pricing
  */
-export interface ShadiRestaurant {
+export const restaurantSchema = z.object({
   // Identity
-  id: string
-  slug: string
-  name: string
+  id: z.string().min(1),
+  slug: z.string().regex(SLUG_PATTERN, "Invalid slug"),
+  name: localizedTextSchema.refine(hasLocalizedText, "Name is required in English or Arabic"),
 
   // Images
-  image: string
-  images: string[]
+  image: imageUrl,
+  images: z.array(imageUrl).max(MAX_RESTAURANT_IMAGES),
 
   // Price - AED system
-  priceBucketId: PriceBucketId
-  minPrice: number
-  maxPrice: number | null
+  priceBucketId: z.literal(PRICE_BUCKET_IDS),
+  minPrice: z.number().min(0),
+  maxPrice: z.number().min(0).nullable(),
 
   // Cuisine/Category
-  cuisine: CuisineType
-  description?: string
+  cuisine: z.enum(CUISINE_TYPES),
+  description: localizedTextSchema.optional(),
 
   // Meal Types (for filtering)
-  meals?: MealType[]
+  meals: z.array(z.enum(MEAL_TYPES)).optional(),
 
   // Atmosphere (for filtering)
-  atmosphere?: AtmosphereType[]
+  atmosphere: z.array(z.enum(ATMOSPHERE_TYPES)).optional(),
 
   // Location
-  emirate?: UAEEmirate
-  district?: string
-  address?: string
-  mapCoordinates?: MapCoordinates
+  emirate: z.enum(UAE_EMIRATES).optional(),
+  district: localizedTextSchema.optional(),
+  address: z.string().optional(),
+  mapCoordinates: mapCoordinatesSchema.optional(),
 
   // Features
-  features?: string[]
-  isHotelRestaurant?: boolean
-  hasDelivery?: boolean
+  features: z.array(z.string()).optional(),
+  isHotelRestaurant: z.boolean().optional(),
+  hasDelivery: z.boolean().optional(),
 
   // Contact
-  phone?: string
-  website?: string
+  phone: z.string().optional(),
+  website: webUrl.optional(),
 
   // Added date for sorting
-  addedDate?: string
-}
+  addedDate: z.string().datetime().optional(),
+
+  // Reviews - aggregated by the DAL, never written directly
+  rating: z.number().min(0).max(5).optional(),
+  reviewCount: z.number().int().min(0).optional(),
+})
+
+export type ShadiRestaurant = z.infer<typeof restaurantSchema>
 
 /**
  * Restaurant Card Props
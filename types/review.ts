@@ -0,0 +1,45 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   REVIEW TYPES - User reviews and ratings
+
+   `reviewRecordSchema` is the canonical stored review; `reviewSchema` in
+   lib/security/validation.ts validates what users may submit.
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+import { z } from "zod"
+import { MODERATION_STATUSES } from "./moderation"
+
+/**
+ * Stored review
+ */
+export const reviewRecordSchema = z.object({
+  id: z.string().min(1),
+  restaurantId: z.string().min(1),
+  userId: z.string().min(1),
+  // Display name captured when the review was written
+  authorName: z.string().optional(),
+  rating: z.number().int().min(1).max(5),
+  title: z.string().min(1),
+  content: z.string().min(1),
+  // Only approved reviews are public and count towards the rating
+  status: z.enum(MODERATION_STATUSES),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+})
+
+export type Review = z.infer<typeof reviewRecordSchema>
+
+/**
+ * Aggregate rating for one restaurant
+ */
+export interface RatingSummary {
+  restaurantId: string
+  average: number
+  count: number
+}
+
+/**
+ * Round an average rating to one decimal for display and storage
+ */
+export function roundRating(average: number): number {
+  return Math.round(average * 10) / 10
+}
@@ -0,0 +1,25 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   SAVED RESTAURANT TYPES - Favorites and named shortlists
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+/**
+ * Named shortlist, e.g. "Date night" or "Family brunch"
+ */
+export interface Shortlist {
+  id: string
+  name: string
+  /** In the order they were added */
+  restaurantIds: string[]
+  createdAt: string
+  updatedAt: string
+}
+
+/**
+ * Everything a user has saved
+ */
+export interface SavedRestaurants {
+  favorites: string[]
+  shortlists: Shortlist[]
+}
+
+export const EMPTY_SAVED_RESTAURANTS: SavedRestaurants = { favorites: [], shortlists: [] }